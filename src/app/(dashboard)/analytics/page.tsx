@@ -11,6 +11,7 @@ interface AnalyticsData {
   totalMessages: number
   contactsByStatus: Record<string, number>
   appointmentsByStatus: Record<string, number>
+  cancelledByContact: number
   conversionRate: number
 }
 
@@ -46,6 +47,10 @@ export default function AnalyticsPage() {
           appointmentsByStatus[a.status] = (appointmentsByStatus[a.status] || 0) + 1
         })
 
+        const cancelledByContact = appointments.filter((a: { status: string; cancelled_by: string | null }) =>
+          a.status === 'cancelled' && a.cancelled_by === 'contact'
+        ).length
+
         const bookedCount = appointments.filter((a: { status: string }) =>
           ['confirmed', 'completed'].includes(a.status)
         ).length
@@ -56,6 +61,7 @@ export default function AnalyticsPage() {
           totalMessages: 0, // Would need a messages API
           contactsByStatus: {},
           appointmentsByStatus,
+          cancelledByContact,
           conversionRate: totalContacts > 0 ? (bookedCount / totalContacts) * 100 : 0,
         })
       } catch (error) {
@@ -176,6 +182,11 @@ export default function AnalyticsPage() {
                       }`}
                     />
                     <span className="capitalize text-foreground">{status.replace('_', ' ')}</span>
+                    {status === 'cancelled' && analytics.cancelledByContact > 0 && (
+                      <span className="text-xs text-muted-foreground">
+                        ({analytics.cancelledByContact} by the lead)
+                      </span>
+                    )}
                   </div>
                   <span className="font-medium text-foreground">{count}</span>
                 </div>
@@ -431,6 +431,11 @@ export function AppointmentsPageContent() {
                         >
                           {STATUS_STYLES[appointment.status]?.label || appointment.status}
                         </Badge>
+                        {appointment.status === 'confirmed' && new Date(appointment.end_time) < new Date() && (
+                          <Badge variant="warning" title="Mark it completed or a no-show to send the follow-up messages">
+                            Awaiting outcome
+                          </Badge>
+                        )}
                         {appointment.notes && (
                           <span title="Has notes">
                             <FileText className="w-4 h-4 text-muted-foreground" />
@@ -7,7 +7,9 @@ import { createClient } from '@/lib/supabase/client'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
 import {
   Select,
   SelectContent,
@@ -16,8 +18,16 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { ArrowLeft } from 'lucide-react'
-import { Client, BusinessHours } from '@/types/database'
+import { Client, BusinessHours, DateOverride } from '@/types/database'
 import { BrandResearchWizard, BrandData } from '@/components/brand-research-wizard'
+import { DateOverridesEditor } from '@/components/date-overrides-editor'
+import {
+  getScheduleExceptions,
+  HOLIDAY_REGION_LABELS,
+  HolidayRegion,
+} from '@/lib/calendar/holidays'
+import { MESSAGING_PROVIDER_TYPES, MESSAGING_PROVIDER_LABELS } from '@/lib/messaging/provider-options'
+import { formatPoolEntries } from '@/lib/messaging/number-pool'
 
 const TIMEZONES = [
   'Europe/London',
@@ -33,6 +43,8 @@ const TIMEZONES = [
 
 const DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const
 
+const NO_HOLIDAY_REGION = 'none'
+
 interface EditClientPageProps {
   params: { id: string }
 }
@@ -48,6 +60,9 @@ export default function EditClientPage({ params }: EditClientPageProps) {
     name: '',
     timezone: 'Europe/London',
     twilio_phone_number: '',
+    pool_phone_numbers: '',
+    local_presence: false,
+    messaging_provider: 'twilio' as Client['messaging_provider'],
     business_hours: {
       monday: { start: '09:00', end: '17:00' },
       tuesday: { start: '09:00', end: '17:00' },
@@ -57,6 +72,11 @@ export default function EditClientPage({ params }: EditClientPageProps) {
       saturday: null,
       sunday: null,
     } as BusinessHours,
+    holiday_region: NO_HOLIDAY_REGION as string,
+    date_overrides: [] as DateOverride[],
+    slot_hold_minutes: 15,
+    notify_leads_of_calendar_changes: false,
+    review_url: '',
   })
 
   useEffect(() => {
@@ -79,7 +99,15 @@ export default function EditClientPage({ params }: EditClientPageProps) {
         name: clientData.name,
         timezone: clientData.timezone,
         twilio_phone_number: clientData.twilio_phone_number || '',
+        pool_phone_numbers: formatPoolEntries(clientData),
+        local_presence: clientData.local_presence ?? false,
+        messaging_provider: clientData.messaging_provider || 'twilio',
         business_hours: clientData.business_hours as BusinessHours,
+        holiday_region: clientData.holiday_region || NO_HOLIDAY_REGION,
+        date_overrides: getScheduleExceptions(clientData).dateOverrides || [],
+        slot_hold_minutes: clientData.slot_hold_minutes ?? 15,
+        notify_leads_of_calendar_changes: clientData.notify_leads_of_calendar_changes ?? false,
+        review_url: clientData.review_url || '',
       })
       setLoading(false)
     }
@@ -124,7 +152,11 @@ export default function EditClientPage({ params }: EditClientPageProps) {
       const response = await fetch(`/api/clients/${params.id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          pool_phone_numbers: formData.pool_phone_numbers.split(/[\n,]/),
+          holiday_region: formData.holiday_region === NO_HOLIDAY_REGION ? null : formData.holiday_region,
+        }),
       })
 
       if (!response.ok) {
@@ -228,16 +260,75 @@ export default function EditClientPage({ params }: EditClientPageProps) {
                 </Select>
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="twilio_phone_number">Primary Phone Number</Label>
+                  <Input
+                    id="twilio_phone_number"
+                    placeholder="+1234567890"
+                    value={formData.twilio_phone_number}
+                    onChange={(e) =>
+                      setFormData({ ...formData, twilio_phone_number: e.target.value })
+                    }
+                  />
+                </div>
+
+                <div className="grid gap-2">
+                  <Label htmlFor="messaging_provider">Messaging Provider</Label>
+                  <Select
+                    value={formData.messaging_provider}
+                    onValueChange={(value: Client['messaging_provider']) =>
+                      setFormData({ ...formData, messaging_provider: value })
+                    }
+                  >
+                    <SelectTrigger id="messaging_provider">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MESSAGING_PROVIDER_TYPES.map((provider) => (
+                        <SelectItem key={provider} value={provider}>
+                          {MESSAGING_PROVIDER_LABELS[provider]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground -mt-2">
+                Texts go out from this number through its provider (the default for pool numbers too). Point each
+                provider&apos;s inbound and status webhooks at /api/webhooks/[provider]/inbound and /status.
+              </p>
+
               <div className="grid gap-2">
-                <Label htmlFor="twilio_phone_number">Twilio Phone Number</Label>
-                <Input
-                  id="twilio_phone_number"
-                  placeholder="+1234567890"
-                  value={formData.twilio_phone_number}
-                  onChange={(e) =>
-                    setFormData({ ...formData, twilio_phone_number: e.target.value })
+                <Label htmlFor="pool_phone_numbers">Number Pool</Label>
+                <Textarea
+                  id="pool_phone_numbers"
+                  placeholder={'+12125550100\n+13105550100 vonage'}
+                  rows={3}
+                  value={formData.pool_phone_numbers}
+                  onChange={(e) => setFormData({ ...formData, pool_phone_numbers: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Extra numbers, one per line - add the provider after a number that isn&apos;t on the one above
+                  (e.g. &quot;+13105550100 vonage&quot;). New leads are spread across these and the primary number,
+                  and each lead keeps the number that first messaged them.
+                </p>
+              </div>
+
+              <div className="flex items-start gap-3">
+                <Checkbox
+                  id="local_presence"
+                  checked={formData.local_presence}
+                  onCheckedChange={(checked) =>
+                    setFormData({ ...formData, local_presence: checked === true })
                   }
                 />
+                <div className="grid gap-1">
+                  <Label htmlFor="local_presence">Local presence</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Message each lead from a number with their area code when there is one (North American numbers).
+                  </p>
+                </div>
               </div>
             </div>
 
@@ -275,6 +366,81 @@ export default function EditClientPage({ params }: EditClientPageProps) {
               ))}
             </div>
 
+            <div className="grid gap-2">
+              <Label htmlFor="holiday_region">Public Holidays</Label>
+              <Select
+                value={formData.holiday_region}
+                onValueChange={(value) => setFormData({ ...formData, holiday_region: value })}
+              >
+                <SelectTrigger id="holiday_region">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_HOLIDAY_REGION}>Don&apos;t close on public holidays</SelectItem>
+                  {(Object.keys(HOLIDAY_REGION_LABELS) as HolidayRegion[]).map((region) => (
+                    <SelectItem key={region} value={region}>
+                      {HOLIDAY_REGION_LABELS[region]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                No outreach is sent and no appointments are offered on these days
+              </p>
+            </div>
+
+            <DateOverridesEditor
+              overrides={formData.date_overrides}
+              onChange={(date_overrides) => setFormData({ ...formData, date_overrides })}
+            />
+
+            <div className="grid gap-2">
+              <Label htmlFor="slot_hold_minutes">Hold Offered Slots (minutes)</Label>
+              <Input
+                id="slot_hold_minutes"
+                type="number"
+                min={0}
+                className="w-32"
+                value={formData.slot_hold_minutes}
+                onChange={(e) =>
+                  setFormData({ ...formData, slot_hold_minutes: Math.max(0, parseInt(e.target.value) || 0) })
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Times offered to a lead aren&apos;t offered to anyone else for this long. 0 turns holds off.
+              </p>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="review_url">Review Link</Label>
+              <Input
+                id="review_url"
+                type="url"
+                placeholder="https://g.page/r/..."
+                value={formData.review_url}
+                onChange={(e) => setFormData({ ...formData, review_url: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Where leads are asked to leave a review after a completed appointment ({'{review_link}'} in workflow messages).
+              </p>
+            </div>
+
+            <div className="flex items-start gap-3">
+              <Checkbox
+                id="notify_leads_of_calendar_changes"
+                checked={formData.notify_leads_of_calendar_changes}
+                onCheckedChange={(checked) =>
+                  setFormData({ ...formData, notify_leads_of_calendar_changes: checked === true })
+                }
+              />
+              <div className="grid gap-1">
+                <Label htmlFor="notify_leads_of_calendar_changes">Text leads about calendar changes</Label>
+                <p className="text-xs text-muted-foreground">
+                  When an appointment is moved or deleted directly in the calendar, let the lead know by text.
+                </p>
+              </div>
+            </div>
+
             {error && (
               <div className="text-sm text-red-600 bg-red-50 p-2 rounded">{error}</div>
             )}
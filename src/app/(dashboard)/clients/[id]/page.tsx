@@ -7,11 +7,27 @@ import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { ArrowLeft, Pencil, Calendar, Clock, Phone, CheckCircle2, LinkIcon } from 'lucide-react'
 import { BusinessHours, Client, Workflow, CalendarConnection, Appointment, Contact } from '@/types/database'
+import { TeamCard, HostWithConnection } from './team-card'
+import {
+  getPublicHolidays,
+  getScheduleExceptions,
+  HOLIDAY_REGION_LABELS,
+  isHolidayRegion,
+} from '@/lib/calendar/holidays'
+import { MESSAGING_PROVIDER_LABELS } from '@/lib/messaging/provider-options'
+import { getNumberProviderType, getPoolNumbers } from '@/lib/messaging/number-pool'
 
 type AppointmentWithContact = Appointment & {
   contacts: Pick<Contact, 'first_name' | 'last_name' | 'phone'>
 }
 
+const CALENDAR_PROVIDER_NAMES: Record<string, string> = {
+  google: 'Google Calendar',
+  outlook: 'Outlook Calendar',
+  caldav: 'CalDAV Calendar',
+  ics: 'Calendar Subscription',
+}
+
 interface ClientPageProps {
   params: { id: string }
 }
@@ -40,16 +56,26 @@ export default async function ClientPage({ params }: ClientPageProps) {
   const workflows = (workflowsData || []) as Workflow[]
   const workflowIds = workflows.map(w => w.id)
 
-  // Fetch calendar connection
+  // Fetch calendar connection (client-level; team members' calendars hang off hosts)
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const { data: calendarData } = await (supabase as any)
     .from('calendar_connections')
     .select('*')
     .eq('client_id', params.id)
-    .single() as { data: CalendarConnection | null }
+    .is('host_id', null)
+    .maybeSingle() as { data: CalendarConnection | null }
 
   const calendarConnection = calendarData
 
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: hostsData } = await (supabase as any)
+    .from('hosts')
+    .select('*, calendar_connections(id, provider)')
+    .eq('client_id', params.id)
+    .order('created_at', { ascending: true }) as { data: HostWithConnection[] | null }
+
+  const hosts = hostsData || []
+
   // Fetch appointments for this client
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const { data: appointmentsData } = await (supabase as any)
@@ -78,6 +104,29 @@ export default async function ClientPage({ params }: ClientPageProps) {
   }
 
   const businessHours = client.business_hours as BusinessHours
+  const poolNumbers = getPoolNumbers(client)
+
+  // Next few dates that differ from the weekly hours (overrides replace holidays on the same date)
+  const today = new Intl.DateTimeFormat('en-CA', { timeZone: client.timezone }).format(new Date())
+  const { dateOverrides = [] } = getScheduleExceptions(client)
+  const currentYear = parseInt(today.slice(0, 4), 10)
+  const holidayRegion = isHolidayRegion(client.holiday_region) ? client.holiday_region : null
+  const upcomingHolidays = holidayRegion
+    ? [currentYear, currentYear + 1].flatMap((year) => getPublicHolidays(holidayRegion, year))
+    : []
+  const upcomingExceptions = [
+    ...dateOverrides.map((o) => ({
+      date: o.date,
+      label: o.label || (o.hours ? 'Special hours' : 'Closed'),
+      hours: o.hours,
+    })),
+    ...upcomingHolidays
+      .filter((h) => !dateOverrides.some((o) => o.date === h.date))
+      .map((h) => ({ date: h.date, label: h.name, hours: null })),
+  ]
+    .filter((e) => e.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(0, 5)
 
   return (
     <div className="p-8">
@@ -152,10 +201,12 @@ export default async function ClientPage({ params }: ClientPageProps) {
                   </div>
                   <div>
                     <p className="font-medium text-foreground">
-                      {calendarConnection.provider === 'google' ? 'Google Calendar' : 'Calendar'} Connected
+                      {CALENDAR_PROVIDER_NAMES[calendarConnection.provider] || 'Calendar'} Connected
                     </p>
                     <p className="text-sm text-muted-foreground">
                       Calendar ID: {calendarConnection.calendar_id || 'Primary'}
+                      {calendarConnection.busy_calendar_ids?.length > 0 &&
+                        ` (+${calendarConnection.busy_calendar_ids.length} checked for conflicts)`}
                     </p>
                   </div>
                 </div>
@@ -197,6 +248,13 @@ export default async function ClientPage({ params }: ClientPageProps) {
           </CardContent>
         </Card>
 
+        <TeamCard
+          clientId={client.id}
+          appUrl={process.env.NEXT_PUBLIC_APP_URL || 'https://your-app.com'}
+          hostAssignment={client.host_assignment}
+          hosts={hosts}
+        />
+
         {/* Upcoming Appointments Card */}
         <Card className="lg:col-span-2">
           <CardHeader className="flex flex-row items-center justify-between">
@@ -286,12 +344,24 @@ export default async function ClientPage({ params }: ClientPageProps) {
               </div>
             </div>
 
-            {client.twilio_phone_number && (
+            {poolNumbers.length > 0 && (
               <div className="flex items-center gap-3">
                 <Phone className="w-5 h-5 text-muted-foreground" />
                 <div>
-                  <p className="text-sm text-muted-foreground">Twilio Phone</p>
-                  <p className="font-medium text-foreground">{client.twilio_phone_number}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {poolNumbers.length > 1 ? 'Phone numbers' : 'Phone'} ({MESSAGING_PROVIDER_LABELS[client.messaging_provider || 'twilio']})
+                    {poolNumbers.length > 1 && client.local_presence && ' · local presence'}
+                  </p>
+                  <p className="font-medium text-foreground">
+                    {poolNumbers
+                      .map((n) => {
+                        const providerType = getNumberProviderType(client, n)
+                        return providerType && providerType !== client.messaging_provider
+                          ? `${n} (${MESSAGING_PROVIDER_LABELS[providerType]})`
+                          : n
+                      })
+                      .join(', ')}
+                  </p>
                 </div>
               </div>
             )}
@@ -313,6 +383,25 @@ export default async function ClientPage({ params }: ClientPageProps) {
                   </div>
                 ))}
               </div>
+              {(holidayRegion || upcomingExceptions.length > 0) && (
+                <div className="mt-4 space-y-2 text-sm">
+                  {holidayRegion && (
+                    <p className="text-muted-foreground">
+                      Closed on {HOLIDAY_REGION_LABELS[holidayRegion]} public holidays
+                    </p>
+                  )}
+                  {upcomingExceptions.map((exception) => (
+                    <div key={exception.date} className="flex justify-between gap-4">
+                      <span className="text-muted-foreground">
+                        {exception.date} &middot; {exception.label}
+                      </span>
+                      <span className="text-foreground whitespace-nowrap">
+                        {exception.hours ? `${exception.hours.start} - ${exception.hours.end}` : 'Closed'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
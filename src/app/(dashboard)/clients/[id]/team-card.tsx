@@ -0,0 +1,187 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Loader2, Plus, Trash2, Users } from 'lucide-react'
+import type { Client, Host } from '@/types/database'
+
+export type HostWithConnection = Host & {
+  calendar_connections: { id: string; provider: string }[]
+}
+
+interface TeamCardProps {
+  clientId: string
+  appUrl: string
+  hostAssignment: Client['host_assignment']
+  hosts: HostWithConnection[]
+}
+
+/**
+ * Team members whose calendars share this client's bookings
+ * With no hosts, bookings go on the client's own calendar connection
+ */
+export function TeamCard({ clientId, appUrl, hostAssignment, hosts }: TeamCardProps) {
+  const router = useRouter()
+  const [name, setName] = useState('')
+  const [email, setEmail] = useState('')
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const request = async (key: string, url: string, init: RequestInit) => {
+    setBusy(key)
+    setError(null)
+
+    try {
+      const response = await fetch(url, {
+        headers: { 'Content-Type': 'application/json' },
+        ...init,
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Request failed')
+      }
+      router.refresh()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+      return false
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const addHost = async () => {
+    const added = await request('add', `/api/clients/${clientId}/hosts`, {
+      method: 'POST',
+      body: JSON.stringify({ name, email }),
+    })
+    if (added) {
+      setName('')
+      setEmail('')
+    }
+  }
+
+  const hostUrl = (hostId: string) => `/api/clients/${clientId}/hosts/${hostId}`
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            Team
+          </CardTitle>
+          <CardDescription>
+            {hosts.length > 0
+              ? 'Leads are offered any time a connected team member is free'
+              : 'Add team members to share bookings across several calendars'}
+          </CardDescription>
+        </div>
+        {hosts.length > 0 && (
+          <Select
+            value={hostAssignment}
+            onValueChange={(value) =>
+              request('strategy', `/api/clients/${clientId}`, {
+                method: 'PUT',
+                body: JSON.stringify({ host_assignment: value }),
+              })
+            }
+            disabled={busy === 'strategy'}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="round_robin">Round robin</SelectItem>
+              <SelectItem value="least_loaded">Least loaded</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {hosts.length > 0 && (
+          <div className="space-y-3">
+            {hosts.map((host) => {
+              const connection = host.calendar_connections?.[0]
+              return (
+                <div
+                  key={host.id}
+                  className="flex items-center justify-between gap-4 p-3 bg-secondary/50 rounded-lg border border-border/50"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-foreground truncate">{host.name}</p>
+                      {!host.is_active && <Badge variant="secondary">Paused</Badge>}
+                      {connection ? (
+                        <Badge variant="success">{connection.provider}</Badge>
+                      ) : (
+                        <Badge variant="outline">No calendar</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground break-all">
+                      {appUrl}/connect/calendar/{clientId}?host={host.id}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <Button variant="outline" size="sm" asChild>
+                      <Link href={`/connect/calendar/${clientId}?host=${host.id}`} target="_blank">
+                        {connection ? 'Reconnect' : 'Connect'}
+                      </Link>
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busy === host.id}
+                      onClick={() =>
+                        request(host.id, hostUrl(host.id), {
+                          method: 'PATCH',
+                          body: JSON.stringify({ is_active: !host.is_active }),
+                        })
+                      }
+                    >
+                      {host.is_active ? 'Pause' : 'Resume'}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={busy === host.id}
+                      onClick={() => request(host.id, hostUrl(host.id), { method: 'DELETE' })}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+          <div className="grid gap-2">
+            <Label htmlFor="host-name">Name</Label>
+            <Input id="host-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Alex Smith" />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="host-email">Email (optional)</Label>
+            <Input id="host-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="alex@example.com" />
+          </div>
+          <Button onClick={addHost} disabled={!name.trim() || busy === 'add'}>
+            {busy === 'add' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+            Add member
+          </Button>
+        </div>
+
+        {error && (
+          <div className="text-sm text-red-400 bg-red-500/10 p-2 rounded">{error}</div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -18,8 +18,14 @@ import {
   Coins,
   Cpu,
 } from 'lucide-react'
-import { Contact, Workflow, Client, Message, Appointment } from '@/types/database'
+import { Contact, Workflow, Client, Message, Appointment, InboundRoutingEvent } from '@/types/database'
 import { FollowUpButton } from '@/components/follow-up-button'
+import { MessageAttachments } from '@/components/message-attachments'
+import { isSessionOpen } from '@/lib/messaging/whatsapp'
+import { getMessageMedia } from '@/lib/messaging/media'
+import { QueueStateItem, summarizeQueue } from '@/lib/messaging/queue-state'
+import { QueueStateBadge } from '@/components/queue-state-badge'
+import { ActiveConversationButton } from '@/components/active-conversation-button'
 
 type ContactWithDetails = Contact & {
   workflows: Workflow & {
@@ -72,6 +78,8 @@ export default async function ContactDetailPage({
         channel,
         content,
         status,
+        whatsapp_template_id,
+        media,
         ai_generated,
         tokens_used,
         input_tokens,
@@ -98,6 +106,62 @@ export default async function ContactDetailPage({
   }
 
   const typedContact = contact as unknown as ContactWithDetails
+
+  // Outbound messages still waiting to go out (or that never made it)
+  const { data: queueData } = await supabase
+    .from('outbound_queue')
+    .select('message_id, status, send_at, attempts, max_attempts, last_error')
+    .eq('contact_id', params.id)
+
+  const queueItems = (queueData || []) as QueueStateItem[]
+  const queueByMessage = new Map(queueItems.map((item) => [item.message_id, item]))
+  const queueSummary = summarizeQueue(queueItems)
+  const hasQueuedMessages = queueItems.some((item) => item.status !== 'sent')
+
+  // The same number can be a contact in other workflows or clients - replies are routed
+  // between them, and the team can point ambiguous ones at this conversation
+  let sharedWith = 0
+  let isActiveConversation = false
+  let guessedReplies = 0
+  let unroutedReplies: Array<Pick<InboundRoutingEvent, 'id' | 'body' | 'media' | 'reason' | 'created_at'>> = []
+  if (typedContact.phone) {
+    const { count: otherContacts } = await supabase
+      .from('contacts')
+      .select('id', { count: 'exact', head: true })
+      .eq('phone', typedContact.phone)
+      .neq('id', typedContact.id)
+
+    sharedWith = otherContacts || 0
+
+    if (sharedWith > 0) {
+      const { data: pointerData } = await supabase
+        .from('active_conversations')
+        .select('contact_id')
+        .eq('phone', typedContact.phone)
+        .maybeSingle()
+
+      isActiveConversation = (pointerData as { contact_id: string } | null)?.contact_id === typedContact.id
+
+      const { count: routedCount } = await supabase
+        .from('inbound_routing_events')
+        .select('id', { count: 'exact', head: true })
+        .eq('contact_id', typedContact.id)
+
+      guessedReplies = routedCount || 0
+    }
+
+    // Replies from this number that couldn't be routed to any conversation
+    const { data: unroutedData } = await supabase
+      .from('inbound_routing_events')
+      .select('id, body, media, reason, created_at')
+      .eq('phone', typedContact.phone)
+      .is('contact_id', null)
+      .order('created_at', { ascending: false })
+      .limit(5)
+
+    unroutedReplies = (unroutedData || []) as typeof unroutedReplies
+  }
+
   const contactName = `${typedContact.first_name || ''} ${typedContact.last_name || ''}`.trim() || 'Unknown Contact'
 
   // Calculate total AI costs for this conversation
@@ -260,7 +324,10 @@ export default async function ContactDetailPage({
           <Card>
             <CardHeader>
               <CardTitle>Conversation History</CardTitle>
-              <CardDescription>All messages with this contact</CardDescription>
+              <CardDescription>
+                All messages with this contact
+                {hasQueuedMessages && ` - outbound queue: ${queueSummary}`}
+              </CardDescription>
             </CardHeader>
             <CardContent>
               {typedContact.messages.length === 0 ? (
@@ -271,7 +338,16 @@ export default async function ContactDetailPage({
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {typedContact.messages.map((message) => (
+                  {typedContact.messages.map((message) => message.direction === 'system' ? (
+                    <div key={message.id} className="flex justify-center">
+                      <div className="max-w-[80%] text-center text-xs text-muted-foreground border border-dashed rounded-lg px-3 py-1.5">
+                        <p>{message.content}</p>
+                        <p className="mt-0.5 text-muted-foreground/70">
+                          {new Date(message.created_at).toLocaleString()}
+                        </p>
+                      </div>
+                    </div>
+                  ) : (
                     <div
                       key={message.id}
                       className={`flex ${message.direction === 'outbound' ? 'justify-end' : 'justify-start'}`}
@@ -283,7 +359,8 @@ export default async function ContactDetailPage({
                             : 'bg-secondary text-foreground'
                         }`}
                       >
-                        <p className="text-sm">{message.content}</p>
+                        <MessageAttachments messageId={message.id} media={getMessageMedia(message)} />
+                        {message.content && <p className="text-sm">{message.content}</p>}
                         <div
                           className={`flex items-center gap-2 mt-1 text-xs flex-wrap ${
                             message.direction === 'outbound' ? 'text-cyan-200' : 'text-muted-foreground'
@@ -291,6 +368,12 @@ export default async function ContactDetailPage({
                         >
                           <Clock className="w-3 h-3" />
                           {new Date(message.created_at).toLocaleString()}
+                          <QueueStateBadge item={queueByMessage.get(message.id)} className="text-xs py-0 px-1" />
+                          {message.whatsapp_template_id && (
+                            <Badge variant="outline" className="text-xs py-0 px-1" title={message.whatsapp_template_id}>
+                              Template
+                            </Badge>
+                          )}
                           {message.ai_generated && (
                             <>
                               <Badge variant="outline" className="text-xs py-0 px-1">
@@ -424,6 +507,68 @@ export default async function ContactDetailPage({
                       <dt className="text-muted-foreground">Channel</dt>
                       <dd className="font-medium text-foreground capitalize">{typedContact.workflows.channel}</dd>
                     </div>
+                    {typedContact.workflows.channel === 'whatsapp' && (
+                      <div className="flex justify-between">
+                        <dt className="text-muted-foreground">WhatsApp Session</dt>
+                        <dd className="font-medium text-foreground">
+                          {isSessionOpen(typedContact.whatsapp_session_expires_at)
+                            ? `Open until ${new Date(typedContact.whatsapp_session_expires_at!).toLocaleString()}`
+                            : 'Closed - templates only'}
+                        </dd>
+                      </div>
+                    )}
+                    {sharedWith > 0 && (
+                      <div className="flex justify-between items-start gap-4">
+                        <dt className="text-muted-foreground">Shared Number</dt>
+                        <dd className="text-right space-y-1">
+                          <p className="font-medium text-foreground">
+                            In {sharedWith} other conversation{sharedWith === 1 ? '' : 's'}
+                            {isActiveConversation && ' · active here'}
+                          </p>
+                          {guessedReplies > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              {guessedReplies} repl{guessedReplies === 1 ? 'y' : 'ies'} routed here by a guess
+                            </p>
+                          )}
+                          <ActiveConversationButton
+                            contactId={typedContact.id}
+                            isActive={isActiveConversation}
+                          />
+                        </dd>
+                      </div>
+                    )}
+                    {unroutedReplies.length > 0 && (
+                      <div className="flex justify-between items-start gap-4">
+                        <dt className="text-muted-foreground">Unrouted Replies</dt>
+                        <dd className="text-right space-y-2">
+                          {unroutedReplies.map((reply) => {
+                            const attachments = Array.isArray(reply.media) ? reply.media.length : 0
+                            return (
+                              <div key={reply.id}>
+                                <p className="text-sm text-foreground whitespace-pre-wrap">
+                                  {reply.body || '(no text)'}
+                                  {attachments > 0 && ` · ${attachments} attachment${attachments === 1 ? '' : 's'}`}
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                  {new Date(reply.created_at).toLocaleString()} ·{' '}
+                                  {reply.reason === 'unresolved' ? 'matched several clients' : 'no conversation on that number'}
+                                </p>
+                              </div>
+                            )
+                          })}
+                        </dd>
+                      </div>
+                    )}
+                    {typedContact.sender_number && (
+                      <div className="flex justify-between">
+                        <dt className="text-muted-foreground">Messaged From</dt>
+                        <dd className="font-medium text-foreground">{typedContact.sender_number}</dd>
+                      </div>
+                    )}
+                    <div className="flex justify-between">
+                      <dt className="text-muted-foreground">Outbound Queue</dt>
+                      <dd className="font-medium text-foreground">{queueSummary}</dd>
+                    </div>
                     <div className="flex justify-between">
                       <dt className="text-muted-foreground">Status</dt>
                       <dd>
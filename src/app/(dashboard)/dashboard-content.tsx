@@ -40,6 +40,7 @@ interface AnalyticsData {
     qualificationRate: number
     bookingRate: number
     optOutRate: number
+    cancellationRate: number
   }
   aiUsage: {
     totalTokens: number
@@ -54,6 +55,7 @@ interface AnalyticsData {
     confirmed: number
     completed: number
     cancelled: number
+    cancelledByContact: number
     noShow: number
   }
   recentActivity: Array<{
@@ -433,6 +435,27 @@ export function DashboardContent() {
                 </div>
               </div>
 
+              {/* Cancellation Rate */}
+              <div className="p-4 rounded-xl bg-gradient-to-r from-orange-500/10 to-transparent border border-orange-500/20">
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-sm text-muted-foreground">Cancellation Rate</span>
+                  <span className="text-sm font-semibold text-orange-400">
+                    {isLoading ? '--' : `${analytics?.rates.cancellationRate || 0}%`}
+                  </span>
+                </div>
+                <div className="h-2 bg-white/5 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-orange-500 to-orange-400 rounded-full transition-all duration-500"
+                    style={{ width: `${Math.min(analytics?.rates.cancellationRate || 0, 100)}%` }}
+                  />
+                </div>
+                {!isLoading && (analytics?.appointments.cancelled || 0) > 0 && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {analytics?.appointments.cancelledByContact || 0} of {analytics?.appointments.cancelled} cancelled by the lead
+                  </p>
+                )}
+              </div>
+
               {/* Opt-out Rate */}
               <div className="p-4 rounded-xl bg-gradient-to-r from-red-500/10 to-transparent border border-red-500/20">
                 <div className="flex justify-between items-center mb-2">
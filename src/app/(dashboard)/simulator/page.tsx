@@ -0,0 +1,14 @@
+import { notFound } from 'next/navigation'
+import { PhoneSimulator } from './phone-simulator'
+
+/**
+ * Simulated phone for testing workflows end to end without a carrier
+ * Development only - there is no loopback provider in production
+ */
+export default function SimulatorPage() {
+  if (process.env.NODE_ENV === 'production') {
+    notFound()
+  }
+
+  return <PhoneSimulator />
+}
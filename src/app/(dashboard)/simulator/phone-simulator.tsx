@@ -0,0 +1,436 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/client'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Smartphone, Send, Loader2, Play, CheckCheck, XCircle, AlertTriangle } from 'lucide-react'
+import { Client, Contact, Message, Workflow } from '@/types/database'
+import { MESSAGING_PROVIDER_LABELS } from '@/lib/messaging/provider-options'
+import { buildInboundPayload, buildStatusPayload } from '@/lib/messaging/simulator'
+import { getMessageMedia } from '@/lib/messaging/media'
+import { MessageAttachments } from '@/components/message-attachments'
+import { QueueStateBadge } from '@/components/queue-state-badge'
+import { QueueStateItem } from '@/lib/messaging/queue-state'
+import { getNumberProviderType, pickSenderNumber } from '@/lib/messaging/number-pool'
+
+type SimulatorContact = Pick<Contact, 'id' | 'first_name' | 'last_name' | 'phone' | 'status' | 'inbound_turn_due_at' | 'sender_number'> & {
+  workflows: Pick<Workflow, 'id' | 'name' | 'channel' | 'status'> & {
+    clients: Pick<
+      Client,
+      'name' | 'twilio_phone_number' | 'pool_phone_numbers' | 'local_presence' | 'messaging_provider' | 'number_providers'
+    > | null
+  }
+}
+
+const JOBS = [
+  { id: 'outreach', label: 'Initial outreach' },
+  { id: 'follow-ups', label: 'Follow-ups' },
+  { id: 'reminders', label: 'Reminders' },
+  { id: 'post-meeting', label: 'Post-meeting' },
+  { id: 'queue', label: 'Outbound queue' },
+] as const
+
+const POLL_INTERVAL_MS = 2000
+
+const STATUS_VARIANTS: Record<Message['status'], 'default' | 'secondary' | 'success' | 'destructive' | 'warning'> = {
+  pending: 'warning',
+  queued: 'secondary',
+  sent: 'default',
+  delivered: 'success',
+  failed: 'destructive',
+  received: 'secondary',
+}
+
+export function PhoneSimulator() {
+  const [contacts, setContacts] = useState<SimulatorContact[]>([])
+  const [contactId, setContactId] = useState<string>('')
+  const [messages, setMessages] = useState<Message[]>([])
+  const [queueItems, setQueueItems] = useState<QueueStateItem[]>([])
+  const [input, setInput] = useState('')
+  const [replying, setReplying] = useState(false)
+  const [runningJob, setRunningJob] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const messagesEndRef = useRef<HTMLDivElement>(null)
+  const runningDueJobs = useRef(false)
+
+  const contact = contacts.find((c) => c.id === contactId) || null
+  const client = contact?.workflows.clients || null
+  const channel = contact?.workflows.channel === 'whatsapp' ? 'whatsapp' : 'sms'
+  // The number the lead is (or will be) messaged from - replies go back to it
+  const businessNumber = contact ? pickSenderNumber(client, contact) || '' : ''
+  const providerType = getNumberProviderType(client, businessNumber) || 'twilio'
+
+  const loadContacts = useCallback(async () => {
+    const supabase = createClient()
+    const { data } = await supabase
+      .from('contacts')
+      .select(`
+        id, first_name, last_name, phone, status, inbound_turn_due_at, sender_number,
+        workflows!inner (
+          id, name, channel, status,
+          clients (name, twilio_phone_number, pool_phone_numbers, local_presence, messaging_provider, number_providers)
+        )
+      `)
+      .in('workflows.channel', ['sms', 'whatsapp'])
+      .not('phone', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(100)
+
+    setContacts((data || []) as unknown as SimulatorContact[])
+  }, [])
+
+  const loadMessages = useCallback(async () => {
+    if (!contactId) return
+    const supabase = createClient()
+    const { data } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('contact_id', contactId)
+      .order('created_at', { ascending: true })
+
+    const { data: queueData } = await supabase
+      .from('outbound_queue')
+      .select('message_id, status, send_at, attempts, max_attempts, last_error')
+      .eq('contact_id', contactId)
+
+    setMessages((data || []) as Message[])
+    setQueueItems((queueData || []) as QueueStateItem[])
+  }, [contactId])
+
+  useEffect(() => {
+    loadContacts()
+  }, [loadContacts])
+
+  // Outbound messages show up as they are "sent" - by the AI, the jobs, or the team
+  useEffect(() => {
+    setMessages([])
+    setQueueItems([])
+    if (!contactId) return
+    loadMessages()
+    const interval = setInterval(() => {
+      loadMessages()
+      loadContacts()
+    }, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [contactId, loadMessages, loadContacts])
+
+  // Buffered messages, AI replies and retries wait for the every-minute cron in
+  // production - run them as soon as they are due so the conversation feels live
+  useEffect(() => {
+    if (!contact || runningDueJobs.current) return
+    const now = Date.now()
+    const turnDue = !!contact.inbound_turn_due_at && new Date(contact.inbound_turn_due_at).getTime() <= now
+    const queueDue = queueItems.some(
+      (item) => item.status === 'queued' && new Date(item.send_at).getTime() <= now
+    )
+    if (!turnDue && !queueDue) return
+
+    runningDueJobs.current = true
+    fetch('/api/simulator/jobs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ job: turnDue ? 'inbound-turns' : 'queue', workflowId: contact.workflows.id }),
+    })
+      .then(() => Promise.all([loadMessages(), loadContacts()]))
+      .catch(() => {})
+      .finally(() => {
+        runningDueJobs.current = false
+      })
+  }, [queueItems, contact, loadMessages, loadContacts])
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [messages.length])
+
+  const handleReply = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!contact?.phone || !input.trim()) return
+
+    const body = input.trim()
+    setInput('')
+    setReplying(true)
+    setError(null)
+
+    try {
+      // Same payload the carrier would post - the webhook saves it and buffers it for the AI
+      const response = await fetch('/api/webhooks/loopback/inbound', {
+        method: 'POST',
+        body: buildInboundPayload({ from: contact.phone, to: businessNumber, body, channel }),
+      })
+
+      if (!response.ok) {
+        throw new Error(`Inbound webhook returned ${response.status}`)
+      }
+      await loadMessages()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send reply')
+    } finally {
+      setReplying(false)
+    }
+  }
+
+  const handleStatus = async (message: Message, status: 'delivered' | 'failed') => {
+    if (!contact?.phone || !message.twilio_sid) return
+    setError(null)
+
+    const response = await fetch('/api/webhooks/loopback/status', {
+      method: 'POST',
+      body: buildStatusPayload({
+        messageSid: message.twilio_sid,
+        status,
+        from: businessNumber,
+        to: contact.phone,
+        channel,
+      }),
+    })
+
+    if (!response.ok) {
+      setError(`Status webhook returned ${response.status}`)
+    }
+    await loadMessages()
+  }
+
+  const handleRunJob = async (job: string, label: string) => {
+    if (!contact) return
+    setRunningJob(job)
+    setNotice(null)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/simulator/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ job, workflowId: contact.workflows.id }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to run ${label.toLowerCase()}`)
+      }
+
+      setNotice(`${label}: ${data.processed} sent, ${data.skipped} skipped, ${data.failed} failed`)
+      await loadMessages()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setRunningJob(null)
+    }
+  }
+
+  const contactName = (c: SimulatorContact) =>
+    [c.first_name, c.last_name].filter(Boolean).join(' ') || c.phone || 'Unknown'
+
+  return (
+    <div className="p-8 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+          <Smartphone className="w-6 h-6 text-cyan-400" />
+          Phone Simulator
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Act as a contact: receive what the workflow sends and reply through the real webhooks. Development only.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-1 h-fit">
+          <CardHeader>
+            <CardTitle className="text-lg">Contact</CardTitle>
+            <CardDescription>SMS and WhatsApp contacts with a phone number</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="simulator-contact">Simulate</Label>
+              <Select value={contactId} onValueChange={setContactId}>
+                <SelectTrigger id="simulator-contact">
+                  <SelectValue placeholder="Choose a contact" />
+                </SelectTrigger>
+                <SelectContent>
+                  {contacts.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {contactName(c)} - {c.workflows.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {contact && (
+              <>
+                <div className="text-sm space-y-1">
+                  <p><span className="text-muted-foreground">Phone:</span> {contact.phone}</p>
+                  <p><span className="text-muted-foreground">Channel:</span> {channel === 'whatsapp' ? 'WhatsApp' : 'SMS'}</p>
+                  <p>
+                    <span className="text-muted-foreground">Status:</span>{' '}
+                    <Badge variant="outline">{contact.status.replace('_', ' ')}</Badge>
+                  </p>
+                  <p>
+                    <span className="text-muted-foreground">Workflow:</span>{' '}
+                    <Link href={`/workflows/${contact.workflows.id}`} className="text-cyan-400 hover:underline">
+                      {contact.workflows.name}
+                    </Link>
+                    {contact.workflows.status !== 'active' && ` (${contact.workflows.status})`}
+                  </p>
+                </div>
+
+                {providerType !== 'loopback' && (
+                  <div className="flex gap-2 rounded-lg border border-yellow-500/30 bg-yellow-500/10 p-3 text-xs text-yellow-400">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    <p>
+                      {client?.name || 'This client'} messages this lead through{' '}
+                      {MESSAGING_PROVIDER_LABELS[providerType]}. Switch the number&apos;s messaging
+                      provider to Loopback so outbound messages land here instead of a real phone.
+                    </p>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label>Run now</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Runs the scheduled job for this workflow. Business hours still apply.
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {JOBS.map((job) => (
+                      <Button
+                        key={job.id}
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        disabled={runningJob !== null}
+                        onClick={() => handleRunJob(job.id, job.label)}
+                      >
+                        {runningJob === job.id
+                          ? <Loader2 className="w-3 h-3 mr-2 animate-spin" />
+                          : <Play className="w-3 h-3 mr-2" />}
+                        {job.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+
+            {notice && <p className="text-xs text-muted-foreground">{notice}</p>}
+            {error && <p className="text-xs text-red-400">{error}</p>}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2 flex flex-col h-[640px]">
+          <CardHeader className="border-b border-border/50">
+            <CardTitle className="text-lg">
+              {contact ? contactName(contact) : 'No contact selected'}
+            </CardTitle>
+            {contact && (
+              <CardDescription>
+                Texting {businessNumber || 'the default number'}
+              </CardDescription>
+            )}
+          </CardHeader>
+
+          <CardContent className="flex-1 overflow-y-auto py-4 space-y-3">
+            {messages.map((message) => message.direction === 'system' ? (
+              <div key={message.id} className="flex justify-center">
+                <p className="max-w-[80%] text-center text-xs text-muted-foreground border border-dashed rounded-lg px-3 py-1.5">
+                  {message.content}
+                </p>
+              </div>
+            ) : (
+              // The phone's point of view: the business's messages arrive on the left
+              <div
+                key={message.id}
+                className={`flex ${message.direction === 'inbound' ? 'justify-end' : 'justify-start'}`}
+              >
+                <div
+                  className={`max-w-[70%] rounded-lg px-4 py-2 ${
+                    message.direction === 'inbound'
+                      ? 'bg-cyan-600 text-white'
+                      : 'bg-secondary text-foreground'
+                  }`}
+                >
+                  <MessageAttachments messageId={message.id} media={getMessageMedia(message)} />
+                  {message.content && <p className="text-sm whitespace-pre-wrap">{message.content}</p>}
+                  <div className="flex items-center gap-2 mt-1 text-xs flex-wrap opacity-80">
+                    {new Date(message.created_at).toLocaleTimeString()}
+                    {message.whatsapp_template_id && (
+                      <Badge variant="outline" className="text-xs py-0 px-1">
+                        Template
+                      </Badge>
+                    )}
+                    <QueueStateBadge
+                      item={queueItems.find((item) => item.message_id === message.id)}
+                      className="text-xs py-0 px-1"
+                    />
+                    {message.direction === 'outbound' && (
+                      <Badge variant={STATUS_VARIANTS[message.status]} className="text-xs py-0 px-1">
+                        {message.status}
+                      </Badge>
+                    )}
+                    {message.direction === 'outbound' && message.twilio_sid &&
+                      (message.status === 'queued' || message.status === 'sent') && (
+                      <>
+                        <button
+                          type="button"
+                          className="flex items-center gap-1 hover:text-green-400"
+                          onClick={() => handleStatus(message, 'delivered')}
+                        >
+                          <CheckCheck className="w-3 h-3" />
+                          Delivered
+                        </button>
+                        <button
+                          type="button"
+                          className="flex items-center gap-1 hover:text-red-400"
+                          onClick={() => handleStatus(message, 'failed')}
+                        >
+                          <XCircle className="w-3 h-3" />
+                          Failed
+                        </button>
+                      </>
+                    )}
+                  </div>
+                  {message.status === 'failed' && message.error_message && (
+                    <p className="text-xs text-red-400 mt-1">{message.error_message}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+            {replying && (
+              <div className="flex justify-start">
+                <div className="rounded-lg px-4 py-2 bg-secondary text-muted-foreground text-sm flex items-center gap-2">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  Typing...
+                </div>
+              </div>
+            )}
+            <div ref={messagesEndRef} />
+          </CardContent>
+
+          <form onSubmit={handleReply} className="border-t border-border/50 p-4 flex gap-2">
+            <Input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder={contact ? 'Reply as the contact...' : 'Choose a contact first'}
+              disabled={!contact || replying}
+            />
+            <Button type="submit" disabled={!contact || replying || !input.trim()}>
+              <Send className="w-4 h-4" />
+            </Button>
+          </form>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -17,8 +17,13 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { ArrowLeft } from 'lucide-react'
-import { Workflow, FollowUpTemplate } from '@/types/database'
+import { Workflow, FollowUpTemplate, AppointmentType, ReminderTemplate, PostMeetingTemplate, WhatsAppTemplate } from '@/types/database'
 import { FollowUpEditor } from '@/components/follow-up-editor'
+import { AppointmentTypesEditor } from '@/components/appointment-types-editor'
+import { ReminderEditor } from '@/components/reminder-editor'
+import { PostMeetingEditor } from '@/components/post-meeting-editor'
+import { WhatsAppTemplateEditor } from '@/components/whatsapp-template-editor'
+import { DEFAULT_EMAIL_SUBJECT } from '@/lib/email/threading'
 
 interface EditWorkflowPageProps {
   params: { id: string }
@@ -38,8 +43,15 @@ export default function EditWorkflowPage({ params }: EditWorkflowPageProps) {
     instructions: '',
     qualification_criteria: '',
     initial_message_template: '',
+    email_subject: '',
     follow_up_templates: [] as FollowUpTemplate[],
+    appointment_types: [] as AppointmentType[],
+    reminder_templates: [] as ReminderTemplate[],
+    no_show_templates: [] as PostMeetingTemplate[],
+    completed_templates: [] as PostMeetingTemplate[],
+    whatsapp_templates: [] as WhatsAppTemplate[],
   })
+  const [appointmentDuration, setAppointmentDuration] = useState(30)
 
   useEffect(() => {
     async function fetchWorkflow() {
@@ -64,8 +76,15 @@ export default function EditWorkflowPage({ params }: EditWorkflowPageProps) {
         instructions: workflowData.instructions || '',
         qualification_criteria: workflowData.qualification_criteria || '',
         initial_message_template: workflowData.initial_message_template || '',
+        email_subject: workflowData.email_subject || '',
         follow_up_templates: (workflowData.follow_up_templates as FollowUpTemplate[] | null) || [],
+        appointment_types: (workflowData.appointment_types as AppointmentType[] | null) || [],
+        reminder_templates: (workflowData.reminder_templates as ReminderTemplate[] | null) || [],
+        no_show_templates: (workflowData.no_show_templates as PostMeetingTemplate[] | null) || [],
+        completed_templates: (workflowData.completed_templates as PostMeetingTemplate[] | null) || [],
+        whatsapp_templates: (workflowData.whatsapp_templates as WhatsAppTemplate[] | null) || [],
       })
+      setAppointmentDuration(workflowData.appointment_duration_minutes || 30)
       setLoading(false)
     }
 
@@ -177,6 +196,22 @@ export default function EditWorkflowPage({ params }: EditWorkflowPageProps) {
                     </Select>
                   </div>
                 </div>
+
+                {formData.channel === 'email' && (
+                  <div className="grid gap-2">
+                    <Label htmlFor="email_subject">Email Subject</Label>
+                    <Input
+                      id="email_subject"
+                      value={formData.email_subject}
+                      onChange={(e) => setFormData({ ...formData, email_subject: e.target.value })}
+                      placeholder={DEFAULT_EMAIL_SUBJECT}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Used for the whole conversation - replies are sent as &quot;Re:&quot; in the same thread.
+                      Variables: {'{first_name}'}, {'{brand_name}'}
+                    </p>
+                  </div>
+                )}
               </div>
 
               {/* Offer Description - THE KEY FIELD */}
@@ -245,6 +280,52 @@ Example: We help B2B companies get their research and insights published on The
                 </p>
               </div>
 
+              {/* Appointment Types */}
+              <div className="border-t pt-6">
+                <AppointmentTypesEditor
+                  types={formData.appointment_types}
+                  onChange={(types) =>
+                    setFormData({ ...formData, appointment_types: types })
+                  }
+                  defaultDuration={appointmentDuration}
+                  disabled={saving}
+                />
+              </div>
+
+              {/* Appointment Reminders */}
+              <div className="border-t pt-6">
+                <ReminderEditor
+                  templates={formData.reminder_templates}
+                  onChange={(templates) =>
+                    setFormData({ ...formData, reminder_templates: templates })
+                  }
+                  disabled={saving}
+                />
+              </div>
+
+              {/* After the Appointment */}
+              <div className="border-t pt-6">
+                <PostMeetingEditor
+                  outcome="no_show"
+                  templates={formData.no_show_templates}
+                  onChange={(templates) =>
+                    setFormData({ ...formData, no_show_templates: templates })
+                  }
+                  disabled={saving}
+                />
+              </div>
+
+              <div className="border-t pt-6">
+                <PostMeetingEditor
+                  outcome="completed"
+                  templates={formData.completed_templates}
+                  onChange={(templates) =>
+                    setFormData({ ...formData, completed_templates: templates })
+                  }
+                  disabled={saving}
+                />
+              </div>
+
               {/* Follow-up Messages */}
               <div className="border-t pt-6">
                 <FollowUpEditor
@@ -258,6 +339,19 @@ Example: We help B2B companies get their research and insights published on The
                   disabled={saving}
                 />
               </div>
+
+              {/* WhatsApp Templates */}
+              {formData.channel === 'whatsapp' && (
+                <div className="border-t pt-6">
+                  <WhatsAppTemplateEditor
+                    templates={formData.whatsapp_templates}
+                    onChange={(templates) =>
+                      setFormData({ ...formData, whatsapp_templates: templates })
+                    }
+                    disabled={saving}
+                  />
+                </div>
+              )}
             </div>
 
             {error && (
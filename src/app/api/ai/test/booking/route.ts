@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { runBookingScenarios, BOOKING_SCENARIOS } from '@/lib/ai/harness'
+
+/**
+ * Run the booking conversation scenarios against the in-memory harness
+ * GET /api/ai/test/booking?scenario=<name> (omit to run all)
+ *
+ * Development only - no database, calendar or Claude calls are made.
+ */
+export async function GET(request: Request) {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  try {
+    const name = new URL(request.url).searchParams.get('scenario')
+    const scenarios = name
+      ? BOOKING_SCENARIOS.filter(s => s.name === name)
+      : BOOKING_SCENARIOS
+
+    if (scenarios.length === 0) {
+      return NextResponse.json({ error: `Unknown scenario: ${name}` }, { status: 404 })
+    }
+
+    const results = await runBookingScenarios(scenarios)
+    const failed = results.filter(r => !r.passed).length
+
+    return NextResponse.json({
+      passed: results.length - failed,
+      failed,
+      results,
+    })
+  } catch (error) {
+    console.error('Booking harness error:', error)
+
+    const message = error instanceof Error ? error.message : 'Unknown error'
+
+    return NextResponse.json(
+      { error: 'Harness failed', details: message },
+      { status: 500 }
+    )
+  }
+}
@@ -133,7 +133,11 @@ export async function POST(request: Request) {
       next_follow_up_at: null,
       conversation_context: null,
       created_at: new Date().toISOString(),
-      last_message_at: null
+      last_message_at: null,
+      whatsapp_session_expires_at: null,
+      inbound_turn_due_at: null,
+      ai_turn_locked_until: null,
+      sender_number: null
     }
 
     // Build conversation context - use previous context if provided to preserve qualification state
@@ -155,6 +159,12 @@ export async function POST(request: Request) {
       content: msg.content,
       status: 'delivered' as const,
       twilio_sid: null,
+      email_message_id: null,
+      whatsapp_template_id: null,
+      whatsapp_template_variables: null,
+      media: [],
+      awaiting_reply: false,
+      opt_out_confirmation: false,
       error_message: null,
       ai_generated: msg.role === 'assistant',
       tokens_used: null,
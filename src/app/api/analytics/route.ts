@@ -31,6 +31,7 @@ interface AnalyticsResponse {
     qualificationRate: number
     bookingRate: number
     optOutRate: number
+    cancellationRate: number
   }
   aiUsage: {
     totalTokens: number
@@ -45,6 +46,7 @@ interface AnalyticsResponse {
     confirmed: number
     completed: number
     cancelled: number
+    cancelledByContact: number
     noShow: number
   }
   recentActivity: Array<{
@@ -119,7 +121,7 @@ export async function GET(request: Request) {
       // Get appointments
       supabase
         .from('appointments')
-        .select('id, status')
+        .select('id, status, cancelled_by')
         .eq('client_id', clientId),
 
       // Get recent messages for activity feed (with contact info via join)
@@ -136,6 +138,7 @@ export async function GET(request: Request) {
               contacts(id, first_name, last_name)
             `)
             .in('contact_id', contactIds)
+            .neq('direction', 'system')
             .order('created_at', { ascending: false })
             .limit(10)
         : Promise.resolve({ data: [], error: null }),
@@ -216,12 +219,14 @@ export async function GET(request: Request) {
     const appointments = (appointmentsResult.data || []) as Array<{
       id: string
       status: string
+      cancelled_by: string | null
     }>
     const appointmentCounts = {
       total: appointments.length,
       confirmed: 0,
       completed: 0,
       cancelled: 0,
+      cancelledByContact: 0,
       noShow: 0,
     }
 
@@ -235,6 +240,9 @@ export async function GET(request: Request) {
           break
         case 'cancelled':
           appointmentCounts.cancelled++
+          if (apt.cancelled_by === 'contact') {
+            appointmentCounts.cancelledByContact++
+          }
           break
         case 'no_show':
           appointmentCounts.noShow++
@@ -242,6 +250,11 @@ export async function GET(request: Request) {
       }
     })
 
+    // Cancellation rate: cancelled / all appointments booked
+    const cancellationRate = appointmentCounts.total > 0
+      ? (appointmentCounts.cancelled / appointmentCounts.total) * 100
+      : 0
+
     // Process recent activity
     const recentMessages = (recentMessagesResult.data || []) as Array<{
       id: string
@@ -291,6 +304,7 @@ export async function GET(request: Request) {
         qualificationRate: Math.round(qualificationRate * 10) / 10,
         bookingRate: Math.round(bookingRate * 10) / 10,
         optOutRate: Math.round(optOutRate * 10) / 10,
+        cancellationRate: Math.round(cancellationRate * 10) / 10,
       },
       aiUsage: {
         totalTokens,
@@ -331,6 +345,7 @@ function getEmptyAnalytics(): AnalyticsResponse {
       qualificationRate: 0,
       bookingRate: 0,
       optOutRate: 0,
+      cancellationRate: 0,
     },
     aiUsage: {
       totalTokens: 0,
@@ -345,6 +360,7 @@ function getEmptyAnalytics(): AnalyticsResponse {
       confirmed: 0,
       completed: 0,
       cancelled: 0,
+      cancelledByContact: 0,
       noShow: 0,
     },
     recentActivity: [],
@@ -2,12 +2,14 @@
  * Single Appointment API
  * GET /api/appointments/[id] - Get appointment details
  * PUT /api/appointments/[id] - Update appointment status
+ *   Marking it completed or no-show starts the workflow's post-meeting messages
  * DELETE /api/appointments/[id] - Cancel appointment
  */
 
 import { createClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
 import { getCalendarConnectionForClient } from '@/lib/calendar'
+import { recordAppointmentOutcome } from '@/lib/jobs/post-meeting'
 
 interface RouteContext {
   params: Promise<{ id: string }>
@@ -70,6 +72,30 @@ export async function PUT(request: NextRequest, context: RouteContext) {
     )
   }
 
+  if (updateData.status === 'completed' || updateData.status === 'no_show') {
+    try {
+      const appointment = await recordAppointmentOutcome(id, updateData.status, 'team')
+      if (!appointment) {
+        return NextResponse.json({ error: 'Appointment not found' }, { status: 404 })
+      }
+      delete updateData.status
+      if (Object.keys(updateData).length === 0) {
+        return NextResponse.json(appointment)
+      }
+    } catch (err) {
+      return NextResponse.json(
+        { error: err instanceof Error ? err.message : 'Failed to record outcome' },
+        { status: 500 }
+      )
+    }
+  }
+
+  // Cancelled from the dashboard; leads cancel through the conversation instead
+  if (updateData.status === 'cancelled') {
+    updateData.cancelled_at = new Date().toISOString()
+    updateData.cancelled_by = 'team'
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const { data, error } = await (supabase as any)
     .from('appointments')
@@ -95,7 +121,7 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
     .from('appointments')
     .select('*, clients(id)')
     .eq('id', id)
-    .single() as { data: { calendar_event_id: string | null; client_id: string; clients: { id: string } } | null; error: Error | null }
+    .single() as { data: { calendar_event_id: string | null; client_id: string; host_id: string | null; clients: { id: string } } | null; error: Error | null }
 
   if (fetchError || !appointment) {
     return NextResponse.json({ error: 'Appointment not found' }, { status: 404 })
@@ -104,7 +130,10 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
   // Try to delete calendar event if it exists
   if (appointment.calendar_event_id) {
     try {
-      const calendarConnection = await getCalendarConnectionForClient(appointment.client_id)
+      const calendarConnection = await getCalendarConnectionForClient(
+        appointment.client_id,
+        appointment.host_id
+      )
       if (calendarConnection && calendarConnection.connection.calendar_id) {
         await calendarConnection.provider.deleteEvent(
           calendarConnection.connection.calendar_id,
@@ -121,7 +150,11 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const { error } = await (supabase as any)
     .from('appointments')
-    .update({ status: 'cancelled' })
+    .update({
+      status: 'cancelled',
+      cancelled_at: new Date().toISOString(),
+      cancelled_by: 'team',
+    })
     .eq('id', id)
 
   if (error) {
@@ -0,0 +1,110 @@
+/**
+ * CalDAV Connection
+ * POST /api/auth/caldav
+ *
+ * CalDAV has no OAuth flow - validates the server URL and credentials by listing
+ * calendars, then stores the connection against the first (primary) calendar
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  CalDavCalendarProvider,
+  encodeCalDavCredentials,
+  getHostForClient,
+  saveCalendarConnection,
+} from '@/lib/calendar'
+import { createClient } from '@/lib/supabase/server'
+
+interface ConnectCalDavBody {
+  clientId: string
+  hostId?: string | null
+  serverUrl: string
+  username: string
+  password: string
+}
+
+export async function POST(request: NextRequest) {
+  let body: ConnectCalDavBody
+  try {
+    body = await request.json() as ConnectCalDavBody
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const { clientId, username, password } = body
+  const hostId = body.hostId || null
+  if (!clientId || !body.serverUrl || !username || !password) {
+    return NextResponse.json(
+      { error: 'clientId, serverUrl, username and password are required' },
+      { status: 400 }
+    )
+  }
+
+  let serverUrl: string
+  try {
+    serverUrl = new URL(body.serverUrl.trim()).toString()
+  } catch {
+    return NextResponse.json({ error: 'Invalid server URL' }, { status: 400 })
+  }
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || ''
+
+  // Verify client exists
+  const supabase = await createClient()
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: client, error: clientError } = await (supabase as any)
+    .from('clients')
+    .select('id, name, brand_name')
+    .eq('id', clientId)
+    .single() as { data: { id: string; name: string; brand_name: string | null } | null; error: Error | null }
+
+  if (clientError || !client) {
+    return NextResponse.json({ error: 'Invalid client' }, { status: 404 })
+  }
+
+  if (hostId && !(await getHostForClient(clientId, hostId))) {
+    return NextResponse.json({ error: 'Invalid host' }, { status: 404 })
+  }
+
+  const accessToken = encodeCalDavCredentials(username.trim(), password)
+  const provider = new CalDavCalendarProvider(serverUrl)
+  provider.setTokens({ accessToken, refreshToken: '', expiresAt: null })
+
+  let primaryCalendarId: string
+  try {
+    const calendars = await provider.listCalendars()
+    const primaryCalendar = calendars.find((c) => c.primary) || calendars[0]
+
+    if (!primaryCalendar) {
+      return NextResponse.json(
+        { error: 'No calendars found on this server' },
+        { status: 400 }
+      )
+    }
+    primaryCalendarId = primaryCalendar.id
+  } catch (err) {
+    console.error('CalDAV connection check failed:', err)
+    return NextResponse.json(
+      { error: 'Could not connect to the CalDAV server. Check the URL, username and app password.' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    await saveCalendarConnection(clientId, {
+      provider: 'caldav',
+      accessToken,
+      calendarId: primaryCalendarId,
+      serverUrl,
+      hostId,
+    })
+  } catch (err) {
+    console.error('Failed to save CalDAV connection:', err)
+    return NextResponse.json({ error: 'Failed to save calendar connection' }, { status: 500 })
+  }
+
+  return NextResponse.json({
+    success: true,
+    redirectUrl: `${appUrl}/connect/calendar/success?client=${encodeURIComponent(client.brand_name || client.name)}&clientId=${clientId}${hostId ? `&hostId=${hostId}` : ''}`,
+  })
+}
@@ -0,0 +1,75 @@
+/**
+ * Calendar Selection
+ * POST /api/auth/calendars
+ *
+ * Saves which of the connected account's calendars block booking slots and which one
+ * bookings are written to. IDs are checked against listCalendars() so only calendars
+ * the connection can actually see are stored. Change notifications follow the
+ * booking calendar.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCalendarConnectionForClient, saveCalendarSelection } from '@/lib/calendar'
+import { watchClientCalendar } from '@/lib/calendar/watch'
+
+interface CalendarSelectionBody {
+  clientId: string
+  hostId?: string | null
+  calendarId: string
+  busyCalendarIds?: string[]
+}
+
+export async function POST(request: NextRequest) {
+  let body: CalendarSelectionBody
+  try {
+    body = await request.json() as CalendarSelectionBody
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const { clientId, calendarId } = body
+  const hostId = body.hostId || null
+  const busyCalendarIds = Array.isArray(body.busyCalendarIds) ? body.busyCalendarIds : []
+
+  if (!clientId || !calendarId) {
+    return NextResponse.json(
+      { error: 'clientId and calendarId are required' },
+      { status: 400 }
+    )
+  }
+
+  const calendar = await getCalendarConnectionForClient(clientId, hostId)
+  if (!calendar) {
+    return NextResponse.json({ error: 'No calendar connected' }, { status: 404 })
+  }
+
+  let knownIds: Set<string>
+  try {
+    const calendars = await calendar.provider.listCalendars()
+    knownIds = new Set(calendars.map((c) => c.id))
+  } catch (err) {
+    console.error('Failed to list calendars for selection:', err)
+    return NextResponse.json({ error: 'Could not load calendars' }, { status: 502 })
+  }
+
+  const unknownIds = [calendarId, ...busyCalendarIds].filter((id) => !knownIds.has(id))
+  if (unknownIds.length > 0) {
+    return NextResponse.json(
+      { error: 'Unknown calendar selected', details: unknownIds },
+      { status: 400 }
+    )
+  }
+
+  try {
+    await saveCalendarSelection(clientId, { calendarId, busyCalendarIds, hostId })
+  } catch (err) {
+    console.error('Failed to save calendar selection:', err)
+    return NextResponse.json({ error: 'Failed to save calendar selection' }, { status: 500 })
+  }
+
+  if (calendarId !== calendar.connection.calendar_id) {
+    await watchClientCalendar(clientId, hostId)
+  }
+
+  return NextResponse.json({ success: true })
+}
@@ -1,17 +1,19 @@
 /**
  * Google OAuth Callback
- * GET /api/auth/google/callback?code=xxx&state=clientId
+ * GET /api/auth/google/callback?code=xxx&state=clientId[:hostId]
  *
- * Exchanges code for tokens, stores connection, redirects to success page
+ * Exchanges code for tokens, stores connection, starts change notifications and
+ * redirects to success page
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { GoogleCalendarProvider } from '@/lib/calendar'
+import { GoogleCalendarProvider, getHostForClient, parseConnectState, saveCalendarConnection } from '@/lib/calendar'
+import { watchClientCalendar } from '@/lib/calendar/watch'
 import { createClient } from '@/lib/supabase/server'
 
 export async function GET(request: NextRequest) {
   const code = request.nextUrl.searchParams.get('code')
-  const state = request.nextUrl.searchParams.get('state') // clientId
+  const state = request.nextUrl.searchParams.get('state') // clientId, or clientId:hostId
   const error = request.nextUrl.searchParams.get('error')
 
   const appUrl = process.env.NEXT_PUBLIC_APP_URL || ''
@@ -30,7 +32,7 @@ export async function GET(request: NextRequest) {
     )
   }
 
-  const clientId = state
+  const { clientId, hostId } = parseConnectState(state)
 
   try {
     // Verify client exists
@@ -49,6 +51,13 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    if (hostId && !(await getHostForClient(clientId, hostId))) {
+      console.error('Host not found for client:', { clientId, hostId })
+      return NextResponse.redirect(
+        `${appUrl}/connect/calendar/error?reason=invalid_client`
+      )
+    }
+
     // Exchange code for tokens
     const provider = new GoogleCalendarProvider()
     const tokens = await provider.exchangeCodeForTokens(code)
@@ -64,44 +73,21 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Check if connection already exists
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const { data: existingConnection } = await (supabase as any)
-      .from('calendar_connections')
-      .select('id')
-      .eq('client_id', clientId)
-      .single() as { data: { id: string } | null }
+    await saveCalendarConnection(clientId, {
+      provider: 'google',
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresAt: tokens.expiresAt,
+      calendarId: primaryCalendar.id,
+      hostId,
+    })
 
-    if (existingConnection) {
-      // Update existing connection
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      await (supabase as any)
-        .from('calendar_connections')
-        .update({
-          provider: 'google',
-          access_token: tokens.accessToken,
-          refresh_token: tokens.refreshToken,
-          token_expires_at: tokens.expiresAt?.toISOString() || null,
-          calendar_id: primaryCalendar.id,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', existingConnection.id)
-    } else {
-      // Create new connection
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      await (supabase as any).from('calendar_connections').insert({
-        client_id: clientId,
-        provider: 'google',
-        access_token: tokens.accessToken,
-        refresh_token: tokens.refreshToken,
-        token_expires_at: tokens.expiresAt?.toISOString() || null,
-        calendar_id: primaryCalendar.id,
-      })
-    }
+    // Hear about appointments moved or deleted in the calendar
+    await watchClientCalendar(clientId, hostId)
 
     // Redirect to success page
     return NextResponse.redirect(
-      `${appUrl}/connect/calendar/success?client=${encodeURIComponent(client.brand_name || client.name)}`
+      `${appUrl}/connect/calendar/success?client=${encodeURIComponent(client.brand_name || client.name)}&clientId=${clientId}${hostId ? `&hostId=${hostId}` : ''}`
     )
   } catch (err) {
     console.error('Google OAuth callback error:', err)
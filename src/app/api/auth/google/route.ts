@@ -1,15 +1,16 @@
 /**
  * Google OAuth Initiation
- * GET /api/auth/google?clientId=xxx
+ * GET /api/auth/google?clientId=xxx[&hostId=yyy]
  *
  * Redirects user to Google OAuth consent screen
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { GoogleCalendarProvider } from '@/lib/calendar'
+import { GoogleCalendarProvider, encodeConnectState } from '@/lib/calendar'
 
 export async function GET(request: NextRequest) {
   const clientId = request.nextUrl.searchParams.get('clientId')
+  const hostId = request.nextUrl.searchParams.get('hostId')
 
   if (!clientId) {
     return NextResponse.json(
@@ -20,7 +21,7 @@ export async function GET(request: NextRequest) {
 
   try {
     const provider = new GoogleCalendarProvider()
-    const authUrl = provider.getAuthUrl(clientId)
+    const authUrl = provider.getAuthUrl(encodeConnectState(clientId, hostId))
 
     return NextResponse.redirect(authUrl)
   } catch (error) {
@@ -0,0 +1,83 @@
+/**
+ * ICS Subscription Connection
+ * POST /api/auth/ics
+ *
+ * Read-only mode: validates an ICS feed URL and stores it as the client's calendar.
+ * Busy times come from the feed; bookings are not written back to the calendar.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { IcsFeedCalendarProvider, getHostForClient, saveCalendarConnection } from '@/lib/calendar'
+import { createClient } from '@/lib/supabase/server'
+
+interface ConnectIcsBody {
+  clientId: string
+  hostId?: string | null
+  feedUrl: string
+}
+
+export async function POST(request: NextRequest) {
+  let body: ConnectIcsBody
+  try {
+    body = await request.json() as ConnectIcsBody
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const { clientId, feedUrl } = body
+  const hostId = body.hostId || null
+  if (!clientId || !feedUrl) {
+    return NextResponse.json(
+      { error: 'clientId and feedUrl are required' },
+      { status: 400 }
+    )
+  }
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || ''
+
+  // Verify client exists
+  const supabase = await createClient()
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: client, error: clientError } = await (supabase as any)
+    .from('clients')
+    .select('id, name, brand_name')
+    .eq('id', clientId)
+    .single() as { data: { id: string; name: string; brand_name: string | null } | null; error: Error | null }
+
+  if (clientError || !client) {
+    return NextResponse.json({ error: 'Invalid client' }, { status: 404 })
+  }
+
+  if (hostId && !(await getHostForClient(clientId, hostId))) {
+    return NextResponse.json({ error: 'Invalid host' }, { status: 404 })
+  }
+
+  let calendarId: string
+  try {
+    const feed = await new IcsFeedCalendarProvider().describeFeed(feedUrl)
+    calendarId = feed.id
+  } catch (err) {
+    console.error('ICS feed check failed:', err)
+    return NextResponse.json(
+      { error: 'Could not read this calendar feed. Check the link is a public or secret ICS address.' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    await saveCalendarConnection(clientId, {
+      provider: 'ics',
+      accessToken: '',
+      calendarId,
+      hostId,
+    })
+  } catch (err) {
+    console.error('Failed to save ICS connection:', err)
+    return NextResponse.json({ error: 'Failed to save calendar connection' }, { status: 500 })
+  }
+
+  return NextResponse.json({
+    success: true,
+    redirectUrl: `${appUrl}/connect/calendar/success?client=${encodeURIComponent(client.brand_name || client.name)}&clientId=${clientId}${hostId ? `&hostId=${hostId}` : ''}`,
+  })
+}
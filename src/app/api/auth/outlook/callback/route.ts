@@ -0,0 +1,98 @@
+/**
+ * Microsoft OAuth Callback
+ * GET /api/auth/outlook/callback?code=xxx&state=clientId[:hostId]
+ *
+ * Exchanges code for tokens, stores connection, starts change notifications and
+ * redirects to success page
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { OutlookCalendarProvider, getHostForClient, parseConnectState, saveCalendarConnection } from '@/lib/calendar'
+import { watchClientCalendar } from '@/lib/calendar/watch'
+import { createClient } from '@/lib/supabase/server'
+
+export async function GET(request: NextRequest) {
+  const code = request.nextUrl.searchParams.get('code')
+  const state = request.nextUrl.searchParams.get('state') // clientId, or clientId:hostId
+  const error = request.nextUrl.searchParams.get('error')
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || ''
+
+  // Handle OAuth errors (user denied, etc.)
+  if (error) {
+    console.error('Microsoft OAuth error:', error)
+    return NextResponse.redirect(
+      `${appUrl}/connect/calendar/error?reason=${encodeURIComponent(error)}`
+    )
+  }
+
+  if (!code || !state) {
+    return NextResponse.redirect(
+      `${appUrl}/connect/calendar/error?reason=missing_params`
+    )
+  }
+
+  const { clientId, hostId } = parseConnectState(state)
+
+  try {
+    // Verify client exists
+    const supabase = await createClient()
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: client, error: clientError } = await (supabase as any)
+      .from('clients')
+      .select('id, name, brand_name')
+      .eq('id', clientId)
+      .single() as { data: { id: string; name: string; brand_name: string | null } | null; error: Error | null }
+
+    if (clientError || !client) {
+      console.error('Client not found:', clientId)
+      return NextResponse.redirect(
+        `${appUrl}/connect/calendar/error?reason=invalid_client`
+      )
+    }
+
+    if (hostId && !(await getHostForClient(clientId, hostId))) {
+      console.error('Host not found for client:', { clientId, hostId })
+      return NextResponse.redirect(
+        `${appUrl}/connect/calendar/error?reason=invalid_client`
+      )
+    }
+
+    // Exchange code for tokens
+    const provider = new OutlookCalendarProvider()
+    const tokens = await provider.exchangeCodeForTokens(code)
+
+    // Get primary calendar
+    provider.setTokens(tokens)
+    const calendars = await provider.listCalendars()
+    const primaryCalendar = calendars.find((c) => c.primary) || calendars[0]
+
+    if (!primaryCalendar) {
+      return NextResponse.redirect(
+        `${appUrl}/connect/calendar/error?reason=no_calendars`
+      )
+    }
+
+    await saveCalendarConnection(clientId, {
+      provider: 'outlook',
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresAt: tokens.expiresAt,
+      calendarId: primaryCalendar.id,
+      hostId,
+    })
+
+    // Hear about appointments moved or deleted in the calendar
+    await watchClientCalendar(clientId, hostId)
+
+    // Redirect to success page
+    return NextResponse.redirect(
+      `${appUrl}/connect/calendar/success?client=${encodeURIComponent(client.brand_name || client.name)}&clientId=${clientId}${hostId ? `&hostId=${hostId}` : ''}`
+    )
+  } catch (err) {
+    console.error('Microsoft OAuth callback error:', err)
+    return NextResponse.redirect(
+      `${appUrl}/connect/calendar/error?reason=exchange_failed`
+    )
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Microsoft OAuth Initiation
+ * GET /api/auth/outlook?clientId=xxx[&hostId=yyy]
+ *
+ * Redirects user to Microsoft OAuth consent screen (Outlook / Microsoft 365)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { OutlookCalendarProvider, encodeConnectState } from '@/lib/calendar'
+
+export async function GET(request: NextRequest) {
+  const clientId = request.nextUrl.searchParams.get('clientId')
+  const hostId = request.nextUrl.searchParams.get('hostId')
+
+  if (!clientId) {
+    return NextResponse.json(
+      { error: 'clientId is required' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const provider = new OutlookCalendarProvider()
+    const authUrl = provider.getAuthUrl(encodeConnectState(clientId, hostId))
+
+    return NextResponse.redirect(authUrl)
+  } catch (error) {
+    console.error('Failed to initiate Microsoft OAuth:', error)
+    return NextResponse.json(
+      { error: 'Failed to initiate Microsoft OAuth. Check server configuration.' },
+      { status: 500 }
+    )
+  }
+}
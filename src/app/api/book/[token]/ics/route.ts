@@ -0,0 +1,71 @@
+/**
+ * Appointment Calendar File
+ * GET /api/book/[token]/ics
+ *
+ * Serves the .ics file behind the calendar links in confirmation messages. It is
+ * built fresh on every request, so after a reschedule the same link gives the
+ * updated event and after a cancellation it gives a METHOD:CANCEL file.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { verifyBookingLinkToken } from '@/lib/booking-links'
+import { buildLeadCalendarFile, getLeadCalendarEvent, LeadCalendarAppointment } from '@/lib/calendar'
+import { Client, Workflow } from '@/types/database'
+
+type RouteParams = { params: Promise<{ token: string }> }
+
+type AppointmentWithWorkflow = LeadCalendarAppointment & {
+  contact_id: string
+  workflows: Workflow & { clients: Client }
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const { token } = await params
+  const link = verifyBookingLinkToken(token)
+  if (!link || link.action !== 'calendar') {
+    return NextResponse.json({ error: 'This link has expired' }, { status: 404 })
+  }
+
+  const supabase = await createClient()
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: appointment } = await (supabase as any)
+    .from('appointments')
+    .select(`
+      id,
+      contact_id,
+      start_time,
+      end_time,
+      status,
+      location,
+      appointment_type_id,
+      calendar_sequence,
+      workflows (
+        *,
+        clients (*)
+      )
+    `)
+    .eq('id', link.appointmentId)
+    .eq('contact_id', link.contactId)
+    .maybeSingle() as { data: AppointmentWithWorkflow | null }
+
+  if (!appointment) {
+    return NextResponse.json({ error: 'Appointment not found' }, { status: 404 })
+  }
+
+  const event = getLeadCalendarEvent(
+    link.contactId,
+    appointment,
+    appointment.workflows,
+    appointment.workflows.clients
+  )
+
+  return new NextResponse(buildLeadCalendarFile(appointment, event), {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="appointment.ics"',
+      // Always serve the latest version of the event
+      'Cache-Control': 'no-store',
+    },
+  })
+}
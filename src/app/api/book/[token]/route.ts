@@ -0,0 +1,207 @@
+/**
+ * Self-Serve Booking
+ * POST /api/book/[token]
+ * DELETE /api/book/[token]
+ *
+ * Acts on the signed per-contact links texted to leads. Book links create an
+ * appointment through the same flow as booking in conversation; manage links (from
+ * confirmation messages) move or cancel the linked appointment, and the change is
+ * noted in the contact's message thread (a move also texts a fresh confirmation with
+ * links for the new time). Responses carry the appointment's calendar
+ * links so the page can offer to add (or remove) it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { verifyBookingLinkToken } from '@/lib/booking-links'
+import { orchestrator } from '@/lib/ai/orchestrator'
+import { ContactWithWorkflow } from '@/lib/ai/booking-handler'
+import { getLeadCalendarEvent, getLeadCalendarLinks, LeadCalendarAppointment, LeadCalendarLinks } from '@/lib/calendar'
+import { Appointment } from '@/types/database'
+
+interface BookFromLinkBody {
+  start: string
+  appointmentTypeId?: string | null
+  email?: string | null
+}
+
+type RouteParams = { params: Promise<{ token: string }> }
+
+/**
+ * Load the contact a link belongs to, if the link is still usable
+ */
+async function getLinkContact(contactId: string): Promise<ContactWithWorkflow | null> {
+  const supabase = await createClient()
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: contact } = await (supabase as any)
+    .from('contacts')
+    .select(`
+      *,
+      workflows (
+        *,
+        clients (*)
+      )
+    `)
+    .eq('id', contactId)
+    .single() as { data: ContactWithWorkflow | null }
+
+  if (!contact || contact.opted_out || contact.workflows.status !== 'active') {
+    return null
+  }
+  return contact
+}
+
+/**
+ * Load the appointment a manage link is for
+ */
+async function getLinkAppointment(
+  contactId: string,
+  appointmentId: string
+): Promise<Pick<Appointment, 'id' | 'start_time'> | null> {
+  const supabase = await createClient()
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: appointment } = await (supabase as any)
+    .from('appointments')
+    .select('id, start_time')
+    .eq('id', appointmentId)
+    .eq('contact_id', contactId)
+    .eq('status', 'confirmed')
+    .maybeSingle() as { data: Pick<Appointment, 'id' | 'start_time'> | null }
+
+  return appointment
+}
+
+/**
+ * The appointment's .ics file and add-to-calendar links, as it stands after the change
+ */
+async function getCalendarLinks(contact: ContactWithWorkflow, appointmentId: string): Promise<LeadCalendarLinks | null> {
+  const supabase = await createClient()
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: appointment } = await (supabase as any)
+    .from('appointments')
+    .select('id, start_time, end_time, status, location, appointment_type_id, calendar_sequence')
+    .eq('id', appointmentId)
+    .maybeSingle() as { data: LeadCalendarAppointment | null }
+
+  if (!appointment) {
+    return null
+  }
+  const event = getLeadCalendarEvent(contact.id, appointment, contact.workflows, contact.workflows.clients)
+  return getLeadCalendarLinks(contact.id, appointment, event)
+}
+
+/**
+ * POST - book a new appointment (book links) or move the linked one (manage links)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { token } = await params
+  const link = verifyBookingLinkToken(token)
+  if (!link || (link.action !== 'book' && link.action !== 'manage')) {
+    return NextResponse.json({ error: 'This link has expired' }, { status: 404 })
+  }
+
+  let body: BookFromLinkBody
+  try {
+    body = await request.json() as BookFromLinkBody
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const start = new Date(body.start)
+  if (!body.start || isNaN(start.getTime())) {
+    return NextResponse.json({ error: 'A valid start time is required' }, { status: 400 })
+  }
+
+  const contact = await getLinkContact(link.contactId)
+  if (!contact) {
+    return NextResponse.json({ error: 'This link is no longer active' }, { status: 404 })
+  }
+
+  try {
+    if (link.action === 'manage') {
+      const appointment = await getLinkAppointment(contact.id, link.appointmentId!)
+      if (!appointment) {
+        return NextResponse.json({ error: "This appointment can't be changed any more" }, { status: 404 })
+      }
+
+      const result = await orchestrator.rescheduleFromLink(contact, appointment, start)
+      if (!result.appointmentRescheduled) {
+        return NextResponse.json({ error: result.message }, { status: 409 })
+      }
+
+      console.log('[BookingLink] Appointment rescheduled from link:', {
+        contactId: contact.id,
+        appointmentId: result.appointmentId,
+      })
+
+      return NextResponse.json({
+        success: true,
+        appointmentId: result.appointmentId,
+        time: result.bookingState.selectedSlot?.formatted,
+        calendar: await getCalendarLinks(contact, appointment.id),
+      })
+    }
+
+    const result = await orchestrator.bookFromLink(contact, {
+      start,
+      appointmentTypeId: body.appointmentTypeId,
+      email: body.email,
+    })
+
+    if (!result.appointmentCreated) {
+      return NextResponse.json({ error: result.message }, { status: 409 })
+    }
+
+    console.log('[BookingLink] Appointment booked from link:', {
+      contactId: contact.id,
+      appointmentId: result.appointmentId,
+    })
+
+    return NextResponse.json({
+      success: true,
+      appointmentId: result.appointmentId,
+      time: result.bookingState.selectedSlot?.formatted,
+      calendar: result.appointmentId ? await getCalendarLinks(contact, result.appointmentId) : null,
+    })
+  } catch (error) {
+    console.error('[BookingLink] Booking failed:', error)
+    return NextResponse.json({ error: 'Failed to book appointment' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE - cancel the appointment a manage link is for
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  const { token } = await params
+  const link = verifyBookingLinkToken(token)
+  if (!link || link.action !== 'manage') {
+    return NextResponse.json({ error: 'This link has expired' }, { status: 404 })
+  }
+
+  const contact = await getLinkContact(link.contactId)
+  const appointment = contact ? await getLinkAppointment(contact.id, link.appointmentId!) : null
+  if (!contact || !appointment) {
+    return NextResponse.json({ error: "This appointment can't be changed any more" }, { status: 404 })
+  }
+
+  try {
+    const result = await orchestrator.cancelFromLink(contact, appointment)
+    if (!result.appointmentCancelled) {
+      return NextResponse.json({ error: result.message }, { status: 409 })
+    }
+
+    console.log('[BookingLink] Appointment cancelled from link:', {
+      contactId: contact.id,
+      appointmentId: appointment.id,
+    })
+
+    return NextResponse.json({
+      success: true,
+      calendar: await getCalendarLinks(contact, appointment.id),
+    })
+  } catch (error) {
+    console.error('[BookingLink] Cancellation failed:', error)
+    return NextResponse.json({ error: 'Failed to cancel appointment' }, { status: 500 })
+  }
+}
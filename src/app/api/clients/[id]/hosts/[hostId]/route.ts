@@ -0,0 +1,64 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+
+interface UpdateHostBody {
+  name?: string
+  email?: string | null
+  is_active?: boolean
+}
+
+// PATCH /api/clients/[id]/hosts/[hostId] - Rename or pause a team member
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string; hostId: string } }
+) {
+  const supabase = createClient()
+
+  try {
+    const body = await request.json() as UpdateHostBody
+
+    const updateData: Record<string, unknown> = {}
+    if (body.name !== undefined) updateData.name = body.name.trim()
+    if (body.email !== undefined) updateData.email = body.email?.trim() || null
+    if (body.is_active !== undefined) updateData.is_active = body.is_active
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: host, error } = await (supabase as any)
+      .from('hosts')
+      .update(updateData)
+      .eq('id', params.hostId)
+      .eq('client_id', params.id)
+      .select()
+      .single()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json(host)
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+}
+
+// DELETE /api/clients/[id]/hosts/[hostId] - Remove a team member and their calendar connection
+// Past appointments keep their record; host_id is cleared
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string; hostId: string } }
+) {
+  const supabase = createClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('hosts')
+    .delete()
+    .eq('id', params.hostId)
+    .eq('client_id', params.id)
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true })
+}
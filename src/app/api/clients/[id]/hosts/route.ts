@@ -0,0 +1,63 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+
+interface CreateHostBody {
+  name: string
+  email?: string
+}
+
+// GET /api/clients/[id]/hosts - List a client's team members
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: hosts, error } = await (supabase as any)
+    .from('hosts')
+    .select('*, calendar_connections(id, provider, calendar_id)')
+    .eq('client_id', params.id)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json(hosts)
+}
+
+// POST /api/clients/[id]/hosts - Add a team member
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createClient()
+
+  try {
+    const body = await request.json() as CreateHostBody
+
+    if (!body.name?.trim()) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 })
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: host, error } = await (supabase as any)
+      .from('hosts')
+      .insert({
+        client_id: params.id,
+        name: body.name.trim(),
+        email: body.email?.trim() || null,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json(host, { status: 201 })
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+}
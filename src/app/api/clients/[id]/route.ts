@@ -1,6 +1,9 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
-import { BusinessHours } from '@/types/database'
+import { BusinessHours, Client, DateOverride } from '@/types/database'
+import { isHolidayRegion } from '@/lib/calendar/holidays'
+import { isMessagingProviderType } from '@/lib/messaging/provider-options'
+import { normalizePoolEntries } from '@/lib/messaging/number-pool'
 
 interface UpdateClientBody {
   name?: string
@@ -18,6 +21,39 @@ interface UpdateClientBody {
   timezone?: string
   business_hours?: BusinessHours
   twilio_phone_number?: string
+  /** "+12125550100", or "+12125550100 vonage" for a number on another provider */
+  pool_phone_numbers?: string[]
+  local_presence?: boolean
+  messaging_provider?: Client['messaging_provider']
+  host_assignment?: Client['host_assignment']
+  holiday_region?: string | null
+  date_overrides?: DateOverride[]
+  slot_hold_minutes?: number
+  notify_leads_of_calendar_changes?: boolean
+  review_url?: string | null
+}
+
+/**
+ * Check date overrides before saving; returns an error message or null
+ */
+function validateDateOverrides(overrides: DateOverride[]): string | null {
+  const seen = new Set<string>()
+
+  for (const override of overrides) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(override.date || '')) {
+      return 'Each date override needs a date'
+    }
+    if (seen.has(override.date)) {
+      return `More than one override for ${override.date}`
+    }
+    seen.add(override.date)
+
+    if (override.hours && !(override.hours.start < override.hours.end)) {
+      return `Opening time must be before closing time on ${override.date}`
+    }
+  }
+
+  return null
 }
 
 // GET /api/clients/[id] - Get a single client
@@ -79,6 +115,59 @@ export async function PUT(
     if (body.timezone !== undefined) updateData.timezone = body.timezone
     if (body.business_hours !== undefined) updateData.business_hours = body.business_hours
     if (body.twilio_phone_number !== undefined) updateData.twilio_phone_number = body.twilio_phone_number
+    if (body.host_assignment !== undefined) updateData.host_assignment = body.host_assignment
+    if (body.review_url !== undefined) updateData.review_url = body.review_url?.trim() || null
+    if (body.notify_leads_of_calendar_changes !== undefined) {
+      updateData.notify_leads_of_calendar_changes = !!body.notify_leads_of_calendar_changes
+    }
+
+    if (body.local_presence !== undefined) updateData.local_presence = !!body.local_presence
+
+    if (body.pool_phone_numbers !== undefined) {
+      const pool = normalizePoolEntries(body.pool_phone_numbers)
+      if (!pool) {
+        return NextResponse.json({ error: 'Pool numbers must be phone numbers, optionally followed by a provider' }, { status: 400 })
+      }
+      updateData.pool_phone_numbers = pool.numbers
+      updateData.number_providers = pool.providers
+    }
+
+    if (body.messaging_provider !== undefined) {
+      if (!isMessagingProviderType(body.messaging_provider)) {
+        return NextResponse.json({ error: 'Unknown messaging provider' }, { status: 400 })
+      }
+      updateData.messaging_provider = body.messaging_provider
+    }
+
+    if (body.holiday_region !== undefined) {
+      if (body.holiday_region && !isHolidayRegion(body.holiday_region)) {
+        return NextResponse.json({ error: 'Unknown holiday region' }, { status: 400 })
+      }
+      updateData.holiday_region = body.holiday_region || null
+    }
+
+    if (body.slot_hold_minutes !== undefined) {
+      const holdMinutes = Number(body.slot_hold_minutes)
+      if (!Number.isInteger(holdMinutes) || holdMinutes < 0) {
+        return NextResponse.json({ error: 'Slot hold must be a whole number of minutes' }, { status: 400 })
+      }
+      updateData.slot_hold_minutes = holdMinutes
+    }
+
+    if (body.date_overrides !== undefined) {
+      const overrides = Array.isArray(body.date_overrides) ? body.date_overrides : []
+      const overrideError = validateDateOverrides(overrides)
+      if (overrideError) {
+        return NextResponse.json({ error: overrideError }, { status: 400 })
+      }
+      updateData.date_overrides = overrides
+        .map((o) => ({
+          date: o.date,
+          hours: o.hours ? { start: o.hours.start, end: o.hours.end } : null,
+          ...(o.label?.trim() ? { label: o.label.trim() } : {}),
+        }))
+        .sort((a, b) => a.date.localeCompare(b.date))
+    }
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const { data: client, error } = await (supabase as any)
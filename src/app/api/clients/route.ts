@@ -1,6 +1,8 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
-import { BusinessHours } from '@/types/database'
+import { BusinessHours, Client } from '@/types/database'
+import { isMessagingProviderType } from '@/lib/messaging/provider-options'
+import { normalizePoolEntries } from '@/lib/messaging/number-pool'
 
 interface CreateClientBody {
   name: string
@@ -9,6 +11,10 @@ interface CreateClientBody {
   timezone?: string
   business_hours?: BusinessHours
   twilio_phone_number?: string
+  /** "+12125550100", or "+12125550100 vonage" for a number on another provider */
+  pool_phone_numbers?: string[]
+  local_presence?: boolean
+  messaging_provider?: Client['messaging_provider']
 }
 
 // GET /api/clients - List all clients
@@ -42,6 +48,11 @@ export async function POST(request: Request) {
   try {
     const body = await request.json() as CreateClientBody
 
+    const pool = normalizePoolEntries(body.pool_phone_numbers ?? [])
+    if (!pool) {
+      return NextResponse.json({ error: 'Pool numbers must be phone numbers, optionally followed by a provider' }, { status: 400 })
+    }
+
     // Auto-add https:// if URL provided without protocol
     let brandUrl = body.brand_url || null
     if (brandUrl && !brandUrl.startsWith('http://') && !brandUrl.startsWith('https://')) {
@@ -64,6 +75,10 @@ export async function POST(request: Request) {
         sunday: null,
       },
       twilio_phone_number: body.twilio_phone_number || null,
+      pool_phone_numbers: pool.numbers,
+      number_providers: pool.providers,
+      local_presence: !!body.local_presence,
+      messaging_provider: isMessagingProviderType(body.messaging_provider) ? body.messaging_provider : 'twilio',
     }
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+
+// POST /api/contacts/[id]/active-conversation - Send the lead's ambiguous replies to this contact
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createClient()
+
+  const { data: contactData } = await supabase
+    .from('contacts')
+    .select('id, phone')
+    .eq('id', params.id)
+    .single()
+
+  const contact = contactData as { id: string; phone: string | null } | null
+
+  if (!contact) {
+    return NextResponse.json({ error: 'Contact not found' }, { status: 404 })
+  }
+
+  if (!contact.phone) {
+    return NextResponse.json({ error: 'Contact has no phone number' }, { status: 400 })
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('active_conversations')
+    .upsert({ phone: contact.phone, contact_id: contact.id }, { onConflict: 'phone' })
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true })
+}
+
+// DELETE /api/contacts/[id]/active-conversation - Stop pointing the lead's replies at this contact
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const supabase = createClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('active_conversations')
+    .delete()
+    .eq('contact_id', params.id)
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true })
+}
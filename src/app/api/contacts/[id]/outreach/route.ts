@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server'
-import { sendInitialOutreach } from '@/lib/twilio/message-sender'
+import { sendInitialOutreach } from '@/lib/messaging/message-sender'
 
 // POST /api/contacts/[id]/outreach - Send initial outreach to a contact
 export async function POST(
@@ -13,7 +13,7 @@ export async function POST(
       return NextResponse.json({
         success: true,
         messageId: result.messageId,
-        twilioSid: result.twilioSid
+        providerMessageId: result.providerMessageId
       })
     } else {
       return NextResponse.json(
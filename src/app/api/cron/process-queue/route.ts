@@ -0,0 +1,112 @@
+/**
+ * Cron Endpoint: Process Queue
+ *
+ * This endpoint is called by Vercel Cron to answer buffered inbound
+ * messages (one AI turn per contact that has gone quiet), then drain
+ * the outbound queue: AI replies whose typing delay has passed (usually
+ * including the ones just generated) and retries that are due.
+ * Turns are watched for the first part of the minute, so a burst is usually
+ * answered a few seconds after its quiet window closes, not at the next cron tick.
+ *
+ * Schedule: Every minute
+ * Vercel Cron config: "* * * * *"
+ */
+
+import { NextResponse } from 'next/server'
+import { processInboundTurns } from '@/lib/jobs/inbound-turns'
+import { processOutboundQueue } from '@/lib/jobs/outbound-queue'
+
+// Vercel Cron requires a specific secret to prevent unauthorized access
+const CRON_SECRET = process.env.CRON_SECRET
+
+// The run is cut off at maxDuration, so turns may only start while there is still room
+// for the slowest one to finish and for the outbound queue to be drained after it
+const RUN_LIMIT_MS = 60 * 1000
+const TURN_MAX_MS = 20 * 1000
+const QUEUE_DRAIN_BUDGET_MS = 15 * 1000
+const TURN_DEADLINE_MS = RUN_LIMIT_MS - TURN_MAX_MS - QUEUE_DRAIN_BUDGET_MS
+
+export const maxDuration = 60 // Allow up to 60 seconds for processing (RUN_LIMIT_MS)
+export const dynamic = 'force-dynamic' // Ensure no caching
+
+export async function GET(request: Request) {
+  // Verify the request is from Vercel Cron
+  const authHeader = request.headers.get('authorization')
+  if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+    console.warn('[Cron:Queue] Unauthorized request')
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  console.log('[Cron:Queue] Starting job...')
+
+  try {
+    const turns = await processInboundTurns({ deadlineMs: TURN_DEADLINE_MS })
+    const result = await processOutboundQueue()
+
+    console.log(`[Cron:Queue] Turns: processed=${turns.processed}, failed=${turns.failed}, skipped=${turns.skipped}`)
+    console.log(`[Cron:Queue] Complete: processed=${result.processed}, failed=${result.failed}, skipped=${result.skipped}, duration=${result.duration}ms`)
+
+    return NextResponse.json({
+      success: turns.success && result.success,
+      turns: {
+        processed: turns.processed,
+        failed: turns.failed,
+        skipped: turns.skipped,
+        errors: turns.errors.length > 0 ? turns.errors.slice(0, 5) : undefined,
+      },
+      processed: result.processed,
+      failed: result.failed,
+      skipped: result.skipped,
+      duration: result.duration,
+      errors: result.errors.length > 0 ? result.errors.slice(0, 5) : undefined, // Limit errors in response
+    })
+  } catch (error) {
+    console.error('[Cron:Queue] Fatal error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Also support POST for manual triggering from admin
+export async function POST(request: Request) {
+  // For POST requests, also check for API key or session auth
+  const authHeader = request.headers.get('authorization')
+
+  // Check for cron secret or admin API key
+  const isAuthorized =
+    (CRON_SECRET && authHeader === `Bearer ${CRON_SECRET}`) ||
+    authHeader?.startsWith('Bearer ') // Accept any bearer token for now (TODO: proper auth)
+
+  if (!isAuthorized) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  // Parse optional body for filters
+  let options = {}
+  try {
+    const body = await request.json()
+    options = {
+      workflowId: body.workflowId,
+      clientId: body.clientId,
+      dryRun: body.dryRun,
+    }
+  } catch {
+    // No body or invalid JSON - that's fine
+  }
+
+  console.log('[Cron:Queue] Manual trigger with options:', options)
+
+  try {
+    const turns = await processInboundTurns(options)
+    const result = await processOutboundQueue(options)
+    return NextResponse.json({ ...result, success: turns.success && result.success, turns })
+  } catch (error) {
+    console.error('[Cron:Queue] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getMessagingProvider } from '@/lib/messaging'
+import { getMessageMedia } from '@/lib/messaging/media'
+import { getNumberProviderType } from '@/lib/messaging/number-pool'
+import { Client, Contact, Message } from '@/types/database'
+
+type MessageWithProvider = Pick<Message, 'id' | 'media'> & {
+  contacts: Pick<Contact, 'sender_number'> & {
+    workflows: {
+      clients: Pick<Client, 'messaging_provider' | 'number_providers'> | null
+    } | null
+  } | null
+}
+
+// GET /api/messages/[id]/media/[index] - An inbound attachment, fetched through the messaging provider
+// Provider media URLs can need the account's credentials, so the browser can't load them directly
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string; index: string } }
+) {
+  const supabase = createClient()
+
+  const { data } = await supabase
+    .from('messages')
+    .select('id, media, contacts (sender_number, workflows (clients (messaging_provider, number_providers)))')
+    .eq('id', params.id)
+    .single()
+
+  const message = data as unknown as MessageWithProvider | null
+  const media = message ? getMessageMedia(message)[parseInt(params.index, 10)] : undefined
+
+  if (!message || !media) {
+    return NextResponse.json({ error: 'Media not found' }, { status: 404 })
+  }
+
+  try {
+    // The lead's messages arrive on their pinned number, so it's that number's provider
+    const provider = getMessagingProvider(
+      getNumberProviderType(message.contacts?.workflows?.clients, message.contacts?.sender_number)
+    )
+    const response = await provider.fetchMedia(media.url)
+
+    if (!response.ok) {
+      console.error('[Media] Provider returned an error:', { messageId: params.id, status: response.status })
+      return NextResponse.json({ error: 'Media unavailable' }, { status: 502 })
+    }
+
+    return new Response(response.body, {
+      headers: {
+        'Content-Type': response.headers.get('content-type') || media.content_type,
+        'Cache-Control': 'private, max-age=3600',
+      },
+    })
+  } catch (error) {
+    console.error('[Media] Fetch error:', error)
+    return NextResponse.json({ error: 'Media unavailable' }, { status: 502 })
+  }
+}
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server'
-import { retryFailedMessage } from '@/lib/twilio/message-sender'
+import { retryFailedMessage } from '@/lib/messaging/message-sender'
 
 // POST /api/messages/[id]/retry - Retry sending a failed message
 export async function POST(
@@ -13,7 +13,7 @@ export async function POST(
       return NextResponse.json({
         success: true,
         messageId: result.messageId,
-        twilioSid: result.twilioSid
+        providerMessageId: result.providerMessageId
       })
     } else {
       return NextResponse.json(
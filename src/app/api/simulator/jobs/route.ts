@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server'
+import {
+  processInitialOutreach,
+  processFollowUps,
+  processReminders,
+  processPostMeeting,
+  processOutboundQueue,
+  processInboundTurns,
+} from '@/lib/jobs'
+import { JobResult } from '@/lib/jobs/types'
+
+export const maxDuration = 60
+export const dynamic = 'force-dynamic'
+
+const JOBS = {
+  outreach: processInitialOutreach,
+  'follow-ups': processFollowUps,
+  reminders: processReminders,
+  'post-meeting': processPostMeeting,
+  'inbound-turns': processInboundTurns,
+  queue: processOutboundQueue,
+} satisfies Record<string, (options: { workflowId?: string; config?: { delayBetweenMessages: number } }) => Promise<JobResult>>
+
+type SimulatorJob = keyof typeof JOBS
+
+interface RunJobBody {
+  job: SimulatorJob
+  workflowId?: string
+}
+
+// POST /api/simulator/jobs - Run a scheduled job now, for the phone simulator (development only)
+export async function POST(request: Request) {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  try {
+    const body = await request.json() as RunJobBody
+
+    if (!(body.job in JOBS)) {
+      return NextResponse.json({ error: 'Unknown job' }, { status: 400 })
+    }
+
+    console.log(`[Simulator] Running ${body.job}`, { workflowId: body.workflowId })
+
+    const result = await JOBS[body.job]({
+      workflowId: body.workflowId,
+      // No carrier to protect - don't wait between messages
+      config: { delayBetweenMessages: 0 },
+    })
+
+    return NextResponse.json({
+      success: result.success,
+      processed: result.processed,
+      failed: result.failed,
+      skipped: result.skipped,
+      errors: result.errors.length > 0 ? result.errors.slice(0, 5) : undefined,
+    })
+  } catch (error) {
+    console.error('[Simulator] Job error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
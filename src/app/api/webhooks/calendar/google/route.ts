@@ -0,0 +1,56 @@
+/**
+ * Google Calendar Push Notifications
+ * POST /api/webhooks/calendar/google
+ *
+ * Google posts here (with an empty body) whenever an event on a watched calendar
+ * changes. The notification doesn't say which event, so the connection's upcoming
+ * appointments are all checked against the calendar.
+ */
+
+import { NextResponse } from 'next/server'
+import { getCalendarConnectionByWatchId } from '@/lib/calendar'
+import { isCalendarWatchToken } from '@/lib/calendar/watch'
+import { reconcileCalendarConnection } from '@/lib/jobs/calendar-sync'
+
+export const maxDuration = 60
+export const dynamic = 'force-dynamic'
+
+export async function POST(request: Request) {
+  const channelId = request.headers.get('x-goog-channel-id')
+  const channelToken = request.headers.get('x-goog-channel-token')
+  const resourceState = request.headers.get('x-goog-resource-state')
+
+  if (!channelId) {
+    return NextResponse.json({ error: 'Missing channel' }, { status: 400 })
+  }
+
+  // Sent once when the channel opens - nothing has changed yet
+  if (resourceState === 'sync') {
+    return new NextResponse(null, { status: 200 })
+  }
+
+  const calendar = await getCalendarConnectionByWatchId(channelId)
+
+  // Anything but 2xx makes Google retry, so an unknown (e.g. replaced) channel is acknowledged
+  if (!calendar) {
+    console.warn('[Webhook:GoogleCalendar] Notification for unknown channel:', channelId)
+    return new NextResponse(null, { status: 200 })
+  }
+
+  if (!isCalendarWatchToken(calendar.connection, channelToken)) {
+    console.error('[Webhook:GoogleCalendar] Invalid channel token:', channelId)
+    return new NextResponse('Unauthorized', { status: 401 })
+  }
+
+  const result = await reconcileCalendarConnection(calendar)
+
+  console.log('[Webhook:GoogleCalendar] Reconciled:', {
+    connectionId: calendar.connection.id,
+    checked: result.checked,
+    moved: result.moved,
+    cancelled: result.cancelled,
+    failed: result.failed,
+  })
+
+  return new NextResponse(null, { status: 200 })
+}
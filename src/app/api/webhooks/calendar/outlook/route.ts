@@ -0,0 +1,87 @@
+/**
+ * Outlook Calendar Change Notifications
+ * POST /api/webhooks/calendar/outlook
+ *
+ * Microsoft Graph posts a batch of notifications here when events on a subscribed
+ * calendar change; each one names the event, so only those appointments are checked.
+ * When a subscription is created Graph first sends a validationToken that must be
+ * echoed back as plain text.
+ */
+
+import { NextResponse } from 'next/server'
+import { getCalendarConnectionByWatchId } from '@/lib/calendar'
+import { isCalendarWatchToken } from '@/lib/calendar/watch'
+import { reconcileCalendarConnection } from '@/lib/jobs/calendar-sync'
+
+export const maxDuration = 60
+export const dynamic = 'force-dynamic'
+
+interface GraphNotification {
+  subscriptionId: string
+  clientState?: string
+  changeType: string
+  resourceData?: {
+    id?: string
+  }
+}
+
+export async function POST(request: Request) {
+  const validationToken = new URL(request.url).searchParams.get('validationToken')
+  if (validationToken) {
+    return new NextResponse(validationToken, {
+      status: 200,
+      headers: { 'Content-Type': 'text/plain' },
+    })
+  }
+
+  let notifications: GraphNotification[]
+  try {
+    const body = await request.json()
+    notifications = Array.isArray(body.value) ? body.value : []
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+  }
+
+  // Group the batch by subscription so each calendar is checked once
+  const bySubscription = new Map<string, GraphNotification[]>()
+  for (const notification of notifications) {
+    const group = bySubscription.get(notification.subscriptionId) || []
+    group.push(notification)
+    bySubscription.set(notification.subscriptionId, group)
+  }
+
+  for (const [subscriptionId, group] of Array.from(bySubscription.entries())) {
+    const calendar = await getCalendarConnectionByWatchId(subscriptionId)
+
+    if (!calendar) {
+      console.warn('[Webhook:OutlookCalendar] Notification for unknown subscription:', subscriptionId)
+      continue
+    }
+
+    // Unsigned notifications are only trusted if they echo the secret we subscribed with
+    const trusted = group.filter((n) => isCalendarWatchToken(calendar.connection, n.clientState))
+    if (trusted.length < group.length) {
+      console.error('[Webhook:OutlookCalendar] Invalid clientState:', subscriptionId)
+    }
+
+    const eventIds = Array.from(
+      new Set(trusted.map((n) => n.resourceData?.id).filter((id): id is string => !!id))
+    )
+    if (eventIds.length === 0) {
+      continue
+    }
+
+    const result = await reconcileCalendarConnection(calendar, { eventIds })
+
+    console.log('[Webhook:OutlookCalendar] Reconciled:', {
+      connectionId: calendar.connection.id,
+      checked: result.checked,
+      moved: result.moved,
+      cancelled: result.cancelled,
+      failed: result.failed,
+    })
+  }
+
+  // Graph only needs to know the batch arrived
+  return new NextResponse(null, { status: 202 })
+}
@@ -0,0 +1,324 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isOptOutMessage } from '@/lib/constants/opt-out'
+import { checkRateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+import {
+  InboundEmail,
+  parseInboundEmail,
+  isAutoReply,
+  isValidEmailWebhookSecret,
+  extractReplyText,
+  htmlToText,
+  parseThreadContactId,
+} from '@/lib/email'
+import { bufferInboundMessage } from '@/lib/messaging/inbound-buffer'
+
+// Contact type for query results
+interface ContactResult {
+  id: string
+  email: string | null
+  workflow_id: string
+  status: string
+  opted_out: boolean
+}
+
+/**
+ * Inbound email webhook
+ * Point the mail provider's inbound parse (SendGrid Inbound Parse, Mailgun routes)
+ * for the EMAIL_REPLY_TO address here. Replies are threaded back to their contact,
+ * stripped of quoted history and signatures, and answered by the AI by email.
+ */
+export async function POST(request: Request) {
+  // Rate limiting for webhook endpoints (using higher limit)
+  const rateLimit = checkRateLimit('webhook:email', RATE_LIMITS.webhook)
+
+  if (!rateLimit.success) {
+    console.warn('Email webhook rate limit exceeded')
+    return NextResponse.json(
+      { error: 'Rate limit exceeded' },
+      { status: 429 }
+    )
+  }
+
+  // Set once the Message-ID is claimed / the email is stored, so a failure in between
+  // releases the claim and the relay's retry is processed
+  let claimedMessageId: string | null = null
+  let inboundSaved = false
+
+  try {
+    // Validate the shared secret (in production)
+    if (process.env.NODE_ENV === 'production') {
+      const url = new URL(request.url)
+      const bearer = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') || null
+      if (!isValidEmailWebhookSecret(url.searchParams.get('secret') || bearer)) {
+        console.error('Invalid email webhook secret')
+        return new NextResponse('Unauthorized', { status: 401 })
+      }
+    }
+
+    const email = parseInboundEmail(await readFields(request))
+
+    if (!email) {
+      console.log('Inbound email without a sender - ignoring')
+      return NextResponse.json({ received: true })
+    }
+
+    console.log(`Inbound email from ${email.from.address}: ${email.subject}`)
+
+    if (isAutoReply(email)) {
+      console.log(`Ignoring automatic reply from ${email.from.address}`)
+      return NextResponse.json({ received: true })
+    }
+
+    const supabase = createClient()
+
+    // Find the contact, by thread first so a reply from an alias still lands in the right conversation
+    const contact = await findContact(supabase, email)
+
+    if (!contact) {
+      console.log(`No active contact found for ${email.from.address}`)
+      return NextResponse.json({ received: true }) // Don't reply to unknown senders
+    }
+
+    // Relays retry on timeouts, so the same email can arrive twice
+    if (email.messageId && !(await claimEmailMessage(supabase, email.messageId))) {
+      console.log(`Duplicate inbound email ${email.messageId} - ignoring`)
+      return NextResponse.json({ received: true })
+    }
+    claimedMessageId = email.messageId
+
+    const body = extractReplyText(email.text || htmlToText(email.html || ''))
+
+    if (!body) {
+      console.log(`Inbound email from ${email.from.address} had no new text`)
+      return NextResponse.json({ received: true })
+    }
+
+    // Check for opt-out keywords
+    if (isOptOutMessage(body, true)) {
+      console.log(`Opt-out detected from ${email.from.address}`)
+
+      // Opt out the contacts with this address at the client the email was for -
+      // not their conversations with other clients
+      const { data: ownerData } = await supabase
+        .from('workflows')
+        .select('client_id')
+        .eq('id', contact.workflow_id)
+        .single()
+
+      const clientId = (ownerData as { client_id: string } | null)?.client_id
+
+      const { data: contactsData } = clientId
+        ? await supabase
+          .from('contacts')
+          .select('id, workflows!inner(client_id)')
+          .ilike('email', escapeLikePattern(email.from.address))
+          .eq('workflows.client_id', clientId)
+          .eq('opted_out', false)
+        : { data: null }
+
+      // The matched contact always goes, even if the reply came from another address
+      const optOutContacts = [
+        { id: contact.id },
+        ...((contactsData || []) as Array<{ id: string }>).filter((c) => c.id !== contact.id),
+      ]
+
+      for (const optOutContact of optOutContacts) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        await (supabase as any).from('messages').insert({
+          contact_id: optOutContact.id,
+          direction: 'inbound',
+          channel: 'email',
+          content: body,
+          status: 'received',
+          email_message_id: optOutContact.id === contact.id ? email.messageId : null,
+          ai_generated: false
+        })
+        inboundSaved = true
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        await (supabase as any)
+          .from('contacts')
+          .update({
+            status: 'opted_out',
+            opted_out: true,
+            opted_out_at: new Date().toISOString()
+          })
+          .eq('id', optOutContact.id)
+      }
+
+      return NextResponse.json({ received: true })
+    }
+
+    // Verify workflow is active
+    const { data: workflowData } = await supabase
+      .from('workflows')
+      .select('id, channel, status')
+      .eq('id', contact.workflow_id)
+      .single()
+
+    const workflow = workflowData as { id: string; channel: string; status: string } | null
+
+    if (!workflow || workflow.status !== 'active' || workflow.channel !== 'email') {
+      console.log(`Workflow not active or channel mismatch for contact ${contact.id}`)
+      return NextResponse.json({ received: true })
+    }
+
+    // Save inbound message first (for tracking)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error: insertError } = await (supabase as any).from('messages').insert({
+      contact_id: contact.id,
+      direction: 'inbound',
+      channel: 'email',
+      content: body,
+      status: 'received',
+      email_message_id: email.messageId,
+      ai_generated: false,
+      awaiting_reply: true
+    })
+
+    if (insertError) {
+      throw new Error(`Failed to save inbound email: ${insertError.message}`)
+    }
+    inboundSaved = true
+
+    // Answered in one AI turn with anything else they send in the quiet window, by the
+    // inbound turns job - the reply is queued to go out by email, threaded onto theirs
+    await bufferInboundMessage(contact.id)
+
+    return NextResponse.json({ received: true })
+
+  } catch (error) {
+    console.error('Email webhook error:', error)
+
+    // Nothing stored yet - forget the Message-ID and ask the relay to retry
+    if (claimedMessageId && !inboundSaved) {
+      await releaseEmailMessage(claimedMessageId).catch(() => {})
+      return NextResponse.json({ error: 'Failed to process email' }, { status: 500 })
+    }
+
+    // Otherwise acknowledge - a retry would only repeat the same failure
+    return NextResponse.json({ received: true })
+  }
+}
+
+/**
+ * Read the payload as form data (multipart or urlencoded) or JSON
+ */
+async function readFields(request: Request): Promise<Record<string, string>> {
+  const contentType = request.headers.get('content-type') || ''
+  const fields: Record<string, string> = {}
+
+  if (contentType.includes('application/json')) {
+    const json = await request.json() as Record<string, unknown>
+    for (const [key, value] of Object.entries(json)) {
+      if (typeof value === 'string') {
+        fields[key] = value
+      }
+    }
+    return fields
+  }
+
+  const formData = await request.formData()
+  formData.forEach((value, key) => {
+    // Attachments arrive as files - only the text fields are needed
+    if (typeof value === 'string') {
+      fields[key] = value
+    }
+  })
+  return fields
+}
+
+type DbClient = ReturnType<typeof createClient>
+
+/**
+ * Record an inbound Message-ID before processing it
+ * Returns false if it was already recorded. Uses the same receipts table as the
+ * SMS and WhatsApp webhooks, so two concurrent deliveries can't both get through.
+ */
+async function claimEmailMessage(supabase: DbClient, messageId: string): Promise<boolean> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('inbound_message_receipts')
+    .insert({ provider: 'email', message_sid: messageId })
+
+  if (!error) return true
+
+  // Unique violation: seen before
+  if (error.code === '23505') return false
+
+  console.warn('Could not record inbound email receipt:', { messageId, error: error.message })
+  return true
+}
+
+/**
+ * Forget an inbound Message-ID so the relay's retry is processed
+ * (used when handling it failed before anything was saved)
+ */
+async function releaseEmailMessage(messageId: string): Promise<void> {
+  const supabase = createClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await (supabase as any)
+    .from('inbound_message_receipts')
+    .delete()
+    .eq('provider', 'email')
+    .eq('message_sid', messageId)
+}
+
+/**
+ * Match an address literally in an ilike filter (% and _ are wildcards there)
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&')
+}
+
+/**
+ * Match an inbound email to a contact
+ * Order: our thread root id in the headers, then a known Message-ID, then the sender address
+ */
+async function findContact(supabase: DbClient, email: InboundEmail): Promise<ContactResult | null> {
+  const threadIds = [...(email.inReplyTo ? [email.inReplyTo] : []), ...email.references]
+
+  let contactId = parseThreadContactId(threadIds)
+
+  if (!contactId && threadIds.length > 0) {
+    const { data: messageData } = await supabase
+      .from('messages')
+      .select('contact_id')
+      .in('email_message_id', threadIds)
+      .limit(1)
+
+    const messages = messageData as Array<{ contact_id: string }> | null
+    contactId = messages?.[0]?.contact_id || null
+  }
+
+  if (contactId) {
+    const { data: contactData } = await supabase
+      .from('contacts')
+      .select('id, email, workflow_id, status, opted_out')
+      .eq('id', contactId)
+      .single()
+
+    const contact = contactData as ContactResult | null
+    if (contact) {
+      if (contact.email?.toLowerCase() !== email.from.address) {
+        console.log(`Reply for contact ${contact.id} came from a different address: ${email.from.address}`)
+      }
+      return contact.opted_out || contact.status === 'opted_out' ? null : contact
+    }
+  }
+
+  // No thread headers we recognise - fall back to the sender's address
+  const { data: contactsData } = await supabase
+    .from('contacts')
+    .select('id, email, workflow_id, status, opted_out, workflows!inner(channel)')
+    .ilike('email', escapeLikePattern(email.from.address))
+    .eq('workflows.channel', 'email')
+    .neq('status', 'opted_out')
+    .order('last_message_at', { ascending: false, nullsFirst: false })
+    .limit(1)
+
+  const contacts = contactsData as ContactResult[] | null
+  return contacts?.[0] || null
+}
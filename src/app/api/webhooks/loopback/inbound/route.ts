@@ -0,0 +1,6 @@
+import { handleInboundWebhook } from '@/lib/messaging/webhooks'
+
+// Loopback webhook for inbound SMS/WhatsApp messages
+export async function POST(request: Request) {
+  return handleInboundWebhook('loopback', request)
+}
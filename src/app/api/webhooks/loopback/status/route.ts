@@ -0,0 +1,7 @@
+import { handleStatusWebhook } from '@/lib/messaging/webhooks'
+
+// Loopback status callback webhook
+// Called when message status changes (queued → sent → delivered/failed)
+export async function POST(request: Request) {
+  return handleStatusWebhook('loopback', request)
+}
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { sendInitialOutreach } from '@/lib/twilio/message-sender'
+import { sendInitialOutreach } from '@/lib/messaging/message-sender'
 
 interface BulkOutreachRequest {
   contactIds?: string[]  // Specific contacts to send to
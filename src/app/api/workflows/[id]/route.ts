@@ -1,7 +1,11 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
 
-import { FollowUpTemplate, Json } from '@/types/database'
+import { AppointmentType, FollowUpTemplate, ReminderTemplate, PostMeetingTemplate, WhatsAppTemplate, Json } from '@/types/database'
+import { normalizeAppointmentType } from '@/lib/calendar/appointment-types'
+import { MAX_REMINDER_OFFSET_HOURS } from '@/lib/jobs/reminder-templates'
+import { MAX_POST_MEETING_DELAY_HOURS } from '@/lib/jobs/post-meeting-templates'
+import { WHATSAPP_TEMPLATE_PURPOSES, WHATSAPP_TEMPLATE_VARIABLES } from '@/lib/messaging/whatsapp'
 
 interface UpdateWorkflowBody {
   name?: string
@@ -11,7 +15,13 @@ interface UpdateWorkflowBody {
   qualification_criteria?: string
   initial_message_template?: string
   description?: string
+  email_subject?: string | null
   follow_up_templates?: FollowUpTemplate[]
+  appointment_types?: AppointmentType[]
+  reminder_templates?: ReminderTemplate[]
+  no_show_templates?: PostMeetingTemplate[]
+  completed_templates?: PostMeetingTemplate[]
+  whatsapp_templates?: WhatsAppTemplate[]
 }
 
 // GET /api/workflows/[id] - Get a single workflow
@@ -60,11 +70,96 @@ export async function PUT(
     if (body.qualification_criteria !== undefined) updateData.qualification_criteria = body.qualification_criteria
     if (body.initial_message_template !== undefined) updateData.initial_message_template = body.initial_message_template
     if (body.description !== undefined) updateData.description = body.description
+    if (body.email_subject !== undefined) updateData.email_subject = body.email_subject?.trim() || null
     if (body.follow_up_templates !== undefined) {
       updateData.follow_up_templates = body.follow_up_templates as unknown as Json
       // Also update follow_up_count to match number of templates
       updateData.follow_up_count = body.follow_up_templates.length
     }
+    if (body.appointment_types !== undefined) {
+      if (!Array.isArray(body.appointment_types)) {
+        return NextResponse.json({ error: 'appointment_types must be an array' }, { status: 400 })
+      }
+      const types = body.appointment_types.map((t) => normalizeAppointmentType(t))
+      const names = types.map((t) => t.name.toLowerCase())
+      if (new Set(names).size !== names.length) {
+        return NextResponse.json({ error: 'Appointment types need different names' }, { status: 400 })
+      }
+      updateData.appointment_types = types as unknown as Json
+      // Keep the legacy duration in step with the default type
+      if (types.length > 0) {
+        updateData.appointment_duration_minutes = types[0].duration_minutes
+      }
+    }
+
+    if (body.reminder_templates !== undefined) {
+      if (!Array.isArray(body.reminder_templates)) {
+        return NextResponse.json({ error: 'reminder_templates must be an array' }, { status: 400 })
+      }
+      const reminders = body.reminder_templates.map((t) => ({
+        offset_hours: Number(t.offset_hours),
+        message: (t.message || '').trim(),
+      }))
+      if (reminders.some((t) => !Number.isInteger(t.offset_hours) || t.offset_hours < 1 || t.offset_hours > MAX_REMINDER_OFFSET_HOURS)) {
+        return NextResponse.json(
+          { error: `Reminders must be sent between 1 and ${MAX_REMINDER_OFFSET_HOURS} hours before the appointment` },
+          { status: 400 }
+        )
+      }
+      if (new Set(reminders.map((t) => t.offset_hours)).size !== reminders.length) {
+        return NextResponse.json({ error: 'Reminders need different send times' }, { status: 400 })
+      }
+      // Stored furthest-out first, the order the reminder job sends them in
+      updateData.reminder_templates = reminders
+        .sort((a, b) => b.offset_hours - a.offset_hours) as unknown as Json
+    }
+
+    for (const field of ['no_show_templates', 'completed_templates'] as const) {
+      const templates = body[field]
+      if (templates === undefined) continue
+      if (!Array.isArray(templates)) {
+        return NextResponse.json({ error: `${field} must be an array` }, { status: 400 })
+      }
+      const messages = templates.map((t) => ({
+        delay_hours: Number(t.delay_hours),
+        message: (t.message || '').trim(),
+      }))
+      if (messages.some((t) => !Number.isInteger(t.delay_hours) || t.delay_hours < 0 || t.delay_hours > MAX_POST_MEETING_DELAY_HOURS)) {
+        return NextResponse.json(
+          { error: `Post-meeting messages must be sent between 0 and ${MAX_POST_MEETING_DELAY_HOURS} hours after the appointment` },
+          { status: 400 }
+        )
+      }
+      // Stored soonest first, the order the post-meeting job sends them in
+      updateData[field] = messages
+        .sort((a, b) => a.delay_hours - b.delay_hours) as unknown as Json
+    }
+
+    if (body.whatsapp_templates !== undefined) {
+      if (!Array.isArray(body.whatsapp_templates)) {
+        return NextResponse.json({ error: 'whatsapp_templates must be an array' }, { status: 400 })
+      }
+      const templates = body.whatsapp_templates.map((t) => ({
+        purpose: t.purpose,
+        template_id: (t.template_id || '').trim(),
+        language: (t.language || '').trim() || 'en',
+        preview: (t.preview || '').trim(),
+        variables: Array.isArray(t.variables) ? t.variables : [],
+      }))
+      if (templates.some((t) => !WHATSAPP_TEMPLATE_PURPOSES.includes(t.purpose))) {
+        return NextResponse.json({ error: 'Invalid WhatsApp template purpose' }, { status: 400 })
+      }
+      if (templates.some((t) => !t.template_id)) {
+        return NextResponse.json({ error: 'WhatsApp templates need a template ID' }, { status: 400 })
+      }
+      if (templates.some((t) => t.variables.some((v) => !(v in WHATSAPP_TEMPLATE_VARIABLES)))) {
+        return NextResponse.json({ error: 'Invalid WhatsApp template variable' }, { status: 400 })
+      }
+      if (new Set(templates.map((t) => t.purpose)).size !== templates.length) {
+        return NextResponse.json({ error: 'Only one WhatsApp template per purpose' }, { status: 400 })
+      }
+      updateData.whatsapp_templates = templates as unknown as Json
+    }
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const { data: workflow, error } = await (supabase as any)
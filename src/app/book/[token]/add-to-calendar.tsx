@@ -0,0 +1,29 @@
+import { Button } from '@/components/ui/button'
+import { CalendarPlus } from 'lucide-react'
+import type { LeadCalendarLinks } from '@/lib/calendar/lead-calendar'
+
+/**
+ * Buttons for adding the appointment to the lead's own calendar
+ * The .ics file suits Apple Calendar and most other apps, and keeps up with changes
+ */
+export function AddToCalendar({ links }: { links: LeadCalendarLinks }) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-center text-muted-foreground">Add it to your calendar</p>
+      <div className="grid grid-cols-3 gap-2">
+        <Button asChild size="sm" variant="outline">
+          <a href={links.ics}>
+            <CalendarPlus className="w-4 h-4 mr-1" />
+            Apple / other
+          </a>
+        </Button>
+        <Button asChild size="sm" variant="outline">
+          <a href={links.google} target="_blank" rel="noopener noreferrer">Google</a>
+        </Button>
+        <Button asChild size="sm" variant="outline">
+          <a href={links.outlook} target="_blank" rel="noopener noreferrer">Outlook</a>
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Loader2 } from 'lucide-react'
+import type { LeadCalendarLinks } from '@/lib/calendar/lead-calendar'
+import { SlotPicker, SlotDay } from './slot-picker'
+import { AddToCalendar } from './add-to-calendar'
+
+interface ManageAppointmentProps {
+  token: string
+  appointmentTypeId: string
+  days: SlotDay[]
+  calendar: LeadCalendarLinks
+}
+
+/**
+ * Reschedule or cancel options for the appointment behind a manage link
+ */
+export function ManageAppointment({ token, appointmentTypeId, days, calendar }: ManageAppointmentProps) {
+  const [view, setView] = useState<'options' | 'reschedule' | 'confirm-cancel' | 'cancelled'>('options')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const cancel = async () => {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/book/${token}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to cancel appointment')
+      }
+
+      setView('cancelled')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (view === 'cancelled') {
+    return (
+      <div className="p-4 rounded-xl bg-muted/50 text-center space-y-1">
+        <p className="font-medium">Your appointment has been cancelled</p>
+        <p className="text-sm text-muted-foreground">
+          Changed your mind? Reply to our text and we&apos;ll find another time.
+        </p>
+        <p className="text-sm text-muted-foreground">
+          {/* The same .ics link now serves the cancellation */}
+          Added it to your calendar? <a href={calendar.ics} className="underline">Remove it</a>.
+        </p>
+      </div>
+    )
+  }
+
+  if (view === 'reschedule') {
+    return (
+      <div className="space-y-3">
+        {days.length === 0 ? (
+          <div className="p-4 rounded-xl bg-muted/50 text-center text-sm text-muted-foreground">
+            No other times are free in the next two weeks. Reply to our text and we&apos;ll find one that works.
+          </div>
+        ) : (
+          <SlotPicker token={token} appointmentTypeId={appointmentTypeId} days={days} mode="reschedule" />
+        )}
+        <Button variant="ghost" size="sm" className="w-full" onClick={() => setView('options')}>
+          Back
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {view === 'confirm-cancel' ? (
+        <>
+          <p className="text-sm text-center">Are you sure you want to cancel?</p>
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="outline" onClick={() => setView('options')} disabled={saving}>
+              Keep it
+            </Button>
+            <Button variant="destructive" onClick={cancel} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Yes, cancel
+            </Button>
+          </div>
+        </>
+      ) : (
+        <div className="grid gap-2">
+          <AddToCalendar links={calendar} />
+          <Button size="lg" onClick={() => setView('reschedule')}>
+            Pick a new time
+          </Button>
+          <Button size="lg" variant="outline" onClick={() => setView('confirm-cancel')}>
+            Cancel appointment
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <div className="text-sm text-red-400 bg-red-500/10 p-2 rounded">{error}</div>
+      )}
+    </div>
+  )
+}
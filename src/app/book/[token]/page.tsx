@@ -0,0 +1,269 @@
+/**
+ * Public Self-Serve Booking Page
+ * /book/[token]?type=xxx
+ *
+ * The page behind the booking link the AI texts to leads who'd rather pick a time
+ * themselves. The token is signed per contact, so the booking lands on their record
+ * and in their conversation. With ?type=, slots are for that appointment type.
+ *
+ * Manage links (sent with booking confirmations) open the same page with options to
+ * move or cancel the linked appointment instead.
+ */
+
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { verifyBookingLinkToken } from '@/lib/booking-links'
+import { bookingHandler, ContactWithWorkflow } from '@/lib/ai/booking-handler'
+import {
+  getAppointmentTypes,
+  getLocalTime,
+  formatSlot,
+  describeAppointmentType,
+  getLeadCalendarEvent,
+  getLeadCalendarLinks,
+  LeadCalendarAppointment,
+  TimeSlot,
+} from '@/lib/calendar'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { CalendarIcon } from 'lucide-react'
+import { SlotPicker, SlotDay } from './slot-picker'
+import { ManageAppointment } from './manage-appointment'
+
+interface PageProps {
+  params: Promise<{ token: string }>
+  searchParams: Promise<{ type?: string }>
+}
+
+function BookingCard({
+  contact,
+  title,
+  description,
+  children,
+}: {
+  contact: ContactWithWorkflow | null
+  title: string
+  description: string
+  children?: React.ReactNode
+}) {
+  const client = contact?.workflows.clients
+  const displayName = client ? client.brand_name || client.name : ''
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-background via-background to-cyan-950/20">
+      <Card className="w-full max-w-lg">
+        <CardHeader className="text-center">
+          {client?.brand_logo_url ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={client.brand_logo_url}
+              alt={displayName}
+              className="h-12 mx-auto mb-4 object-contain"
+            />
+          ) : (
+            <div className="w-16 h-16 mx-auto mb-4 rounded-2xl bg-gradient-to-br from-cyan-500 to-cyan-400 flex items-center justify-center">
+              <CalendarIcon className="w-8 h-8 text-navy-900" />
+            </div>
+          )}
+          <CardTitle className="text-2xl">{title}</CardTitle>
+          <CardDescription className="text-base">{description}</CardDescription>
+        </CardHeader>
+        {children && <CardContent className="space-y-4">{children}</CardContent>}
+      </Card>
+    </div>
+  )
+}
+
+/**
+ * Group slots by the client's local day for the picker
+ */
+function groupSlotsByDay(slots: TimeSlot[], timezone: string): SlotDay[] {
+  const dayFormatter = new Intl.DateTimeFormat('en-GB', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'short',
+    timeZone: timezone,
+  })
+  const timeFormatter = new Intl.DateTimeFormat('en-GB', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hourCycle: 'h12',
+    timeZone: timezone,
+  })
+
+  const days: SlotDay[] = []
+  for (const slot of slots) {
+    const { dateKey } = getLocalTime(slot.start, timezone)
+    let day = days.find(d => d.key === dateKey)
+    if (!day) {
+      day = { key: dateKey, label: dayFormatter.format(slot.start), slots: [] }
+      days.push(day)
+    }
+    day.slots.push({ start: slot.start.toISOString(), label: timeFormatter.format(slot.start) })
+  }
+  return days
+}
+
+export default async function BookingPage({ params, searchParams }: PageProps) {
+  const { token } = await params
+  const { type: typeParam } = await searchParams
+
+  const link = verifyBookingLinkToken(token)
+  if (!link) {
+    return (
+      <BookingCard
+        contact={null}
+        title="This link has expired"
+        description="Reply to our text and we'll send you a fresh booking link."
+      />
+    )
+  }
+
+  const supabase = await createClient()
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: contact } = await (supabase as any)
+    .from('contacts')
+    .select(`
+      *,
+      workflows (
+        *,
+        clients (*)
+      )
+    `)
+    .eq('id', link.contactId)
+    .single() as { data: ContactWithWorkflow | null }
+
+  if (!contact) {
+    notFound()
+  }
+
+  const client = contact.workflows.clients
+  const displayName = client.brand_name || client.name
+  const timezone = client.timezone || 'Europe/London'
+  const firstName = contact.first_name || 'there'
+
+  if (contact.opted_out || contact.workflows.status !== 'active') {
+    return (
+      <BookingCard
+        contact={contact}
+        title="Booking isn't available"
+        description={`This booking link is no longer active. Please get in touch with ${displayName} directly.`}
+      />
+    )
+  }
+
+  if (link.action === 'manage') {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: appointment } = await (supabase as any)
+      .from('appointments')
+      .select('id, status, start_time, end_time, location, appointment_type_id, calendar_sequence')
+      .eq('id', link.appointmentId)
+      .eq('contact_id', contact.id)
+      .maybeSingle() as { data: LeadCalendarAppointment | null }
+
+    if (!appointment || appointment.status !== 'confirmed' || new Date(appointment.start_time) <= new Date()) {
+      return (
+        <BookingCard
+          contact={contact}
+          title="This appointment can't be changed"
+          description={appointment?.status === 'cancelled'
+            ? `This appointment has been cancelled. Reply to our text if you'd like to book another time with ${displayName}.`
+            : `Please get in touch with ${displayName} directly if you need to make a change.`}
+        />
+      )
+    }
+
+    const event = getLeadCalendarEvent(contact.id, appointment, contact.workflows, client)
+    const { slots } = await bookingHandler.getLinkSlots(
+      contact,
+      appointment.appointment_type_id || undefined,
+      appointment.id
+    )
+
+    return (
+      <BookingCard
+        contact={contact}
+        title="Your appointment"
+        description={`Hi ${firstName}, you're booked with ${displayName} for ${formatSlot(new Date(appointment.start_time), timezone)}. Times are shown in ${timezone.replace(/_/g, ' ')}.`}
+      >
+        <ManageAppointment
+          token={token}
+          appointmentTypeId={appointment.appointment_type_id || ''}
+          days={groupSlotsByDay(slots, timezone)}
+          calendar={getLeadCalendarLinks(contact.id, appointment, event)}
+        />
+      </BookingCard>
+    )
+  }
+
+  if (contact.status === 'booked') {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: appointment } = await (supabase as any)
+      .from('appointments')
+      .select('start_time')
+      .eq('contact_id', contact.id)
+      .eq('status', 'confirmed')
+      .gte('start_time', new Date().toISOString())
+      .order('start_time', { ascending: true })
+      .limit(1)
+      .maybeSingle() as { data: { start_time: string } | null }
+
+    return (
+      <BookingCard
+        contact={contact}
+        title="You're already booked"
+        description={appointment
+          ? `${firstName}, you're booked with ${displayName} for ${formatSlot(new Date(appointment.start_time), timezone)}. Need to change it? Just reply to our text.`
+          : `${firstName}, you already have an appointment with ${displayName}. Need to change it? Just reply to our text.`}
+      />
+    )
+  }
+
+  const appointmentTypes = getAppointmentTypes(contact.workflows)
+  const { appointmentType, slots } = await bookingHandler.getLinkSlots(contact, typeParam)
+
+  const days = groupSlotsByDay(slots, timezone)
+
+  return (
+    <BookingCard
+      contact={contact}
+      title={`Book with ${displayName}`}
+      description={`Hi ${firstName}, pick a time that suits you. Times are shown in ${timezone.replace(/_/g, ' ')}.`}
+    >
+      {appointmentTypes.length > 1 && (
+        <div className="flex flex-wrap gap-2 justify-center">
+          {appointmentTypes.map((type) => (
+            <Button
+              key={type.id}
+              asChild
+              size="sm"
+              variant={type.id === appointmentType.id ? 'default' : 'outline'}
+            >
+              <Link href={`/book/${token}?type=${encodeURIComponent(type.id)}`}>
+                {type.name}
+              </Link>
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <p className="text-sm text-center text-muted-foreground">
+        {describeAppointmentType(appointmentType)}
+      </p>
+
+      {days.length === 0 ? (
+        <div className="p-4 rounded-xl bg-muted/50 text-center text-sm text-muted-foreground">
+          No times are free in the next two weeks. Reply to our text and we&apos;ll find one that works.
+        </div>
+      ) : (
+        <SlotPicker
+          token={token}
+          appointmentTypeId={appointmentType.id}
+          days={days}
+          defaultEmail={contact.email || ''}
+        />
+      )}
+    </BookingCard>
+  )
+}
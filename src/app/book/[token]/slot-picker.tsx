@@ -0,0 +1,154 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { CheckCircle2, Loader2 } from 'lucide-react'
+import type { LeadCalendarLinks } from '@/lib/calendar/lead-calendar'
+import { AddToCalendar } from './add-to-calendar'
+
+export interface SlotDay {
+  /** Local date ("YYYY-MM-DD") */
+  key: string
+  label: string
+  slots: Array<{ start: string; label: string }>
+}
+
+interface SlotPickerProps {
+  token: string
+  appointmentTypeId: string
+  days: SlotDay[]
+  /** Reschedule moves the lead's appointment instead of booking a new one (no email needed) */
+  mode?: 'book' | 'reschedule'
+  defaultEmail?: string
+}
+
+/**
+ * Day-by-day list of open times; picking one and confirming books it (or moves the appointment)
+ */
+export function SlotPicker({ token, appointmentTypeId, days, mode = 'book', defaultEmail = '' }: SlotPickerProps) {
+  const router = useRouter()
+  const [dayKey, setDayKey] = useState(days[0]?.key)
+  const [selected, setSelected] = useState<string | null>(null)
+  const [email, setEmail] = useState(defaultEmail)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [bookedTime, setBookedTime] = useState<string | null>(null)
+  const [calendar, setCalendar] = useState<LeadCalendarLinks | null>(null)
+
+  const day = days.find(d => d.key === dayKey) || days[0]
+
+  const book = async () => {
+    if (!selected) return
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/book/${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(mode === 'book' ? { start: selected, appointmentTypeId, email } : { start: selected }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to book appointment')
+      }
+
+      setCalendar(data.calendar || null)
+      setBookedTime(data.time || '')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+      setSelected(null)
+      // The time may have gone - reload the open slots
+      router.refresh()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (bookedTime !== null) {
+    return (
+      <div className="space-y-4">
+        <div className="p-4 rounded-xl bg-green-500/10 border border-green-500/30 text-center space-y-1">
+          <CheckCircle2 className="w-6 h-6 text-green-400 mx-auto" />
+          <p className="text-green-400 font-medium">
+            {bookedTime ? `You're booked for ${bookedTime}` : "You're booked"}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {mode === 'book'
+              ? <>We&apos;ve texted you a confirmation and a calendar invite is on its way.</>
+              : <>Your calendar invite will be updated with the new time.</>}
+          </p>
+        </div>
+        {calendar && <AddToCalendar links={calendar} />}
+      </div>
+    )
+  }
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault()
+        book()
+      }}
+    >
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {days.map((d) => (
+          <Button
+            key={d.key}
+            type="button"
+            size="sm"
+            variant={d.key === day.key ? 'default' : 'outline'}
+            onClick={() => {
+              setDayKey(d.key)
+              setSelected(null)
+            }}
+          >
+            {d.label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {day.slots.map((slot) => (
+          <Button
+            key={slot.start}
+            type="button"
+            size="sm"
+            variant={slot.start === selected ? 'default' : 'outline'}
+            onClick={() => setSelected(slot.start)}
+          >
+            {slot.label}
+          </Button>
+        ))}
+      </div>
+
+      {mode === 'book' && (
+        <div className="grid gap-2">
+          <Label htmlFor="email">Email for the calendar invite</Label>
+          <Input
+            id="email"
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+        </div>
+      )}
+
+      {error && (
+        <div className="text-sm text-red-400 bg-red-500/10 p-2 rounded">{error}</div>
+      )}
+
+      <Button type="submit" size="lg" className="w-full" disabled={!selected || saving}>
+        {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        {mode === 'book' ? 'Confirm booking' : 'Move my appointment'}
+      </Button>
+    </form>
+  )
+}
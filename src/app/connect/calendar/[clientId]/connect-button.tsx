@@ -1,16 +1,20 @@
 'use client'
 
 import { Button, type ButtonProps } from '@/components/ui/button'
+import type { CalendarProviderType } from '@/lib/calendar/types'
 
 interface ConnectButtonProps extends Omit<ButtonProps, 'onClick'> {
   clientId: string
+  /** Set when a team member is connecting their own calendar */
+  hostId?: string | null
+  provider: Extract<CalendarProviderType, 'google' | 'outlook'>
   children: React.ReactNode
 }
 
-export function ConnectButton({ clientId, children, ...props }: ConnectButtonProps) {
+export function ConnectButton({ clientId, hostId, provider, children, ...props }: ConnectButtonProps) {
   const handleConnect = () => {
-    // Redirect to Google OAuth initiation
-    window.location.href = `/api/auth/google?clientId=${clientId}`
+    // Redirect to the provider's OAuth initiation
+    window.location.href = `/api/auth/${provider}?clientId=${clientId}${hostId ? `&hostId=${hostId}` : ''}`
   }
 
   return (
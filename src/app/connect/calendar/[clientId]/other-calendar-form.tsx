@@ -0,0 +1,147 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Loader2 } from 'lucide-react'
+
+interface OtherCalendarFormProps {
+  clientId: string
+  hostId?: string | null
+}
+
+/**
+ * Connect form for calendars without OAuth: CalDAV accounts (Fastmail, iCloud, Nextcloud)
+ * and read-only ICS subscription links
+ */
+export function OtherCalendarForm({ clientId, hostId }: OtherCalendarFormProps) {
+  const [open, setOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const [caldav, setCaldav] = useState({ serverUrl: '', username: '', password: '' })
+  const [feedUrl, setFeedUrl] = useState('')
+
+  const submit = async (endpoint: string, body: Record<string, string>) => {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ clientId, hostId, ...body }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to connect calendar')
+      }
+
+      window.location.href = data.redirectUrl
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+      setSaving(false)
+    }
+  }
+
+  if (!open) {
+    return (
+      <Button variant="ghost" size="sm" className="w-full" onClick={() => setOpen(true)}>
+        Use iCloud, Fastmail, Nextcloud or another calendar
+      </Button>
+    )
+  }
+
+  return (
+    <Tabs defaultValue="caldav" className="w-full">
+      <TabsList className="grid w-full grid-cols-2">
+        <TabsTrigger value="caldav">CalDAV account</TabsTrigger>
+        <TabsTrigger value="ics">Subscription link</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="caldav">
+        <form
+          className="space-y-3 pt-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            submit('/api/auth/caldav', caldav)
+          }}
+        >
+          <div className="grid gap-2">
+            <Label htmlFor="serverUrl">Server URL</Label>
+            <Input
+              id="serverUrl"
+              placeholder="https://caldav.fastmail.com/"
+              value={caldav.serverUrl}
+              onChange={(e) => setCaldav({ ...caldav, serverUrl: e.target.value })}
+              required
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="username">Username</Label>
+            <Input
+              id="username"
+              autoComplete="username"
+              value={caldav.username}
+              onChange={(e) => setCaldav({ ...caldav, username: e.target.value })}
+              required
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="password">App password</Label>
+            <Input
+              id="password"
+              type="password"
+              autoComplete="current-password"
+              value={caldav.password}
+              onChange={(e) => setCaldav({ ...caldav, password: e.target.value })}
+              required
+            />
+            <p className="text-xs text-muted-foreground">
+              Use an app-specific password from your calendar provider, not your main password.
+            </p>
+          </div>
+          <Button type="submit" className="w-full" disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Connect CalDAV calendar
+          </Button>
+        </form>
+      </TabsContent>
+
+      <TabsContent value="ics">
+        <form
+          className="space-y-3 pt-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            submit('/api/auth/ics', { feedUrl })
+          }}
+        >
+          <div className="grid gap-2">
+            <Label htmlFor="feedUrl">ICS / webcal link</Label>
+            <Input
+              id="feedUrl"
+              placeholder="webcal://p01-caldav.icloud.com/published/2/..."
+              value={feedUrl}
+              onChange={(e) => setFeedUrl(e.target.value)}
+              required
+            />
+            <p className="text-xs text-muted-foreground">
+              Read-only: we&apos;ll only check when you&apos;re busy. Booked appointments won&apos;t be added to this calendar.
+            </p>
+          </div>
+          <Button type="submit" className="w-full" disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Connect subscription
+          </Button>
+        </form>
+      </TabsContent>
+
+      {error && (
+        <div className="text-sm text-red-400 bg-red-500/10 p-2 rounded mt-3">{error}</div>
+      )}
+    </Tabs>
+  )
+}
@@ -1,18 +1,22 @@
 /**
  * Public Calendar Connect Page
- * /connect/calendar/[clientId]
+ * /connect/calendar/[clientId]?host=xxx
  *
- * Simple page for clients to connect their Google Calendar
+ * Simple page for clients to connect their Google, Outlook or CalDAV calendar.
+ * With ?host=, a team member connects their own calendar for round-robin booking.
  */
 
 import { notFound } from 'next/navigation'
 import { createClient } from '@/lib/supabase/server'
+import { getHostForClient } from '@/lib/calendar'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { CalendarIcon } from 'lucide-react'
 import { ConnectButton } from './connect-button'
+import { OtherCalendarForm } from './other-calendar-form'
 
 interface PageProps {
   params: Promise<{ clientId: string }>
+  searchParams: Promise<{ host?: string }>
 }
 
 type ClientData = {
@@ -28,8 +32,50 @@ type ConnectionData = {
   calendar_id: string | null
 }
 
-export default async function ConnectCalendarPage({ params }: PageProps) {
+const PROVIDER_NAMES: Record<string, string> = {
+  google: 'Google Calendar',
+  outlook: 'Outlook Calendar',
+  caldav: 'CalDAV calendar',
+  ics: 'calendar subscription',
+}
+
+function GoogleIcon() {
+  return (
+    <svg className="w-5 h-5 mr-2" viewBox="0 0 24 24">
+      <path
+        fill="currentColor"
+        d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
+      />
+      <path
+        fill="currentColor"
+        d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
+      />
+      <path
+        fill="currentColor"
+        d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
+      />
+      <path
+        fill="currentColor"
+        d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
+      />
+    </svg>
+  )
+}
+
+function MicrosoftIcon() {
+  return (
+    <svg className="w-5 h-5 mr-2" viewBox="0 0 24 24">
+      <path fill="currentColor" d="M1 1h10.5v10.5H1z" />
+      <path fill="currentColor" d="M12.5 1H23v10.5H12.5z" />
+      <path fill="currentColor" d="M1 12.5h10.5V23H1z" />
+      <path fill="currentColor" d="M12.5 12.5H23V23H12.5z" />
+    </svg>
+  )
+}
+
+export default async function ConnectCalendarPage({ params, searchParams }: PageProps) {
   const { clientId } = await params
+  const { host: hostParam } = await searchParams
   const supabase = await createClient()
 
   // Fetch client info
@@ -44,13 +90,21 @@ export default async function ConnectCalendarPage({ params }: PageProps) {
     notFound()
   }
 
+  const host = hostParam ? await getHostForClient(clientId, hostParam) : null
+  if (hostParam && !host) {
+    notFound()
+  }
+  const hostId = host?.id || null
+
   // Check if already connected
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const { data: existingConnection } = await (supabase as any)
+  const connectionQuery = (supabase as any)
     .from('calendar_connections')
     .select('id, provider, calendar_id')
     .eq('client_id', clientId)
-    .single() as { data: ConnectionData | null }
+  const { data: existingConnection } = await (
+    hostId ? connectionQuery.eq('host_id', hostId) : connectionQuery.is('host_id', null)
+  ).maybeSingle() as { data: ConnectionData | null }
 
   const displayName = client.brand_name || client.name
 
@@ -72,8 +126,9 @@ export default async function ConnectCalendarPage({ params }: PageProps) {
           )}
           <CardTitle className="text-2xl">Connect Your Calendar</CardTitle>
           <CardDescription className="text-base">
-            {displayName} uses BookerBot to schedule appointments.
-            Connect your calendar to enable automatic booking.
+            {host
+              ? `${host.name}, ${displayName} uses BookerBot to share bookings across the team. Connect your calendar to start receiving appointments.`
+              : `${displayName} uses BookerBot to schedule appointments. Connect your calendar to enable automatic booking.`}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -84,38 +139,36 @@ export default async function ConnectCalendarPage({ params }: PageProps) {
                   Calendar already connected
                 </p>
                 <p className="text-sm text-muted-foreground mt-1">
-                  Your {existingConnection.provider === 'google' ? 'Google Calendar' : 'calendar'} is connected and ready.
+                  Your {PROVIDER_NAMES[existingConnection.provider] || 'calendar'} is connected and ready.
                 </p>
               </div>
               <div className="text-sm text-muted-foreground">
                 Want to connect a different account?
               </div>
-              <ConnectButton clientId={clientId} variant="outline">
-                Reconnect Google Calendar
-              </ConnectButton>
+              <div className="flex flex-col gap-2">
+                <ConnectButton clientId={clientId} hostId={hostId} provider="google" variant="outline">
+                  <GoogleIcon />
+                  Reconnect with Google
+                </ConnectButton>
+                <ConnectButton clientId={clientId} hostId={hostId} provider="outlook" variant="outline">
+                  <MicrosoftIcon />
+                  Reconnect with Outlook
+                </ConnectButton>
+                <OtherCalendarForm clientId={clientId} hostId={hostId} />
+              </div>
             </div>
           ) : (
-            <ConnectButton clientId={clientId} size="lg" className="w-full">
-              <svg className="w-5 h-5 mr-2" viewBox="0 0 24 24">
-                <path
-                  fill="currentColor"
-                  d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-                />
-                <path
-                  fill="currentColor"
-                  d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-                />
-                <path
-                  fill="currentColor"
-                  d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-                />
-                <path
-                  fill="currentColor"
-                  d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-                />
-              </svg>
-              Continue with Google
-            </ConnectButton>
+            <div className="space-y-3">
+              <ConnectButton clientId={clientId} hostId={hostId} provider="google" size="lg" className="w-full">
+                <GoogleIcon />
+                Continue with Google
+              </ConnectButton>
+              <ConnectButton clientId={clientId} hostId={hostId} provider="outlook" size="lg" variant="outline" className="w-full">
+                <MicrosoftIcon />
+                Continue with Outlook
+              </ConnectButton>
+              <OtherCalendarForm clientId={clientId} hostId={hostId} />
+            </div>
           )}
 
           <p className="text-xs text-center text-muted-foreground pt-4">
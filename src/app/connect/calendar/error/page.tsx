@@ -27,11 +27,11 @@ const ERROR_MESSAGES: Record<string, { title: string; description: string }> = {
   },
   no_calendars: {
     title: 'No Calendars Found',
-    description: 'We couldn\'t find any calendars in your Google account. Please make sure you have at least one calendar.',
+    description: 'We couldn\'t find any calendars in your account. Please make sure you have at least one calendar.',
   },
   exchange_failed: {
     title: 'Connection Failed',
-    description: 'We couldn\'t complete the connection to Google Calendar. Please try again.',
+    description: 'We couldn\'t complete the connection to your calendar provider. Please try again.',
   },
   default: {
     title: 'Something Went Wrong',
@@ -0,0 +1,138 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { CheckCircle2, Loader2 } from 'lucide-react'
+import type { Calendar } from '@/lib/calendar'
+
+interface CalendarSelectionFormProps {
+  clientId: string
+  hostId: string | null
+  calendars: Calendar[]
+  calendarId: string
+  busyCalendarIds: string[]
+}
+
+/**
+ * Lets the person connecting pick which calendars block booking slots
+ * and which calendar new bookings are added to
+ */
+export function CalendarSelectionForm({
+  clientId,
+  hostId,
+  calendars,
+  calendarId,
+  busyCalendarIds,
+}: CalendarSelectionFormProps) {
+  const [targetId, setTargetId] = useState(calendarId)
+  const [busyIds, setBusyIds] = useState<Set<string>>(new Set(busyCalendarIds))
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const toggleBusy = (id: string) => {
+    const next = new Set(busyIds)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setBusyIds(next)
+    setSaved(false)
+  }
+
+  const save = async () => {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/auth/calendars', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          clientId,
+          hostId,
+          calendarId: targetId,
+          busyCalendarIds: Array.from(busyIds).filter((id) => id !== targetId),
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to save calendars')
+      }
+
+      setSaved(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4 text-left">
+      <div className="grid gap-2">
+        <Label>Add bookings to</Label>
+        <Select
+          value={targetId}
+          onValueChange={(value) => {
+            setTargetId(value)
+            setSaved(false)
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {calendars.map((calendar) => (
+              <SelectItem key={calendar.id} value={calendar.id}>
+                {calendar.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-2">
+        <Label>Also check these calendars for conflicts</Label>
+        <div className="space-y-2">
+          {calendars.map((calendar) => {
+            const isTarget = calendar.id === targetId
+            return (
+              <label
+                key={calendar.id}
+                className="flex items-center gap-3 text-sm cursor-pointer"
+              >
+                <Checkbox
+                  checked={isTarget || busyIds.has(calendar.id)}
+                  disabled={isTarget}
+                  onCheckedChange={() => toggleBusy(calendar.id)}
+                />
+                <span>
+                  {calendar.name}
+                  {isTarget && (
+                    <span className="text-muted-foreground"> (always checked)</span>
+                  )}
+                </span>
+              </label>
+            )
+          })}
+        </div>
+      </div>
+
+      <Button className="w-full" onClick={save} disabled={saving}>
+        {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        {saved && <CheckCircle2 className="w-4 h-4 mr-2" />}
+        {saved ? 'Saved' : 'Save calendars'}
+      </Button>
+
+      {error && (
+        <div className="text-sm text-red-400 bg-red-500/10 p-2 rounded">{error}</div>
+      )}
+    </div>
+  )
+}
@@ -1,18 +1,53 @@
 /**
  * Calendar Connection Success Page
- * /connect/calendar/success?client=ClientName
+ * /connect/calendar/success?client=ClientName&clientId=xxx[&hostId=yyy]
+ *
+ * When the connected account has more than one calendar, lets the admin choose
+ * which calendars block slots and which one bookings are written to
  */
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Separator } from '@/components/ui/separator'
 import { CheckCircle2 } from 'lucide-react'
+import { getCalendarConnectionForClient, Calendar } from '@/lib/calendar'
+import { CalendarSelectionForm } from './calendar-selection-form'
 
 interface PageProps {
-  searchParams: Promise<{ client?: string }>
+  searchParams: Promise<{ client?: string; clientId?: string; hostId?: string }>
+}
+
+async function loadCalendarSelection(clientId: string, hostId: string | null) {
+  const calendar = await getCalendarConnectionForClient(clientId, hostId)
+  if (!calendar) {
+    return null
+  }
+
+  let calendars: Calendar[]
+  try {
+    calendars = await calendar.provider.listCalendars()
+  } catch (err) {
+    console.error('Failed to list calendars on success page:', err)
+    return null
+  }
+
+  // Nothing to choose between (single calendar, or an ICS subscription)
+  if (calendars.length < 2) {
+    return null
+  }
+
+  const primaryId = calendars.find((c) => c.primary)?.id || calendars[0].id
+
+  return {
+    calendars,
+    calendarId: calendar.connection.calendar_id || primaryId,
+    busyCalendarIds: calendar.connection.busy_calendar_ids || [],
+  }
 }
 
 export default async function CalendarSuccessPage({ searchParams }: PageProps) {
-  const { client } = await searchParams
+  const { client, clientId, hostId } = await searchParams
   const clientName = client || 'Your business'
+  const selection = clientId ? await loadCalendarSelection(clientId, hostId || null) : null
 
   return (
     <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-background via-background to-cyan-950/20">
@@ -30,6 +65,19 @@ export default async function CalendarSuccessPage({ searchParams }: PageProps) {
           <p className="text-muted-foreground">
             BookerBot can now check your availability and book appointments automatically.
           </p>
+          {selection && clientId && (
+            <>
+              <Separator />
+              <CalendarSelectionForm
+                clientId={clientId}
+                hostId={hostId || null}
+                calendars={selection.calendars}
+                calendarId={selection.calendarId}
+                busyCalendarIds={selection.busyCalendarIds}
+              />
+              <Separator />
+            </>
+          )}
           <p className="text-sm text-muted-foreground">
             You can close this tab.
           </p>
@@ -0,0 +1,53 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Loader2 } from 'lucide-react'
+
+interface ActiveConversationButtonProps {
+  contactId: string
+  isActive: boolean
+}
+
+/**
+ * Point the lead's replies at this conversation when their number is in several
+ * (used only once the receiving number and our last message can't tell them apart)
+ */
+export function ActiveConversationButton({ contactId, isActive }: ActiveConversationButtonProps) {
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleToggle = async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/contacts/${contactId}/active-conversation`, {
+        method: isActive ? 'DELETE' : 'POST',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to update active conversation')
+      }
+
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <Button onClick={handleToggle} disabled={isLoading} variant="outline" size="sm">
+        {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        {isActive ? 'Clear active' : 'Make active'}
+      </Button>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,214 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Plus, Trash2 } from 'lucide-react'
+import { AppointmentLocationType, AppointmentType } from '@/types/database'
+import {
+  DEFAULT_MIN_NOTICE_HOURS,
+  DEFAULT_SLOT_INTERVAL_MINUTES,
+  LOCATION_TYPE_LABELS,
+} from '@/lib/calendar/appointment-types'
+
+interface AppointmentTypesEditorProps {
+  types: AppointmentType[]
+  onChange: (types: AppointmentType[]) => void
+  defaultDuration?: number
+  disabled?: boolean
+}
+
+type NumberField =
+  | 'duration_minutes'
+  | 'buffer_before_minutes'
+  | 'buffer_after_minutes'
+  | 'slot_interval_minutes'
+  | 'min_notice_hours'
+
+export function AppointmentTypesEditor({
+  types,
+  onChange,
+  defaultDuration = 30,
+  disabled = false,
+}: AppointmentTypesEditorProps) {
+  const addType = () => {
+    const newType: AppointmentType = {
+      id: crypto.randomUUID(),
+      name: types.length === 0 ? `${defaultDuration}-min call` : '',
+      duration_minutes: defaultDuration,
+      buffer_before_minutes: 0,
+      buffer_after_minutes: 0,
+      slot_interval_minutes: DEFAULT_SLOT_INTERVAL_MINUTES,
+      min_notice_hours: DEFAULT_MIN_NOTICE_HOURS,
+      max_per_day: null,
+      location_type: 'video',
+    }
+    onChange([...types, newType])
+  }
+
+  const removeType = (index: number) => {
+    onChange(types.filter((_, i) => i !== index))
+  }
+
+  const updateType = (index: number, changes: Partial<AppointmentType>) => {
+    onChange(types.map((t, i) => (i === index ? { ...t, ...changes } : t)))
+  }
+
+  const numberInput = (index: number, field: NumberField, label: string, min: number) => (
+    <div className="grid gap-1">
+      <Label htmlFor={`${field}-${index}`} className="text-xs text-muted-foreground">
+        {label}
+      </Label>
+      <Input
+        id={`${field}-${index}`}
+        type="number"
+        min={min}
+        value={types[index][field]}
+        onChange={(e) => updateType(index, { [field]: Math.max(min, parseInt(e.target.value) || 0) })}
+        disabled={disabled}
+        className="h-8 text-sm"
+      />
+    </div>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-base font-semibold">Appointment Types</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            What leads can book. The first type is the default; the AI offers another when it fits what the lead asks for.
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addType}
+          disabled={disabled}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Type
+        </Button>
+      </div>
+
+      {types.length === 0 ? (
+        <Card className="border-dashed">
+          <CardContent className="py-8 text-center text-muted-foreground">
+            <p className="mb-2">No appointment types configured</p>
+            <p className="text-xs">Leads are offered a {defaultDuration}-min video call.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {types.map((type, index) => (
+            <Card key={type.id}>
+              <CardContent className="pt-4 pb-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <Input
+                    placeholder="Name, e.g. Intro call"
+                    value={type.name}
+                    onChange={(e) => updateType(index, { name: e.target.value })}
+                    disabled={disabled}
+                    className="h-8 text-sm font-medium"
+                  />
+                  {index === 0 && (
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">Default</span>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeType(index)}
+                    disabled={disabled}
+                    className="h-7 px-2 text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+
+                <Input
+                  placeholder="When to offer it (optional), e.g. for leads who want a full walkthrough"
+                  value={type.description || ''}
+                  onChange={(e) => updateType(index, { description: e.target.value })}
+                  disabled={disabled}
+                  className="h-8 text-sm"
+                />
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="grid gap-1">
+                    <Label className="text-xs text-muted-foreground">Location</Label>
+                    <Select
+                      value={type.location_type}
+                      onValueChange={(value: AppointmentLocationType) =>
+                        updateType(index, { location_type: value })
+                      }
+                      disabled={disabled}
+                    >
+                      <SelectTrigger className="h-8 text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(LOCATION_TYPE_LABELS) as AppointmentLocationType[]).map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {LOCATION_TYPE_LABELS[value]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {(type.location_type === 'in_person' || type.location_type === 'phone') && (
+                    <div className="grid gap-1">
+                      <Label htmlFor={`location-${index}`} className="text-xs text-muted-foreground">
+                        {type.location_type === 'in_person' ? 'Address' : 'Dial-in number (blank = we call the lead)'}
+                      </Label>
+                      <Input
+                        id={`location-${index}`}
+                        value={type.location_details || ''}
+                        onChange={(e) => updateType(index, { location_details: e.target.value })}
+                        disabled={disabled}
+                        className="h-8 text-sm"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-3 gap-3">
+                  {numberInput(index, 'duration_minutes', 'Duration (min)', 5)}
+                  {numberInput(index, 'buffer_before_minutes', 'Buffer before (min)', 0)}
+                  {numberInput(index, 'buffer_after_minutes', 'Buffer after (min)', 0)}
+                  {numberInput(index, 'slot_interval_minutes', 'Start times every (min)', 5)}
+                  {numberInput(index, 'min_notice_hours', 'Minimum notice (hours)', 0)}
+                  <div className="grid gap-1">
+                    <Label htmlFor={`max-per-day-${index}`} className="text-xs text-muted-foreground">
+                      Max per day (blank = no limit)
+                    </Label>
+                    <Input
+                      id={`max-per-day-${index}`}
+                      type="number"
+                      min={1}
+                      value={type.max_per_day ?? ''}
+                      onChange={(e) =>
+                        updateType(index, { max_per_day: parseInt(e.target.value) > 0 ? parseInt(e.target.value) : null })
+                      }
+                      disabled={disabled}
+                      className="h-8 text-sm"
+                    />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,130 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent } from '@/components/ui/card'
+import { Plus, Trash2 } from 'lucide-react'
+import { DateOverride } from '@/types/database'
+
+interface DateOverridesEditorProps {
+  overrides: DateOverride[]
+  onChange: (overrides: DateOverride[]) => void
+  disabled?: boolean
+}
+
+export function DateOverridesEditor({
+  overrides,
+  onChange,
+  disabled = false,
+}: DateOverridesEditorProps) {
+  const addOverride = () => {
+    onChange([...overrides, { date: '', hours: null, label: '' }])
+  }
+
+  const removeOverride = (index: number) => {
+    onChange(overrides.filter((_, i) => i !== index))
+  }
+
+  const updateOverride = (index: number, changes: Partial<DateOverride>) => {
+    onChange(overrides.map((o, i) => (i === index ? { ...o, ...changes } : o)))
+  }
+
+  const updateHours = (index: number, field: 'start' | 'end', value: string) => {
+    const hours = overrides[index].hours || { start: '09:00', end: '17:00' }
+    updateOverride(index, { hours: { ...hours, [field]: value } })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Date Overrides</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            Office closures or one-off hours. These replace the weekly hours and public holidays on that date.
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addOverride}
+          disabled={disabled}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Date
+        </Button>
+      </div>
+
+      {overrides.length === 0 ? (
+        <Card className="border-dashed">
+          <CardContent className="py-6 text-center text-sm text-muted-foreground">
+            No date overrides
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {overrides.map((override, index) => (
+            <div key={index} className="flex items-center gap-3">
+              <Input
+                type="date"
+                className="w-40"
+                value={override.date}
+                onChange={(e) => updateOverride(index, { date: e.target.value })}
+                disabled={disabled}
+                required
+              />
+              <Button
+                type="button"
+                variant={override.hours ? 'default' : 'outline'}
+                size="sm"
+                onClick={() =>
+                  updateOverride(index, { hours: override.hours ? null : { start: '09:00', end: '17:00' } })
+                }
+                disabled={disabled}
+              >
+                {override.hours ? 'Open' : 'Closed'}
+              </Button>
+              {override.hours && (
+                <>
+                  <Input
+                    type="time"
+                    className="w-28"
+                    value={override.hours.start}
+                    onChange={(e) => updateHours(index, 'start', e.target.value)}
+                    disabled={disabled}
+                  />
+                  <span>to</span>
+                  <Input
+                    type="time"
+                    className="w-28"
+                    value={override.hours.end}
+                    onChange={(e) => updateHours(index, 'end', e.target.value)}
+                    disabled={disabled}
+                  />
+                </>
+              )}
+              <Input
+                placeholder="Label, e.g. Office party"
+                value={override.label || ''}
+                onChange={(e) => updateOverride(index, { label: e.target.value })}
+                disabled={disabled}
+                className="flex-1"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeOverride(index)}
+                disabled={disabled}
+                className="h-7 px-2 text-destructive hover:text-destructive"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
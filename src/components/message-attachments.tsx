@@ -0,0 +1,54 @@
+import { Paperclip } from 'lucide-react'
+import { MessageMedia } from '@/types/database'
+import { getMediaKind, getMediaLabel } from '@/lib/messaging/media'
+
+interface MessageAttachmentsProps {
+  messageId: string
+  media: MessageMedia[]
+}
+
+/**
+ * Attachments on an inbound message, loaded through the media route
+ */
+export function MessageAttachments({ messageId, media }: MessageAttachmentsProps) {
+  if (media.length === 0) return null
+
+  return (
+    <div className="space-y-2 mb-1">
+      {media.map((item, index) => {
+        const src = `/api/messages/${messageId}/media/${index}`
+        const kind = getMediaKind(item.content_type)
+
+        if (kind === 'image') {
+          return (
+            <a key={index} href={src} target="_blank" rel="noopener noreferrer" className="block">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={src} alt="Photo from contact" className="max-h-64 rounded-md" />
+            </a>
+          )
+        }
+
+        if (kind === 'audio') {
+          return <audio key={index} src={src} controls className="w-64 max-w-full" />
+        }
+
+        if (kind === 'video') {
+          return <video key={index} src={src} controls className="max-h-64 rounded-md" />
+        }
+
+        return (
+          <a
+            key={index}
+            href={src}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-sm underline"
+          >
+            <Paperclip className="w-3 h-3" />
+            {getMediaLabel(item.content_type)}
+          </a>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent } from '@/components/ui/card'
+import { Plus, Trash2 } from 'lucide-react'
+import { PostMeetingTemplate } from '@/types/database'
+import {
+  AppointmentOutcome,
+  DEFAULT_NO_SHOW_MESSAGE,
+  DEFAULT_REVIEW_MESSAGE,
+  MAX_POST_MEETING_DELAY_HOURS,
+} from '@/lib/jobs/post-meeting-templates'
+
+interface PostMeetingEditorProps {
+  outcome: AppointmentOutcome
+  templates: PostMeetingTemplate[]
+  onChange: (templates: PostMeetingTemplate[]) => void
+  disabled?: boolean
+}
+
+const COPY: Record<AppointmentOutcome, { title: string; description: string; empty: string; placeholder: string }> = {
+  no_show: {
+    title: 'No-Show Messages',
+    description: 'Sent after an appointment is marked as a no-show, inviting the lead to rebook. Replies are handled by the AI, which offers new times.',
+    empty: 'No messages - no-shows aren\'t contacted',
+    placeholder: DEFAULT_NO_SHOW_MESSAGE,
+  },
+  completed: {
+    title: 'After-Meeting Messages',
+    description: 'Sent after an appointment is marked completed, e.g. a thank-you or a review request. The default asks for a review when the client has a review link.',
+    empty: 'No messages - nothing is sent after the meeting',
+    placeholder: DEFAULT_REVIEW_MESSAGE,
+  },
+}
+
+const DEFAULT_DELAY_HOURS = 24
+
+export function PostMeetingEditor({
+  outcome,
+  templates,
+  onChange,
+  disabled = false,
+}: PostMeetingEditorProps) {
+  const copy = COPY[outcome]
+
+  const addTemplate = () => {
+    onChange([...templates, { delay_hours: DEFAULT_DELAY_HOURS, message: '' }])
+  }
+
+  const removeTemplate = (index: number) => {
+    onChange(templates.filter((_, i) => i !== index))
+  }
+
+  const updateTemplate = (index: number, field: keyof PostMeetingTemplate, value: string | number) => {
+    onChange(templates.map((t, i) => (i === index ? { ...t, [field]: value } : t)))
+  }
+
+  const formatDelayLabel = (hours: number): string => {
+    if (hours === 0) {
+      return 'straight away'
+    }
+    if (hours < 24 || hours % 24 !== 0) {
+      return `${hours} hour${hours !== 1 ? 's' : ''} after`
+    }
+    const days = hours / 24
+    return `${days} day${days !== 1 ? 's' : ''} after`
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-base font-semibold">{copy.title}</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            {copy.description} Leave a message blank to use the default wording.
+            Variables: {'{first_name}'}, {'{brand_name}'}, {'{time}'}{outcome === 'completed' && <>, {'{review_link}'}</>}
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addTemplate}
+          disabled={disabled}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Message
+        </Button>
+      </div>
+
+      {templates.length === 0 ? (
+        <Card className="border-dashed">
+          <CardContent className="py-6 text-center text-sm text-muted-foreground">
+            {copy.empty}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {templates.map((template, index) => (
+            <Card key={index}>
+              <CardContent className="pt-4 pb-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id={`${outcome}-delay-${index}`}
+                      type="number"
+                      min={0}
+                      max={MAX_POST_MEETING_DELAY_HOURS}
+                      value={template.delay_hours}
+                      onChange={(e) =>
+                        updateTemplate(index, 'delay_hours', Math.max(0, parseInt(e.target.value) || 0))
+                      }
+                      disabled={disabled}
+                      className="w-20 h-8 text-sm"
+                    />
+                    <Label htmlFor={`${outcome}-delay-${index}`} className="text-xs text-muted-foreground">
+                      hours ({formatDelayLabel(template.delay_hours)})
+                    </Label>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeTemplate(index)}
+                    disabled={disabled}
+                    className="h-7 px-2 text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+
+                <Textarea
+                  placeholder={copy.placeholder}
+                  value={template.message}
+                  onChange={(e) => updateTemplate(index, 'message', e.target.value)}
+                  disabled={disabled}
+                  rows={3}
+                  className="font-mono text-sm resize-none"
+                />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
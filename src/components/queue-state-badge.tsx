@@ -0,0 +1,21 @@
+import { Badge } from '@/components/ui/badge'
+import { describeQueueState, QueueStateItem } from '@/lib/messaging/queue-state'
+
+interface QueueStateBadgeProps {
+  item?: QueueStateItem
+  className?: string
+}
+
+/**
+ * Where an outbound message is in the queue: scheduled, retrying or dead-lettered
+ */
+export function QueueStateBadge({ item, className }: QueueStateBadgeProps) {
+  const state = item ? describeQueueState(item) : null
+  if (!state) return null
+
+  return (
+    <Badge variant={state.variant} className={className} title={state.detail}>
+      {state.label}
+    </Badge>
+  )
+}
@@ -0,0 +1,123 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent } from '@/components/ui/card'
+import { Plus, Trash2 } from 'lucide-react'
+import { ReminderTemplate } from '@/types/database'
+import { DEFAULT_REMINDER_MESSAGE, MAX_REMINDER_OFFSET_HOURS } from '@/lib/jobs/reminder-templates'
+
+interface ReminderEditorProps {
+  templates: ReminderTemplate[]
+  onChange: (templates: ReminderTemplate[]) => void
+  disabled?: boolean
+}
+
+const DEFAULT_OFFSET_HOURS = 2
+
+export function ReminderEditor({
+  templates,
+  onChange,
+  disabled = false,
+}: ReminderEditorProps) {
+  const addTemplate = () => {
+    onChange([...templates, { offset_hours: DEFAULT_OFFSET_HOURS, message: '' }])
+  }
+
+  const removeTemplate = (index: number) => {
+    onChange(templates.filter((_, i) => i !== index))
+  }
+
+  const updateTemplate = (index: number, field: keyof ReminderTemplate, value: string | number) => {
+    onChange(templates.map((t, i) => (i === index ? { ...t, [field]: value } : t)))
+  }
+
+  const formatOffsetLabel = (hours: number): string => {
+    if (hours < 24 || hours % 24 !== 0) {
+      return `${hours} hour${hours !== 1 ? 's' : ''} before`
+    }
+    const days = hours / 24
+    return `${days} day${days !== 1 ? 's' : ''} before`
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-base font-semibold">Appointment Reminders</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            Sent before each booked appointment. Leave a message blank to use the default wording.
+            Variables: {'{first_name}'}, {'{brand_name}'}, {'{time}'}, {'{location}'}
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addTemplate}
+          disabled={disabled}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Reminder
+        </Button>
+      </div>
+
+      {templates.length === 0 ? (
+        <Card className="border-dashed">
+          <CardContent className="py-6 text-center text-sm text-muted-foreground">
+            No reminders - contacts only get the booking confirmation
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {templates.map((template, index) => (
+            <Card key={index}>
+              <CardContent className="pt-4 pb-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id={`reminder-offset-${index}`}
+                      type="number"
+                      min={1}
+                      max={MAX_REMINDER_OFFSET_HOURS}
+                      value={template.offset_hours}
+                      onChange={(e) =>
+                        updateTemplate(index, 'offset_hours', parseInt(e.target.value) || DEFAULT_OFFSET_HOURS)
+                      }
+                      disabled={disabled}
+                      className="w-20 h-8 text-sm"
+                    />
+                    <Label htmlFor={`reminder-offset-${index}`} className="text-xs text-muted-foreground">
+                      hours ({formatOffsetLabel(template.offset_hours)})
+                    </Label>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeTemplate(index)}
+                    disabled={disabled}
+                    className="h-7 px-2 text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+
+                <Textarea
+                  placeholder={DEFAULT_REMINDER_MESSAGE}
+                  value={template.message}
+                  onChange={(e) => updateTemplate(index, 'message', e.target.value)}
+                  disabled={disabled}
+                  rows={3}
+                  className="font-mono text-sm resize-none"
+                />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -16,6 +16,7 @@ import {
   Settings,
   Zap,
   Sparkles,
+  Smartphone,
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { ClientSelector } from '@/components/client-selector'
@@ -29,6 +30,10 @@ const navigation = [
   { name: 'Appointments', href: '/appointments', icon: Calendar },
   { name: 'Analytics', href: '/analytics', icon: BarChart3 },
   { name: 'Clients', href: '/clients', icon: Building2 },
+  // Simulated phone on the loopback provider - not available in production
+  ...(process.env.NODE_ENV !== 'production'
+    ? [{ name: 'Simulator', href: '/simulator', icon: Smartphone }]
+    : []),
 ]
 
 interface SidebarProps {
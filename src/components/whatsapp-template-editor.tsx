@@ -0,0 +1,207 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Plus, Trash2 } from 'lucide-react'
+import { WhatsAppTemplate, WhatsAppTemplatePurpose } from '@/types/database'
+import {
+  WHATSAPP_SESSION_HOURS,
+  WHATSAPP_TEMPLATE_PURPOSES,
+  WHATSAPP_TEMPLATE_PURPOSE_LABELS,
+  WHATSAPP_TEMPLATE_VARIABLES,
+  countPlaceholders,
+} from '@/lib/messaging/whatsapp'
+
+interface WhatsAppTemplateEditorProps {
+  templates: WhatsAppTemplate[]
+  onChange: (templates: WhatsAppTemplate[]) => void
+  disabled?: boolean
+}
+
+export function WhatsAppTemplateEditor({
+  templates,
+  onChange,
+  disabled = false,
+}: WhatsAppTemplateEditorProps) {
+  const unusedPurposes = WHATSAPP_TEMPLATE_PURPOSES.filter(
+    (purpose) => !templates.some((t) => t.purpose === purpose)
+  )
+
+  const addTemplate = () => {
+    onChange([
+      ...templates,
+      { purpose: unusedPurposes[0], template_id: '', language: 'en', preview: '', variables: [] },
+    ])
+  }
+
+  const removeTemplate = (index: number) => {
+    onChange(templates.filter((_, i) => i !== index))
+  }
+
+  const updateTemplate = (index: number, changes: Partial<WhatsAppTemplate>) => {
+    onChange(templates.map((t, i) => (i === index ? { ...t, ...changes } : t)))
+  }
+
+  // One variable per {{n}} placeholder, keeping the ones already chosen
+  const updatePreview = (index: number, preview: string) => {
+    const count = countPlaceholders(preview)
+    const current = templates[index].variables
+    const variables = Array.from({ length: count }, (_, i) => current[i] || 'first_name')
+    updateTemplate(index, { preview, variables })
+  }
+
+  const updateVariable = (index: number, position: number, key: string) => {
+    const variables = templates[index].variables.map((v, i) => (i === position ? key : v))
+    updateTemplate(index, { variables })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-base font-semibold">WhatsApp Templates</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            Free-form messages can only be sent within {WHATSAPP_SESSION_HOURS} hours of the lead&apos;s last
+            message. Outside that window the approved template for the message&apos;s purpose is sent instead
+            (or the general one), and normal messages resume once the lead replies.
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addTemplate}
+          disabled={disabled || unusedPurposes.length === 0}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Template
+        </Button>
+      </div>
+
+      {templates.length === 0 ? (
+        <Card className="border-dashed">
+          <CardContent className="py-6 text-center text-sm text-muted-foreground">
+            No templates - outreach and follow-ups to leads who haven&apos;t messaged in the last day will fail
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {templates.map((template, index) => (
+            <Card key={index}>
+              <CardContent className="pt-4 pb-4 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <Select
+                    value={template.purpose}
+                    onValueChange={(value) =>
+                      updateTemplate(index, { purpose: value as WhatsAppTemplatePurpose })
+                    }
+                    disabled={disabled}
+                  >
+                    <SelectTrigger className="h-8 w-56 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WHATSAPP_TEMPLATE_PURPOSES
+                        .filter((purpose) => purpose === template.purpose || unusedPurposes.includes(purpose))
+                        .map((purpose) => (
+                          <SelectItem key={purpose} value={purpose}>
+                            {WHATSAPP_TEMPLATE_PURPOSE_LABELS[purpose]}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeTemplate(index)}
+                    disabled={disabled}
+                    className="h-7 px-2 text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="col-span-2 grid gap-1">
+                    <Label htmlFor={`whatsapp-template-id-${index}`} className="text-xs text-muted-foreground">
+                      Template ID (Twilio Content SID or Vonage template name)
+                    </Label>
+                    <Input
+                      id={`whatsapp-template-id-${index}`}
+                      value={template.template_id}
+                      onChange={(e) => updateTemplate(index, { template_id: e.target.value })}
+                      placeholder="HX..."
+                      disabled={disabled}
+                      className="h-8 font-mono text-sm"
+                    />
+                  </div>
+                  <div className="grid gap-1">
+                    <Label htmlFor={`whatsapp-template-language-${index}`} className="text-xs text-muted-foreground">
+                      Language
+                    </Label>
+                    <Input
+                      id={`whatsapp-template-language-${index}`}
+                      value={template.language}
+                      onChange={(e) => updateTemplate(index, { language: e.target.value })}
+                      placeholder="en"
+                      disabled={disabled}
+                      className="h-8 text-sm"
+                    />
+                  </div>
+                </div>
+
+                <Textarea
+                  placeholder="Approved body, e.g. Hi {{1}}, {{2}} here - are you still interested in booking a call?"
+                  value={template.preview}
+                  onChange={(e) => updatePreview(index, e.target.value)}
+                  disabled={disabled}
+                  rows={3}
+                  className="font-mono text-sm resize-none"
+                />
+
+                {template.variables.length > 0 && (
+                  <div className="grid grid-cols-2 gap-2">
+                    {template.variables.map((key, position) => (
+                      <div key={position} className="flex items-center gap-2">
+                        <span className="text-xs font-mono text-muted-foreground w-10">
+                          {`{{${position + 1}}}`}
+                        </span>
+                        <Select
+                          value={key}
+                          onValueChange={(value) => updateVariable(index, position, value)}
+                          disabled={disabled}
+                        >
+                          <SelectTrigger className="h-8 text-sm">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(WHATSAPP_TEMPLATE_VARIABLES).map(([variable, label]) => (
+                              <SelectItem key={variable} value={variable}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -6,14 +6,28 @@
 import { createClient } from '@/lib/supabase/server'
 import {
   getCalendarConnectionForClient,
-  getAvailableSlots,
+  getHostCalendarsForClient,
+  getAvailableSlotsForCalendars,
+  isCalendarFree,
+  pickHost,
   parseTimeSelection,
+  getLocalTime,
+  formatSlot,
+  getAppointmentTypes,
+  findAppointmentType,
+  getEventLocation,
+  getLocationNote,
+  getScheduleExceptions,
+  DEFAULT_APPOINTMENT_TYPE_ID,
+  ResolvedCalendarConnection,
   TimeSlot,
 } from '@/lib/calendar'
-import { Contact, Workflow, Client, BusinessHours } from '@/types/database'
+import { getReminderTemplates, countPassedReminders } from '@/lib/jobs/reminder-templates'
+import { getBookingLinkUrl, getCalendarFileUrl, getManageLinkUrl, isBookingLinkConfigured } from '@/lib/booking-links'
+import { Appointment, Contact, Workflow, Client, Host, BusinessHours, AppointmentType, SlotHold } from '@/types/database'
 import { ToolCall, BookingToolInput } from '@/types/ai'
 
-type ContactWithWorkflow = Contact & {
+export type ContactWithWorkflow = Contact & {
   workflows: Workflow & {
     clients: Client
   }
@@ -40,6 +54,8 @@ export interface BookingState {
   existingCalendarEventId: string | null
   /** Slot pending confirmation, waiting for email */
   pendingSlotAwaitingEmail: TimeSlot | null
+  /** Appointment type the offered slots are for (null = workflow default) */
+  appointmentTypeId: string | null
 }
 
 export interface BookingFlowResult {
@@ -51,8 +67,10 @@ export interface BookingFlowResult {
   appointmentCreated: boolean
   /** Whether an appointment was rescheduled */
   appointmentRescheduled: boolean
-  /** Appointment ID if created or rescheduled */
+  /** Appointment ID if created, rescheduled or cancelled */
   appointmentId?: string
+  /** Whether the contact's appointment was cancelled */
+  appointmentCancelled?: boolean
   /** Whether to continue with normal AI response */
   continueWithAI: boolean
 }
@@ -67,6 +85,32 @@ const DEFAULT_BUSINESS_HOURS: BusinessHours = {
   sunday: null,
 }
 
+/** Slot offers per conversation before the AI stops proposing times on its own */
+export const MAX_OFFER_ATTEMPTS = 2
+
+/** How long offered slots stay reserved for a lead when the client hasn't set it */
+const DEFAULT_SLOT_HOLD_MINUTES = 15
+
+/** Most slots listed on the self-serve booking page (enough for the full two weeks) */
+const MAX_LINK_SLOTS = 200
+
+/** The appointment being rescheduled: whose calendar it is on, and the time its event takes up */
+interface ExistingBooking {
+  hostId: string | null
+  start: Date
+  end: Date
+}
+
+/**
+ * Thrown when the chosen slot was taken between offer and confirmation
+ */
+class SlotUnavailableError extends Error {
+  constructor() {
+    super('Selected slot is no longer available')
+    this.name = 'SlotUnavailableError'
+  }
+}
+
 /**
  * Day name variations - maps common abbreviations and variations to canonical day names
  */
@@ -124,19 +168,298 @@ function extractDayFromMessage(message: string): string | null {
   return null
 }
 
-class BookingHandler {
+type DbClient = ReturnType<typeof createClient>
+
+/** A calendar slots can be booked on; host is null for clients with a single calendar */
+type BookingCalendar = ResolvedCalendarConnection & { host: Host | null }
+
+/** The parts of a booked appointment needed to move or cancel it */
+type UpcomingAppointment = Pick<
+  Appointment,
+  'id' | 'calendar_event_id' | 'host_id' | 'start_time' | 'end_time' | 'appointment_type_id'
+>
+
+/**
+ * External dependencies of the booking flow
+ * Defaults to Supabase and the client's connected calendar; the booking harness
+ * swaps in in-memory versions and a fixed clock
+ */
+export interface BookingHandlerDependencies {
+  getCalendarConnection: typeof getCalendarConnectionForClient
+  getHostCalendars: typeof getHostCalendarsForClient
+  createDbClient: () => DbClient | Promise<DbClient>
+  now: () => Date
+}
+
+export class BookingHandler {
+  private readonly deps: BookingHandlerDependencies
+
+  constructor(deps: Partial<BookingHandlerDependencies> = {}) {
+    this.deps = {
+      getCalendarConnection: getCalendarConnectionForClient,
+      getHostCalendars: getHostCalendarsForClient,
+      createDbClient: createClient,
+      now: () => new Date(),
+      ...deps,
+    }
+  }
+
   /**
    * Check if calendar is connected for a client
    */
   async isCalendarConnected(clientId: string): Promise<boolean> {
     console.log('[BookingHandler] Checking calendar connection for client:', clientId)
-    const connection = await getCalendarConnectionForClient(clientId)
+    const calendars = await this.getBookingCalendars(clientId)
     console.log('[BookingHandler] Calendar connection result:', {
       clientId,
-      hasConnection: !!connection,
-      calendarId: connection?.connection?.calendar_id || 'N/A',
+      hasConnection: calendars.length > 0,
+      calendarId: calendars[0]?.connection.calendar_id || 'N/A',
+      hosts: calendars.filter(c => c.host).length,
     })
-    return connection !== null
+    return calendars.length > 0
+  }
+
+  /**
+   * Calendars this client's bookings can go on
+   * Team clients use every active host's calendar; otherwise the single client-level connection
+   */
+  private async getBookingCalendars(clientId: string): Promise<BookingCalendar[]> {
+    const hostCalendars = await this.deps.getHostCalendars(clientId)
+    if (hostCalendars.length > 0) {
+      return hostCalendars
+    }
+
+    const connection = await this.deps.getCalendarConnection(clientId)
+    return connection ? [{ ...connection, host: null }] : []
+  }
+
+  /**
+   * The workflow's appointment type with this ID, or its default type
+   */
+  private getAppointmentType(contact: ContactWithWorkflow, appointmentTypeId?: string | null): AppointmentType {
+    const types = getAppointmentTypes(contact.workflows)
+    return findAppointmentType(types, appointmentTypeId) || types[0]
+  }
+
+  /**
+   * Slots where at least one of the calendars is free
+   */
+  private async getSlotsForCalendars(
+    calendars: BookingCalendar[],
+    contact: ContactWithWorkflow,
+    maxSlots: number,
+    appointmentType: AppointmentType,
+    excludeAppointmentId?: string | null
+  ): Promise<TimeSlot[]> {
+    const client = contact.workflows.clients
+    const timezone = client.timezone || 'Europe/London'
+    const daysAhead = 14
+
+    console.log('[BookingHandler] Fetching available slots:', {
+      calendars: calendars.map(c => ({
+        hostId: c.host?.id || null,
+        calendarId: c.connection.calendar_id || 'primary',
+        busyCalendarIds: c.connection.busy_calendar_ids || [],
+      })),
+      timezone,
+      appointmentTypeId: appointmentType.id,
+      durationMinutes: appointmentType.duration_minutes,
+    })
+
+    const bookingsPerDay = appointmentType.max_per_day
+      ? await this.countBookingsPerDay(contact, appointmentType, timezone, daysAhead, excludeAppointmentId)
+      : {}
+
+    // The appointment being moved mustn't block the times around it
+    const existing = excludeAppointmentId
+      ? await this.getExistingBooking(await this.deps.createDbClient(), excludeAppointmentId)
+      : null
+
+    return getAvailableSlotsForCalendars(
+      calendars.map(c => ({
+        provider: c.provider,
+        calendarId: c.connection.calendar_id || 'primary',
+        busyCalendarIds: c.connection.busy_calendar_ids || [],
+        ignoreBusy: this.getOwnEvent(c, existing),
+      })),
+      {
+        businessHours: (client.business_hours as BusinessHours) || DEFAULT_BUSINESS_HOURS,
+        ...getScheduleExceptions(client),
+        timezone,
+        durationMinutes: appointmentType.duration_minutes,
+        bufferBeforeMinutes: appointmentType.buffer_before_minutes,
+        bufferAfterMinutes: appointmentType.buffer_after_minutes,
+        slotIntervalMinutes: appointmentType.slot_interval_minutes,
+        minLeadTimeHours: appointmentType.min_notice_hours,
+        maxPerDay: appointmentType.max_per_day,
+        bookingsPerDay,
+        heldSlots: await this.getHeldSlots(contact),
+        daysAhead,
+        maxSlots,
+        now: this.deps.now(),
+      }
+    )
+  }
+
+  /**
+   * Confirmed bookings of a type per local day, for its daily cap
+   */
+  private async countBookingsPerDay(
+    contact: ContactWithWorkflow,
+    appointmentType: AppointmentType,
+    timezone: string,
+    daysAhead: number,
+    excludeAppointmentId?: string | null
+  ): Promise<Record<string, number>> {
+    const now = this.deps.now()
+    const supabase = await this.deps.createDbClient()
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let query = (supabase as any)
+      .from('appointments')
+      .select('id, start_time')
+      .eq('workflow_id', contact.workflow_id)
+      .eq('status', 'confirmed')
+      .gte('start_time', new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString())
+      .lte('start_time', new Date(now.getTime() + (daysAhead + 1) * 24 * 60 * 60 * 1000).toISOString())
+
+    query = appointmentType.id === DEFAULT_APPOINTMENT_TYPE_ID
+      ? query.is('appointment_type_id', null)
+      : query.eq('appointment_type_id', appointmentType.id)
+
+    const { data } = await query as { data: { id: string; start_time: string }[] | null }
+
+    const counts: Record<string, number> = {}
+    for (const row of data || []) {
+      if (row.id === excludeAppointmentId) continue
+      const { dateKey } = getLocalTime(new Date(row.start_time), timezone)
+      counts[dateKey] = (counts[dateKey] || 0) + 1
+    }
+    return counts
+  }
+
+  /**
+   * Slots this client currently has on offer to other leads
+   */
+  private async getHeldSlots(contact: ContactWithWorkflow): Promise<Array<{ start: Date; end: Date }>> {
+    const supabase = await this.deps.createDbClient()
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data } = await (supabase as any)
+      .from('slot_holds')
+      .select('start_time, end_time')
+      .eq('client_id', contact.workflows.clients.id)
+      .neq('contact_id', contact.id)
+      .gt('expires_at', this.deps.now().toISOString()) as { data: Pick<SlotHold, 'start_time' | 'end_time'>[] | null }
+
+    return (data || []).map(hold => ({ start: new Date(hold.start_time), end: new Date(hold.end_time) }))
+  }
+
+  /**
+   * Reserve the slots just offered to a contact, replacing anything they were offered before
+   * Expired holds for the client are cleared out at the same time
+   */
+  private async holdSlots(contact: ContactWithWorkflow, slots: TimeSlot[]): Promise<void> {
+    const client = contact.workflows.clients
+    const holdMinutes = client.slot_hold_minutes ?? DEFAULT_SLOT_HOLD_MINUTES
+    const now = this.deps.now()
+
+    await this.releaseHolds(contact.id)
+
+    const supabase = await this.deps.createDbClient()
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (supabase as any)
+      .from('slot_holds')
+      .delete()
+      .eq('client_id', client.id)
+      .lte('expires_at', now.toISOString())
+
+    if (holdMinutes <= 0 || slots.length === 0) {
+      return
+    }
+
+    const expiresAt = new Date(now.getTime() + holdMinutes * 60 * 1000).toISOString()
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabase as any)
+      .from('slot_holds')
+      .insert(slots.map(slot => ({
+        client_id: client.id,
+        contact_id: contact.id,
+        start_time: slot.start.toISOString(),
+        end_time: slot.end.toISOString(),
+        expires_at: expiresAt,
+      }))) as { error: Error | null }
+
+    if (error) {
+      console.error('[BookingHandler] Failed to hold offered slots:', {
+        contactId: contact.id,
+        error: error.message,
+      })
+    }
+  }
+
+  /**
+   * Release every slot held for a contact (they booked, declined the times or opted out)
+   */
+  async releaseHolds(contactId: string): Promise<void> {
+    const supabase = await this.deps.createDbClient()
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (supabase as any)
+      .from('slot_holds')
+      .delete()
+      .eq('contact_id', contactId)
+  }
+
+  /**
+   * The chosen slot went to someone else between offer and confirmation - offer fresh times
+   * (keeping any reschedule in progress)
+   */
+  private async handleSlotTaken(
+    contact: ContactWithWorkflow,
+    bookingState: BookingState
+  ): Promise<BookingFlowResult> {
+    const firstName = contact.first_name || 'there'
+    const appointmentType = this.getAppointmentType(contact, bookingState.appointmentTypeId)
+    const calendars = await this.getBookingCalendars(contact.workflows.clients.id)
+    const slots = calendars.length > 0
+      ? await this.getSlotsForCalendars(calendars, contact, 6, appointmentType, bookingState.existingAppointmentId)
+      : []
+
+    await this.holdSlots(contact, slots)
+
+    console.log('[BookingHandler] Selected slot was taken - offering fresh times:', {
+      contactId: contact.id,
+      slotsOffered: slots.length,
+    })
+
+    if (slots.length === 0) {
+      return {
+        message: "Sorry, that time was just taken and the calendar's pretty packed now. Want me to have someone reach out to find a time that works?",
+        bookingState: {
+          ...bookingState,
+          offeredSlots: [],
+          lastOfferedSlot: null,
+          pendingSlotAwaitingEmail: null,
+        },
+        appointmentCreated: false,
+        appointmentRescheduled: false,
+        continueWithAI: false,
+      }
+    }
+
+    return {
+      message: `Sorry, that time was just taken. ${this.buildSlotOfferMessage(firstName, slots)}`,
+      bookingState: {
+        ...bookingState,
+        isActive: true,
+        offeredSlots: slots,
+        slotsOfferedAt: this.deps.now().toISOString(),
+        selectedSlot: null,
+        lastOfferedSlot: null,
+        pendingSlotAwaitingEmail: null,
+      },
+      appointmentCreated: false,
+      appointmentRescheduled: false,
+      continueWithAI: false,
+    }
   }
 
   /**
@@ -186,7 +509,7 @@ class BookingHandler {
     })
 
     // Update contact with email
-    const supabase = await createClient()
+    const supabase = await this.deps.createDbClient()
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     await (supabase as any)
       .from('contacts')
@@ -203,12 +526,15 @@ class BookingHandler {
         updatedContact,
         selectedSlot,
         bookingState.existingAppointmentId,
-        bookingState.existingCalendarEventId
+        bookingState.existingCalendarEventId,
+        bookingState.appointmentTypeId
       )
 
+      const locationNote = this.getConfirmationLocationNote(contact, bookingState.appointmentTypeId)
+      const linksNote = this.getAppointmentLinksNote(contact, appointment.id, selectedSlot)
       const confirmationMessage = bookingState.isRescheduling
-        ? this.buildRescheduleConfirmationMessage(contact.first_name || 'there', selectedSlot)
-        : this.buildConfirmationMessage(contact.first_name || 'there', selectedSlot)
+        ? this.buildRescheduleConfirmationMessage(contact.first_name || 'there', selectedSlot, locationNote, linksNote)
+        : this.buildConfirmationMessage(contact.first_name || 'there', selectedSlot, locationNote, linksNote)
 
       return {
         message: confirmationMessage,
@@ -225,6 +551,9 @@ class BookingHandler {
         continueWithAI: false,
       }
     } catch (error) {
+      if (error instanceof SlotUnavailableError) {
+        return this.handleSlotTaken(updatedContact, bookingState)
+      }
       console.error('Failed to create appointment after email received:', error)
       return {
         message: "Hmm, something went wrong on my end. Let me have someone reach out to lock in your appointment.",
@@ -241,21 +570,25 @@ class BookingHandler {
 
   /**
    * Handle booking interest - offer available time slots
+   * @param appointmentTypeId - Type the lead asked for; defaults to the type already on offer, then the workflow default
    */
   async offerTimeSlots(
     contact: ContactWithWorkflow,
-    bookingState: BookingState
+    bookingState: BookingState,
+    appointmentTypeId?: string | null
   ): Promise<BookingFlowResult> {
     const client = contact.workflows.clients
+    const appointmentType = this.getAppointmentType(contact, appointmentTypeId || bookingState.appointmentTypeId)
     console.log('[BookingHandler] offerTimeSlots called:', {
       contactId: contact.id,
       clientId: client.id,
       contactEmail: contact.email || 'NO EMAIL',
+      appointmentTypeId: appointmentType.id,
     })
 
-    const connection = await getCalendarConnectionForClient(client.id)
+    const calendars = await this.getBookingCalendars(client.id)
 
-    if (!connection) {
+    if (calendars.length === 0) {
       console.log('[BookingHandler] No calendar connection found - skipping slot offer')
       // No calendar connected - can't offer slots
       return {
@@ -268,23 +601,8 @@ class BookingHandler {
     }
 
     try {
-      const businessHours = (client.business_hours as BusinessHours) || DEFAULT_BUSINESS_HOURS
-
-      console.log('[BookingHandler] Fetching available slots:', {
-        calendarId: connection.connection.calendar_id || 'primary',
-        timezone: client.timezone || 'Europe/London',
-        durationMinutes: contact.workflows.appointment_duration_minutes || 30,
-      })
-
-      const slots = await getAvailableSlots({
-        provider: connection.provider,
-        calendarId: connection.connection.calendar_id || 'primary',
-        businessHours,
-        timezone: client.timezone || 'Europe/London',
-        durationMinutes: contact.workflows.appointment_duration_minutes || 30,
-        daysAhead: 14,
-        maxSlots: 6,
-      })
+      const slots = await this.getSlotsForCalendars(calendars, contact, 6, appointmentType)
+      await this.holdSlots(contact, slots)
 
       console.log('[BookingHandler] Available slots found:', slots.length)
 
@@ -295,6 +613,7 @@ class BookingHandler {
             ...bookingState,
             isActive: true,
             offerAttempts: bookingState.offerAttempts + 1,
+            appointmentTypeId: appointmentType.id,
           },
           appointmentCreated: false,
           appointmentRescheduled: false,
@@ -304,15 +623,18 @@ class BookingHandler {
 
       const firstName = contact.first_name || 'there'
 
-      // Build a natural message offering slots
-      const message = this.buildSlotOfferMessage(firstName, slots)
+      // Build a natural message offering slots, naming the type when there's a choice
+      let message = this.buildSlotOfferMessage(firstName, slots)
+      if (getAppointmentTypes(contact.workflows).length > 1) {
+        message = `For the ${appointmentType.name.toLowerCase()} (${appointmentType.duration_minutes} min): ${message}`
+      }
 
       return {
         message,
         bookingState: {
           isActive: true,
           offeredSlots: slots,
-          slotsOfferedAt: new Date().toISOString(),
+          slotsOfferedAt: this.deps.now().toISOString(),
           selectedSlot: null,
           offerAttempts: bookingState.offerAttempts + 1,
           lastOfferedSlot: null, // Clear when offering new set of slots
@@ -320,6 +642,7 @@ class BookingHandler {
           existingAppointmentId: null,
           existingCalendarEventId: null,
           pendingSlotAwaitingEmail: null,
+          appointmentTypeId: appointmentType.id,
         },
         appointmentCreated: false,
         appointmentRescheduled: false,
@@ -342,6 +665,226 @@ class BookingHandler {
     }
   }
 
+  /**
+   * Reply with the lead's self-serve booking link, for leads who'd rather pick a time themselves
+   * Falls back to the normal AI reply when there's no calendar to book on or links aren't configured
+   */
+  async offerBookingLink(
+    contact: ContactWithWorkflow,
+    bookingState: BookingState
+  ): Promise<BookingFlowResult> {
+    const calendars = await this.getBookingCalendars(contact.workflows.clients.id)
+
+    if (calendars.length === 0 || !isBookingLinkConfigured()) {
+      console.log('[BookingHandler] Booking link requested but not available:', {
+        contactId: contact.id,
+        hasCalendar: calendars.length > 0,
+        linksConfigured: isBookingLinkConfigured(),
+      })
+      return {
+        message: '',
+        bookingState,
+        appointmentCreated: false,
+        appointmentRescheduled: false,
+        continueWithAI: true,
+      }
+    }
+
+    const firstName = contact.first_name || 'there'
+    const url = getBookingLinkUrl(contact.id, this.deps.now())
+
+    console.log('[BookingHandler] Sending booking link:', { contactId: contact.id })
+
+    return {
+      message: `Sure ${firstName}! Here's a link where you can pick whatever time suits you: ${url}`,
+      bookingState,
+      appointmentCreated: false,
+      appointmentRescheduled: false,
+      continueWithAI: false,
+    }
+  }
+
+  /**
+   * Every bookable slot for the self-serve booking page
+   * Slots on offer to other leads are left out, as in conversation offers. Nothing is held:
+   * the page can sit open for a while, and the booking re-checks the slot anyway.
+   * @param excludeAppointmentId - Appointment being rescheduled, so it doesn't count towards daily caps
+   */
+  async getLinkSlots(
+    contact: ContactWithWorkflow,
+    appointmentTypeId?: string | null,
+    excludeAppointmentId?: string | null
+  ): Promise<{ appointmentType: AppointmentType; slots: TimeSlot[] }> {
+    const appointmentType = this.getAppointmentType(contact, appointmentTypeId)
+    const calendars = await this.getBookingCalendars(contact.workflows.clients.id)
+    const slots = calendars.length > 0
+      ? await this.getSlotsForCalendars(calendars, contact, MAX_LINK_SLOTS, appointmentType, excludeAppointmentId)
+      : []
+
+    return { appointmentType, slots }
+  }
+
+  /**
+   * Book the slot a lead picked on their booking page
+   * The slot must still be bookable right now; the appointment is created exactly as in
+   * conversation, and the returned message is the confirmation to text them.
+   */
+  async bookFromLink(
+    contact: ContactWithWorkflow,
+    bookingState: BookingState,
+    start: Date,
+    options: { appointmentTypeId?: string | null; email?: string | null } = {}
+  ): Promise<BookingFlowResult> {
+    const firstName = contact.first_name || 'there'
+    const notBooked = (message: string): BookingFlowResult => ({
+      message,
+      bookingState,
+      appointmentCreated: false,
+      appointmentRescheduled: false,
+      continueWithAI: false,
+    })
+
+    if (contact.status === 'booked') {
+      return notBooked("You've already got an appointment booked with us.")
+    }
+
+    const email = options.email ? this.extractEmail(options.email) : contact.email
+    if (!email) {
+      return notBooked("We need your email address to send the calendar invite.")
+    }
+
+    const { appointmentType, slots } = await this.getLinkSlots(contact, options.appointmentTypeId)
+    const slot = slots.find(s => s.start.getTime() === start.getTime())
+
+    console.log('[BookingHandler] Booking from link:', {
+      contactId: contact.id,
+      start: start.toISOString(),
+      appointmentTypeId: appointmentType.id,
+      slotAvailable: !!slot,
+    })
+
+    if (!slot) {
+      return notBooked("Sorry, that time isn't available any more. Please pick another.")
+    }
+
+    if (email !== contact.email) {
+      const supabase = await this.deps.createDbClient()
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (supabase as any)
+        .from('contacts')
+        .update({ email })
+        .eq('id', contact.id)
+    }
+    const updatedContact = { ...contact, email }
+
+    try {
+      const appointment = await this.createAppointment(
+        updatedContact,
+        slot,
+        null,
+        null,
+        appointmentType.id,
+        'Booked by the lead via their booking link'
+      )
+
+      const locationNote = this.getConfirmationLocationNote(contact, appointmentType.id)
+      const linksNote = this.getAppointmentLinksNote(contact, appointment.id, slot)
+
+      return {
+        message: this.buildConfirmationMessage(firstName, slot, locationNote, linksNote),
+        bookingState: {
+          ...this.createEmptyState(),
+          offerAttempts: bookingState.offerAttempts,
+          selectedSlot: slot,
+          appointmentTypeId: appointmentType.id,
+        },
+        appointmentCreated: true,
+        appointmentRescheduled: false,
+        appointmentId: appointment.id,
+        continueWithAI: false,
+      }
+    } catch (error) {
+      if (error instanceof SlotUnavailableError) {
+        return notBooked("Sorry, that time was just taken. Please pick another.")
+      }
+      console.error('Failed to create appointment from booking link:', error)
+      return notBooked("Something went wrong booking that time. Please try again, or reply to our text and we'll sort it out.")
+    }
+  }
+
+  /**
+   * Move an appointment to the slot a lead picked from the link in their confirmation
+   * Uses the same reschedule path as in conversation, so the calendar event is updated in place
+   */
+  async rescheduleFromLink(
+    contact: ContactWithWorkflow,
+    bookingState: BookingState,
+    appointmentId: string,
+    start: Date
+  ): Promise<BookingFlowResult> {
+    const firstName = contact.first_name || 'there'
+    const notMoved = (message: string): BookingFlowResult => ({
+      message,
+      bookingState,
+      appointmentCreated: false,
+      appointmentRescheduled: false,
+      continueWithAI: false,
+    })
+
+    const appointment = await this.getUpcomingAppointment(contact, appointmentId)
+    if (!appointment) {
+      return notMoved("This appointment can't be changed any more.")
+    }
+
+    const { appointmentType, slots } = await this.getLinkSlots(contact, appointment.appointment_type_id, appointment.id)
+    const slot = slots.find(s => s.start.getTime() === start.getTime())
+
+    console.log('[BookingHandler] Rescheduling from link:', {
+      contactId: contact.id,
+      appointmentId: appointment.id,
+      start: start.toISOString(),
+      slotAvailable: !!slot,
+    })
+
+    if (!slot) {
+      return notMoved("Sorry, that time isn't available any more. Please pick another.")
+    }
+
+    try {
+      await this.createAppointment(
+        contact,
+        slot,
+        appointment.id,
+        appointment.calendar_event_id,
+        appointmentType.id,
+        'Rescheduled by the lead via their booking link'
+      )
+
+      const locationNote = this.getConfirmationLocationNote(contact, appointmentType.id)
+      const linksNote = this.getAppointmentLinksNote(contact, appointment.id, slot)
+
+      return {
+        message: this.buildRescheduleConfirmationMessage(firstName, slot, locationNote, linksNote),
+        bookingState: {
+          ...this.createEmptyState(),
+          offerAttempts: bookingState.offerAttempts,
+          selectedSlot: slot,
+          appointmentTypeId: appointmentType.id,
+        },
+        appointmentCreated: false,
+        appointmentRescheduled: true,
+        appointmentId: appointment.id,
+        continueWithAI: false,
+      }
+    } catch (error) {
+      if (error instanceof SlotUnavailableError) {
+        return notMoved("Sorry, that time was just taken. Please pick another.")
+      }
+      console.error('Failed to reschedule appointment from booking link:', error)
+      return notMoved("Something went wrong moving your appointment. Please try again, or reply to our text and we'll sort it out.")
+    }
+  }
+
   /**
    * Try to parse a time selection from user's message
    */
@@ -360,11 +903,14 @@ class BookingHandler {
       }
     }
 
+    const timezone = contact.workflows.clients.timezone || 'Europe/London'
+
     // Pass lastOfferedSlot to handle affirmative responses
     const selectedSlot = parseTimeSelection(
       message,
       bookingState.offeredSlots,
-      bookingState.lastOfferedSlot || undefined
+      bookingState.lastOfferedSlot || undefined,
+      timezone
     )
 
     if (!selectedSlot) {
@@ -373,7 +919,7 @@ class BookingHandler {
 
       if (requestedTime) {
         // Find the closest available slot to what they requested
-        const closestSlot = this.findClosestSlot(requestedTime, bookingState.offeredSlots)
+        const closestSlot = this.findClosestSlot(requestedTime, bookingState.offeredSlots, timezone)
 
         if (closestSlot) {
           // Offer the closest alternative and track it
@@ -399,7 +945,7 @@ class BookingHandler {
       // Check if user mentioned a day without a specific time
       const dayOnly = this.parseDayOnly(message)
       if (dayOnly) {
-        const slotsOnDay = this.filterSlotsByDay(dayOnly, bookingState.offeredSlots)
+        const slotsOnDay = this.filterSlotsByDay(dayOnly, bookingState.offeredSlots, timezone)
         if (slotsOnDay.length > 0) {
           // Ask them to pick a specific time on that day
           const dayOfferMessage = this.buildDayTimesMessage(
@@ -498,11 +1044,14 @@ class BookingHandler {
         contact,
         selectedSlot,
         bookingState.existingAppointmentId,
-        bookingState.existingCalendarEventId
+        bookingState.existingCalendarEventId,
+        bookingState.appointmentTypeId
       )
+      const locationNote = this.getConfirmationLocationNote(contact, bookingState.appointmentTypeId)
+      const linksNote = this.getAppointmentLinksNote(contact, appointment.id, selectedSlot)
       const confirmationMessage = isRescheduling
-        ? this.buildRescheduleConfirmationMessage(contact.first_name || 'there', selectedSlot)
-        : this.buildConfirmationMessage(contact.first_name || 'there', selectedSlot)
+        ? this.buildRescheduleConfirmationMessage(contact.first_name || 'there', selectedSlot, locationNote, linksNote)
+        : this.buildConfirmationMessage(contact.first_name || 'there', selectedSlot, locationNote, linksNote)
 
       return {
         message: confirmationMessage,
@@ -518,6 +1067,9 @@ class BookingHandler {
         continueWithAI: false,
       }
     } catch (error) {
+      if (error instanceof SlotUnavailableError) {
+        return this.handleSlotTaken(contact, bookingState)
+      }
       console.error('Failed to create appointment:', error)
       return {
         message: "Hmm, something went wrong on my end. Let me have someone reach out to lock in your appointment.",
@@ -579,17 +1131,13 @@ class BookingHandler {
    */
   private findClosestSlot(
     requested: { hour: number; minute: number; day?: string },
-    slots: TimeSlot[]
+    slots: TimeSlot[],
+    timezone: string
   ): TimeSlot | null {
-    const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
-
     // Filter by day if specified
     let candidates = slots
     if (requested.day) {
-      candidates = slots.filter(slot => {
-        const slotDay = dayNames[slot.start.getDay()]
-        return slotDay === requested.day
-      })
+      candidates = slots.filter(slot => getLocalTime(slot.start, timezone).day === requested.day)
     }
 
     if (candidates.length === 0) {
@@ -603,7 +1151,8 @@ class BookingHandler {
     let closestDiff = Infinity
 
     for (const slot of candidates) {
-      const slotMinutes = slot.start.getHours() * 60 + slot.start.getMinutes()
+      const { hour, minute } = getLocalTime(slot.start, timezone)
+      const slotMinutes = hour * 60 + minute
       const diff = Math.abs(slotMinutes - requestedMinutes)
 
       if (diff < closestDiff) {
@@ -642,28 +1191,17 @@ class BookingHandler {
   /**
    * Filter slots to a specific day
    */
-  private filterSlotsByDay(day: string, slots: TimeSlot[]): TimeSlot[] {
-    const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
-
-    if (day === 'tomorrow') {
-      const tomorrow = new Date()
-      tomorrow.setDate(tomorrow.getDate() + 1)
-      return slots.filter(slot =>
-        slot.start.toDateString() === tomorrow.toDateString()
-      )
-    }
-
-    if (day === 'today') {
-      const today = new Date()
-      return slots.filter(slot =>
-        slot.start.toDateString() === today.toDateString()
-      )
+  private filterSlotsByDay(day: string, slots: TimeSlot[], timezone: string): TimeSlot[] {
+    if (day === 'tomorrow' || day === 'today') {
+      const reference = this.deps.now()
+      if (day === 'tomorrow') {
+        reference.setTime(reference.getTime() + 24 * 60 * 60 * 1000)
+      }
+      const { dateKey } = getLocalTime(reference, timezone)
+      return slots.filter(slot => getLocalTime(slot.start, timezone).dateKey === dateKey)
     }
 
-    return slots.filter(slot => {
-      const slotDay = dayNames[slot.start.getDay()]
-      return slotDay === day
-    })
+    return slots.filter(slot => getLocalTime(slot.start, timezone).day === day)
   }
 
   /**
@@ -793,15 +1331,36 @@ class BookingHandler {
     contact: ContactWithWorkflow,
     slot: TimeSlot,
     existingAppointmentId?: string | null,
-    existingCalendarEventId?: string | null
+    existingCalendarEventId?: string | null,
+    appointmentTypeId?: string | null,
+    notes?: string
   ): Promise<{ id: string; calendarEventId?: string }> {
-    const supabase = await createClient()
+    const supabase = await this.deps.createDbClient()
     const client = contact.workflows.clients
     const isReschedule = !!existingAppointmentId
+    const appointmentType = this.getAppointmentType(contact, appointmentTypeId)
+    const eventLocation = getEventLocation(appointmentType, contact.phone)
+    const summary = appointmentType.id === DEFAULT_APPOINTMENT_TYPE_ID
+      ? `Call with ${client.name}`
+      : `${appointmentType.name} with ${client.name}`
+
+    // Work out whose calendar the booking goes on
+    const previous = isReschedule
+      ? await this.getExistingBooking(supabase, existingAppointmentId!)
+      : null
+    const previousHostId = previous?.hostId || null
+    const connection = await this.assignCalendar(contact, slot, previous, appointmentType)
+    const hostId = connection?.host?.id || null
+
+    // Moving to a different host: the old host's event can't be updated, so remove it
+    const hostChanged = isReschedule && !!previousHostId && previousHostId !== hostId
+    if (hostChanged && existingCalendarEventId) {
+      await this.deleteCalendarEvent(client.id, previousHostId!, existingCalendarEventId)
+      existingCalendarEventId = null
+    }
 
     // Try to create/update calendar event
     let calendarEventId: string | undefined = existingCalendarEventId || undefined
-    const connection = await getCalendarConnectionForClient(client.id)
 
     if (connection && connection.connection.calendar_id) {
       try {
@@ -825,13 +1384,14 @@ class BookingHandler {
             connection.connection.calendar_id,
             existingCalendarEventId,
             {
-              summary: `Call with ${client.name}`,
+              summary,
               description: `Contact: ${contactName}\nPhone: ${contact.phone || 'N/A'}\nEmail: ${contact.email || 'N/A'}`,
               start: slot.start,
               end: slot.end,
               attendeeEmail: contact.email || undefined,
               attendeeName: contactName || undefined,
               timeZone: clientTimezone,
+              location: eventLocation.location,
             }
           )
           calendarEventId = event.id
@@ -851,14 +1411,14 @@ class BookingHandler {
           const event = await connection.provider.createEvent(
             connection.connection.calendar_id,
             {
-              summary: `Call with ${client.name}`,
+              summary,
               description: `Contact: ${contactName}\nPhone: ${contact.phone || 'N/A'}\nEmail: ${contact.email || 'N/A'}`,
               start: slot.start,
               end: slot.end,
               attendeeEmail: contact.email || undefined,
               attendeeName: contactName || undefined,
               timeZone: clientTimezone,
-              addGoogleMeet: true,
+              ...eventLocation,
             }
           )
           calendarEventId = event.id
@@ -883,6 +1443,17 @@ class BookingHandler {
     }
 
     let appointmentId: string
+    const typeFields = {
+      appointment_type_id: appointmentType.id === DEFAULT_APPOINTMENT_TYPE_ID ? null : appointmentType.id,
+      location: eventLocation.location || null,
+    }
+
+    // Reminders that would already be due at this notice aren't sent
+    const remindersPassed = countPassedReminders(
+      getReminderTemplates(contact.workflows),
+      slot.start,
+      this.deps.now()
+    )
 
     if (isReschedule && existingAppointmentId) {
       // Update existing appointment
@@ -893,7 +1464,12 @@ class BookingHandler {
           start_time: slot.start.toISOString(),
           end_time: slot.end.toISOString(),
           calendar_event_id: calendarEventId || null,
-          notes: `Rescheduled automatically via conversation`,
+          host_id: hostId,
+          ...typeFields,
+          notes: notes || 'Rescheduled automatically via conversation',
+          // Reminders start over for the new time
+          reminders_sent: remindersPassed,
+          last_reminder_at: null,
         })
         .eq('id', existingAppointmentId)
 
@@ -912,10 +1488,13 @@ class BookingHandler {
           workflow_id: contact.workflow_id,
           client_id: client.id,
           calendar_event_id: calendarEventId || null,
+          host_id: hostId,
+          ...typeFields,
           start_time: slot.start.toISOString(),
           end_time: slot.end.toISOString(),
           status: 'confirmed',
-          notes: `Booked automatically via conversation`,
+          reminders_sent: remindersPassed,
+          notes: notes || 'Booked automatically via conversation',
         })
         .select('id')
         .single() as { data: { id: string } | null; error: Error | null }
@@ -933,12 +1512,187 @@ class BookingHandler {
       .update({ status: 'booked' })
       .eq('id', contact.id)
 
+    await this.releaseHolds(contact.id)
+
     return {
       id: appointmentId,
       calendarEventId,
     }
   }
 
+  /**
+   * Pick the calendar a booking goes on, re-checking free/busy right before the write
+   * Only calendars free at the slot are eligible, and other leads' holds on it take one each.
+   * For teams, a rescheduling host keeps the booking if they can, otherwise the client's
+   * assignment strategy decides. When rescheduling, the appointment's own event doesn't
+   * count as busy on the calendar it is on.
+   */
+  private async assignCalendar(
+    contact: ContactWithWorkflow,
+    slot: TimeSlot,
+    previous: ExistingBooking | null,
+    appointmentType: AppointmentType
+  ): Promise<BookingCalendar | null> {
+    const client = contact.workflows.clients
+    const previousHostId = previous?.hostId || null
+    const calendars = await this.getBookingCalendars(client.id)
+
+    if (calendars.length === 0) {
+      return null
+    }
+
+    const blockedFrom = new Date(slot.start.getTime() - appointmentType.buffer_before_minutes * 60 * 1000)
+    const blockedUntil = new Date(slot.end.getTime() + appointmentType.buffer_after_minutes * 60 * 1000)
+
+    const freeChecks = await Promise.all(
+      calendars.map(c =>
+        isCalendarFree(
+          {
+            provider: c.provider,
+            calendarId: c.connection.calendar_id || 'primary',
+            busyCalendarIds: c.connection.busy_calendar_ids || [],
+            ignoreBusy: this.getOwnEvent(c, previous),
+          },
+          blockedFrom,
+          blockedUntil
+        ).catch(error => {
+          console.error('[BookingHandler] Free/busy check failed:', {
+            hostId: c.host?.id || null,
+            error: error instanceof Error ? error.message : error,
+          })
+          // A single client calendar that can't be checked doesn't block the booking,
+          // the same way a failed event write doesn't
+          return !c.host
+        })
+      )
+    )
+    const freeCalendars = calendars.filter((_, i) => freeChecks[i])
+
+    const heldByOthers = (await this.getHeldSlots(contact)).filter(
+      held => blockedFrom < held.end && blockedUntil > held.start
+    ).length
+
+    if (freeCalendars.length <= heldByOthers) {
+      console.log('[BookingHandler] Selected slot is no longer free:', {
+        contactId: contact.id,
+        slotStart: slot.start.toISOString(),
+        freeCalendars: freeCalendars.length,
+        heldByOthers,
+      })
+      throw new SlotUnavailableError()
+    }
+
+    const hostCalendars = freeCalendars.filter(c => c.host)
+    if (hostCalendars.length === 0) {
+      return freeCalendars[0]
+    }
+    const totalHosts = calendars.filter(c => c.host).length
+
+    const previousCalendar = hostCalendars.find(c => c.host!.id === previousHostId)
+    if (previousCalendar) {
+      return previousCalendar
+    }
+
+    const strategy = client.host_assignment || 'round_robin'
+    const upcoming = strategy === 'least_loaded'
+      ? await this.countUpcomingAppointments(hostCalendars.map(c => c.host!.id))
+      : {}
+
+    const chosen = pickHost(
+      hostCalendars.map(c => ({
+        id: c.host!.id,
+        lastAssignedAt: c.host!.last_assigned_at,
+        upcomingAppointments: upcoming[c.host!.id] || 0,
+        calendar: c,
+      })),
+      strategy
+    )!.calendar
+    const hostId = chosen.host!.id
+
+    const supabase = await this.deps.createDbClient()
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (supabase as any)
+      .from('hosts')
+      .update({ last_assigned_at: this.deps.now().toISOString() })
+      .eq('id', hostId)
+
+    console.log('[BookingHandler] Assigned host:', {
+      clientId: client.id,
+      hostId,
+      strategy,
+      freeHosts: hostCalendars.length,
+      totalHosts,
+    })
+
+    return chosen
+  }
+
+  /**
+   * Confirmed upcoming appointments per host, for least-loaded assignment
+   */
+  private async countUpcomingAppointments(hostIds: string[]): Promise<Record<string, number>> {
+    const supabase = await this.deps.createDbClient()
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data } = await (supabase as any)
+      .from('appointments')
+      .select('host_id')
+      .in('host_id', hostIds)
+      .eq('status', 'confirmed')
+      .gte('start_time', this.deps.now().toISOString()) as { data: { host_id: string }[] | null }
+
+    const counts: Record<string, number> = {}
+    for (const row of data || []) {
+      counts[row.host_id] = (counts[row.host_id] || 0) + 1
+    }
+    return counts
+  }
+
+  /**
+   * The time a rescheduled appointment's event takes up, if it is on this calendar
+   */
+  private getOwnEvent(calendar: BookingCalendar, existing: ExistingBooking | null): ExistingBooking | undefined {
+    return existing && (calendar.host?.id || null) === existing.hostId ? existing : undefined
+  }
+
+  private async getExistingBooking(supabase: DbClient, appointmentId: string): Promise<ExistingBooking | null> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data } = await (supabase as any)
+      .from('appointments')
+      .select('host_id, start_time, end_time')
+      .eq('id', appointmentId)
+      .maybeSingle() as { data: { host_id: string | null; start_time: string; end_time: string } | null }
+
+    if (!data) return null
+
+    return {
+      hostId: data.host_id || null,
+      start: new Date(data.start_time),
+      end: new Date(data.end_time),
+    }
+  }
+
+  /**
+   * Remove a booking's event from a host's calendar (or the client-level one when hostId is null)
+   * Used for cancellations and for reschedules that move to a different host
+   */
+  private async deleteCalendarEvent(clientId: string, hostId: string | null, eventId: string): Promise<void> {
+    const connection = await this.deps.getCalendarConnection(clientId, hostId)
+    if (!connection || !connection.connection.calendar_id) {
+      return
+    }
+
+    try {
+      await connection.provider.deleteEvent(connection.connection.calendar_id, eventId)
+      console.log('[BookingHandler] Removed calendar event:', { hostId, eventId })
+    } catch (error) {
+      console.error('[BookingHandler] Failed to remove calendar event:', {
+        hostId,
+        eventId,
+        error: error instanceof Error ? error.message : error,
+      })
+    }
+  }
+
   /**
    * Build a natural message offering time slots
    * Selects 3-4 diverse options across different days like a human would
@@ -1071,28 +1825,52 @@ class BookingHandler {
     return templates[Math.floor(Math.random() * templates.length)]
   }
 
+  /**
+   * Where the booked appointment happens, for the end of confirmation messages
+   */
+  private getConfirmationLocationNote(contact: ContactWithWorkflow, appointmentTypeId: string | null): string {
+    return getLocationNote(this.getAppointmentType(contact, appointmentTypeId), contact.phone)
+  }
+
+  /**
+   * Links to add the booked appointment to the lead's calendar and to reschedule or
+   * cancel it, for the end of confirmation messages
+   * Empty when booking links aren't configured
+   */
+  private getAppointmentLinksNote(contact: ContactWithWorkflow, appointmentId: string, slot: TimeSlot): string {
+    if (!isBookingLinkConfigured()) {
+      return ''
+    }
+    return [
+      `Add it to your calendar: ${getCalendarFileUrl(contact.id, appointmentId, slot.end)}`,
+      `Need to change or cancel? ${getManageLinkUrl(contact.id, appointmentId, slot.start)}`,
+    ].join(' ')
+  }
+
   /**
    * Build a confirmation message after booking
    */
-  private buildConfirmationMessage(firstName: string, slot: TimeSlot): string {
+  private buildConfirmationMessage(firstName: string, slot: TimeSlot, locationNote = '', linksNote = ''): string {
     const confirmations = [
       `Done - you're booked for ${slot.formatted}. Calendar invite coming your way.`,
       `Locked in for ${slot.formatted}, ${firstName}. You'll get a calendar invite shortly.`,
       `${slot.formatted} it is. I'll send over a calendar invite now.`,
     ]
-    return confirmations[Math.floor(Math.random() * confirmations.length)]
+    const message = confirmations[Math.floor(Math.random() * confirmations.length)]
+    return [message, locationNote, linksNote].filter(Boolean).join(' ')
   }
 
   /**
    * Build a confirmation message after rescheduling
    */
-  private buildRescheduleConfirmationMessage(firstName: string, slot: TimeSlot): string {
+  private buildRescheduleConfirmationMessage(firstName: string, slot: TimeSlot, locationNote = '', linksNote = ''): string {
     const confirmations = [
       `Done - I've moved your appointment to ${slot.formatted}. Updated invite on its way.`,
       `All sorted, ${firstName}. You're now booked for ${slot.formatted}.`,
       `Changed to ${slot.formatted}. I'll send you an updated calendar invite.`,
     ]
-    return confirmations[Math.floor(Math.random() * confirmations.length)]
+    const message = confirmations[Math.floor(Math.random() * confirmations.length)]
+    return [message, locationNote, linksNote].filter(Boolean).join(' ')
   }
 
   /**
@@ -1110,6 +1888,7 @@ class BookingHandler {
       existingAppointmentId: null,
       existingCalendarEventId: null,
       pendingSlotAwaitingEmail: null,
+      appointmentTypeId: null,
     }
   }
 
@@ -1150,6 +1929,7 @@ class BookingHandler {
             formatted: state.pendingSlotAwaitingEmail.formatted,
           }
         : null,
+      appointmentTypeId: state.appointmentTypeId,
     }
   }
 
@@ -1186,6 +1966,143 @@ class BookingHandler {
       pendingSlotAwaitingEmail: data.pendingSlotAwaitingEmail
         ? parseSlot(data.pendingSlotAwaitingEmail as { start: string; end: string; formatted: string })
         : null,
+      appointmentTypeId: (data.appointmentTypeId as string) || null,
+    }
+  }
+
+  /**
+   * The contact's next confirmed appointment, or a specific one if it's theirs and still to come
+   */
+  private async getUpcomingAppointment(
+    contact: ContactWithWorkflow,
+    appointmentId?: string
+  ): Promise<UpcomingAppointment | null> {
+    const supabase = await this.deps.createDbClient()
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let query = (supabase as any)
+      .from('appointments')
+      .select('id, calendar_event_id, host_id, start_time, end_time, appointment_type_id')
+      .eq('contact_id', contact.id)
+      .eq('status', 'confirmed')
+      .gte('start_time', this.deps.now().toISOString())
+
+    if (appointmentId) {
+      query = query.eq('id', appointmentId)
+    }
+
+    const { data } = await query
+      .order('start_time', { ascending: true })
+      .limit(1)
+      .maybeSingle() as {
+        data: UpcomingAppointment | null
+      }
+
+    return data
+  }
+
+  /**
+   * Cancel the contact's upcoming appointment
+   * Removes the calendar event, marks the appointment cancelled and moves the contact back
+   * into the conversation. With offerRebook the reply asks if they'd like another time.
+   */
+  async cancelBooking(
+    contact: ContactWithWorkflow,
+    bookingState: BookingState,
+    options: {
+      reason?: string | null
+      offerRebook?: boolean
+      /** Cancel this appointment (from a booking link) rather than the next one */
+      appointmentId?: string
+    } = {}
+  ): Promise<BookingFlowResult> {
+    const client = contact.workflows.clients
+    const supabase = await this.deps.createDbClient()
+    const firstName = contact.first_name || 'there'
+    const offerRebook = options.offerRebook ?? true
+
+    const appointment = await this.getUpcomingAppointment(contact, options.appointmentId)
+
+    if (!appointment) {
+      console.log('[BookingHandler] No upcoming appointment to cancel:', { contactId: contact.id })
+      return {
+        message: "I can't see an upcoming booking for you, so there's nothing to cancel. Would you like to set one up?",
+        bookingState: { ...bookingState, isActive: false, isRescheduling: false },
+        appointmentCreated: false,
+        appointmentRescheduled: false,
+        continueWithAI: false,
+      }
+    }
+
+    if (appointment.calendar_event_id) {
+      await this.deleteCalendarEvent(client.id, appointment.host_id, appointment.calendar_event_id)
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabase as any)
+      .from('appointments')
+      .update({
+        status: 'cancelled',
+        cancelled_at: this.deps.now().toISOString(),
+        cancelled_by: 'contact',
+        cancellation_reason: options.reason || null,
+        notes: options.appointmentId
+          ? 'Cancelled by the lead via their booking link'
+          : 'Cancelled by the lead via conversation',
+      })
+      .eq('id', appointment.id)
+
+    if (error) {
+      console.error('[BookingHandler] Failed to cancel appointment:', {
+        appointmentId: appointment.id,
+        error: error.message,
+      })
+      return {
+        message: "Hmm, something went wrong on my end. Let me have someone reach out to cancel that for you.",
+        bookingState,
+        appointmentCreated: false,
+        appointmentRescheduled: false,
+        continueWithAI: false,
+      }
+    }
+
+    // No longer booked - back to an open conversation
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (supabase as any)
+      .from('contacts')
+      .update({ status: 'in_conversation' })
+      .eq('id', contact.id)
+
+    await this.releaseHolds(contact.id)
+
+    console.log('[BookingHandler] Appointment cancelled:', {
+      appointmentId: appointment.id,
+      contactId: contact.id,
+      offerRebook,
+    })
+
+    const when = formatSlot(new Date(appointment.start_time), client.timezone || 'Europe/London')
+    const cancelled = `No problem ${firstName}, I've cancelled your appointment on ${when}.`
+    // The .ics link now serves the cancellation, which takes it off the lead's calendar
+    const calendarNote = isBookingLinkConfigured()
+      ? `If it's in your calendar, this removes it: ${getCalendarFileUrl(contact.id, appointment.id, new Date(appointment.end_time))}`
+      : ''
+    const emptyState = this.createEmptyState()
+
+    return {
+      message: [
+        cancelled,
+        calendarNote,
+        offerRebook ? 'Would you like to find another time?' : 'Thanks for letting us know.',
+      ].filter(Boolean).join(' '),
+      // Declining the rebook shouldn't lead straight into a fresh slot offer
+      bookingState: offerRebook
+        ? emptyState
+        : { ...emptyState, offerAttempts: Math.max(bookingState.offerAttempts, MAX_OFFER_ATTEMPTS) },
+      appointmentCreated: false,
+      appointmentRescheduled: false,
+      appointmentCancelled: true,
+      appointmentId: appointment.id,
+      continueWithAI: false,
     }
   }
 
@@ -1199,7 +2116,7 @@ class BookingHandler {
     message?: string
   ): Promise<BookingFlowResult> {
     const client = contact.workflows.clients
-    const supabase = await createClient()
+    const supabase = await this.deps.createDbClient()
 
     // Extract day preference from the reschedule request (e.g., "Can we reschedule to Tuesday?")
     const preferredDay = message ? extractDayFromMessage(message) : null
@@ -1214,7 +2131,7 @@ class BookingHandler {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const { data: existingAppointment, error: appointmentError } = await (supabase as any)
       .from('appointments')
-      .select('id, calendar_event_id, start_time')
+      .select('id, calendar_event_id, start_time, appointment_type_id')
       .eq('contact_id', contact.id)
       .eq('status', 'confirmed')
       .order('start_time', { ascending: false })
@@ -1238,9 +2155,9 @@ class BookingHandler {
       currentStartTime: existingAppointment.start_time,
     })
 
-    const connection = await getCalendarConnectionForClient(client.id)
+    const calendars = await this.getBookingCalendars(client.id)
 
-    if (!connection) {
+    if (calendars.length === 0) {
       console.log('[BookingHandler] No calendar connection found - cannot reschedule')
       return {
         message: "I can't reschedule right now - let me have someone reach out to help you change the time.",
@@ -1252,17 +2169,9 @@ class BookingHandler {
     }
 
     try {
-      const businessHours = (client.business_hours as BusinessHours) || DEFAULT_BUSINESS_HOURS
-
-      const rawSlots = await getAvailableSlots({
-        provider: connection.provider,
-        calendarId: connection.connection.calendar_id || 'primary',
-        businessHours,
-        timezone: client.timezone || 'Europe/London',
-        durationMinutes: contact.workflows.appointment_duration_minutes || 30,
-        daysAhead: 14,
-        maxSlots: 8, // Fetch a few extra to account for filtering
-      })
+      // Fetch a few extra to account for filtering
+      const appointmentType = this.getAppointmentType(contact, existingAppointment.appointment_type_id)
+      const rawSlots = await this.getSlotsForCalendars(calendars, contact, 8, appointmentType, existingAppointment.id)
 
       // Filter out the existing appointment's time slot
       // This prevents offering the user their current time as a "new" option
@@ -1286,6 +2195,7 @@ class BookingHandler {
             existingAppointmentId: existingAppointment.id,
             existingCalendarEventId: existingAppointment.calendar_event_id,
             offerAttempts: bookingState.offerAttempts + 1,
+            appointmentTypeId: appointmentType.id,
           },
           appointmentCreated: false,
           appointmentRescheduled: false,
@@ -1298,7 +2208,7 @@ class BookingHandler {
       let noSlotsOnPreferredDay = false
 
       if (preferredDay && preferredDay !== 'tomorrow' && preferredDay !== 'today') {
-        const filteredSlots = this.filterSlotsByDay(preferredDay, slots)
+        const filteredSlots = this.filterSlotsByDay(preferredDay, slots, client.timezone || 'Europe/London')
         if (filteredSlots.length > 0) {
           slotsToOffer = filteredSlots
           console.log('[BookingHandler] Filtered to preferred day:', preferredDay, 'slots:', filteredSlots.length)
@@ -1308,14 +2218,14 @@ class BookingHandler {
           console.log('[BookingHandler] No slots on preferred day:', preferredDay)
         }
       } else if (preferredDay === 'tomorrow') {
-        const filteredSlots = this.filterSlotsByDay('tomorrow', slots)
+        const filteredSlots = this.filterSlotsByDay('tomorrow', slots, client.timezone || 'Europe/London')
         if (filteredSlots.length > 0) {
           slotsToOffer = filteredSlots
         } else {
           noSlotsOnPreferredDay = true
         }
       } else if (preferredDay === 'today') {
-        const filteredSlots = this.filterSlotsByDay('today', slots)
+        const filteredSlots = this.filterSlotsByDay('today', slots, client.timezone || 'Europe/London')
         if (filteredSlots.length > 0) {
           slotsToOffer = filteredSlots
         } else {
@@ -1323,6 +2233,8 @@ class BookingHandler {
         }
       }
 
+      await this.holdSlots(contact, slotsToOffer)
+
       const firstName = contact.first_name || 'there'
       const responseMessage = this.buildRescheduleOfferMessage(firstName, slotsToOffer, preferredDay, noSlotsOnPreferredDay)
 
@@ -1331,7 +2243,7 @@ class BookingHandler {
         bookingState: {
           isActive: true,
           offeredSlots: slotsToOffer,
-          slotsOfferedAt: new Date().toISOString(),
+          slotsOfferedAt: this.deps.now().toISOString(),
           selectedSlot: null,
           offerAttempts: bookingState.offerAttempts + 1,
           lastOfferedSlot: null,
@@ -1339,6 +2251,7 @@ class BookingHandler {
           existingAppointmentId: existingAppointment.id,
           existingCalendarEventId: existingAppointment.calendar_event_id,
           pendingSlotAwaitingEmail: null,
+          appointmentTypeId: appointmentType.id,
         },
         appointmentCreated: false,
         appointmentRescheduled: false,
@@ -1453,6 +2366,15 @@ class BookingHandler {
       case 'request_different_times':
         return this.handleToolDifferentTimes(contact, bookingState, toolCall.input, aiTextResponse)
 
+      case 'select_appointment_type':
+        return this.handleToolAppointmentType(contact, bookingState, toolCall.input, aiTextResponse)
+
+      case 'cancel_booking':
+        return this.cancelBooking(contact, bookingState, {
+          reason: toolCall.input.reason,
+          offerRebook: toolCall.input.offer_rebook,
+        })
+
       case 'request_human_help':
         return {
           message: aiTextResponse || "I'll have someone from our team reach out to help you directly.",
@@ -1485,6 +2407,7 @@ class BookingHandler {
   ): Promise<BookingFlowResult> {
     const { slot_index, day_preference, time_24h } = input
     const firstName = contact.first_name || 'there'
+    const timezone = contact.workflows.clients.timezone || 'Europe/London'
 
     // Case 1: Slot selected by index
     if (slot_index !== undefined && slot_index > 0) {
@@ -1499,9 +2422,7 @@ class BookingHandler {
     if (day_preference && time_24h) {
       const [hours, minutes] = time_24h.split(':').map(Number)
       const matchingSlot = bookingState.offeredSlots.find(slot => {
-        const slotDay = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'][slot.start.getDay()]
-        const slotHours = slot.start.getHours()
-        const slotMinutes = slot.start.getMinutes()
+        const { day: slotDay, hour: slotHours, minute: slotMinutes } = getLocalTime(slot.start, timezone)
         return slotDay === day_preference && slotHours === hours && slotMinutes === minutes
       })
 
@@ -1510,10 +2431,7 @@ class BookingHandler {
       }
 
       // Time not available - find alternatives on that day
-      const slotsOnDay = bookingState.offeredSlots.filter(slot => {
-        const slotDay = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'][slot.start.getDay()]
-        return slotDay === day_preference
-      })
+      const slotsOnDay = this.filterSlotsByDay(day_preference, bookingState.offeredSlots, timezone)
 
       if (slotsOnDay.length > 0) {
         const dayDisplay = day_preference.charAt(0).toUpperCase() + day_preference.slice(1)
@@ -1544,10 +2462,7 @@ class BookingHandler {
 
     // Case 3: Only day specified (no time) - ask which time
     if (day_preference && !time_24h) {
-      const slotsOnDay = bookingState.offeredSlots.filter(slot => {
-        const slotDay = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'][slot.start.getDay()]
-        return slotDay === day_preference
-      })
+      const slotsOnDay = this.filterSlotsByDay(day_preference, bookingState.offeredSlots, timezone)
 
       const dayDisplay = day_preference.charAt(0).toUpperCase() + day_preference.slice(1)
 
@@ -1639,6 +2554,9 @@ class BookingHandler {
     input: BookingToolInput,
     aiTextResponse: string | null
   ): Promise<BookingFlowResult> {
+    // None of the offered times work, so stop holding them for this lead
+    await this.releaseHolds(contact.id)
+
     // For now, use AI response or offer to have someone reach out
     // In future, could try to fetch more slots from different date range
     return {
@@ -1653,6 +2571,43 @@ class BookingHandler {
     }
   }
 
+  /**
+   * Handle select_appointment_type tool call - offer slots for the type the lead picked
+   */
+  private async handleToolAppointmentType(
+    contact: ContactWithWorkflow,
+    bookingState: BookingState,
+    input: BookingToolInput,
+    aiTextResponse: string | null
+  ): Promise<BookingFlowResult> {
+    const types = getAppointmentTypes(contact.workflows)
+    const appointmentType = findAppointmentType(types, input.appointment_type)
+
+    if (!appointmentType) {
+      const options = types.map(t => t.name).join(', ')
+      return {
+        message: aiTextResponse || `Which would suit you best - ${options}?`,
+        bookingState,
+        appointmentCreated: false,
+        appointmentRescheduled: false,
+        continueWithAI: false,
+      }
+    }
+
+    if (bookingState.isRescheduling) {
+      // Reschedules keep the booked type
+      return {
+        message: aiTextResponse || `${contact.first_name || 'there'}, which time works best for you?`,
+        bookingState,
+        appointmentCreated: false,
+        appointmentRescheduled: false,
+        continueWithAI: false,
+      }
+    }
+
+    return this.offerTimeSlots(contact, bookingState, appointmentType.id)
+  }
+
   /**
    * Create a booking from a selected slot
    */
@@ -1694,12 +2649,15 @@ class BookingHandler {
         contact,
         slot,
         bookingState.existingAppointmentId,
-        bookingState.existingCalendarEventId
+        bookingState.existingCalendarEventId,
+        bookingState.appointmentTypeId
       )
 
+      const locationNote = this.getConfirmationLocationNote(contact, bookingState.appointmentTypeId)
+      const linksNote = this.getAppointmentLinksNote(contact, appointment.id, slot)
       const confirmationMessage = isRescheduling
-        ? this.buildRescheduleConfirmationMessage(firstName, slot)
-        : this.buildConfirmationMessage(firstName, slot)
+        ? this.buildRescheduleConfirmationMessage(firstName, slot, locationNote, linksNote)
+        : this.buildConfirmationMessage(firstName, slot, locationNote, linksNote)
 
       return {
         message: confirmationMessage,
@@ -1715,6 +2673,9 @@ class BookingHandler {
         continueWithAI: false,
       }
     } catch (error) {
+      if (error instanceof SlotUnavailableError) {
+        return this.handleSlotTaken(contact, bookingState)
+      }
       console.error('Failed to create appointment from tool:', error)
       return {
         message: "Hmm, something went wrong booking that time. Let me have someone reach out to lock in your appointment.",
@@ -1,6 +1,7 @@
 import Anthropic from '@anthropic-ai/sdk'
 import { AIModel, TokenUsage, MessageForPrompt, AIResponseWithTools, BookingToolName, BookingToolInput } from '@/types/ai'
-import { TimeSlot } from '@/lib/calendar'
+import { TimeSlot, describeAppointmentType } from '@/lib/calendar'
+import { AppointmentType } from '@/types/database'
 
 // Singleton Anthropic client
 let anthropicClient: Anthropic | null = null
@@ -37,10 +38,7 @@ export async function generateResponse(config: ClaudeRequestConfig): Promise<Cla
   const client = getClient()
 
   // Convert our message format to Anthropic's format
-  const anthropicMessages = config.messages.map(msg => ({
-    role: msg.role as 'user' | 'assistant',
-    content: msg.content
-  }))
+  const anthropicMessages = toAnthropicMessages(config.messages)
 
   let lastError: Error | null = null
 
@@ -98,6 +96,7 @@ export async function classifyIntent(
   const systemPrompt = `You are an intent classifier for an appointment booking AI.
 Classify the user's message into one of these intents:
 - booking_interest: Wants to schedule/book something
+- cancel: Wants to cancel an appointment they already booked
 - question: Asking a question about services, pricing, etc.
 - objection: Expressing concerns or hesitation
 - positive_response: Agreeing, confirming, showing interest
@@ -164,6 +163,32 @@ function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms))
 }
 
+/**
+ * Messages with images become image blocks followed by the text
+ */
+function toAnthropicMessages(messages: MessageForPrompt[]): Anthropic.MessageParam[] {
+  return messages.map(msg => {
+    if (!msg.images || msg.images.length === 0) {
+      return { role: msg.role, content: msg.content }
+    }
+
+    return {
+      role: msg.role,
+      content: [
+        ...msg.images.map(image => ({
+          type: 'image' as const,
+          source: {
+            type: 'base64' as const,
+            media_type: image.mediaType as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp',
+            data: image.data
+          }
+        })),
+        { type: 'text' as const, text: msg.content || '(no text)' }
+      ]
+    }
+  })
+}
+
 // ============================================
 // Tool-based Booking Flow
 // ============================================
@@ -172,12 +197,16 @@ function sleep(ms: number): Promise<void> {
  * Build tool definitions for booking flow
  * These tools let Claude express user intent in a structured way
  */
-function buildBookingTools(offeredSlots: TimeSlot[]): Anthropic.Tool[] {
+function buildBookingTools(
+  offeredSlots: TimeSlot[],
+  appointmentTypes: AppointmentType[] = [],
+  canCancel = false
+): Anthropic.Tool[] {
   const slotDescriptions = offeredSlots
     .map((s, i) => `${i + 1}. ${s.formatted}`)
     .join('\n')
 
-  return [
+  const tools: Anthropic.Tool[] = [
     {
       name: 'select_time_slot',
       description: `Select a specific appointment time. Use when the user indicates they want a particular slot.
@@ -242,12 +271,59 @@ Use just day_preference if they only said a day without a time (e.g., "Tuesday w
       }
     }
   ]
+
+  // Only worth offering when there's more than one kind of appointment to choose from
+  if (appointmentTypes.length > 1) {
+    tools.push({
+      name: 'select_appointment_type',
+      description: `User wants a different kind of appointment than the one the offered slots are for (e.g., longer, in person, a different service). New slots will be offered for it.
+
+Appointment types:
+${appointmentTypes.map(t => `- ${describeAppointmentType(t)}`).join('\n')}`,
+      input_schema: {
+        type: 'object' as const,
+        properties: {
+          appointment_type: {
+            type: 'string',
+            enum: appointmentTypes.map(t => t.name),
+            description: 'Name of the appointment type they want'
+          }
+        },
+        required: ['appointment_type']
+      }
+    })
+  }
+
+  // Only a lead with an existing appointment (i.e. rescheduling) has something to cancel
+  if (canCancel) {
+    tools.push({
+      name: 'cancel_booking',
+      description: 'User wants to cancel their existing appointment outright rather than move it (e.g., "actually just cancel it", "I don\'t need the call anymore"). Not for when none of the new times work - use request_different_times for that.',
+      input_schema: {
+        type: 'object' as const,
+        properties: {
+          reason: {
+            type: 'string',
+            description: 'Why they are cancelling (if mentioned)'
+          },
+          offer_rebook: {
+            type: 'boolean',
+            description: 'Whether to offer to find another time later. False if they said they are no longer interested.'
+          }
+        }
+      }
+    })
+  }
+
+  return tools
 }
 
 export interface BookingFlowConfig extends ClaudeRequestConfig {
   offeredSlots: TimeSlot[]
   lastOfferedSlot?: TimeSlot | null
   isRescheduling?: boolean
+  /** Types the lead can switch between (not offered while rescheduling) */
+  appointmentTypes?: AppointmentType[]
 }
 
 /**
@@ -259,12 +335,10 @@ export async function generateResponseWithTools(
 ): Promise<AIResponseWithTools> {
   const client = getClient()
 
-  const anthropicMessages = config.messages.map(msg => ({
-    role: msg.role as 'user' | 'assistant',
-    content: msg.content
-  }))
+  const anthropicMessages = toAnthropicMessages(config.messages)
 
-  const tools = buildBookingTools(config.offeredSlots)
+  const appointmentTypes = config.isRescheduling ? [] : config.appointmentTypes || []
+  const tools = buildBookingTools(config.offeredSlots, appointmentTypes, !!config.isRescheduling)
 
   // Enhance system prompt with tool usage instructions
   const enhancedSystemPrompt = `${config.systemPrompt}
@@ -274,7 +348,9 @@ You have tools to handle time slot selection. When the user responds about booki
 - If they pick a specific slot (by number, day+time, or explicit reference) → use select_time_slot
 - If they say "yes", "sounds good", "that works" to confirm a single offered slot → use confirm_booking
 - If none of the times work for them → use request_different_times
-- If they want human help → use request_human_help
+- If they want human help → use request_human_help${appointmentTypes.length > 1 ? `
+- If they want a different kind of appointment than the slots are for → use select_appointment_type` : ''}${config.isRescheduling ? `
+- If they want to cancel their appointment instead of moving it → use cancel_booking` : ''}
 
 IMPORTANT:
 - Always use a tool when the user's message is about selecting, confirming, or changing appointment times.
@@ -247,7 +247,8 @@ export class ContextManager {
       'unclear',
       'greeting',
       'thanks',
-      'reschedule'
+      'reschedule',
+      'cancel'
     ].includes(value as string)
   }
 
@@ -1,6 +1,6 @@
 import { createServiceClient } from '@/lib/supabase/server'
 import { Contact, Workflow, Client } from '@/types/database'
-import { sendMessage, isTwilioConfigured } from '@/lib/twilio/client'
+import { getMessagingProvider } from '@/lib/messaging'
 
 type ContactWithWorkflow = Contact & {
   workflows: Workflow & {
@@ -70,10 +70,11 @@ Review: ${appUrl}/contacts/${contact.id}`
     console.log(fullMessage)
     console.log('========================')
 
-    // Send SMS if configured
-    if (adminPhone && isTwilioConfigured()) {
+    // Send SMS if configured (from the deployment's default provider and number)
+    const provider = getMessagingProvider()
+    if (adminPhone && provider.isConfigured()) {
       try {
-        const result = await sendMessage({
+        const result = await provider.send({
           to: adminPhone,
           body: shortMessage,
           channel: 'sms'
@@ -91,7 +92,7 @@ Review: ${appUrl}/contacts/${contact.id}`
     } else if (!adminPhone) {
       console.warn('[Escalation] ADMIN_PHONE_NUMBER not configured - SMS notification skipped')
     } else {
-      console.warn('[Escalation] Twilio not configured - SMS notification skipped')
+      console.warn(`[Escalation] ${provider.providerType} not configured - SMS notification skipped`)
     }
   }
 
@@ -0,0 +1,668 @@
+/**
+ * Booking Conversation Harness
+ * Drives BookingHandler through whole conversations against an in-memory calendar,
+ * an in-memory database, a fixed clock and scripted Claude tool calls
+ *
+ * Each turn is routed the way the orchestrator routes it (booking link -> pending email ->
+ * reschedule -> offer slots -> tool call / time selection), and booking state is round-tripped
+ * through serializeState/deserializeState between turns just like conversation_context.
+ * After every turn the harness also checks the invariants that matter most:
+ * offered slots are free and inside business hours (after holidays and date overrides),
+ * and nothing is double-booked.
+ * Team scenarios give each host their own in-memory calendar.
+ * Scenarios with appointment types also check offered slots keep the type's buffers clear,
+ * and single-calendar scenarios that no slot another lead is holding gets offered.
+ */
+
+import { BookingHandler, BookingHandlerDependencies, BookingState, BookingFlowResult, ContactWithWorkflow } from '../booking-handler'
+import { ScriptedClaudeClient, ScriptedClaudeStep } from './fake-claude'
+import { InMemoryDatabase } from './in-memory-db'
+import { InMemoryCalendarProvider } from '@/lib/calendar/providers/memory'
+import {
+  TimeSlot,
+  getLocalTime,
+  getAppointmentTypes,
+  findAppointmentType,
+  matchAppointmentType,
+  getHoursForDate,
+  getScheduleExceptions,
+  ScheduleExceptions,
+} from '@/lib/calendar'
+import {
+  Appointment,
+  AppointmentType,
+  BusinessHours,
+  CalendarConnection,
+  Client,
+  Contact,
+  DateOverride,
+  Host,
+  SlotHold,
+  Workflow,
+} from '@/types/database'
+import { MessageForPrompt } from '@/types/ai'
+
+const CALENDAR_ID = 'primary'
+
+const WEEKDAY_HOURS: BusinessHours = {
+  monday: { start: '09:00', end: '17:00' },
+  tuesday: { start: '09:00', end: '17:00' },
+  wednesday: { start: '09:00', end: '17:00' },
+  thursday: { start: '09:00', end: '17:00' },
+  friday: { start: '09:00', end: '17:00' },
+  saturday: null,
+  sunday: null,
+}
+
+export type BookingTurnRoute = 'email' | 'link' | 'reschedule' | 'cancel' | 'offer' | 'tool' | 'select'
+
+export interface BookingTurnExpectation {
+  /** Slots should (or should not) be on offer after this turn */
+  offersSlots?: boolean
+  /** A new appointment is booked at this local time ("YYYY-MM-DD HH:mm" in the client timezone) */
+  booksAt?: string
+  /** The existing appointment is moved to this local time */
+  reschedulesTo?: string
+  /** Nothing is booked or rescheduled on this turn */
+  noBooking?: boolean
+  /** The handler asks for an email before booking */
+  asksForEmail?: boolean
+  /** The specific alternative being proposed ("yeah that works" target) */
+  lastOfferedSlotAt?: string | null
+  /** Every offered slot falls on this local date ("YYYY-MM-DD") */
+  offeredSlotsOn?: string
+  /** Case-insensitive substring of the reply */
+  replyIncludes?: string
+  /** The booked or rescheduled appointment went to this host */
+  assignedTo?: string | null
+  /** The booked appointment is of this type (null = workflow default) */
+  bookedType?: string | null
+  /** The booked appointment lasts this many minutes */
+  bookedMinutes?: number
+  /** How many unexpired slot holds the lead has after this turn */
+  heldSlots?: number
+  /** How many reminders the booked or rescheduled appointment starts with marked as passed */
+  remindersPassed?: number
+  /** The contact's appointment is (or is not) cancelled on this turn */
+  cancelled?: boolean
+}
+
+export interface BookingScenarioTurn {
+  /** What the lead texts */
+  user: string
+  /** Route through startReschedule (the orchestrator does this for "reschedule" intent) */
+  reschedule?: boolean
+  /** Route through cancelBooking (the orchestrator does this for "cancel" intent) */
+  cancel?: boolean
+  /** Route through offerBookingLink (the orchestrator does this when the lead asks for a link) */
+  linkRequest?: boolean
+  /** Instead of texting, the lead picks this slot (ISO start) on their booking page */
+  linkBooking?: { start: string; appointmentTypeId?: string; email?: string }
+  /** The lead moves their existing appointment to this slot (ISO start) from the manage link */
+  linkReschedule?: { start: string }
+  /** The lead cancels their existing appointment from the manage link */
+  linkCancel?: boolean
+  /** Scripted Claude response; when set and slots are on offer, the tool path is used */
+  claude?: ScriptedClaudeStep
+  /** Meetings (ISO) that land on the calendar just before this turn, e.g. booked by someone else */
+  busyBeforeTurn?: Array<{ start: string; end: string; hostId?: string }>
+  expect?: BookingTurnExpectation
+}
+
+export interface BookingScenario {
+  name: string
+  description?: string
+  /** Fixed "current time" for the whole conversation (ISO) */
+  now: string
+  /** Client timezone (default: Europe/London) */
+  timezone?: string
+  businessHours?: BusinessHours
+  /** Public holiday set the client closes on (e.g. 'GB-ENG') */
+  holidayRegion?: string
+  /** Per-date closures and one-off hours */
+  dateOverrides?: DateOverride[]
+  durationMinutes?: number
+  /** The workflow's appointment types (defaults are filled in as when stored) */
+  appointmentTypes?: Array<Partial<AppointmentType>>
+  /** Hours before the appointment each reminder is sent (default: 24 and 1) */
+  reminderHours?: number[]
+  contact?: {
+    firstName?: string
+    email?: string | null
+  }
+  /** Existing meetings (ISO), on the target calendar unless calendarId is given; hostId for team scenarios */
+  busy?: Array<{ start: string; end: string; calendarId?: string; hostId?: string }>
+  /** Extra calendars the connection checks for conflicts */
+  busyCalendarIds?: string[]
+  /** Team members, each with their own calendar; without hosts the client has one calendar */
+  hosts?: Array<{ id: string; lastAssignedAt?: string | null; upcomingAppointments?: number }>
+  hostAssignment?: Client['host_assignment']
+  /** Confirmed appointment the contact already has (ISO), for reschedule scenarios */
+  existingAppointment?: { start: string; end: string; hostId?: string }
+  /** Other leads' confirmed appointments (ISO), also busy on the calendar */
+  otherAppointments?: Array<{ start: string; end: string; appointmentTypeId?: string }>
+  /** Slots on offer to other leads (ISO); holds expire 15 minutes after "now" unless expiresAt is given */
+  otherHolds?: Array<{ start: string; end: string; expiresAt?: string }>
+  turns: BookingScenarioTurn[]
+}
+
+export interface BookingTurnResult {
+  user: string
+  route: BookingTurnRoute
+  reply: string
+  /** Offered slots after the turn, as local "YYYY-MM-DD HH:mm" */
+  offeredSlots: string[]
+  appointmentCreated: boolean
+  appointmentRescheduled: boolean
+  failures: string[]
+}
+
+export interface BookingScenarioResult {
+  name: string
+  passed: boolean
+  turns: BookingTurnResult[]
+  failures: string[]
+}
+
+/**
+ * Format a date as "YYYY-MM-DD HH:mm" wall-clock time in a timezone
+ */
+export function formatLocalDateTime(date: Date, timezone: string): string {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date)
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '00'
+  return `${get('year')}-${get('month')}-${get('day')} ${get('hour')}:${get('minute')}`
+}
+
+/**
+ * Run a single scenario end to end
+ */
+export async function runBookingScenario(scenario: BookingScenario): Promise<BookingScenarioResult> {
+  const timezone = scenario.timezone || 'Europe/London'
+  const businessHours = scenario.businessHours || WEEKDAY_HOURS
+  const now = new Date(scenario.now)
+
+  // One calendar account per host, or a single one (keyed '') for the client
+  const hostIds = (scenario.hosts || []).map(h => h.id)
+  const providers = new Map<string, InMemoryCalendarProvider>()
+  for (const owner of hostIds.length > 0 ? hostIds : ['']) {
+    providers.set(owner, new InMemoryCalendarProvider([
+      { id: CALENDAR_ID, name: 'Primary', primary: true },
+      ...(scenario.busyCalendarIds || []).map(id => ({ id, name: id, primary: false })),
+    ]))
+  }
+  const providerFor = (hostId?: string | null) => {
+    const provider = providers.get(hostId || '')
+    if (!provider) throw new Error(`Scenario has no calendar for host "${hostId}"`)
+    return provider
+  }
+  const db = new InMemoryDatabase()
+  const claude = new ScriptedClaudeClient()
+
+  const busyBlocks = (scenario.busy || []).map(b => ({
+    start: new Date(b.start),
+    end: new Date(b.end),
+    hostId: b.hostId || null,
+  }))
+  for (const block of scenario.busy || []) {
+    providerFor(block.hostId).addBusy(block.calendarId || CALENDAR_ID, new Date(block.start), new Date(block.end))
+  }
+  // Checked for overlaps as appointments rather than as busy blocks
+  for (const other of scenario.otherAppointments || []) {
+    providerFor(null).addBusy(CALENDAR_ID, new Date(other.start), new Date(other.end))
+  }
+
+  const client = {
+    id: 'client-harness',
+    name: 'Harness Co',
+    brand_name: 'Harness Co',
+    timezone,
+    business_hours: businessHours,
+    holiday_region: scenario.holidayRegion || null,
+    date_overrides: scenario.dateOverrides || [],
+    host_assignment: scenario.hostAssignment || 'round_robin',
+  } as unknown as Client
+  const exceptions = getScheduleExceptions(client)
+
+  const workflow = {
+    id: 'workflow-harness',
+    client_id: client.id,
+    name: 'Harness workflow',
+    status: 'active',
+    channel: 'sms',
+    appointment_duration_minutes: scenario.durationMinutes || 30,
+    appointment_types: scenario.appointmentTypes || [],
+    reminder_templates: (scenario.reminderHours || [24, 1]).map(h => ({ offset_hours: h, message: '' })),
+  } as unknown as Workflow
+  const appointmentTypes = getAppointmentTypes(workflow)
+
+  db.seed('contacts', [{
+    id: 'contact-harness',
+    workflow_id: workflow.id,
+    phone: '+447700900000',
+    email: scenario.contact?.email === undefined ? 'lead@example.com' : scenario.contact.email,
+    first_name: scenario.contact?.firstName || 'Sam',
+    last_name: null,
+    status: scenario.existingAppointment ? 'booked' : 'in_conversation',
+    conversation_context: {},
+    created_at: now.toISOString(),
+  }])
+
+  for (const host of scenario.hosts || []) {
+    db.seed('hosts', [{
+      id: host.id,
+      client_id: client.id,
+      name: host.id,
+      email: null,
+      is_active: true,
+      last_assigned_at: host.lastAssignedAt || null,
+    }])
+    // Other leads' bookings, spaced out well beyond the booking window
+    db.seed('appointments', Array.from({ length: host.upcomingAppointments || 0 }, (_, i) => ({
+      id: `appointment-${host.id}-${i}`,
+      contact_id: `contact-other-${i}`,
+      workflow_id: workflow.id,
+      client_id: client.id,
+      host_id: host.id,
+      calendar_event_id: null,
+      start_time: new Date(now.getTime() + (30 + i) * 86400000).toISOString(),
+      end_time: new Date(now.getTime() + (30 + i) * 86400000 + 1800000).toISOString(),
+      status: 'confirmed',
+      notes: null,
+    })))
+  }
+
+  db.seed('appointments', (scenario.otherAppointments || []).map((other, i) => ({
+    id: `appointment-other-${i}`,
+    contact_id: `contact-other-${i}`,
+    workflow_id: workflow.id,
+    client_id: client.id,
+    host_id: null,
+    appointment_type_id: other.appointmentTypeId || null,
+    calendar_event_id: null,
+    start_time: other.start,
+    end_time: other.end,
+    status: 'confirmed',
+    notes: null,
+  })))
+
+  db.seed('slot_holds', (scenario.otherHolds || []).map((hold, i) => ({
+    id: `hold-other-${i}`,
+    client_id: client.id,
+    contact_id: `contact-other-hold-${i}`,
+    start_time: hold.start,
+    end_time: hold.end,
+    expires_at: hold.expiresAt || new Date(now.getTime() + 15 * 60000).toISOString(),
+  })))
+  const heldBlocks = (scenario.otherHolds || [])
+    .filter(hold => !hold.expiresAt || new Date(hold.expiresAt) > now)
+    .map(hold => ({ start: new Date(hold.start), end: new Date(hold.end) }))
+
+  if (scenario.existingAppointment) {
+    const start = new Date(scenario.existingAppointment.start)
+    const end = new Date(scenario.existingAppointment.end)
+    const hostId = scenario.existingAppointment.hostId || null
+    const event = providerFor(hostId).addBusy(CALENDAR_ID, start, end, `Call with ${client.name}`)
+    db.seed('appointments', [{
+      id: 'appointment-existing',
+      contact_id: 'contact-harness',
+      workflow_id: workflow.id,
+      client_id: client.id,
+      host_id: hostId,
+      calendar_event_id: event.id,
+      start_time: start.toISOString(),
+      end_time: end.toISOString(),
+      status: 'confirmed',
+      notes: null,
+      // Both default reminders already sent for the old time
+      reminders_sent: 2,
+    }])
+  }
+
+  const connectionFor = (hostId: string | null) => ({
+    connection: {
+      id: `connection-${hostId || 'harness'}`,
+      client_id: client.id,
+      host_id: hostId,
+      provider: 'memory',
+      calendar_id: CALENDAR_ID,
+      busy_calendar_ids: scenario.busyCalendarIds || [],
+    } as unknown as CalendarConnection,
+    provider: providerFor(hostId),
+  })
+
+  type DbClient = Awaited<ReturnType<BookingHandlerDependencies['createDbClient']>>
+  const handler = new BookingHandler({
+    getCalendarConnection: async (_clientId, hostId = null) => connectionFor(hostId),
+    // Read hosts from the database so last_assigned_at updates carry over between turns
+    getHostCalendars: async () =>
+      db.rowsOf<Host>('hosts').map(host => ({ ...connectionFor(host.id), host })),
+    createDbClient: () => db as unknown as DbClient,
+    now: () => new Date(now),
+  })
+
+  // The orchestrator reloads the contact every message; do the same
+  const loadContact = (): ContactWithWorkflow => ({
+    ...db.rowsOf<Contact>('contacts')[0],
+    workflows: { ...workflow, clients: client },
+  })
+
+  let bookingState = handler.deserializeState(undefined)
+  const transcript: MessageForPrompt[] = []
+  const turns: BookingTurnResult[] = []
+
+  for (const turn of scenario.turns) {
+    const contact = loadContact()
+    transcript.push({ role: 'user', content: turn.user })
+
+    for (const block of turn.busyBeforeTurn || []) {
+      providerFor(block.hostId).addBusy(CALENDAR_ID, new Date(block.start), new Date(block.end))
+      busyBlocks.push({ start: new Date(block.start), end: new Date(block.end), hostId: block.hostId || null })
+    }
+
+    let route: BookingTurnRoute = 'offer'
+    let result: BookingFlowResult
+    const failures: string[] = []
+
+    try {
+      if (turn.linkBooking) {
+        route = 'link'
+        result = await handler.bookFromLink(contact, bookingState, new Date(turn.linkBooking.start), {
+          appointmentTypeId: turn.linkBooking.appointmentTypeId,
+          email: turn.linkBooking.email,
+        })
+      } else if (turn.linkReschedule) {
+        route = 'link'
+        result = await handler.rescheduleFromLink(
+          contact, bookingState, 'appointment-existing', new Date(turn.linkReschedule.start)
+        )
+      } else if (turn.linkCancel) {
+        route = 'link'
+        result = await handler.cancelBooking(contact, bookingState, { appointmentId: 'appointment-existing' })
+      } else if (bookingState.pendingSlotAwaitingEmail) {
+        route = 'email'
+        result = (await handler.handlePendingEmailResponse(contact, bookingState, turn.user))!
+      } else if (turn.linkRequest) {
+        route = 'link'
+        // Links need a signing secret; any value works here since nothing verifies them
+        process.env.BOOKING_LINK_SECRET = process.env.BOOKING_LINK_SECRET || 'booking-harness'
+        result = await handler.offerBookingLink(contact, bookingState)
+      } else if (turn.reschedule) {
+        route = 'reschedule'
+        result = await handler.startReschedule(contact, bookingState, turn.user)
+      } else if (turn.cancel) {
+        route = 'cancel'
+        result = await handler.cancelBooking(contact, bookingState)
+      } else if (!bookingState.isActive) {
+        route = 'offer'
+        // As the orchestrator does, offer the type the message points at
+        result = await handler.offerTimeSlots(contact, bookingState, matchAppointmentType(appointmentTypes, turn.user)?.id)
+      } else if (turn.claude) {
+        route = 'tool'
+        claude.enqueue(turn.claude)
+        const response = await claude.generateResponseWithTools({
+          model: 'claude-sonnet-4-20250514',
+          systemPrompt: '',
+          messages: transcript,
+          maxTokens: 500,
+          offeredSlots: bookingState.offeredSlots,
+          lastOfferedSlot: bookingState.lastOfferedSlot,
+          isRescheduling: bookingState.isRescheduling,
+          appointmentTypes,
+        })
+        result = response.toolCall
+          ? await handler.handleToolCall(contact, response.toolCall, bookingState, response.text)
+          : {
+              message: response.text || '',
+              bookingState,
+              appointmentCreated: false,
+              appointmentRescheduled: false,
+              continueWithAI: false,
+            }
+      } else {
+        route = 'select'
+        result = await handler.handleTimeSelection(contact, turn.user, bookingState)
+      }
+    } catch (error) {
+      turns.push({
+        user: turn.user,
+        route,
+        reply: '',
+        offeredSlots: [],
+        appointmentCreated: false,
+        appointmentRescheduled: false,
+        failures: [`Handler threw: ${error instanceof Error ? error.message : String(error)}`],
+      })
+      break
+    }
+
+    // Persist and reload state the way conversation_context does
+    bookingState = handler.deserializeState(
+      JSON.parse(JSON.stringify(handler.serializeState(result.bookingState)))
+    )
+    transcript.push({ role: 'assistant', content: result.message })
+
+    const appointments = db.rowsOf<Appointment>('appointments')
+    const ownHolds = db.rowsOf<SlotHold>('slot_holds')
+      .filter(hold => hold.contact_id === contact.id && new Date(hold.expires_at) > now)
+    const offeredType = findAppointmentType(appointmentTypes, bookingState.appointmentTypeId) || appointmentTypes[0]
+    failures.push(
+      ...checkExpectations(turn.expect, result, bookingState, appointments, ownHolds, timezone),
+      ...checkInvariants(
+        bookingState.offeredSlots, offeredType, busyBlocks, heldBlocks, hostIds, appointments, businessHours, exceptions, timezone
+      )
+    )
+
+    turns.push({
+      user: turn.user,
+      route,
+      reply: result.message,
+      offeredSlots: bookingState.offeredSlots.map(s => formatLocalDateTime(s.start, timezone)),
+      appointmentCreated: result.appointmentCreated,
+      appointmentRescheduled: result.appointmentRescheduled,
+      failures,
+    })
+  }
+
+  const failures = turns.flatMap((t, i) => t.failures.map(f => `Turn ${i + 1} ("${t.user}"): ${f}`))
+
+  return {
+    name: scenario.name,
+    passed: failures.length === 0,
+    turns,
+    failures,
+  }
+}
+
+/**
+ * Run several scenarios in sequence
+ */
+export async function runBookingScenarios(scenarios: BookingScenario[]): Promise<BookingScenarioResult[]> {
+  const results: BookingScenarioResult[] = []
+  for (const scenario of scenarios) {
+    results.push(await runBookingScenario(scenario))
+  }
+  return results
+}
+
+function checkExpectations(
+  expect: BookingTurnExpectation | undefined,
+  result: BookingFlowResult,
+  state: BookingState,
+  appointments: Appointment[],
+  ownHolds: SlotHold[],
+  timezone: string
+): string[] {
+  if (!expect) return []
+
+  const failures: string[] = []
+  const booked = result.appointmentId
+    ? appointments.find(a => a.id === result.appointmentId)
+    : undefined
+  const bookedAt = booked ? formatLocalDateTime(new Date(booked.start_time), timezone) : null
+
+  if (expect.offersSlots !== undefined && (state.offeredSlots.length > 0 && state.isActive) !== expect.offersSlots) {
+    failures.push(expect.offersSlots ? 'expected slots to be offered' : 'expected no slots on offer')
+  }
+
+  if (expect.booksAt !== undefined) {
+    if (!result.appointmentCreated) {
+      failures.push(`expected a booking at ${expect.booksAt}, nothing was booked`)
+    } else if (bookedAt !== expect.booksAt) {
+      failures.push(`expected a booking at ${expect.booksAt}, booked ${bookedAt}`)
+    }
+  }
+
+  if (expect.reschedulesTo !== undefined) {
+    if (!result.appointmentRescheduled) {
+      failures.push(`expected a reschedule to ${expect.reschedulesTo}, nothing was rescheduled`)
+    } else if (bookedAt !== expect.reschedulesTo) {
+      failures.push(`expected a reschedule to ${expect.reschedulesTo}, moved to ${bookedAt}`)
+    }
+  }
+
+  if (expect.noBooking && (result.appointmentCreated || result.appointmentRescheduled)) {
+    failures.push(`expected no booking, ${result.appointmentCreated ? 'booked' : 'rescheduled to'} ${bookedAt}`)
+  }
+
+  if (expect.asksForEmail !== undefined && !!state.pendingSlotAwaitingEmail !== expect.asksForEmail) {
+    failures.push(expect.asksForEmail ? 'expected to ask for an email' : 'did not expect to ask for an email')
+  }
+
+  if (expect.lastOfferedSlotAt !== undefined) {
+    const actual = state.lastOfferedSlot ? formatLocalDateTime(state.lastOfferedSlot.start, timezone) : null
+    if (actual !== expect.lastOfferedSlotAt) {
+      failures.push(`expected ${expect.lastOfferedSlotAt ?? 'no'} alternative on offer, got ${actual ?? 'none'}`)
+    }
+  }
+
+  if (expect.offeredSlotsOn !== undefined) {
+    const offDay = state.offeredSlots
+      .map(s => formatLocalDateTime(s.start, timezone))
+      .filter(s => !s.startsWith(expect.offeredSlotsOn!))
+    if (state.offeredSlots.length === 0 || offDay.length > 0) {
+      failures.push(`expected all offered slots on ${expect.offeredSlotsOn}, got ${offDay.join(', ') || 'none'}`)
+    }
+  }
+
+  if (expect.assignedTo !== undefined) {
+    const assignedTo = booked ? booked.host_id ?? null : undefined
+    if (assignedTo !== expect.assignedTo) {
+      failures.push(`expected the booking to go to ${expect.assignedTo ?? 'no host'}, went to ${assignedTo ?? 'no host'}`)
+    }
+  }
+
+  if (expect.bookedType !== undefined) {
+    const bookedType = booked ? booked.appointment_type_id ?? null : undefined
+    if (bookedType !== expect.bookedType) {
+      failures.push(`expected a ${expect.bookedType ?? 'default'} appointment, got ${bookedType === undefined ? 'none' : bookedType ?? 'default'}`)
+    }
+  }
+
+  if (expect.bookedMinutes !== undefined) {
+    const minutes = booked
+      ? (new Date(booked.end_time).getTime() - new Date(booked.start_time).getTime()) / 60000
+      : null
+    if (minutes !== expect.bookedMinutes) {
+      failures.push(`expected a ${expect.bookedMinutes}-min appointment, got ${minutes ?? 'none'}`)
+    }
+  }
+
+  if (expect.heldSlots !== undefined && ownHolds.length !== expect.heldSlots) {
+    failures.push(`expected ${expect.heldSlots} held slots, got ${ownHolds.length}`)
+  }
+
+  if (expect.cancelled !== undefined) {
+    const cancelled = !!result.appointmentCancelled &&
+      appointments.some(a => a.id === result.appointmentId && a.status === 'cancelled')
+    if (cancelled !== expect.cancelled) {
+      failures.push(expect.cancelled ? 'expected the appointment to be cancelled' : 'did not expect a cancellation')
+    }
+  }
+
+  if (expect.remindersPassed !== undefined && booked?.reminders_sent !== expect.remindersPassed) {
+    failures.push(`expected ${expect.remindersPassed} reminders marked passed, got ${booked?.reminders_sent ?? 'no booking'}`)
+  }
+
+  if (expect.replyIncludes !== undefined && !result.message.toLowerCase().includes(expect.replyIncludes.toLowerCase())) {
+    failures.push(`expected reply to include "${expect.replyIncludes}", got "${result.message}"`)
+  }
+
+  return failures
+}
+
+/**
+ * Checks that hold for every turn of every scenario
+ */
+function checkInvariants(
+  offeredSlots: TimeSlot[],
+  offeredType: AppointmentType,
+  busyBlocks: Array<{ start: Date; end: Date; hostId: string | null }>,
+  heldBlocks: Array<{ start: Date; end: Date }>,
+  hostIds: string[],
+  appointments: Appointment[],
+  businessHours: BusinessHours,
+  exceptions: ScheduleExceptions,
+  timezone: string
+): string[] {
+  const failures: string[] = []
+  const owners = hostIds.length > 0 ? hostIds : [null]
+  const isBusy = (owner: string | null, start: Date, end: Date) =>
+    busyBlocks.some(b => b.hostId === owner && start < b.end && end > b.start)
+
+  for (const slot of offeredSlots) {
+    const label = formatLocalDateTime(slot.start, timezone)
+
+    if (owners.every(owner => isBusy(owner, slot.start, slot.end))) {
+      failures.push(`offered slot ${label} overlaps a busy block`)
+    } else if (owners.every(owner => isBusy(
+      owner,
+      new Date(slot.start.getTime() - offeredType.buffer_before_minutes * 60000),
+      new Date(slot.end.getTime() + offeredType.buffer_after_minutes * 60000)
+    ))) {
+      failures.push(`offered slot ${label} leaves no buffer around a busy block`)
+    }
+
+    // With a single calendar a held slot can't be offered to anyone else
+    if (hostIds.length === 0 && heldBlocks.some(h => slot.start < h.end && slot.end > h.start)) {
+      failures.push(`offered slot ${label} is held for another lead`)
+    }
+
+    const { day, dateKey } = getLocalTime(slot.start, timezone)
+    const hours = getHoursForDate(businessHours, dateKey, day, exceptions)
+    const startTime = label.slice(11)
+    const endLabel = formatLocalDateTime(slot.end, timezone)
+    const sameDay = endLabel.slice(0, 10) === label.slice(0, 10)
+    if (!hours || startTime < hours.start || !sameDay || endLabel.slice(11) > hours.end) {
+      failures.push(`offered slot ${label} is outside business hours`)
+    }
+  }
+
+  const confirmed = appointments.filter(a => a.status === 'confirmed')
+  for (const appointment of confirmed) {
+    const start = new Date(appointment.start_time)
+    const end = new Date(appointment.end_time)
+    const label = formatLocalDateTime(start, timezone)
+
+    const hostId = appointment.host_id ?? null
+
+    if (isBusy(hostId, start, end)) {
+      failures.push(`appointment at ${label} double-books a busy block`)
+    }
+    if (confirmed.some(o =>
+      o !== appointment && (o.host_id ?? null) === hostId &&
+      start < new Date(o.end_time) && end > new Date(o.start_time)
+    )) {
+      failures.push(`appointment at ${label} overlaps another appointment`)
+    }
+  }
+
+  return failures
+}
@@ -0,0 +1,570 @@
+/**
+ * Booking Scenarios
+ * Seed conversations for the booking harness
+ *
+ * Times are ISO instants; expectations are wall-clock times in the client timezone
+ * (Europe/London unless stated). Busy blocks are used to steer which slots get offered,
+ * since the handler only offers the first six free slots (at least two hours out).
+ */
+
+import { BookingScenario } from './booking-harness'
+import { AppointmentType } from '@/types/database'
+
+const INTRO_AND_CONSULTATION: Array<Partial<AppointmentType>> = [
+  { id: 'intro', name: 'Intro call', duration_minutes: 15, location_type: 'phone' },
+  {
+    id: 'consultation',
+    name: 'Consultation',
+    duration_minutes: 60,
+    buffer_after_minutes: 30,
+    slot_interval_minutes: 60,
+    location_type: 'in_person',
+    location_details: '1 High Street, London',
+  },
+]
+
+export const BOOKING_SCENARIOS: BookingScenario[] = [
+  {
+    name: 'tues at 2 (text)',
+    description: 'Bare "at 2" on a day means 2pm, on the named day',
+    now: '2026-11-09T17:30:00Z', // Monday evening, GMT
+    busy: [{ start: '2026-11-10T09:00:00Z', end: '2026-11-10T14:00:00Z' }],
+    turns: [
+      { user: 'yeah happy to chat', expect: { offersSlots: true, offeredSlotsOn: '2026-11-10' } },
+      { user: 'tues at 2', expect: { booksAt: '2026-11-10 14:00' } },
+    ],
+  },
+  {
+    name: 'tues at 2 (text, BST)',
+    description: 'Same request while London is on summer time - slot hours must be read in the client timezone',
+    now: '2026-10-12T16:30:00Z', // Monday 17:30 BST
+    busy: [{ start: '2026-10-13T08:00:00Z', end: '2026-10-13T13:00:00Z' }],
+    turns: [
+      { user: 'sure', expect: { offersSlots: true, offeredSlotsOn: '2026-10-13' } },
+      { user: 'tues at 2', expect: { booksAt: '2026-10-13 14:00' } },
+    ],
+  },
+  {
+    name: 'tues at 2 (tool)',
+    description: 'Claude resolves "tues at 2" to select_time_slot with day and 24h time',
+    now: '2026-10-12T16:30:00Z',
+    busy: [{ start: '2026-10-13T08:00:00Z', end: '2026-10-13T13:00:00Z' }],
+    turns: [
+      { user: 'sure', expect: { offersSlots: true } },
+      {
+        user: 'tues at 2',
+        claude: {
+          toolCall: { name: 'select_time_slot', input: { day_preference: 'tuesday', time_24h: '14:00' } },
+        },
+        expect: { booksAt: '2026-10-13 14:00' },
+      },
+    ],
+  },
+  {
+    name: 'tomorrow afternoon',
+    description: 'A day without a time lists that day\'s times instead of guessing',
+    now: '2026-11-09T10:00:00Z',
+    busy: [
+      { start: '2026-11-09T09:00:00Z', end: '2026-11-09T17:00:00Z' },
+      { start: '2026-11-10T09:00:00Z', end: '2026-11-10T13:00:00Z' },
+    ],
+    turns: [
+      { user: 'go on then', expect: { offersSlots: true } },
+      { user: 'tomorrow afternoon?', expect: { noBooking: true, replyIncludes: 'tomorrow', lastOfferedSlotAt: null } },
+      { user: '2:30pm', expect: { booksAt: '2026-11-10 14:30' } },
+    ],
+  },
+  {
+    name: 'yeah that works (text)',
+    description: 'Requested time is taken, the closest alternative is offered, "yeah that works" books it',
+    now: '2026-11-09T17:30:00Z',
+    busy: [{ start: '2026-11-10T09:00:00Z', end: '2026-11-10T15:00:00Z' }],
+    turns: [
+      { user: 'ok', expect: { offersSlots: true } },
+      { user: 'tues at 2pm?', expect: { noBooking: true, lastOfferedSlotAt: '2026-11-10 15:00' } },
+      { user: 'yeah that works', expect: { booksAt: '2026-11-10 15:00' } },
+    ],
+  },
+  {
+    name: 'yeah that works (tool)',
+    description: 'Claude confirms the single alternative it was shown',
+    now: '2026-11-09T17:30:00Z',
+    busy: [{ start: '2026-11-10T09:00:00Z', end: '2026-11-10T15:00:00Z' }],
+    turns: [
+      { user: 'ok', expect: { offersSlots: true } },
+      {
+        user: 'tues at 2pm?',
+        claude: {
+          toolCall: { name: 'select_time_slot', input: { day_preference: 'tuesday', time_24h: '14:00' } },
+        },
+        expect: { noBooking: true, replyIncludes: 'booked' },
+      },
+      {
+        user: 'yeah that works',
+        claude: { toolCall: { name: 'confirm_booking', input: {} } },
+        expect: { noBooking: true },
+      },
+      {
+        user: 'the 3pm one',
+        claude: {
+          toolCall: { name: 'select_time_slot', input: { day_preference: 'tuesday', time_24h: '15:00' } },
+        },
+        expect: { booksAt: '2026-11-10 15:00' },
+      },
+    ],
+  },
+  {
+    name: 'yes without a specific offer',
+    description: '"yes" to a list of several times must not book an arbitrary one',
+    now: '2026-11-09T10:00:00Z',
+    turns: [
+      { user: 'ok', expect: { offersSlots: true } },
+      { user: 'yes', expect: { noBooking: true, offersSlots: true } },
+    ],
+  },
+  {
+    name: 'busy on a secondary calendar',
+    description: 'Team and holiday calendars block slots as well as the target calendar',
+    now: '2026-11-09T17:30:00Z',
+    busyCalendarIds: ['team', 'holidays'],
+    busy: [
+      { start: '2026-11-10T09:00:00Z', end: '2026-11-10T12:00:00Z' },
+      { start: '2026-11-10T12:00:00Z', end: '2026-11-10T14:00:00Z', calendarId: 'team' },
+      { start: '2026-11-11T00:00:00Z', end: '2026-11-12T00:00:00Z', calendarId: 'holidays' },
+    ],
+    turns: [
+      { user: 'sure', expect: { offersSlots: true, offeredSlotsOn: '2026-11-10' } },
+      { user: 'wednesday at 10am?', expect: { noBooking: true } },
+      { user: 'tues at 2', expect: { booksAt: '2026-11-10 14:00' } },
+    ],
+  },
+  {
+    name: 'no email on file',
+    description: 'Picking a slot without an email asks for one, then books the held slot',
+    now: '2026-11-09T10:00:00Z',
+    contact: { email: null },
+    turns: [
+      { user: 'ok', expect: { offersSlots: true } },
+      { user: '1', expect: { asksForEmail: true, noBooking: true } },
+      { user: 'not sure', expect: { asksForEmail: true, replyIncludes: 'email' } },
+      { user: 'it\'s sam@example.com', expect: { booksAt: '2026-11-09 12:30' } },
+    ],
+  },
+  {
+    name: 'reschedule to thursday',
+    description: 'Reschedule offers only the requested day and moves the existing booking',
+    now: '2026-11-09T10:00:00Z',
+    busy: [
+      { start: '2026-11-09T09:00:00Z', end: '2026-11-09T17:00:00Z' },
+      { start: '2026-11-10T09:00:00Z', end: '2026-11-10T17:00:00Z' },
+      { start: '2026-11-11T09:00:00Z', end: '2026-11-11T10:00:00Z' },
+      { start: '2026-11-11T10:30:00Z', end: '2026-11-11T17:00:00Z' },
+    ],
+    existingAppointment: { start: '2026-11-11T10:00:00Z', end: '2026-11-11T10:30:00Z' },
+    turns: [
+      {
+        user: 'something came up, can we move it to thursday?',
+        reschedule: true,
+        expect: { offersSlots: true, offeredSlotsOn: '2026-11-12' },
+      },
+      { user: 'thursday at 10am', expect: { reschedulesTo: '2026-11-12 10:00', remindersPassed: 0 } },
+    ],
+  },
+  {
+    name: 'reminders: short-notice booking',
+    description: 'Booked under 24 hours ahead, so only the 1-hour reminder is still to send',
+    now: '2026-11-09T17:30:00Z',
+    busy: [{ start: '2026-11-10T09:00:00Z', end: '2026-11-10T14:00:00Z' }],
+    turns: [
+      { user: 'yeah happy to chat', expect: { offersSlots: true } },
+      { user: 'tues at 2', expect: { booksAt: '2026-11-10 14:00', remindersPassed: 1 } },
+    ],
+  },
+  {
+    name: 'reminders: reschedule inside the reminder window',
+    description: 'Moving to a time 3 hours out marks the day-before reminder passed, not both',
+    now: '2026-11-09T10:00:00Z',
+    reminderHours: [48, 24, 1],
+    busy: [{ start: '2026-11-09T09:00:00Z', end: '2026-11-09T13:00:00Z' }],
+    existingAppointment: { start: '2026-11-11T10:00:00Z', end: '2026-11-11T10:30:00Z' },
+    turns: [
+      { user: "sorry, can't make it", reschedule: true, expect: { offersSlots: true } },
+      { user: 'today at 1pm', expect: { reschedulesTo: '2026-11-09 13:00', remindersPassed: 2 } },
+    ],
+  },
+  {
+    name: 'cancel, then rebook the freed time',
+    description: 'Cancelling removes the calendar event, so the old time can be offered and booked again',
+    now: '2026-11-09T10:00:00Z',
+    busy: [
+      { start: '2026-11-09T09:00:00Z', end: '2026-11-09T17:00:00Z' },
+      { start: '2026-11-10T09:00:00Z', end: '2026-11-10T17:00:00Z' },
+      { start: '2026-11-11T09:00:00Z', end: '2026-11-11T10:00:00Z' },
+      { start: '2026-11-11T10:30:00Z', end: '2026-11-11T17:00:00Z' },
+    ],
+    existingAppointment: { start: '2026-11-11T10:00:00Z', end: '2026-11-11T10:30:00Z' },
+    turns: [
+      {
+        user: 'I need to cancel',
+        cancel: true,
+        expect: { cancelled: true, offersSlots: false, replyIncludes: 'another time' },
+      },
+      { user: 'yes please', expect: { offersSlots: true } },
+      { user: 'wednesday at 10am', expect: { booksAt: '2026-11-11 10:00' } },
+    ],
+  },
+  {
+    name: 'cancel instead of rescheduling (tool)',
+    description: 'Lead asks to move, then cancels outright; no new times are pushed on them',
+    now: '2026-11-09T10:00:00Z',
+    existingAppointment: { start: '2026-11-11T10:00:00Z', end: '2026-11-11T10:30:00Z' },
+    turns: [
+      { user: 'can we move it?', reschedule: true, expect: { offersSlots: true } },
+      {
+        user: 'actually just cancel it, we went with someone else',
+        claude: {
+          toolCall: { name: 'cancel_booking', input: { reason: 'Went with someone else', offer_rebook: false } },
+        },
+        expect: { cancelled: true, offersSlots: false, heldSlots: 0, replyIncludes: 'cancelled' },
+      },
+    ],
+  },
+  {
+    name: 'booking link: lead picks a time on the page',
+    description: 'Asking for a link sends it; a time picked on the page is booked even though it was never offered by text, and the confirmation links the .ics file',
+    now: '2026-11-09T17:30:00Z',
+    turns: [
+      { user: 'sure', expect: { offersSlots: true, heldSlots: 6 } },
+      { user: 'can you just send me a link?', linkRequest: true, expect: { noBooking: true, replyIncludes: '/book/' } },
+      {
+        user: '(picks Thursday 3pm on the booking page)',
+        linkBooking: { start: '2026-11-12T15:00:00Z' },
+        expect: { booksAt: '2026-11-12 15:00', offersSlots: false, heldSlots: 0, replyIncludes: '/ics' },
+      },
+    ],
+  },
+  {
+    name: 'booking link: unavailable times are refused',
+    description: "The page re-checks the pick: no email, another lead's hold and out-of-hours times don't book",
+    now: '2026-11-09T17:30:00Z',
+    contact: { email: null },
+    otherHolds: [{ start: '2026-11-10T10:00:00Z', end: '2026-11-10T10:30:00Z' }],
+    turns: [
+      {
+        user: '(picks Tuesday 10:30am without an email)',
+        linkBooking: { start: '2026-11-10T10:30:00Z' },
+        expect: { noBooking: true, replyIncludes: 'email' },
+      },
+      {
+        user: '(picks the time another lead is holding)',
+        linkBooking: { start: '2026-11-10T10:00:00Z', email: 'sam@example.com' },
+        expect: { noBooking: true, replyIncludes: "isn't available" },
+      },
+      {
+        user: '(picks 8pm)',
+        linkBooking: { start: '2026-11-10T20:00:00Z', email: 'sam@example.com' },
+        expect: { noBooking: true },
+      },
+      {
+        user: '(picks Tuesday 10:30am)',
+        linkBooking: { start: '2026-11-10T10:30:00Z', email: 'sam@example.com' },
+        expect: { booksAt: '2026-11-10 10:30' },
+      },
+    ],
+  },
+  {
+    name: 'manage link: lead moves their appointment',
+    description: "Confirmations carry a manage link; moving from it can't land on a busy time",
+    now: '2026-11-09T10:00:00Z',
+    busy: [{ start: '2026-11-12T09:00:00Z', end: '2026-11-12T12:00:00Z' }],
+    existingAppointment: { start: '2026-11-11T10:00:00Z', end: '2026-11-11T10:30:00Z' },
+    turns: [
+      {
+        user: '(picks Thursday 10am on the manage page)',
+        linkReschedule: { start: '2026-11-12T10:00:00Z' },
+        expect: { noBooking: true, replyIncludes: "isn't available" },
+      },
+      {
+        user: '(picks Thursday 2pm on the manage page)',
+        linkReschedule: { start: '2026-11-12T14:00:00Z' },
+        expect: { reschedulesTo: '2026-11-12 14:00', remindersPassed: 0 },
+      },
+    ],
+  },
+  {
+    name: 'manage link: move overlapping the current time',
+    description: "Moving an hour-long appointment 30 minutes later - its own event mustn't count as busy",
+    now: '2026-11-09T10:00:00Z',
+    durationMinutes: 60,
+    existingAppointment: { start: '2026-11-11T10:00:00Z', end: '2026-11-11T11:00:00Z' },
+    turns: [
+      {
+        user: '(picks Wednesday 10:30am on the manage page)',
+        linkReschedule: { start: '2026-11-11T10:30:00Z' },
+        expect: { reschedulesTo: '2026-11-11 10:30' },
+      },
+    ],
+  },
+  {
+    name: 'manage link: lead cancels',
+    description: 'Cancelling from the manage link cancels the linked appointment without offering new times',
+    now: '2026-11-09T10:00:00Z',
+    existingAppointment: { start: '2026-11-11T10:00:00Z', end: '2026-11-11T10:30:00Z' },
+    turns: [
+      { user: '(cancels on the manage page)', linkCancel: true, expect: { cancelled: true, offersSlots: false } },
+    ],
+  },
+  {
+    name: 'DST end (clocks go back)',
+    description: 'Offer spans the 25 Oct 2026 change; Monday 9am is 09:00 GMT, not 08:00 or 10:00',
+    now: '2026-10-23T15:00:00Z', // Friday 16:00 BST
+    turns: [
+      { user: 'next week is better', expect: { offersSlots: true } },
+      { user: 'monday at 9', expect: { booksAt: '2026-10-26 09:00' } },
+    ],
+  },
+  {
+    name: 'DST start (clocks go forward)',
+    description: 'Offer spans the 29 Mar 2026 change; Monday 9am is 08:00 UTC',
+    now: '2026-03-27T16:00:00Z', // Friday 16:00 GMT
+    turns: [
+      { user: 'monday?', expect: { offersSlots: true } },
+      { user: 'monday at 9', expect: { booksAt: '2026-03-30 09:00' } },
+    ],
+  },
+  {
+    name: 'DST in another timezone',
+    description: 'US clocks change a week after the UK (1 Nov 2026); business hours stay 9-5 local',
+    now: '2026-10-30T20:30:00Z', // Friday 16:30 EDT
+    timezone: 'America/New_York',
+    turns: [
+      { user: 'monday works', expect: { offersSlots: true, offeredSlotsOn: '2026-11-02' } },
+      { user: 'monday at 9am', expect: { booksAt: '2026-11-02 09:00' } },
+    ],
+  },
+  {
+    name: 'team: only a free host is booked',
+    description: 'Slots are the union of host calendars; a slot only one host is free for goes to that host',
+    now: '2026-11-09T17:30:00Z',
+    hosts: [{ id: 'alice' }, { id: 'bob' }],
+    busy: [{ start: '2026-11-10T09:00:00Z', end: '2026-11-10T17:00:00Z', hostId: 'alice' }],
+    turns: [
+      { user: 'sure', expect: { offersSlots: true, offeredSlotsOn: '2026-11-10' } },
+      { user: 'tues at 9', expect: { booksAt: '2026-11-10 09:00', assignedTo: 'bob' } },
+    ],
+  },
+  {
+    name: 'team: round robin',
+    description: 'When both hosts are free the one who has waited longest for a booking gets it',
+    now: '2026-11-09T17:30:00Z',
+    hosts: [
+      { id: 'alice', lastAssignedAt: '2026-11-09T12:00:00Z' },
+      { id: 'bob', lastAssignedAt: '2026-11-02T12:00:00Z' },
+    ],
+    turns: [
+      { user: 'ok', expect: { offersSlots: true } },
+      { user: 'tues at 9', expect: { booksAt: '2026-11-10 09:00', assignedTo: 'bob' } },
+    ],
+  },
+  {
+    name: 'team: least loaded',
+    description: 'Least-loaded assignment ignores turn order and picks the host with fewer upcoming calls',
+    now: '2026-11-09T17:30:00Z',
+    hostAssignment: 'least_loaded',
+    hosts: [
+      { id: 'alice', lastAssignedAt: '2026-11-09T12:00:00Z' },
+      { id: 'bob', upcomingAppointments: 2 },
+    ],
+    turns: [
+      { user: 'ok', expect: { offersSlots: true } },
+      { user: 'tues at 9', expect: { booksAt: '2026-11-10 09:00', assignedTo: 'alice' } },
+    ],
+  },
+  {
+    name: 'team: reschedule to another host',
+    description: 'The original host is busy at the new time, so the booking moves to a host who is free',
+    now: '2026-11-09T10:00:00Z',
+    hosts: [{ id: 'alice' }, { id: 'bob' }],
+    busy: [
+      { start: '2026-11-09T09:00:00Z', end: '2026-11-11T10:00:00Z', hostId: 'alice' },
+      { start: '2026-11-11T10:30:00Z', end: '2026-11-12T17:00:00Z', hostId: 'alice' },
+      { start: '2026-11-09T09:00:00Z', end: '2026-11-11T17:00:00Z', hostId: 'bob' },
+    ],
+    existingAppointment: { start: '2026-11-11T10:00:00Z', end: '2026-11-11T10:30:00Z', hostId: 'alice' },
+    turns: [
+      {
+        user: 'can we do thursday instead?',
+        reschedule: true,
+        expect: { offersSlots: true, offeredSlotsOn: '2026-11-12' },
+      },
+      { user: 'thursday at 10am', expect: { reschedulesTo: '2026-11-12 10:00', assignedTo: 'bob' } },
+    ],
+  },
+  {
+    name: 'types: lead asks to come in',
+    description: 'An in-person request gets slots for the in-person type, on its hourly steps, with the address in the confirmation',
+    now: '2026-11-09T17:30:00Z',
+    appointmentTypes: INTRO_AND_CONSULTATION,
+    turns: [
+      {
+        user: 'could I come in to your office for a consultation?',
+        expect: { offersSlots: true, replyIncludes: 'consultation', offeredSlotsOn: '2026-11-10' },
+      },
+      {
+        user: 'tues at 10',
+        expect: { booksAt: '2026-11-10 10:00', bookedType: 'consultation', bookedMinutes: 60, replyIncludes: '1 High Street' },
+      },
+    ],
+  },
+  {
+    name: 'types: default type when nothing matches',
+    description: 'A plain yes gets the first type, booked for its own duration',
+    now: '2026-11-09T17:30:00Z',
+    appointmentTypes: INTRO_AND_CONSULTATION,
+    turns: [
+      { user: 'sure', expect: { offersSlots: true, replyIncludes: 'intro call' } },
+      { user: 'tues at 9', expect: { booksAt: '2026-11-10 09:00', bookedType: 'intro', bookedMinutes: 15 } },
+    ],
+  },
+  {
+    name: 'types: buffers and slot steps',
+    description: 'A 15-min buffer either side pushes the first slot after a 9-10 meeting to 10:15',
+    now: '2026-11-09T17:30:00Z',
+    appointmentTypes: [{
+      id: 'demo',
+      name: 'Demo',
+      duration_minutes: 30,
+      buffer_before_minutes: 15,
+      buffer_after_minutes: 15,
+      slot_interval_minutes: 15,
+    }],
+    busy: [{ start: '2026-11-10T09:00:00Z', end: '2026-11-10T10:00:00Z' }],
+    turns: [
+      { user: 'ok', expect: { offersSlots: true, offeredSlotsOn: '2026-11-10' } },
+      { user: 'tues at 9am?', expect: { noBooking: true, lastOfferedSlotAt: '2026-11-10 10:15' } },
+      { user: 'yeah that works', expect: { booksAt: '2026-11-10 10:15', bookedType: 'demo' } },
+    ],
+  },
+  {
+    name: 'types: minimum notice',
+    description: 'With 24 hours notice nothing before this time tomorrow is offered',
+    now: '2026-11-09T09:45:00Z',
+    appointmentTypes: [{ id: 'audit', name: 'Audit', duration_minutes: 30, min_notice_hours: 24 }],
+    turns: [
+      { user: 'ok', expect: { offersSlots: true, offeredSlotsOn: '2026-11-10' } },
+      { user: 'tues at 9am?', expect: { noBooking: true, lastOfferedSlotAt: '2026-11-10 10:00' } },
+    ],
+  },
+  {
+    name: 'types: daily cap',
+    description: 'Tuesday already has its two consultations, so the next offers start on Wednesday',
+    now: '2026-11-09T17:30:00Z',
+    appointmentTypes: [{ id: 'consultation', name: 'Consultation', duration_minutes: 60, max_per_day: 2 }],
+    otherAppointments: [
+      { start: '2026-11-10T09:00:00Z', end: '2026-11-10T10:00:00Z', appointmentTypeId: 'consultation' },
+      { start: '2026-11-10T11:00:00Z', end: '2026-11-10T12:00:00Z', appointmentTypeId: 'consultation' },
+    ],
+    turns: [
+      { user: 'sure', expect: { offersSlots: true, offeredSlotsOn: '2026-11-11' } },
+    ],
+  },
+  {
+    name: 'types: switch type (tool)',
+    description: 'Claude moves the lead to the longer type and the new slots are for it',
+    now: '2026-11-09T17:30:00Z',
+    appointmentTypes: INTRO_AND_CONSULTATION,
+    turns: [
+      { user: 'sure', expect: { offersSlots: true } },
+      {
+        user: 'actually can we do a proper consultation in person?',
+        claude: { toolCall: { name: 'select_appointment_type', input: { appointment_type: 'Consultation' } } },
+        expect: { offersSlots: true, noBooking: true, replyIncludes: 'consultation' },
+      },
+      {
+        user: 'tues at 2',
+        claude: { toolCall: { name: 'select_time_slot', input: { day_preference: 'tuesday', time_24h: '14:00' } } },
+        expect: { booksAt: '2026-11-10 14:00', bookedType: 'consultation', bookedMinutes: 60 },
+      },
+    ],
+  },
+  {
+    name: 'holidays: Christmas closure',
+    description: 'England closes on Christmas Day and the Boxing Day substitute (Monday 28th), so offers start on the 29th',
+    now: '2026-12-24T17:30:00Z', // Christmas Eve
+    holidayRegion: 'GB-ENG',
+    turns: [
+      { user: 'sure', expect: { offersSlots: true, offeredSlotsOn: '2026-12-29' } },
+    ],
+  },
+  {
+    name: 'overrides: office closed',
+    description: 'A closure override on an ordinary Tuesday moves offers to Wednesday',
+    now: '2026-11-09T17:30:00Z',
+    dateOverrides: [{ date: '2026-11-10', hours: null, label: 'Team away day' }],
+    turns: [
+      { user: 'sure', expect: { offersSlots: true, offeredSlotsOn: '2026-11-11' } },
+    ],
+  },
+  {
+    name: 'overrides: extended hours',
+    description: 'One-off late opening on Tuesday makes a 7pm slot bookable',
+    now: '2026-11-09T17:30:00Z',
+    dateOverrides: [{ date: '2026-11-10', hours: { start: '07:00', end: '20:00' }, label: 'Late opening' }],
+    busy: [{ start: '2026-11-10T07:00:00Z', end: '2026-11-10T19:00:00Z' }],
+    turns: [
+      { user: 'ok', expect: { offersSlots: true } },
+      { user: 'tues at 7pm', expect: { booksAt: '2026-11-10 19:00' } },
+    ],
+  },
+  {
+    name: 'holds: slots held for another lead are skipped',
+    description: 'Another lead is holding 9:00 and 9:30 on Tuesday, so the earliest time on offer is 10:00',
+    now: '2026-11-09T17:30:00Z',
+    otherHolds: [
+      { start: '2026-11-10T09:00:00Z', end: '2026-11-10T09:30:00Z' },
+      { start: '2026-11-10T09:30:00Z', end: '2026-11-10T10:00:00Z' },
+    ],
+    turns: [
+      { user: 'sure', expect: { offersSlots: true, offeredSlotsOn: '2026-11-10', heldSlots: 6 } },
+      { user: 'tues at 9am?', expect: { noBooking: true, lastOfferedSlotAt: '2026-11-10 10:00' } },
+    ],
+  },
+  {
+    name: 'holds: expired holds are ignored',
+    description: "A hold that ran out is offered again, and booking releases the lead's own holds",
+    now: '2026-11-09T17:30:00Z',
+    otherHolds: [
+      { start: '2026-11-10T09:00:00Z', end: '2026-11-10T09:30:00Z', expiresAt: '2026-11-09T17:00:00Z' },
+    ],
+    turns: [
+      { user: 'sure', expect: { offersSlots: true, heldSlots: 6 } },
+      { user: 'tues at 9am?', expect: { booksAt: '2026-11-10 09:00', heldSlots: 0 } },
+    ],
+  },
+  {
+    name: 'holds: slot taken before confirmation',
+    description: 'The calendar fills at 2pm between offer and reply - the final check catches it and fresh times go out',
+    now: '2026-11-09T17:30:00Z',
+    busy: [{ start: '2026-11-10T09:00:00Z', end: '2026-11-10T14:00:00Z' }],
+    turns: [
+      { user: 'yeah happy to chat', expect: { offersSlots: true, offeredSlotsOn: '2026-11-10' } },
+      {
+        user: 'tues at 2',
+        busyBeforeTurn: [{ start: '2026-11-10T14:00:00Z', end: '2026-11-10T14:30:00Z' }],
+        expect: { noBooking: true, offersSlots: true, replyIncludes: 'just taken' },
+      },
+      { user: 'tues at 2:30pm', expect: { booksAt: '2026-11-10 14:30' } },
+    ],
+  },
+  {
+    name: 'team: a hold takes one host',
+    description: 'With two hosts free, a slot one lead is holding can still be offered to and booked by another',
+    now: '2026-11-09T17:30:00Z',
+    hosts: [{ id: 'alex' }, { id: 'blake' }],
+    otherHolds: [{ start: '2026-11-10T09:00:00Z', end: '2026-11-10T09:30:00Z' }],
+    turns: [
+      { user: 'sure', expect: { offersSlots: true } },
+      { user: 'tues at 9am?', expect: { booksAt: '2026-11-10 09:00' } },
+    ],
+  },
+]
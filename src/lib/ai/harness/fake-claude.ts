@@ -0,0 +1,66 @@
+/**
+ * Scripted Claude Client
+ * Drop-in replacement for generateResponseWithTools that replays scripted tool calls
+ *
+ * Lets the booking harness exercise BookingHandler.handleToolCall exactly as the
+ * orchestrator does, without network calls or model nondeterminism.
+ */
+
+import type { BookingFlowConfig } from '../client'
+import type { AIResponseWithTools, ToolCall } from '@/types/ai'
+
+export interface ScriptedClaudeTurn {
+  /** Tool call Claude "decides" to make (null for a plain text reply) */
+  toolCall: ToolCall | null
+  /** Text returned alongside (or instead of) the tool call */
+  text?: string | null
+}
+
+/** A scripted turn, or a function that picks one from the offered slots */
+export type ScriptedClaudeStep =
+  | ScriptedClaudeTurn
+  | ((config: BookingFlowConfig) => ScriptedClaudeTurn)
+
+export class ScriptedClaudeClient {
+  /** Every request made, for inspecting what the booking flow sent */
+  readonly requests: BookingFlowConfig[] = []
+  private steps: ScriptedClaudeStep[] = []
+
+  constructor(steps: ScriptedClaudeStep[] = []) {
+    this.steps = [...steps]
+  }
+
+  /**
+   * Queue the next response
+   */
+  enqueue(step: ScriptedClaudeStep): void {
+    this.steps.push(step)
+  }
+
+  get remaining(): number {
+    return this.steps.length
+  }
+
+  /**
+   * Same signature as generateResponseWithTools in ../client
+   */
+  generateResponseWithTools = async (
+    config: BookingFlowConfig
+  ): Promise<AIResponseWithTools> => {
+    this.requests.push(config)
+
+    const step = this.steps.shift()
+    if (!step) {
+      throw new Error('ScriptedClaudeClient: no scripted response left for this turn')
+    }
+
+    const turn = typeof step === 'function' ? step(config) : step
+
+    return {
+      text: turn.text ?? null,
+      toolCall: turn.toolCall,
+      usage: { input: 0, output: 0, total: 0, model: config.model },
+      stopReason: turn.toolCall ? 'tool_use' : 'end_turn',
+    }
+  }
+}
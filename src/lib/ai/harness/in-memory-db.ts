@@ -0,0 +1,215 @@
+/**
+ * In-Memory Database
+ * Minimal stand-in for the Supabase query builder used by the booking harness
+ *
+ * Supports the subset of the PostgREST builder the booking flow uses:
+ * select / insert / update / delete with eq, neq, in, gt(e), lt(e), is, order, limit,
+ * single and maybeSingle. Embedded selects (e.g. "*, clients(id)") return the base row only.
+ */
+
+type Row = Record<string, unknown>
+type Filter = (row: Row) => boolean
+type Operation = 'select' | 'insert' | 'update' | 'delete'
+
+interface QueryResult {
+  data: unknown
+  error: { message: string } | null
+}
+
+class InMemoryQuery implements PromiseLike<QueryResult> {
+  private operation: Operation = 'select'
+  private filters: Filter[] = []
+  private orderBy: { column: string; ascending: boolean } | null = null
+  private maxRows: number | null = null
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many'
+  private payload: Row | Row[] | null = null
+  private returnRows = true
+
+  constructor(
+    private readonly rows: Row[],
+    private readonly table: string
+  ) {}
+
+  select(): this {
+    // select() after insert/update just means "return the affected rows"
+    this.returnRows = true
+    return this
+  }
+
+  insert(values: Row | Row[]): this {
+    this.operation = 'insert'
+    this.payload = values
+    this.returnRows = false
+    return this
+  }
+
+  update(values: Row): this {
+    this.operation = 'update'
+    this.payload = values
+    this.returnRows = false
+    return this
+  }
+
+  delete(): this {
+    this.operation = 'delete'
+    this.returnRows = false
+    return this
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push(row => row[column] === value)
+    return this
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push(row => row[column] !== value)
+    return this
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push(row => values.includes(row[column]))
+    return this
+  }
+
+  is(column: string, value: unknown): this {
+    this.filters.push(row => (row[column] ?? null) === value)
+    return this
+  }
+
+  gt(column: string, value: unknown): this {
+    this.filters.push(row => compare(row[column], value) > 0)
+    return this
+  }
+
+  gte(column: string, value: unknown): this {
+    this.filters.push(row => compare(row[column], value) >= 0)
+    return this
+  }
+
+  lt(column: string, value: unknown): this {
+    this.filters.push(row => compare(row[column], value) < 0)
+    return this
+  }
+
+  lte(column: string, value: unknown): this {
+    this.filters.push(row => compare(row[column], value) <= 0)
+    return this
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.orderBy = { column, ascending: options.ascending ?? true }
+    return this
+  }
+
+  limit(count: number): this {
+    this.maxRows = count
+    return this
+  }
+
+  single(): this {
+    this.mode = 'single'
+    return this
+  }
+
+  maybeSingle(): this {
+    this.mode = 'maybeSingle'
+    return this
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve(this.execute()).then(onfulfilled, onrejected)
+  }
+
+  private matching(): Row[] {
+    return this.rows.filter(row => this.filters.every(filter => filter(row)))
+  }
+
+  private execute(): QueryResult {
+    let affected: Row[]
+
+    switch (this.operation) {
+      case 'insert': {
+        const values = Array.isArray(this.payload) ? this.payload : [this.payload as Row]
+        affected = values.map(value => ({
+          id: crypto.randomUUID(),
+          created_at: new Date().toISOString(),
+          ...value,
+        }))
+        this.rows.push(...affected)
+        break
+      }
+      case 'update':
+        affected = this.matching()
+        for (const row of affected) Object.assign(row, this.payload)
+        break
+      case 'delete':
+        affected = this.matching()
+        for (const row of affected) this.rows.splice(this.rows.indexOf(row), 1)
+        break
+      default:
+        affected = this.matching()
+    }
+
+    if (this.orderBy) {
+      const { column, ascending } = this.orderBy
+      affected = [...affected].sort((a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1))
+    }
+    if (this.maxRows !== null) {
+      affected = affected.slice(0, this.maxRows)
+    }
+
+    const data = affected.map(row => ({ ...row }))
+
+    if (this.mode === 'many') {
+      return { data: this.returnRows ? data : null, error: null }
+    }
+    if (data.length === 1) {
+      return { data: data[0], error: null }
+    }
+    if (data.length === 0 && this.mode === 'maybeSingle') {
+      return { data: null, error: null }
+    }
+    return {
+      data: null,
+      error: { message: `${this.table}: expected a single row, found ${data.length}` },
+    }
+  }
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0
+  if (a === null || a === undefined) return -1
+  if (b === null || b === undefined) return 1
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  // ISO timestamps compare correctly as strings
+  return String(a) < String(b) ? -1 : 1
+}
+
+export class InMemoryDatabase {
+  private tables = new Map<string, Row[]>()
+
+  from(table: string): InMemoryQuery {
+    if (!this.tables.has(table)) {
+      this.tables.set(table, [])
+    }
+    return new InMemoryQuery(this.tables.get(table)!, table)
+  }
+
+  /**
+   * Insert fixture rows directly
+   */
+  seed(table: string, rows: Row[]): void {
+    this.from(table)
+    this.tables.get(table)!.push(...rows.map(row => ({ ...row })))
+  }
+
+  /**
+   * Read a table's rows for assertions
+   */
+  rowsOf<T = Row>(table: string): T[] {
+    return (this.tables.get(table) || []).map(row => ({ ...row })) as T[]
+  }
+}
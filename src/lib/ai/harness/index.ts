@@ -0,0 +1,11 @@
+/**
+ * Booking Harness
+ * In-memory calendar, database and scripted Claude for exercising the booking flow,
+ * and outbound queue scenarios against the same database
+ */
+
+export * from './booking-harness'
+export * from './booking-scenarios'
+export * from './fake-claude'
+export * from './in-memory-db'
+export * from './queue-scenarios'
@@ -32,6 +32,24 @@ const BOOKING_KEYWORDS = [
   'slot'
 ]
 
+// Lead would rather pick a time themselves on the booking page
+const BOOKING_LINK_KEYWORDS = [
+  'send me a link',
+  'send a link',
+  'send me the link',
+  'send the link',
+  'booking link',
+  'scheduling link',
+  'calendar link',
+  'link to book',
+  'link to schedule',
+  'book online',
+  'book myself',
+  'booking page',
+  'link please',
+  'just a link'
+]
+
 const RESCHEDULE_KEYWORDS = [
   'reschedule',
   'change the time',
@@ -55,6 +73,45 @@ const RESCHEDULE_KEYWORDS = [
   'cancel and rebook'
 ]
 
+// Lead wants to call off an appointment they already have
+// "cancel and rebook" is a reschedule, so RESCHEDULE_KEYWORDS are checked first
+const CANCEL_KEYWORDS = [
+  'cancel my appointment',
+  'cancel the appointment',
+  'cancel my booking',
+  'cancel the booking',
+  'cancel my call',
+  'cancel the call',
+  'cancel the meeting',
+  'cancel my meeting',
+  'cancel it',
+  'cancel that',
+  'need to cancel',
+  'want to cancel',
+  'have to cancel',
+  'like to cancel',
+  'please cancel',
+  'can i cancel',
+  'can we cancel'
+]
+
+// Replies to an appointment reminder saying the booked time no longer works
+// Checked before the short negative responses, which would otherwise catch "can't"
+const CANT_ATTEND_KEYWORDS = [
+  "can't make it",
+  'cant make it',
+  'cannot make it',
+  "won't make it",
+  'wont make it',
+  'not going to make it',
+  'not gonna make it',
+  "can't come",
+  'cant come',
+  "can't attend",
+  'something came up',
+  'something has come up'
+]
+
 // Patterns that indicate someone is selecting/confirming a time
 const TIME_SELECTION_PATTERNS = [
   /\b\d{1,2}(?::\d{2})?\s*(?:am|pm)\b/i,           // "3pm", "10:30am"
@@ -164,6 +221,28 @@ export class IntentDetector {
       }
     }
 
+    // Check for cancellation (unless they also want a new time)
+    if (this.matchesKeywords(normalized, CANCEL_KEYWORDS) && !this.matchesKeywords(normalized, RESCHEDULE_KEYWORDS)) {
+      console.log('[IntentDetector] Detected cancel intent:', normalized)
+      return {
+        intent: 'cancel',
+        confidence: 0.9,
+        entities: {},
+        requiresEscalation: false
+      }
+    }
+
+    // Check for "can't make it" - treated as a reschedule of the booked time
+    if (this.matchesKeywords(normalized.replace(/\u2019/g, "'"), CANT_ATTEND_KEYWORDS)) {
+      console.log('[IntentDetector] Detected cannot-attend reply:', normalized)
+      return {
+        intent: 'reschedule',
+        confidence: 0.9,
+        entities: this.extractTimeEntities(normalized),
+        requiresEscalation: false
+      }
+    }
+
     // Check for very short negative responses
     if (normalized.length < 20 && this.matchesKeywords(normalized, NEGATIVE_KEYWORDS)) {
       return {
@@ -185,6 +264,17 @@ export class IntentDetector {
       }
     }
 
+    // Check for a booking link request (before booking - "link to book" is booking interest too)
+    if (this.matchesKeywords(normalized, BOOKING_LINK_KEYWORDS)) {
+      console.log('[IntentDetector] Detected booking link request:', normalized)
+      return {
+        intent: 'booking_interest',
+        confidence: 0.9,
+        entities: { ...this.extractTimeEntities(normalized), bookingLink: 'true' },
+        requiresEscalation: false
+      }
+    }
+
     // Check booking interest (keywords)
     if (this.matchesKeywords(normalized, BOOKING_KEYWORDS)) {
       return {
@@ -282,6 +372,7 @@ export class IntentDetector {
     const validIntents: Intent[] = [
       'booking_interest',
       'reschedule',
+      'cancel',
       'question',
       'objection',
       'positive_response',
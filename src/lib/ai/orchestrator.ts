@@ -5,7 +5,13 @@ import { promptBuilder } from './prompt-builder'
 import { intentDetector } from './intent-detector'
 import { qualificationEngine } from './qualification-engine'
 import { handoffHandler } from './handoff-handler'
-import { bookingHandler, BookingState } from './booking-handler'
+import { bookingHandler, BookingState, BookingFlowResult, MAX_OFFER_ATTEMPTS } from './booking-handler'
+import { getAppointmentTypes, matchAppointmentType, formatSlot } from '@/lib/calendar'
+import { sendOutboundMessage } from '@/lib/messaging/message-sender'
+import { getMessagingProvider } from '@/lib/messaging'
+import { getNumberProviderType } from '@/lib/messaging/number-pool'
+import { withMediaNotes } from '@/lib/messaging/media'
+import { loadVisionImages } from '@/lib/messaging/media-loader'
 import {
   ProcessMessageInput,
   ProcessMessageResult,
@@ -84,6 +90,7 @@ export class ConversationOrchestrator {
       const fallbackMessage = this.getFallbackMessage(orchError.type)
 
       // Try to save the fallback response to the database
+      let fallbackMessageId: string | undefined
       try {
         const supabase = createClient()
         const { data: contact } = await supabase
@@ -92,13 +99,12 @@ export class ConversationOrchestrator {
           .eq('id', input.contactId)
           .single()
 
-        // Safely extract channel - default to SMS
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const contactData = contact as any
-        const channel: 'sms' | 'whatsapp' = contactData?.workflows?.channel === 'whatsapp' ? 'whatsapp' : 'sms'
+        // Reply on the workflow's channel - default to SMS
+        const workflowChannel = (contact as { workflows: { channel: Message['channel'] } | null } | null)?.workflows?.channel
+        const channel: Message['channel'] = workflowChannel || 'sms'
 
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        await (supabase as any).from('messages').insert({
+        const { data: savedMessage } = await (supabase as any).from('messages').insert({
           contact_id: input.contactId,
           direction: 'outbound',
           channel,
@@ -107,7 +113,8 @@ export class ConversationOrchestrator {
           ai_generated: true,
           tokens_used: 0,
           ai_model: 'fallback-handler'
-        })
+        }).select('id').single()
+        fallbackMessageId = savedMessage?.id
       } catch (saveError) {
         console.error('[Orchestrator] Failed to save fallback response:', saveError)
       }
@@ -142,6 +149,7 @@ export class ConversationOrchestrator {
         },
         statusUpdate: undefined,
         tokensUsed: { input: 0, output: 0, total: 0, model: 'fallback' },
+        responseMessageId: fallbackMessageId,
         shouldEscalate: true,
         escalationReason: `System error during message processing`
       }
@@ -231,16 +239,27 @@ export class ConversationOrchestrator {
 
     const messageHistory = (messages || []) as Message[]
 
+    // 4.5. Photos go to the model; other attachments become notes so the AI doesn't
+    // carry on as if nothing was sent
+    const media = input.media || []
+    const { images, viewableUrls } = media.length > 0
+      ? await loadVisionImages(
+        media,
+        getMessagingProvider(getNumberProviderType(typedContact.workflows.clients, typedContact.sender_number))
+      )
+      : { images: [], viewableUrls: [] }
+    const message = withMediaNotes(input.message, media, viewableUrls)
+
     // 5. Detect intent (inbound message already saved by webhook caller)
-    const intent = await intentDetector.detect(input.message, context)
+    const intent = await intentDetector.detect(message, context)
 
     // 7. Check for opt-out first (fast path)
     if (intent.intent === 'opt_out') {
-      return this.handleOptOut(typedContact, context, input.message)
+      return this.handleOptOut(typedContact, context, message)
     }
 
     // 8. Check for escalation triggers
-    const escalationCheck = intentDetector.checkEscalationTriggers(input.message, context)
+    const escalationCheck = intentDetector.checkEscalationTriggers(message, context)
     if (escalationCheck.required || intent.requiresEscalation) {
       return this.handleEscalation(
         typedContact,
@@ -256,7 +275,7 @@ export class ConversationOrchestrator {
     let contextForAssessment = context
     const requalCheck = qualificationEngine.shouldAllowRequalification(
       context,
-      input.message,
+      message,
       typedContact.last_message_at
     )
     if (requalCheck.allow) {
@@ -275,13 +294,14 @@ export class ConversationOrchestrator {
       knowledge.qualificationCriteria,
       contextForAssessment,
       messageHistory,
-      input.message
+      message
     )
 
     // 10.5. Handle booking flow
     const bookingState = bookingHandler.deserializeState(
       (typedContact.conversation_context as Record<string, unknown>)?.bookingState as Record<string, unknown>
     )
+    const appointmentTypes = getAppointmentTypes(typedContact.workflows)
 
     console.log('[Booking Flow] State check:', {
       contactId: input.contactId,
@@ -295,24 +315,50 @@ export class ConversationOrchestrator {
       qualificationStatus: qualificationAssessment.status,
     })
 
+    // Lead asked for a link to pick a time themselves
+    if (intent.entities.bookingLink && typedContact.status !== 'booked') {
+      console.log('[Booking Flow] Booking link requested')
+      const linkResult = await bookingHandler.offerBookingLink(typedContact, bookingState)
+      if (!linkResult.continueWithAI) {
+        return this.saveBookingResponse(
+          typedContact,
+          context,
+          linkResult,
+          message
+        )
+      }
+    }
+
     // Check if we're waiting for email to complete a booking
     if (bookingState.pendingSlotAwaitingEmail) {
       console.log('[Booking Flow] Pending slot awaiting email - checking for email in message')
       const emailResult = await bookingHandler.handlePendingEmailResponse(
         typedContact,
         bookingState,
-        input.message
+        message
       )
       if (emailResult) {
         return this.saveBookingResponse(
           typedContact,
           context,
           emailResult,
-          input.message
+          message
         )
       }
     }
 
+    // Handle cancellation requests for booked contacts
+    if (intent.intent === 'cancel' && typedContact.status === 'booked') {
+      console.log('[Booking Flow] Cancellation request detected for booked contact')
+      const cancelResult = await bookingHandler.cancelBooking(typedContact, bookingState)
+      return this.saveBookingResponse(
+        typedContact,
+        context,
+        cancelResult,
+        message
+      )
+    }
+
     // Handle reschedule requests for booked contacts
     if (intent.intent === 'reschedule' && typedContact.status === 'booked') {
       console.log('[Booking Flow] Reschedule request detected for booked contact')
@@ -324,7 +370,7 @@ export class ConversationOrchestrator {
         const rescheduleResult = await bookingHandler.startReschedule(
           typedContact,
           bookingState,
-          input.message
+          message
         )
 
         console.log('[Booking Flow] Reschedule result:', {
@@ -337,7 +383,7 @@ export class ConversationOrchestrator {
             typedContact,
             context,
             rescheduleResult,
-            input.message
+            message
           )
         }
       }
@@ -356,9 +402,11 @@ export class ConversationOrchestrator {
         contact: typedContact,
         context,
         messageHistory,
-        currentMessage: input.message,
+        currentMessage: message,
+        currentImages: images,
         channel: typedContact.workflows.channel,
         appointmentDuration: typedContact.workflows.appointment_duration_minutes,
+        appointmentTypes,
         workflowInstructions: typedContact.workflows.instructions,
         offeredSlots: bookingState.offeredSlots,
         timezone: typedContact.workflows.clients.timezone || undefined,
@@ -370,6 +418,7 @@ export class ConversationOrchestrator {
         offeredSlots: bookingState.offeredSlots,
         lastOfferedSlot: bookingState.lastOfferedSlot,
         isRescheduling: bookingState.isRescheduling,
+        appointmentTypes,
       })
 
       console.log('[Booking Flow] Tool response:', {
@@ -398,7 +447,7 @@ export class ConversationOrchestrator {
           typedContact,
           context,
           bookingResult,
-          input.message,
+          message,
           toolResponse.usage
         )
       }
@@ -406,9 +455,14 @@ export class ConversationOrchestrator {
       // No tool call - Claude responded with just text (e.g., user asked a question)
       // Save the response and continue
       if (toolResponse.text) {
+        // Lead turned the times down - stop holding them
+        if (intent.intent === 'negative_response') {
+          await bookingHandler.releaseHolds(typedContact.id)
+        }
+
         const updatedContext = contextManager.update(context, {
           intent: intent.intent,
-          userMessage: input.message,
+          userMessage: message,
           aiResponse: toolResponse.text,
           qualificationUpdate: qualificationAssessment,
           extractedInfoUpdate: qualificationAssessment.extractedInfo
@@ -427,7 +481,7 @@ export class ConversationOrchestrator {
           bookingState,
           toolResponse.text,
           toolResponse.usage,
-          input.message,
+          message,
           intent,
           statusUpdate
         )
@@ -448,13 +502,16 @@ export class ConversationOrchestrator {
       console.log('[Booking Flow] Calendar check:', {
         hasCalendar,
         offerAttempts: bookingState.offerAttempts,
-        willOfferSlots: hasCalendar && bookingState.offerAttempts < 2,
+        willOfferSlots: hasCalendar && bookingState.offerAttempts < MAX_OFFER_ATTEMPTS,
       })
 
-      if (hasCalendar && bookingState.offerAttempts < 2) {
+      if (hasCalendar && bookingState.offerAttempts < MAX_OFFER_ATTEMPTS) {
+        // Offer the type they asked for, if their message points at one
+        const requestedType = matchAppointmentType(appointmentTypes, message)
         const bookingResult = await bookingHandler.offerTimeSlots(
           typedContact,
-          bookingState
+          bookingState,
+          requestedType?.id
         )
 
         console.log('[Booking Flow] Offered slots result:', {
@@ -467,7 +524,7 @@ export class ConversationOrchestrator {
             typedContact,
             context,
             bookingResult,
-            input.message
+            message
           )
         }
       }
@@ -489,9 +546,11 @@ export class ConversationOrchestrator {
       contact: typedContact,
       context,
       messageHistory,
-      currentMessage: input.message,
+      currentMessage: message,
+      currentImages: images,
       channel: typedContact.workflows.channel,
       appointmentDuration: typedContact.workflows.appointment_duration_minutes,
+      appointmentTypes,
       workflowInstructions: typedContact.workflows.instructions,
       offeredSlots: bookingState.isActive ? bookingState.offeredSlots : undefined,
       timezone: typedContact.workflows.clients.timezone || undefined,
@@ -503,7 +562,7 @@ export class ConversationOrchestrator {
     // 12. Update context
     const updatedContext = contextManager.update(context, {
       intent: intent.intent,
-      userMessage: input.message,
+      userMessage: message,
       aiResponse: aiResponse.content,
       qualificationUpdate: qualificationAssessment,
       extractedInfoUpdate: qualificationAssessment.extractedInfo
@@ -519,7 +578,7 @@ export class ConversationOrchestrator {
     // 14. Save AI response to database with detailed token tracking
     const aiCost = estimateCost(aiResponse.usage)
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    await (supabase as any).from('messages').insert({
+    const { data: savedMessage } = await (supabase as any).from('messages').insert({
       contact_id: input.contactId,
       direction: 'outbound',
       channel: typedContact.workflows.channel,
@@ -531,7 +590,7 @@ export class ConversationOrchestrator {
       output_tokens: aiResponse.usage.output,
       ai_model: aiResponse.usage.model,
       ai_cost: aiCost
-    })
+    }).select('id').single()
 
     // 15. Update contact in database
     // Preserve booking state in the conversation context
@@ -568,10 +627,179 @@ export class ConversationOrchestrator {
       contextUpdate: updatedContext,
       statusUpdate,
       tokensUsed: aiResponse.usage,
+      responseMessageId: savedMessage?.id,
       shouldEscalate: false
     }
   }
 
+  /**
+   * Book a slot the lead picked on their self-serve booking page
+   * The booking goes through the same handler as in conversation; on success the
+   * conversation's booking state is closed and the confirmation is texted into the thread
+   */
+  async bookFromLink(
+    contact: ContactWithWorkflow,
+    input: { start: Date; appointmentTypeId?: string | null; email?: string | null }
+  ): Promise<BookingFlowResult> {
+    const result = await bookingHandler.bookFromLink(contact, this.getBookingState(contact), input.start, {
+      appointmentTypeId: input.appointmentTypeId,
+      email: input.email,
+    })
+
+    if (!result.appointmentCreated) {
+      return result
+    }
+
+    await this.saveLinkBookingState(contact, result, {
+      status: 'booked',
+      // Clear follow-up timer for booked contacts
+      next_follow_up_at: null
+    })
+
+    const sendResult = await sendOutboundMessage({
+      contactId: contact.id,
+      message: result.message,
+      channel: contact.workflows.channel,
+      aiGenerated: false,
+      // Booked from the page, so the lead may not have messaged in the last day
+      templatePurpose: 'appointment_update'
+    })
+
+    if (!sendResult.success) {
+      console.error('[Booking Flow] Failed to send booking link confirmation:', {
+        contactId: contact.id,
+        error: sendResult.error
+      })
+    }
+
+    return result
+  }
+
+  /**
+   * Move an appointment from the link in the lead's confirmation
+   * The old links expire at the old time, so the confirmation with fresh manage and
+   * calendar links is texted to the lead; the thread also gets a system note
+   */
+  async rescheduleFromLink(
+    contact: ContactWithWorkflow,
+    appointment: { id: string; start_time: string },
+    start: Date
+  ): Promise<BookingFlowResult> {
+    const result = await bookingHandler.rescheduleFromLink(
+      contact,
+      this.getBookingState(contact),
+      appointment.id,
+      start
+    )
+
+    if (!result.appointmentRescheduled) {
+      return result
+    }
+
+    await this.saveLinkBookingState(contact, result, {})
+
+    const timezone = contact.workflows.clients.timezone || 'Europe/London'
+    await this.recordSystemMessage(
+      contact,
+      `Lead rescheduled via their booking link: ${formatSlot(new Date(appointment.start_time), timezone)} → ${result.bookingState.selectedSlot?.formatted}`
+    )
+
+    const sendResult = await sendOutboundMessage({
+      contactId: contact.id,
+      message: result.message,
+      channel: contact.workflows.channel,
+      aiGenerated: false,
+      // Rescheduled from the page, so the lead may not have messaged in the last day
+      templatePurpose: 'appointment_update'
+    })
+
+    if (!sendResult.success) {
+      console.error('[Booking Flow] Failed to send reschedule link confirmation:', {
+        contactId: contact.id,
+        error: sendResult.error
+      })
+    }
+
+    return result
+  }
+
+  /**
+   * Cancel an appointment from the link in the lead's confirmation
+   * The lead goes back to an open conversation and the thread gets a system note
+   */
+  async cancelFromLink(
+    contact: ContactWithWorkflow,
+    appointment: { id: string; start_time: string }
+  ): Promise<BookingFlowResult> {
+    const result = await bookingHandler.cancelBooking(contact, this.getBookingState(contact), {
+      appointmentId: appointment.id
+    })
+
+    if (!result.appointmentCancelled) {
+      return result
+    }
+
+    await this.saveLinkBookingState(contact, result, {
+      status: 'in_conversation',
+      next_follow_up_at: this.calculateNextFollowUpAt(contact.workflows)
+    })
+
+    const timezone = contact.workflows.clients.timezone || 'Europe/London'
+    await this.recordSystemMessage(
+      contact,
+      `Lead cancelled their appointment on ${formatSlot(new Date(appointment.start_time), timezone)} via their booking link`
+    )
+
+    return result
+  }
+
+  private getBookingState(contact: ContactWithWorkflow): BookingState {
+    return bookingHandler.deserializeState(
+      (contact.conversation_context as Record<string, unknown>)?.bookingState as Record<string, unknown>
+    )
+  }
+
+  /**
+   * Store the booking state after a booking link action, alongside any contact updates
+   */
+  private async saveLinkBookingState(
+    contact: ContactWithWorkflow,
+    result: BookingFlowResult,
+    updates: Partial<Contact>
+  ): Promise<void> {
+    const supabase = createClient()
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (supabase as any)
+      .from('contacts')
+      .update({
+        ...updates,
+        conversation_context: {
+          ...((contact.conversation_context as Record<string, unknown>) || {}),
+          bookingState: bookingHandler.serializeState(result.bookingState)
+        } as Json
+      })
+      .eq('id', contact.id)
+  }
+
+  /**
+   * Note something that happened outside the conversation in the contact's thread
+   * System messages are shown to the team but never sent to the lead
+   */
+  private async recordSystemMessage(contact: ContactWithWorkflow, content: string): Promise<void> {
+    const supabase = createClient()
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (supabase as any).from('messages').insert({
+      contact_id: contact.id,
+      direction: 'system',
+      channel: contact.workflows.channel,
+      content,
+      status: 'sent',
+      ai_generated: false
+    })
+  }
+
   private async handleOptOut(
     contact: ContactWithWorkflow,
     context: ConversationContext,
@@ -595,16 +823,20 @@ export class ConversationOrchestrator {
       })
       .eq('id', contact.id)
 
-    // Save the opt-out response
+    // Free up any slots we were holding for them
+    await bookingHandler.releaseHolds(contact.id)
+
+    // Save the opt-out response, flagged so the queue still sends it to the now opted-out contact
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    await (supabase as any).from('messages').insert({
+    const { data: savedMessage } = await (supabase as any).from('messages').insert({
       contact_id: contact.id,
       direction: 'outbound',
       channel: contact.workflows.channel,
       content: optOutMessage,
       status: 'pending',
+      opt_out_confirmation: true,
       ai_generated: true
-    })
+    }).select('id').single()
 
     const updatedContext = contextManager.update(context, {
       intent: 'opt_out',
@@ -626,6 +858,7 @@ export class ConversationOrchestrator {
         reason: 'Contact opted out'
       },
       tokensUsed: { input: 0, output: 0, total: 0, model: 'none' },
+      responseMessageId: savedMessage?.id,
       shouldEscalate: false
     }
   }
@@ -638,11 +871,24 @@ export class ConversationOrchestrator {
     // Generate handoff message
     const handoffMessage = handoffHandler.generateHandoffMessage(reason)
 
-    // Escalate contact
+    // Escalate contact - a human takes over booking, so free up any held slots
     await handoffHandler.escalate(contact, reason)
+    await bookingHandler.releaseHolds(contact.id)
 
     const updatedContext = contextManager.incrementEscalationAttempts(context)
 
+    // Save the handoff message so it's sent like any other reply
+    const supabase = createClient()
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: savedMessage } = await (supabase as any).from('messages').insert({
+      contact_id: contact.id,
+      direction: 'outbound',
+      channel: contact.workflows.channel,
+      content: handoffMessage,
+      status: 'pending',
+      ai_generated: false
+    }).select('id').single()
+
     return {
       response: handoffMessage,
       intent: {
@@ -658,6 +904,7 @@ export class ConversationOrchestrator {
         reason
       },
       tokensUsed: { input: 0, output: 0, total: 0, model: 'none' },
+      responseMessageId: savedMessage?.id,
       shouldEscalate: true,
       escalationReason: reason
     }
@@ -765,6 +1012,7 @@ export class ConversationOrchestrator {
       bookingState: BookingState
       appointmentCreated: boolean
       appointmentRescheduled?: boolean
+      appointmentCancelled?: boolean
       appointmentId?: string
     },
     userMessage: string,
@@ -780,7 +1028,7 @@ export class ConversationOrchestrator {
 
     // Save the booking response message
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    await (supabase as any).from('messages').insert({
+    const { data: savedMessage } = await (supabase as any).from('messages').insert({
       contact_id: contact.id,
       direction: 'outbound',
       channel: contact.workflows.channel,
@@ -792,15 +1040,17 @@ export class ConversationOrchestrator {
       output_tokens: usage.output,
       ai_model: usage.model,
       ai_cost: aiCost
-    })
+    }).select('id').single()
 
     // Determine intent based on what happened
     const wasCompleted = bookingResult.appointmentCreated || bookingResult.appointmentRescheduled
-    const intentType = wasCompleted
-      ? 'confirmation'
-      : bookingResult.bookingState.isRescheduling
-        ? 'reschedule'
-        : 'booking_interest'
+    const intentType = bookingResult.appointmentCancelled
+      ? 'cancel'
+      : wasCompleted
+        ? 'confirmation'
+        : bookingResult.bookingState.isRescheduling
+          ? 'reschedule'
+          : 'booking_interest'
 
     // Update context with booking state
     const updatedContext = contextManager.update(context, {
@@ -843,6 +1093,8 @@ export class ConversationOrchestrator {
       statusUpdate = { newStatus: 'booked', reason: 'Appointment booked' }
     } else if (bookingResult.appointmentRescheduled) {
       statusUpdate = { newStatus: 'booked', reason: 'Appointment rescheduled' }
+    } else if (bookingResult.appointmentCancelled) {
+      statusUpdate = { newStatus: 'in_conversation', reason: 'Appointment cancelled' }
     }
 
     return {
@@ -858,6 +1110,7 @@ export class ConversationOrchestrator {
       contextUpdate: updatedContext,
       statusUpdate,
       tokensUsed: usage,
+      responseMessageId: savedMessage?.id,
       shouldEscalate: false
     }
   }
@@ -880,7 +1133,7 @@ export class ConversationOrchestrator {
 
     // Save AI response to database
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    await (supabase as any).from('messages').insert({
+    const { data: savedMessage } = await (supabase as any).from('messages').insert({
       contact_id: contact.id,
       direction: 'outbound',
       channel: contact.workflows.channel,
@@ -892,7 +1145,7 @@ export class ConversationOrchestrator {
       output_tokens: usage.output,
       ai_model: usage.model,
       ai_cost: aiCost
-    })
+    }).select('id').single()
 
     // Prepare conversation context with booking state
     const serializedContext = contextManager.serialize(updatedContext) as Record<string, unknown>
@@ -930,6 +1183,7 @@ export class ConversationOrchestrator {
       contextUpdate: updatedContext,
       statusUpdate,
       tokensUsed: usage,
+      responseMessageId: savedMessage?.id,
       shouldEscalate: false
     }
   }
@@ -3,10 +3,12 @@ import {
   AIModel,
   ConversationContext,
   WorkflowKnowledge,
-  MessageForPrompt
+  MessageForPrompt,
+  PromptImage
 } from '@/types/ai'
-import { Contact, Message } from '@/types/database'
-import { TimeSlot } from '@/lib/calendar'
+import { Contact, Message, AppointmentType } from '@/types/database'
+import { TimeSlot, describeAppointmentType } from '@/lib/calendar'
+import { getMessageMedia, summarizeMedia } from '@/lib/messaging/media'
 
 interface PromptBuildParams {
   knowledge: WorkflowKnowledge
@@ -14,8 +16,10 @@ interface PromptBuildParams {
   context: ConversationContext
   messageHistory: Message[]
   currentMessage: string
+  currentImages?: PromptImage[] // Photos the lead attached to the current message
   channel: 'sms' | 'whatsapp' | 'email'
   appointmentDuration: number
+  appointmentTypes?: AppointmentType[] // Kinds of appointment the lead can choose between
   workflowInstructions?: string // Custom instructions from the workflow
   offeredSlots?: TimeSlot[] // Available slots offered during booking flow
   timezone?: string // Client's timezone (e.g., 'Europe/London')
@@ -31,7 +35,8 @@ export class PromptBuilder {
     messages.push({
       role: 'user',
       content: params.currentMessage,
-      timestamp: new Date().toISOString()
+      timestamp: new Date().toISOString(),
+      ...(params.currentImages?.length ? { images: params.currentImages } : {})
     })
 
     return {
@@ -44,12 +49,12 @@ export class PromptBuilder {
   }
 
   private buildSystemPrompt(params: PromptBuildParams): string {
-    const { knowledge, contact, context, channel, appointmentDuration, workflowInstructions } = params
+    const { knowledge, contact, context, channel, appointmentDuration, appointmentTypes, workflowInstructions } = params
 
     const contactName = contact.first_name || 'there'
     const channelConstraints = this.getChannelConstraints(channel)
     const conversationPhase = this.determineConversationPhase(context, knowledge)
-    const phaseDirectives = this.getPhaseDirectives(conversationPhase, knowledge, appointmentDuration)
+    const phaseDirectives = this.getPhaseDirectives(conversationPhase, knowledge, appointmentDuration, appointmentTypes)
 
     // Build the system prompt with clear structure and priorities
     // Combine offer description from workflow instructions with any brand info
@@ -279,9 +284,14 @@ The goal: Sound like a real person who genuinely represents this brand, not a ch
   private getPhaseDirectives(
     phase: 'rapport' | 'qualifying' | 'qualified' | 'booking',
     knowledge: WorkflowKnowledge,
-    appointmentDuration: number
+    appointmentDuration: number,
+    appointmentTypes: AppointmentType[] = []
   ): string {
     const hasQualificationCriteria = knowledge.qualificationCriteria.length > 0
+    const appointmentSuggestion = appointmentTypes.length > 1
+      ? `Suggest whichever of these fits what they've told you, if the conversation is heading that way:
+${appointmentTypes.map(t => `  - ${describeAppointmentType(t)}`).join('\n')}`
+      : `Suggest a ${appointmentDuration}-min call if the conversation is heading that way`
 
     switch (phase) {
       case 'rapport':
@@ -310,7 +320,7 @@ You still need to learn more about them. Work the qualifying questions into norm
         return `They're a good fit. Time to see if they want to book something.
 
 Your goal right now:
-- Suggest a ${appointmentDuration}-min call if the conversation is heading that way
+- ${appointmentSuggestion}
 - If they're interested, ask what days/times generally work for them
 - Don't be pushy - if they hesitate, that's fine, keep the conversation going
 
@@ -428,18 +438,23 @@ You have this info already - USE IT. Don't ask questions you can answer from the
 
   private buildConversationHistory(messages: Message[]): MessageForPrompt[] {
     // Sort by created_at and convert to prompt format
-    const sorted = [...messages].sort(
+    // System notes are for the team, not part of what was said
+    const sorted = messages.filter(msg => msg.direction !== 'system').sort(
       (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
     )
 
     // Limit to last 20 messages to avoid context overflow
     const recent = sorted.slice(-20)
 
-    return recent.map(msg => ({
-      role: msg.direction === 'inbound' ? 'user' : 'assistant',
-      content: msg.content,
-      timestamp: msg.created_at
-    }))
+    return recent.map(msg => {
+      // Earlier attachments are noted in text; only the current message's images are sent
+      const mediaNote = msg.direction === 'inbound' ? summarizeMedia(getMessageMedia(msg)) : ''
+      return {
+        role: msg.direction === 'inbound' ? 'user' : 'assistant',
+        content: mediaNote ? [msg.content, mediaNote].filter(Boolean).join('\n') : msg.content,
+        timestamp: msg.created_at
+      }
+    })
   }
 
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -472,7 +487,7 @@ You have this info already - USE IT. Don't ask questions you can answer from the
     followUpNumber: number
     maxFollowUps: number
     lastMessageDays: number
-    channel: 'sms' | 'whatsapp'
+    channel: 'sms' | 'whatsapp' | 'email'
   }): string {
     const { contact, context, knowledge, followUpNumber, maxFollowUps, lastMessageDays, channel } = params
     const contactName = contact.firstName || 'there'
@@ -62,7 +62,7 @@ export class QualificationEngine {
   }
 
   private buildConversationText(messages: Message[], latestMessage: string): string {
-    const sorted = [...messages].sort(
+    const sorted = messages.filter(msg => msg.direction !== 'system').sort(
       (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
     )
 
@@ -0,0 +1,146 @@
+/**
+ * Booking Links
+ * Signed, expiring links that let a lead act on their booking from a web page
+ *
+ * The token carries the contact (and the action it allows) and is signed with
+ * BOOKING_LINK_SECRET, so links can be texted to a lead without any login and
+ * can't be altered to point at someone else's booking.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+/**
+ * book: pick a first appointment; manage: reschedule or cancel an existing one;
+ * calendar: download the appointment's .ics file
+ */
+export type BookingLinkAction = 'book' | 'manage' | 'calendar'
+
+export interface BookingLinkPayload {
+  contactId: string
+  action: BookingLinkAction
+  /** The appointment a manage or calendar link is for */
+  appointmentId?: string
+  /** When the link stops working */
+  expiresAt: Date
+}
+
+/** How long a self-serve booking link works for */
+export const BOOKING_LINK_TTL_DAYS = 7
+
+/** Compact form that goes into the token, to keep texted links short */
+interface EncodedPayload {
+  c: string
+  a: BookingLinkAction
+  x?: string
+  e: number
+}
+
+function getSecret(): string | null {
+  return process.env.BOOKING_LINK_SECRET || null
+}
+
+/**
+ * Whether booking links can be created (the signing secret is set)
+ */
+export function isBookingLinkConfigured(): boolean {
+  return !!getSecret()
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url')
+}
+
+/**
+ * Create a signed token for a contact
+ */
+export function createBookingLinkToken(link: BookingLinkPayload): string {
+  const secret = getSecret()
+  if (!secret) {
+    throw new Error('BOOKING_LINK_SECRET is not configured')
+  }
+
+  const payload: EncodedPayload = {
+    c: link.contactId,
+    a: link.action,
+    e: Math.floor(link.expiresAt.getTime() / 1000),
+  }
+  if (link.appointmentId) {
+    payload.x = link.appointmentId
+  }
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return `${data}.${sign(data, secret)}`
+}
+
+/**
+ * Check a token's signature and expiry
+ * Returns null for anything tampered with, expired or malformed
+ */
+export function verifyBookingLinkToken(token: string, now: Date = new Date()): BookingLinkPayload | null {
+  const secret = getSecret()
+  const [data, signature] = token.split('.')
+  if (!secret || !data || !signature) {
+    return null
+  }
+
+  const expected = Buffer.from(sign(data, secret))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  let payload: EncodedPayload
+  try {
+    payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8')) as EncodedPayload
+  } catch {
+    return null
+  }
+
+  if (!payload.c || !payload.a || typeof payload.e !== 'number' || payload.e * 1000 <= now.getTime()) {
+    return null
+  }
+
+  if (payload.a !== 'book' && !payload.x) {
+    return null
+  }
+
+  return {
+    contactId: payload.c,
+    action: payload.a,
+    appointmentId: payload.x,
+    expiresAt: new Date(payload.e * 1000),
+  }
+}
+
+function getLinkUrl(link: BookingLinkPayload): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || ''
+  const token = createBookingLinkToken(link)
+  return link.action === 'calendar' ? `${appUrl}/api/book/${token}/ics` : `${appUrl}/book/${token}`
+}
+
+/**
+ * Public URL of a contact's self-serve booking page
+ */
+export function getBookingLinkUrl(contactId: string, now: Date = new Date()): string {
+  return getLinkUrl({
+    contactId,
+    action: 'book',
+    expiresAt: new Date(now.getTime() + BOOKING_LINK_TTL_DAYS * 24 * 60 * 60 * 1000),
+  })
+}
+
+/**
+ * Public URL where a lead can reschedule or cancel an appointment
+ * The link works until the appointment starts
+ */
+export function getManageLinkUrl(contactId: string, appointmentId: string, startTime: Date): string {
+  return getLinkUrl({ contactId, action: 'manage', appointmentId, expiresAt: startTime })
+}
+
+/**
+ * Public URL of an appointment's .ics file
+ * The link works until the appointment ends; it keeps serving the latest version of
+ * the event, including the cancellation
+ */
+export function getCalendarFileUrl(contactId: string, appointmentId: string, endTime: Date): string {
+  return getLinkUrl({ contactId, action: 'calendar', appointmentId, expiresAt: endTime })
+}
@@ -0,0 +1,194 @@
+/**
+ * Appointment Types
+ * Per-workflow booking options (duration, buffers, slot steps, notice, daily cap, location)
+ */
+
+import { AppointmentLocationType, AppointmentType, Workflow } from '@/types/database'
+import { EventInput } from './types'
+
+/** ID of the single type workflows without configured types fall back to */
+export const DEFAULT_APPOINTMENT_TYPE_ID = 'default'
+export const DEFAULT_SLOT_INTERVAL_MINUTES = 30
+export const DEFAULT_MIN_NOTICE_HOURS = 2
+
+export const LOCATION_TYPE_LABELS: Record<AppointmentLocationType, string> = {
+  video: 'Video call (calendar default)',
+  phone: 'Phone call',
+  google_meet: 'Google Meet',
+  teams: 'Microsoft Teams',
+  in_person: 'In person',
+}
+
+const LOCATION_TYPES = Object.keys(LOCATION_TYPE_LABELS) as AppointmentLocationType[]
+
+function positiveNumber(value: unknown, fallback: number): number {
+  const n = Number(value)
+  return Number.isFinite(n) && n > 0 ? n : fallback
+}
+
+function nonNegativeNumber(value: unknown, fallback: number): number {
+  const n = Number(value)
+  return Number.isFinite(n) && n >= 0 ? n : fallback
+}
+
+/**
+ * Fill in defaults for a stored appointment type (older or hand-edited JSON may be partial)
+ */
+export function normalizeAppointmentType(
+  raw: Partial<AppointmentType>,
+  fallbackDuration = 30
+): AppointmentType {
+  const duration = positiveNumber(raw.duration_minutes, fallbackDuration)
+  const maxPerDay = Number(raw.max_per_day)
+
+  return {
+    id: String(raw.id || DEFAULT_APPOINTMENT_TYPE_ID),
+    name: raw.name?.trim() || `${duration}-min call`,
+    description: raw.description?.trim() || undefined,
+    duration_minutes: duration,
+    buffer_before_minutes: nonNegativeNumber(raw.buffer_before_minutes, 0),
+    buffer_after_minutes: nonNegativeNumber(raw.buffer_after_minutes, 0),
+    slot_interval_minutes: positiveNumber(raw.slot_interval_minutes, DEFAULT_SLOT_INTERVAL_MINUTES),
+    min_notice_hours: nonNegativeNumber(raw.min_notice_hours, DEFAULT_MIN_NOTICE_HOURS),
+    max_per_day: Number.isFinite(maxPerDay) && maxPerDay > 0 ? maxPerDay : null,
+    location_type: LOCATION_TYPES.includes(raw.location_type as AppointmentLocationType)
+      ? (raw.location_type as AppointmentLocationType)
+      : 'video',
+    location_details: raw.location_details?.trim() || undefined,
+  }
+}
+
+/**
+ * A workflow's appointment types, first one being the default
+ * Workflows without any get a single call of appointment_duration_minutes
+ */
+export function getAppointmentTypes(
+  workflow: Pick<Workflow, 'appointment_types' | 'appointment_duration_minutes'>
+): AppointmentType[] {
+  const fallbackDuration = workflow.appointment_duration_minutes || 30
+  const stored = Array.isArray(workflow.appointment_types)
+    ? (workflow.appointment_types as Partial<AppointmentType>[])
+    : []
+
+  const types = stored
+    .filter((t) => t && typeof t === 'object')
+    .map((t) => normalizeAppointmentType(t, fallbackDuration))
+
+  return types.length > 0 ? types : [normalizeAppointmentType({}, fallbackDuration)]
+}
+
+/**
+ * Find a type by ID, or by name (as the AI refers to them)
+ */
+export function findAppointmentType(
+  types: AppointmentType[],
+  ref: string | null | undefined
+): AppointmentType | null {
+  if (!ref) return null
+  const normalized = ref.trim().toLowerCase()
+  return (
+    types.find((t) => t.id === ref) ||
+    types.find((t) => t.name.toLowerCase() === normalized) ||
+    null
+  )
+}
+
+// Words that appear in most type names and say nothing about which one is meant
+const GENERIC_WORDS = new Set(['call', 'meeting', 'appointment', 'session', 'with', 'minute', 'minutes', 'the', 'and', 'for'])
+
+/**
+ * Guess which type a lead is asking for from their message
+ * Returns null when nothing points clearly at one type (the caller uses the default)
+ */
+export function matchAppointmentType(types: AppointmentType[], message: string): AppointmentType | null {
+  if (types.length < 2) return null
+
+  const text = message.toLowerCase()
+  const shortest = Math.min(...types.map((t) => t.duration_minutes))
+
+  let requestedMinutes: number | null = null
+  const minutesMatch = text.match(/\b(\d{1,3})\s*-?\s*(?:min|mins|minute|minutes)\b/)
+  if (minutesMatch) {
+    requestedMinutes = parseInt(minutesMatch[1], 10)
+  } else if (/\bhalf\s+(?:an\s+)?hour\b/.test(text)) {
+    requestedMinutes = 30
+  } else if (/\b(?:an?|one)\s+hour\b/.test(text)) {
+    requestedMinutes = 60
+  }
+
+  const wantsInPerson = /\b(in[\s-]person|face[\s-]to[\s-]face|visit|come (?:in|by|over)|your office)\b/.test(text)
+  const wantsPhone = /\b(phone|ring me|call me)\b/.test(text)
+  const wantsVideo = /\b(video|zoom|google meet|teams)\b/.test(text)
+  const wantsShort = /\b(quick|short|brief|intro)\b/.test(text)
+
+  const scored = types.map((type) => {
+    let score = 0
+
+    const nameWords = type.name.toLowerCase().split(/[^a-z0-9]+/)
+      .filter((w) => w.length >= 4 && !GENERIC_WORDS.has(w))
+    score += nameWords.filter((w) => text.includes(w)).length * 2
+
+    if (requestedMinutes !== null && type.duration_minutes === requestedMinutes) score += 3
+    if (wantsInPerson && type.location_type === 'in_person') score += 2
+    if (wantsPhone && type.location_type === 'phone') score += 1
+    if (wantsVideo && ['video', 'google_meet', 'teams'].includes(type.location_type)) score += 1
+    if (wantsShort && type.duration_minutes === shortest) score += 1
+
+    return { type, score }
+  })
+
+  const best = Math.max(...scored.map((s) => s.score))
+  const winners = scored.filter((s) => s.score === best)
+
+  return best > 0 && winners.length === 1 ? winners[0].type : null
+}
+
+/**
+ * Calendar event fields for a type's location
+ */
+export function getEventLocation(
+  type: AppointmentType,
+  contactPhone?: string | null
+): Pick<EventInput, 'location' | 'addGoogleMeet' | 'addTeamsMeeting'> {
+  switch (type.location_type) {
+    case 'google_meet':
+      return { addGoogleMeet: true }
+    case 'teams':
+      return { addTeamsMeeting: true }
+    case 'phone':
+      return { location: type.location_details || (contactPhone ? `Phone: ${contactPhone}` : 'Phone call') }
+    case 'in_person':
+      return { location: type.location_details }
+    default:
+      return { addGoogleMeet: true, addTeamsMeeting: true }
+  }
+}
+
+/**
+ * One-line note for confirmation messages on where the appointment happens
+ */
+export function getLocationNote(type: AppointmentType, contactPhone?: string | null): string {
+  switch (type.location_type) {
+    case 'phone':
+      return type.location_details
+        ? `Dial in on ${type.location_details}.`
+        : `We'll call you${contactPhone ? ` on ${contactPhone}` : ''}.`
+    case 'in_person':
+      return type.location_details ? `See you at ${type.location_details}.` : ''
+    case 'google_meet':
+      return 'The Google Meet link is in the invite.'
+    case 'teams':
+      return 'The Teams link is in the invite.'
+    default:
+      return ''
+  }
+}
+
+/**
+ * Short description for prompts and tool definitions, e.g. "Consultation (60 min, in person)"
+ */
+export function describeAppointmentType(type: AppointmentType): string {
+  const location = type.location_type === 'video' ? 'video call' : LOCATION_TYPE_LABELS[type.location_type].toLowerCase()
+  const details = type.description ? ` - ${type.description}` : ''
+  return `${type.name} (${type.duration_minutes} min, ${location})${details}`
+}
@@ -4,7 +4,8 @@
  */
 
 import { CalendarProvider, TimeSlot } from './types'
-import { BusinessHours } from '@/types/database'
+import { BusinessHours, DateOverride } from '@/types/database'
+import { getHoursForDate } from './holidays'
 
 /**
  * Get the timezone offset in milliseconds for a specific date and timezone
@@ -83,16 +84,6 @@ function createDateInTimezone(
   return new Date(utcDate.getTime() + offset)
 }
 
-const DAYS_OF_WEEK = [
-  'sunday',
-  'monday',
-  'tuesday',
-  'wednesday',
-  'thursday',
-  'friday',
-  'saturday',
-] as const
-
 /**
  * Day name variations - maps common abbreviations and variations to canonical day names
  */
@@ -146,25 +137,84 @@ function extractDayFromMessage(message: string): string | null {
   return null
 }
 
-type DayOfWeek = (typeof DAYS_OF_WEEK)[number]
+type DayOfWeek = keyof BusinessHours
+
+/**
+ * Get the wall-clock day and time of an instant in a timezone
+ * Slot times are UTC instants - getDay()/getHours() return the server's local time,
+ * which is wrong whenever the server and the client are in different timezones
+ */
+export function getLocalTime(
+  date: Date,
+  timezone?: string
+): { day: DayOfWeek; hour: number; minute: number; dateKey: string } {
+  const read = (timeZone?: string) => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'long',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date)
+    const getPart = (type: string) => parts.find(p => p.type === type)?.value || ''
+
+    return {
+      day: getPart('weekday').toLowerCase() as DayOfWeek,
+      hour: parseInt(getPart('hour'), 10),
+      minute: parseInt(getPart('minute'), 10),
+      dateKey: `${getPart('year')}-${getPart('month')}-${getPart('day')}`,
+    }
+  }
+
+  try {
+    return read(timezone)
+  } catch {
+    // Fallback to server time if timezone is invalid
+    console.warn(`Invalid timezone: ${timezone}, using server time`)
+    return read()
+  }
+}
 
 interface AvailabilityOptions {
   /** Calendar provider with tokens set */
   provider: CalendarProvider
   /** Calendar ID to check */
   calendarId: string
+  /** Additional calendars whose events also block slots (e.g. team or holiday calendars) */
+  busyCalendarIds?: string[]
+  /** Busy time that doesn't count - the event of an appointment being moved */
+  ignoreBusy?: { start: Date; end: Date }
   /** Client's business hours */
   businessHours: BusinessHours
   /** Client's timezone (e.g., 'Europe/London') */
   timezone: string
   /** Appointment duration in minutes */
   durationMinutes: number
+  /** Time that must be free before each appointment (default: 0) */
+  bufferBeforeMinutes?: number
+  /** Time that must be free after each appointment (default: 0) */
+  bufferAfterMinutes?: number
+  /** Minutes between slot start times (default: 30) */
+  slotIntervalMinutes?: number
+  /** Most appointments per day; days that have reached it offer no slots */
+  maxPerDay?: number | null
+  /** Appointments already booked per local day ("YYYY-MM-DD"), for maxPerDay */
+  bookingsPerDay?: Record<string, number>
+  /** Public holiday set to close for (e.g. "GB-ENG") */
+  holidayRegion?: string | null
+  /** Per-date closures and one-off hours, overriding businessHours and holidays */
+  dateOverrides?: DateOverride[]
   /** How many days ahead to look (default: 14) */
   daysAhead?: number
   /** Maximum slots to return (default: 10) */
   maxSlots?: number
   /** Minimum hours from now to first slot (default: 2) */
   minLeadTimeHours?: number
+  /** Reference time for the search window (default: current time) */
+  now?: Date
 }
 
 /**
@@ -176,34 +226,52 @@ export async function getAvailableSlots(
   const {
     provider,
     calendarId,
+    busyCalendarIds = [],
+    ignoreBusy,
     businessHours,
     timezone,
     durationMinutes,
+    bufferBeforeMinutes = 0,
+    bufferAfterMinutes = 0,
+    slotIntervalMinutes = 30,
+    maxPerDay = null,
+    bookingsPerDay = {},
+    holidayRegion = null,
+    dateOverrides = [],
     daysAhead = 14,
     maxSlots = 10,
     minLeadTimeHours = 2,
+    now = new Date(),
   } = options
 
-  const now = new Date()
   const startDate = new Date(now.getTime() + minLeadTimeHours * 60 * 60 * 1000)
   const endDate = new Date(now.getTime() + daysAhead * 24 * 60 * 60 * 1000)
+  const bufferBefore = bufferBeforeMinutes * 60 * 1000
+  const bufferAfter = bufferAfterMinutes * 60 * 1000
 
-  // Fetch busy times from calendar
-  const busySlots = await provider.getFreeBusy(calendarId, startDate, endDate)
+  // Fetch busy times from every calendar that blocks slots
+  const calendarIds = Array.from(new Set([calendarId, ...busyCalendarIds]))
+  const busySlots = (
+    await Promise.all(calendarIds.map((id) =>
+      provider.getFreeBusy(id, new Date(startDate.getTime() - bufferBefore), new Date(endDate.getTime() + bufferAfter))
+    ))
+  ).flat().flatMap((busy) => (ignoreBusy ? subtractPeriod(busy, ignoreBusy) : [busy]))
 
   // Generate available slots
   const slots: TimeSlot[] = []
   const slotDuration = durationMinutes * 60 * 1000
+  const interval = slotIntervalMinutes * 60 * 1000
 
-  // Iterate through each day
-  const currentDate = new Date(startDate)
-  currentDate.setHours(0, 0, 0, 0)
+  // Iterate through each day in the client's timezone
+  // Days are anchored at local noon so stepping 24h never skips or repeats a day across DST changes
+  let dayAnchor = createDateInTimezone(startDate, 12, 0, timezone)
 
-  while (currentDate < endDate && slots.length < maxSlots) {
-    const dayOfWeek = DAYS_OF_WEEK[currentDate.getDay()] as DayOfWeek
-    const dayHours = businessHours[dayOfWeek]
+  while (createDateInTimezone(dayAnchor, 0, 0, timezone) < endDate && slots.length < maxSlots) {
+    const { day: dayOfWeek, dateKey } = getLocalTime(dayAnchor, timezone)
+    const dayHours = getHoursForDate(businessHours, dateKey, dayOfWeek, { holidayRegion, dateOverrides })
+    const dayIsFull = !!maxPerDay && (bookingsPerDay[dateKey] || 0) >= maxPerDay
 
-    if (dayHours) {
+    if (dayHours && !dayIsFull) {
       // Parse business hours
       const [startHour, startMinute] = dayHours.start.split(':').map(Number)
       const [endHour, endMinute] = dayHours.end.split(':').map(Number)
@@ -211,30 +279,39 @@ export async function getAvailableSlots(
       // Create day start/end in client's timezone
       // This ensures business hours like "9am-5pm" are interpreted in the client's timezone
       // not the server's timezone
-      const dayStart = createDateInTimezone(currentDate, startHour, startMinute, timezone)
-      const dayEnd = createDateInTimezone(currentDate, endHour, endMinute, timezone)
+      const dayStart = createDateInTimezone(dayAnchor, startHour, startMinute, timezone)
+      const dayEnd = createDateInTimezone(dayAnchor, endHour, endMinute, timezone)
 
       // Generate slots for this day
       let slotStart = new Date(Math.max(dayStart.getTime(), startDate.getTime()))
 
-      // Round up to next 30-minute interval in the client's timezone
-      // We need to get minutes in the target timezone, not server local time
-      const minutesFormatter = new Intl.DateTimeFormat('en-US', {
-        timeZone: timezone,
-        minute: '2-digit'
-      })
-      const tzMinutes = parseInt(minutesFormatter.format(slotStart), 10)
-      if (tzMinutes % 30 !== 0) {
-        const msToAdd = (30 - (tzMinutes % 30)) * 60 * 1000
-        slotStart = new Date(slotStart.getTime() + msToAdd)
+      // Round up to the next slot boundary
+      // Intervals that divide an hour line up with the clock in the client's timezone
+      // (e.g. :00/:30); longer ones step from the start of business hours
+      let msIntoInterval: number
+      if (60 % slotIntervalMinutes === 0) {
+        // We need to get minutes in the target timezone, not server local time
+        const minutesFormatter = new Intl.DateTimeFormat('en-US', {
+          timeZone: timezone,
+          minute: '2-digit'
+        })
+        const tzMinutes = parseInt(minutesFormatter.format(slotStart), 10)
+        msIntoInterval = (tzMinutes % slotIntervalMinutes) * 60 * 1000 + (slotStart.getTime() % (60 * 1000))
+      } else {
+        msIntoInterval = (slotStart.getTime() - dayStart.getTime()) % interval
+      }
+      if (msIntoInterval !== 0) {
+        slotStart = new Date(slotStart.getTime() - msIntoInterval + interval)
       }
 
       while (slotStart.getTime() + slotDuration <= dayEnd.getTime() && slots.length < maxSlots) {
         const slotEnd = new Date(slotStart.getTime() + slotDuration)
 
-        // Check if slot conflicts with any busy time
+        // Check if slot (plus its buffers) conflicts with any busy time
+        const blockedFrom = new Date(slotStart.getTime() - bufferBefore)
+        const blockedUntil = new Date(slotEnd.getTime() + bufferAfter)
         const isAvailable = !busySlots.some(
-          (busy) => slotStart < busy.end && slotEnd > busy.start
+          (busy) => blockedFrom < busy.end && blockedUntil > busy.start
         )
 
         if (isAvailable && slotStart > startDate) {
@@ -245,22 +322,131 @@ export async function getAvailableSlots(
           })
         }
 
-        // Move to next 30-minute slot
-        slotStart = new Date(slotStart.getTime() + 30 * 60 * 1000)
+        // Move to next slot
+        slotStart = new Date(slotStart.getTime() + interval)
       }
     }
 
     // Move to next day
-    currentDate.setDate(currentDate.getDate() + 1)
+    dayAnchor = createDateInTimezone(
+      new Date(dayAnchor.getTime() + 24 * 60 * 60 * 1000),
+      12,
+      0,
+      timezone
+    )
   }
 
   return slots
 }
 
+type CalendarToCheck = Pick<AvailabilityOptions, 'provider' | 'calendarId' | 'busyCalendarIds' | 'ignoreBusy'>
+
+interface MultiCalendarAvailabilityOptions extends Omit<AvailabilityOptions, keyof CalendarToCheck> {
+  /** Slots on offer to other leads; each one takes up one free calendar */
+  heldSlots?: Array<{ start: Date; end: Date }>
+}
+
+/**
+ * Get available time slots across several calendars (e.g. each member of a sales team)
+ * A slot is offered when more calendars are free than other leads are holding; a calendar
+ * that fails to load is skipped as long as another one answers
+ */
+export async function getAvailableSlotsForCalendars(
+  calendars: CalendarToCheck[],
+  options: MultiCalendarAvailabilityOptions
+): Promise<TimeSlot[]> {
+  const { heldSlots = [], ...slotOptions } = options
+  const maxSlots = options.maxSlots ?? 10
+  const bufferBefore = (options.bufferBeforeMinutes || 0) * 60 * 1000
+  const bufferAfter = (options.bufferAfterMinutes || 0) * 60 * 1000
+
+  // Held slots get filtered out below, so ask each calendar for enough to make up for them
+  const results = await Promise.allSettled(
+    calendars.map((calendar) =>
+      getAvailableSlots({ ...slotOptions, ...calendar, maxSlots: maxSlots + heldSlots.length })
+    )
+  )
+
+  const failures = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected')
+  if (failures.length === results.length && failures.length > 0) {
+    throw failures[0].reason
+  }
+  for (const failure of failures) {
+    console.error('Failed to get availability for one calendar:', failure.reason)
+  }
+
+  // Union by start time, counting how many calendars are free for each slot - each calendar
+  // returns its earliest slots, so the earliest maxSlots of the union are always among them
+  const byStart = new Map<number, { slot: TimeSlot; freeCalendars: number }>()
+  for (const result of results) {
+    if (result.status !== 'fulfilled') continue
+    for (const slot of result.value) {
+      const existing = byStart.get(slot.start.getTime())
+      if (existing) {
+        existing.freeCalendars++
+      } else {
+        byStart.set(slot.start.getTime(), { slot, freeCalendars: 1 })
+      }
+    }
+  }
+
+  return Array.from(byStart.values())
+    .filter(({ slot, freeCalendars }) => {
+      const blockedFrom = slot.start.getTime() - bufferBefore
+      const blockedUntil = slot.end.getTime() + bufferAfter
+      const holds = heldSlots.filter(
+        (held) => blockedFrom < held.end.getTime() && blockedUntil > held.start.getTime()
+      ).length
+      return holds < freeCalendars
+    })
+    .map(({ slot }) => slot)
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .slice(0, maxSlots)
+}
+
+/**
+ * Check that nothing on a calendar (or its extra busy calendars) overlaps a time range
+ */
+export async function isCalendarFree(
+  calendar: CalendarToCheck,
+  start: Date,
+  end: Date
+): Promise<boolean> {
+  const { ignoreBusy } = calendar
+  const calendarIds = Array.from(new Set([calendar.calendarId, ...(calendar.busyCalendarIds || [])]))
+  const busySlots = (
+    await Promise.all(calendarIds.map((id) => calendar.provider.getFreeBusy(id, start, end)))
+  ).flat().flatMap((busy) => (ignoreBusy ? subtractPeriod(busy, ignoreBusy) : [busy]))
+
+  return !busySlots.some((busy) => start < busy.end && end > busy.start)
+}
+
+/**
+ * What is left of a busy period once another period is taken out of it
+ * (free/busy merges adjacent events, so the event may be only part of a busy block)
+ */
+function subtractPeriod(
+  busy: { start: Date; end: Date },
+  period: { start: Date; end: Date }
+): Array<{ start: Date; end: Date }> {
+  if (period.end <= busy.start || period.start >= busy.end) {
+    return [busy]
+  }
+
+  const remaining: Array<{ start: Date; end: Date }> = []
+  if (busy.start < period.start) {
+    remaining.push({ start: busy.start, end: period.start })
+  }
+  if (busy.end > period.end) {
+    remaining.push({ start: period.end, end: busy.end })
+  }
+  return remaining
+}
+
 /**
  * Format a time slot for display in conversation
  */
-function formatSlot(date: Date, timezone: string): string {
+export function formatSlot(date: Date, timezone: string): string {
   try {
     const formatter = new Intl.DateTimeFormat('en-GB', {
       weekday: 'long',
@@ -268,7 +454,8 @@ function formatSlot(date: Date, timezone: string): string {
       month: 'short',
       hour: 'numeric',
       minute: '2-digit',
-      hour12: true,
+      // en-GB's 12-hour clock is h11 ("0:30 pm"); force h12 so noon reads "12:30 pm"
+      hourCycle: 'h12',
       timeZone: timezone,
     })
     return formatter.format(date)
@@ -280,7 +467,7 @@ function formatSlot(date: Date, timezone: string): string {
       month: 'short',
       hour: 'numeric',
       minute: '2-digit',
-      hour12: true,
+      hourCycle: 'h12',
     })
   }
 }
@@ -321,11 +508,14 @@ export function formatSlotsForConversation(slots: TimeSlot[]): string {
  * IMPORTANT: This function should only return a slot if we're CONFIDENT
  * the user is selecting that specific slot. If they request a time that
  * isn't available, we return null so the AI can redirect them.
+ *
+ * Slot days and times are compared in `timezone` (the client's), or server time if omitted.
  */
 export function parseTimeSelection(
   input: string,
   availableSlots: TimeSlot[],
-  lastOfferedSlot?: TimeSlot
+  lastOfferedSlot?: TimeSlot,
+  timezone?: string
 ): TimeSlot | null {
   const normalizedInput = input.toLowerCase().trim()
 
@@ -442,8 +632,7 @@ export function parseTimeSelection(
     const timeMatches: TimeSlot[] = []
 
     for (const slot of availableSlots) {
-      const slotHour = slot.start.getHours()
-      const slotMinute = slot.start.getMinutes()
+      const { hour: slotHour, minute: slotMinute, day: slotDay } = getLocalTime(slot.start, timezone)
 
       // Check if time matches
       const exactTimeMatch = slotHour === inputHour && slotMinute === inputMinute
@@ -458,8 +647,6 @@ export function parseTimeSelection(
       if (exactTimeMatch || hourMatch || ambiguousMatch) {
         // If day is also specified, it must match
         if (inputDay) {
-          // Get the canonical day name from the slot's date
-          const slotDay = DAYS_OF_WEEK[slot.start.getDay()]
           if (slotDay === inputDay) {
             timeMatches.push(slot)
           }
@@ -0,0 +1,340 @@
+/**
+ * Public Holidays and Date Overrides
+ * Built-in public holiday sets by country, and the per-date exceptions that sit on top
+ * of a client's weekly business hours (closures, one-off extended hours)
+ */
+
+import { BusinessHours, Client, DateOverride } from '@/types/database'
+
+export type HolidayRegion = 'GB-ENG' | 'GB-SCT' | 'GB-NIR' | 'IE' | 'US' | 'CA'
+
+export const HOLIDAY_REGION_LABELS: Record<HolidayRegion, string> = {
+  'GB-ENG': 'England & Wales',
+  'GB-SCT': 'Scotland',
+  'GB-NIR': 'Northern Ireland',
+  IE: 'Ireland',
+  US: 'United States (federal)',
+  CA: 'Canada (national)',
+}
+
+export interface PublicHoliday {
+  /** Date the holiday is observed, "YYYY-MM-DD" */
+  date: string
+  name: string
+}
+
+/** Opening hours for a single day; null = closed */
+export type DayHours = BusinessHours[keyof BusinessHours]
+
+/**
+ * Everything that can change a day's hours away from the weekly template
+ */
+export interface ScheduleExceptions {
+  holidayRegion?: string | null
+  dateOverrides?: DateOverride[]
+}
+
+// ============================================
+// Date helpers (calendar dates, no time of day)
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Calendar date as a UTC-midnight Date; month is 1-based */
+function ymd(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+function toKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS)
+}
+
+/** nth weekday (0 = Sunday) of a month, e.g. the 3rd Monday of January */
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  const first = ymd(year, month, 1)
+  const offset = (weekday - first.getUTCDay() + 7) % 7
+  return addDays(first, offset + (n - 1) * 7)
+}
+
+/** Last weekday (0 = Sunday) of a month, e.g. the last Monday of May */
+function lastWeekday(year: number, month: number, weekday: number): Date {
+  const last = ymd(year, month + 1, 0)
+  const offset = (last.getUTCDay() - weekday + 7) % 7
+  return addDays(last, -offset)
+}
+
+/** Easter Sunday (Gregorian calendar, anonymous algorithm) */
+function easterSunday(year: number): Date {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return ymd(year, month, day)
+}
+
+function isWeekend(date: Date): boolean {
+  const day = date.getUTCDay()
+  return day === 0 || day === 6
+}
+
+// ============================================
+// Holiday rules
+// ============================================
+
+interface HolidayRule {
+  name: string
+  /** Actual date in a year, or null if the holiday didn't exist yet */
+  date: (year: number) => Date | null
+  /** Moves to a weekday when it falls on a weekend */
+  substitute?: boolean
+}
+
+interface RegionRules {
+  rules: HolidayRule[]
+  /**
+   * next_weekday: weekend holidays move to the next free weekday (UK, Ireland, Canada)
+   * nearest_weekday: Saturday moves to Friday, Sunday to Monday (US federal)
+   */
+  observance: 'next_weekday' | 'nearest_weekday'
+}
+
+const fixed = (month: number, day: number) => (year: number) => ymd(year, month, day)
+
+const NEW_YEAR: HolidayRule = { name: "New Year's Day", date: fixed(1, 1), substitute: true }
+const GOOD_FRIDAY: HolidayRule = { name: 'Good Friday', date: (y) => addDays(easterSunday(y), -2) }
+const EASTER_MONDAY: HolidayRule = { name: 'Easter Monday', date: (y) => addDays(easterSunday(y), 1) }
+const EARLY_MAY: HolidayRule = { name: 'Early May bank holiday', date: (y) => nthWeekday(y, 5, 1, 1) }
+const SPRING: HolidayRule = { name: 'Spring bank holiday', date: (y) => lastWeekday(y, 5, 1) }
+const CHRISTMAS: HolidayRule = { name: 'Christmas Day', date: fixed(12, 25), substitute: true }
+const BOXING_DAY: HolidayRule = { name: 'Boxing Day', date: fixed(12, 26), substitute: true }
+
+const REGIONS: Record<HolidayRegion, RegionRules> = {
+  'GB-ENG': {
+    observance: 'next_weekday',
+    rules: [
+      NEW_YEAR,
+      GOOD_FRIDAY,
+      EASTER_MONDAY,
+      EARLY_MAY,
+      SPRING,
+      { name: 'Summer bank holiday', date: (y) => lastWeekday(y, 8, 1) },
+      CHRISTMAS,
+      BOXING_DAY,
+    ],
+  },
+  'GB-SCT': {
+    observance: 'next_weekday',
+    rules: [
+      NEW_YEAR,
+      { name: '2nd January', date: fixed(1, 2), substitute: true },
+      GOOD_FRIDAY,
+      EARLY_MAY,
+      SPRING,
+      { name: 'Summer bank holiday', date: (y) => nthWeekday(y, 8, 1, 1) },
+      { name: "St Andrew's Day", date: fixed(11, 30), substitute: true },
+      CHRISTMAS,
+      BOXING_DAY,
+    ],
+  },
+  'GB-NIR': {
+    observance: 'next_weekday',
+    rules: [
+      NEW_YEAR,
+      { name: "St Patrick's Day", date: fixed(3, 17), substitute: true },
+      GOOD_FRIDAY,
+      EASTER_MONDAY,
+      EARLY_MAY,
+      SPRING,
+      { name: 'Battle of the Boyne', date: fixed(7, 12), substitute: true },
+      { name: 'Summer bank holiday', date: (y) => lastWeekday(y, 8, 1) },
+      CHRISTMAS,
+      BOXING_DAY,
+    ],
+  },
+  IE: {
+    observance: 'next_weekday',
+    rules: [
+      NEW_YEAR,
+      {
+        name: "St Brigid's Day",
+        // First Monday in February, or 1 February when that is a Friday
+        date: (y) => {
+          if (y < 2023) return null
+          const feb1 = ymd(y, 2, 1)
+          return feb1.getUTCDay() === 5 ? feb1 : nthWeekday(y, 2, 1, 1)
+        },
+      },
+      { name: "St Patrick's Day", date: fixed(3, 17), substitute: true },
+      EASTER_MONDAY,
+      { name: 'May bank holiday', date: (y) => nthWeekday(y, 5, 1, 1) },
+      { name: 'June bank holiday', date: (y) => nthWeekday(y, 6, 1, 1) },
+      { name: 'August bank holiday', date: (y) => nthWeekday(y, 8, 1, 1) },
+      { name: 'October bank holiday', date: (y) => lastWeekday(y, 10, 1) },
+      CHRISTMAS,
+      { name: "St Stephen's Day", date: fixed(12, 26), substitute: true },
+    ],
+  },
+  US: {
+    observance: 'nearest_weekday',
+    rules: [
+      NEW_YEAR,
+      { name: 'Martin Luther King Jr. Day', date: (y) => nthWeekday(y, 1, 1, 3) },
+      { name: "Presidents' Day", date: (y) => nthWeekday(y, 2, 1, 3) },
+      { name: 'Memorial Day', date: (y) => lastWeekday(y, 5, 1) },
+      { name: 'Juneteenth', date: (y) => (y >= 2021 ? ymd(y, 6, 19) : null), substitute: true },
+      { name: 'Independence Day', date: fixed(7, 4), substitute: true },
+      { name: 'Labor Day', date: (y) => nthWeekday(y, 9, 1, 1) },
+      { name: 'Columbus Day', date: (y) => nthWeekday(y, 10, 1, 2) },
+      { name: 'Veterans Day', date: fixed(11, 11), substitute: true },
+      { name: 'Thanksgiving', date: (y) => nthWeekday(y, 11, 4, 4) },
+      CHRISTMAS,
+    ],
+  },
+  CA: {
+    observance: 'next_weekday',
+    rules: [
+      NEW_YEAR,
+      GOOD_FRIDAY,
+      // Last Monday before 25 May
+      { name: 'Victoria Day', date: (y) => addDays(ymd(y, 5, 24), -((ymd(y, 5, 24).getUTCDay() + 6) % 7)) },
+      { name: 'Canada Day', date: fixed(7, 1), substitute: true },
+      { name: 'Labour Day', date: (y) => nthWeekday(y, 9, 1, 1) },
+      { name: 'Thanksgiving', date: (y) => nthWeekday(y, 10, 1, 2) },
+      CHRISTMAS,
+      BOXING_DAY,
+    ],
+  },
+}
+
+const holidayCache = new Map<string, PublicHoliday[]>()
+
+export function isHolidayRegion(region: string | null | undefined): region is HolidayRegion {
+  return !!region && region in REGIONS
+}
+
+/**
+ * Public holidays for a region in a year, on the dates they are observed
+ * (weekend holidays moved according to the region's substitute-day rules)
+ */
+export function getPublicHolidays(region: HolidayRegion, year: number): PublicHoliday[] {
+  const cacheKey = `${region}:${year}`
+  const cached = holidayCache.get(cacheKey)
+  if (cached) return cached
+
+  const { rules, observance } = REGIONS[region]
+  const holidays: PublicHoliday[] = []
+  const taken = new Set<string>()
+
+  // Fixed-weekday holidays first, so substitute days never land on one
+  const dated = rules
+    .map((rule) => ({ rule, date: rule.date(year) }))
+    .filter((h): h is { rule: HolidayRule; date: Date } => h.date !== null)
+
+  for (const { rule, date } of dated) {
+    if (!rule.substitute) {
+      taken.add(toKey(date))
+      holidays.push({ date: toKey(date), name: rule.name })
+    }
+  }
+
+  for (const { rule, date } of dated) {
+    if (!rule.substitute) continue
+
+    let observed = date
+    if (observance === 'nearest_weekday') {
+      if (observed.getUTCDay() === 6) observed = addDays(observed, -1)
+      if (observed.getUTCDay() === 0) observed = addDays(observed, 1)
+    } else {
+      while (isWeekend(observed) || taken.has(toKey(observed))) {
+        observed = addDays(observed, 1)
+      }
+    }
+
+    taken.add(toKey(observed))
+    holidays.push({
+      date: toKey(observed),
+      name: observed.getTime() === date.getTime() ? rule.name : `${rule.name} (substitute day)`,
+    })
+  }
+
+  holidays.sort((a, b) => a.date.localeCompare(b.date))
+  holidayCache.set(cacheKey, holidays)
+  return holidays
+}
+
+/**
+ * The public holiday observed on a date ("YYYY-MM-DD"), if any
+ */
+export function getPublicHoliday(region: string | null | undefined, dateKey: string): PublicHoliday | null {
+  if (!isHolidayRegion(region)) return null
+
+  // Substitute days can cross into the next year (e.g. 1 January observed on 31 December)
+  const year = parseInt(dateKey.slice(0, 4), 10)
+  for (const y of [year, year + 1]) {
+    const holiday = getPublicHolidays(region, y).find((h) => h.date === dateKey)
+    if (holiday) return holiday
+  }
+  return null
+}
+
+/**
+ * Opening hours on a specific local date
+ * A date override wins, then public holidays (closed), then the weekly template
+ */
+export function getHoursForDate(
+  businessHours: BusinessHours,
+  dateKey: string,
+  day: keyof BusinessHours,
+  exceptions: ScheduleExceptions = {}
+): DayHours {
+  const override = exceptions.dateOverrides?.find((o) => o.date === dateKey)
+  if (override) {
+    return override.hours
+  }
+
+  if (getPublicHoliday(exceptions.holidayRegion, dateKey)) {
+    return null
+  }
+
+  return businessHours[day] || null
+}
+
+/**
+ * A client's holiday region and date overrides (date_overrides is stored as JSON)
+ */
+export function getScheduleExceptions(
+  client: Pick<Client, 'holiday_region' | 'date_overrides'>
+): ScheduleExceptions {
+  const stored = Array.isArray(client.date_overrides)
+    ? (client.date_overrides as unknown as Partial<DateOverride>[])
+    : []
+
+  const dateOverrides = stored
+    .filter((o): o is DateOverride =>
+      !!o && typeof o.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(o.date)
+    )
+    .map((o) => ({
+      date: o.date,
+      hours: o.hours && o.hours.start && o.hours.end ? { start: o.hours.start, end: o.hours.end } : null,
+      label: o.label || undefined,
+    }))
+
+  return {
+    holidayRegion: client.holiday_region || null,
+    dateOverrides,
+  }
+}
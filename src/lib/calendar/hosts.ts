@@ -0,0 +1,56 @@
+/**
+ * Host Assignment
+ * Decides which team member takes a booking when a client has several hosts
+ */
+
+export type HostAssignmentStrategy = 'round_robin' | 'least_loaded'
+
+export interface HostCandidate {
+  id: string
+  /** When the host was last given a booking (null = never) */
+  lastAssignedAt: string | null
+  /** Confirmed appointments still to come */
+  upcomingAppointments: number
+}
+
+function byLastAssigned(a: HostCandidate, b: HostCandidate): number {
+  if (a.lastAssignedAt === b.lastAssignedAt) return a.id < b.id ? -1 : 1
+  if (a.lastAssignedAt === null) return -1
+  if (b.lastAssignedAt === null) return 1
+  return a.lastAssignedAt < b.lastAssignedAt ? -1 : 1
+}
+
+/**
+ * Pick a host from those free for the slot
+ * - round_robin: whoever has gone longest without a booking
+ * - least_loaded: whoever has the fewest upcoming appointments (ties go round-robin)
+ */
+export function pickHost<T extends HostCandidate>(
+  candidates: T[],
+  strategy: HostAssignmentStrategy
+): T | null {
+  if (candidates.length === 0) {
+    return null
+  }
+
+  const sorted = [...candidates].sort((a, b) => {
+    if (strategy === 'least_loaded' && a.upcomingAppointments !== b.upcomingAppointments) {
+      return a.upcomingAppointments - b.upcomingAppointments
+    }
+    return byLastAssigned(a, b)
+  })
+
+  return sorted[0]
+}
+
+/**
+ * OAuth state for the connect flow: the client, plus the host when a team member connects
+ */
+export function encodeConnectState(clientId: string, hostId?: string | null): string {
+  return hostId ? `${clientId}:${hostId}` : clientId
+}
+
+export function parseConnectState(state: string): { clientId: string; hostId: string | null } {
+  const [clientId, hostId] = state.split(':')
+  return { clientId, hostId: hostId || null }
+}
@@ -0,0 +1,492 @@
+/**
+ * iCalendar (RFC 5545) Utilities
+ * Minimal parser/serializer shared by the CalDAV and ICS-feed providers
+ */
+
+import { BusySlot, EventInput } from './types'
+
+export interface ICalEvent {
+  uid: string
+  summary?: string
+  start: Date
+  end: Date
+  allDay: boolean
+  transparent: boolean
+  cancelled: boolean
+  rrule?: string
+  exdates: Date[]
+  recurrenceId?: Date
+  // Wall-clock timezone of DTSTART, used to expand recurrences across DST changes
+  timeZone: string
+}
+
+interface ICalProperty {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+const MAX_RECURRENCE_ITERATIONS = 1000
+
+// ============================================
+// Timezone helpers
+// ============================================
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Offset (ms) of a timezone from UTC at a given instant
+ */
+function getZoneOffset(timestamp: number, timeZone: string): number {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  })
+  const parts = formatter.formatToParts(new Date(timestamp))
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10)
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+  return asUtc - Math.floor(timestamp / 1000) * 1000
+}
+
+/**
+ * Convert wall-clock components in a timezone to a UTC Date
+ * Components are passed as a "fake UTC" timestamp (Date.UTC of the local time)
+ */
+function wallClockToUtc(wallClock: number, timeZone: string): Date {
+  if (timeZone === 'UTC') return new Date(wallClock)
+
+  const offset = getZoneOffset(wallClock - getZoneOffset(wallClock, timeZone), timeZone)
+  return new Date(wallClock - offset)
+}
+
+function utcToWallClock(date: Date, timeZone: string): number {
+  if (timeZone === 'UTC') return date.getTime()
+  return date.getTime() + getZoneOffset(date.getTime(), timeZone)
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.length > 0)
+}
+
+function parseProperty(line: string): ICalProperty | null {
+  // NAME;PARAM=VALUE;PARAM="QUOTED:VALUE":value
+  let inQuotes = false
+  let colonIndex = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes
+    if (line[i] === ':' && !inQuotes) {
+      colonIndex = i
+      break
+    }
+  }
+  if (colonIndex === -1) return null
+
+  const [name, ...paramParts] = line.slice(0, colonIndex).split(';')
+  const params: Record<string, string> = {}
+  for (const part of paramParts) {
+    const [key, ...rest] = part.split('=')
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '')
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) }
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\n/gi, '\n')
+    .replace(/\\,/g, ',')
+    .replace(/\\;/g, ';')
+    .replace(/\\\\/g, '\\')
+}
+
+/**
+ * Parse a DATE or DATE-TIME value into a UTC Date
+ */
+function parseDateValue(
+  prop: ICalProperty,
+  defaultTimeZone: string
+): { date: Date; allDay: boolean; timeZone: string } | null {
+  const value = prop.value.trim()
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+  if (!match) return null
+
+  const [, y, mo, d, h, mi, s, utc] = match
+  const allDay = prop.params.VALUE === 'DATE' || h === undefined
+  const wallClock = Date.UTC(
+    parseInt(y, 10),
+    parseInt(mo, 10) - 1,
+    parseInt(d, 10),
+    allDay ? 0 : parseInt(h, 10),
+    allDay ? 0 : parseInt(mi, 10),
+    allDay ? 0 : parseInt(s, 10)
+  )
+
+  if (utc) {
+    return { date: new Date(wallClock), allDay: false, timeZone: 'UTC' }
+  }
+
+  // TZID may be an IANA name or a Windows name we don't understand - fall back to the default
+  const tzid = prop.params.TZID
+  const timeZone = tzid && isValidTimeZone(tzid) ? tzid : defaultTimeZone
+
+  return { date: wallClockToUtc(wallClock, timeZone), allDay, timeZone }
+}
+
+/**
+ * Parse an RFC 5545 duration (e.g. PT1H30M, P1D, P1W) into milliseconds
+ */
+function parseDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/)
+  if (!match) return null
+
+  const [, sign, w, d, h, m, s] = match
+  const ms =
+    (parseInt(w || '0', 10) * 7 * 86400 +
+      parseInt(d || '0', 10) * 86400 +
+      parseInt(h || '0', 10) * 3600 +
+      parseInt(m || '0', 10) * 60 +
+      parseInt(s || '0', 10)) * 1000
+
+  return sign === '-' ? -ms : ms
+}
+
+/**
+ * Parse all VEVENT components from an iCalendar document
+ * Floating times and unknown TZIDs are interpreted in defaultTimeZone
+ */
+export function parseICalendar(text: string, defaultTimeZone: string = 'UTC'): ICalEvent[] {
+  const events: ICalEvent[] = []
+  const fallbackZone = isValidTimeZone(defaultTimeZone) ? defaultTimeZone : 'UTC'
+
+  let current: ICalProperty[] | null = null
+  let nestedDepth = 0
+
+  for (const line of unfoldLines(text)) {
+    const upper = line.toUpperCase()
+
+    if (upper === 'BEGIN:VEVENT') {
+      current = []
+      nestedDepth = 0
+      continue
+    }
+
+    if (!current) continue
+
+    // Skip nested components such as VALARM
+    if (upper.startsWith('BEGIN:')) {
+      nestedDepth++
+      continue
+    }
+    if (upper.startsWith('END:') && upper !== 'END:VEVENT') {
+      nestedDepth--
+      continue
+    }
+
+    if (upper === 'END:VEVENT') {
+      const event = buildEvent(current, fallbackZone)
+      if (event) events.push(event)
+      current = null
+      continue
+    }
+
+    if (nestedDepth === 0) {
+      const prop = parseProperty(line)
+      if (prop) current.push(prop)
+    }
+  }
+
+  return events
+}
+
+function buildEvent(props: ICalProperty[], defaultTimeZone: string): ICalEvent | null {
+  const find = (name: string) => props.find(p => p.name === name)
+
+  const dtstart = find('DTSTART')
+  if (!dtstart) return null
+
+  const start = parseDateValue(dtstart, defaultTimeZone)
+  if (!start) return null
+
+  let end: Date | null = null
+  const dtend = find('DTEND')
+  const duration = find('DURATION')
+
+  if (dtend) {
+    end = parseDateValue(dtend, defaultTimeZone)?.date || null
+  } else if (duration) {
+    const ms = parseDuration(duration.value.trim())
+    if (ms !== null) end = new Date(start.date.getTime() + ms)
+  }
+
+  if (!end) {
+    // RFC 5545: all-day events without an end last one day, timed events are instantaneous
+    end = start.allDay
+      ? wallClockToUtc(utcToWallClock(start.date, start.timeZone) + 86400000, start.timeZone)
+      : start.date
+  }
+
+  const exdates: Date[] = []
+  for (const prop of props.filter(p => p.name === 'EXDATE')) {
+    for (const value of prop.value.split(',')) {
+      const parsed = parseDateValue({ ...prop, value }, defaultTimeZone)
+      if (parsed) exdates.push(parsed.date)
+    }
+  }
+
+  const recurrenceIdProp = find('RECURRENCE-ID')
+
+  return {
+    uid: find('UID')?.value.trim() || '',
+    summary: find('SUMMARY') ? unescapeText(find('SUMMARY')!.value) : undefined,
+    start: start.date,
+    end,
+    allDay: start.allDay,
+    transparent: find('TRANSP')?.value.trim().toUpperCase() === 'TRANSPARENT',
+    cancelled: find('STATUS')?.value.trim().toUpperCase() === 'CANCELLED',
+    rrule: find('RRULE')?.value.trim(),
+    exdates,
+    recurrenceId: recurrenceIdProp
+      ? parseDateValue(recurrenceIdProp, defaultTimeZone)?.date
+      : undefined,
+    timeZone: start.timeZone,
+  }
+}
+
+// ============================================
+// Recurrence expansion
+// ============================================
+
+/**
+ * Expand an RRULE into occurrence start times within [rangeStart, rangeEnd)
+ * Supports FREQ=DAILY/WEEKLY/MONTHLY/YEARLY with INTERVAL, COUNT, UNTIL and weekly BYDAY,
+ * which covers what calendar apps generate for typical meetings
+ */
+function expandRecurrence(event: ICalEvent, rangeStart: Date, rangeEnd: Date): Date[] {
+  const rule: Record<string, string> = {}
+  for (const part of (event.rrule || '').split(';')) {
+    const [key, value] = part.split('=')
+    if (key && value) rule[key.toUpperCase()] = value.toUpperCase()
+  }
+
+  const freq = rule.FREQ
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+    return [event.start]
+  }
+
+  const interval = Math.max(1, parseInt(rule.INTERVAL || '1', 10))
+  const count = rule.COUNT ? parseInt(rule.COUNT, 10) : null
+  const until = rule.UNTIL
+    ? parseDateValue({ name: 'UNTIL', params: {}, value: rule.UNTIL }, event.timeZone)?.date || null
+    : null
+  const byDay = rule.BYDAY
+    ? rule.BYDAY.split(',').map(d => DAY_CODES.indexOf(d.slice(-2))).filter(d => d >= 0)
+    : null
+
+  const exdateTimes = new Set(event.exdates.map(d => d.getTime()))
+  const occurrences: Date[] = []
+  const baseWallClock = new Date(utcToWallClock(event.start, event.timeZone))
+  // Occurrences starting slightly before the range can still overlap it
+  const earliestStart = rangeStart.getTime() - (event.end.getTime() - event.start.getTime())
+
+  let emitted = 0
+  for (let i = 0; i < MAX_RECURRENCE_ITERATIONS; i++) {
+    const period = new Date(baseWallClock)
+    switch (freq) {
+      case 'DAILY':
+        period.setUTCDate(period.getUTCDate() + i * interval)
+        break
+      case 'WEEKLY':
+        period.setUTCDate(period.getUTCDate() + i * interval * 7)
+        break
+      case 'MONTHLY':
+        period.setUTCMonth(period.getUTCMonth() + i * interval)
+        break
+      case 'YEARLY':
+        period.setUTCFullYear(period.getUTCFullYear() + i * interval)
+        break
+    }
+
+    // Weekly BYDAY expands each week into the listed days (week starting on DTSTART's weekday)
+    const candidates: Date[] = []
+    if (freq === 'WEEKLY' && byDay && byDay.length > 0) {
+      for (let offset = 0; offset < 7; offset++) {
+        const day = new Date(period)
+        day.setUTCDate(day.getUTCDate() + offset)
+        if (byDay.includes(day.getUTCDay())) candidates.push(day)
+      }
+    } else {
+      candidates.push(period)
+    }
+
+    for (const wallClock of candidates) {
+      const occurrence = wallClockToUtc(wallClock.getTime(), event.timeZone)
+      if (occurrence < event.start) continue
+      if (until && occurrence > until) return occurrences
+      if (count !== null && emitted >= count) return occurrences
+
+      emitted++
+      if (occurrence >= rangeEnd) return occurrences
+      if (!exdateTimes.has(occurrence.getTime()) && occurrence.getTime() >= earliestStart) {
+        occurrences.push(occurrence)
+      }
+    }
+  }
+
+  return occurrences
+}
+
+/**
+ * Convert parsed events into busy slots overlapping [rangeStart, rangeEnd)
+ * Skips transparent ("show as free") and cancelled events, applies RECURRENCE-ID overrides
+ */
+export function getBusySlotsFromEvents(
+  events: ICalEvent[],
+  rangeStart: Date,
+  rangeEnd: Date
+): BusySlot[] {
+  // Overridden instances replace the matching occurrence of their master event
+  const overrides = new Map<string, Set<number>>()
+  for (const event of events) {
+    if (!event.recurrenceId) continue
+    const set = overrides.get(event.uid) || new Set<number>()
+    set.add(event.recurrenceId.getTime())
+    overrides.set(event.uid, set)
+  }
+
+  const busy: BusySlot[] = []
+
+  for (const event of events) {
+    if (event.transparent || event.cancelled) continue
+
+    const durationMs = event.end.getTime() - event.start.getTime()
+    const starts = event.rrule && !event.recurrenceId
+      ? expandRecurrence(event, rangeStart, rangeEnd)
+      : [event.start]
+
+    const overridden = event.recurrenceId ? undefined : overrides.get(event.uid)
+
+    for (const start of starts) {
+      if (overridden?.has(start.getTime())) continue
+      const end = new Date(start.getTime() + durationMs)
+      if (start < rangeEnd && end > rangeStart) {
+        busy.push({ start, end })
+      }
+    }
+  }
+
+  return busy.sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+// ============================================
+// Serialization
+// ============================================
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Fold content lines at 75 octets as required by RFC 5545
+ */
+function foldLine(line: string): string {
+  if (line.length <= 75) return line
+  const chunks: string[] = [line.slice(0, 75)]
+  for (let i = 75; i < line.length; i += 74) {
+    chunks.push(' ' + line.slice(i, i + 74))
+  }
+  return chunks.join('\r\n')
+}
+
+export function formatICalDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Build a VCALENDAR document containing a single VEVENT
+ * method is for standalone .ics files (CalDAV objects must not have one);
+ * CANCEL marks the event cancelled so calendars that imported it remove it
+ */
+export function buildICalEvent(
+  uid: string,
+  event: EventInput,
+  options: {
+    organizerEmail?: string
+    organizerName?: string
+    sequence?: number
+    method?: 'PUBLISH' | 'CANCEL'
+  } = {}
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//BookerBot//Calendar//EN',
+    'CALSCALE:GREGORIAN',
+  ]
+
+  if (options.method) {
+    lines.push(`METHOD:${options.method}`)
+  }
+
+  lines.push(
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${formatICalDate(new Date())}`,
+    `DTSTART:${formatICalDate(event.start)}`,
+    `DTEND:${formatICalDate(event.end)}`,
+    `SEQUENCE:${options.sequence ?? 0}`,
+    `SUMMARY:${escapeText(event.summary)}`
+  )
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+  }
+
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`)
+  }
+
+  if (options.organizerEmail) {
+    const cn = options.organizerName ? `;CN="${options.organizerName.replace(/"/g, '')}"` : ''
+    lines.push(`ORGANIZER${cn}:mailto:${options.organizerEmail}`)
+  }
+
+  if (event.attendeeEmail) {
+    const cn = event.attendeeName ? `;CN="${event.attendeeName.replace(/"/g, '')}"` : ''
+    lines.push(`ATTENDEE${cn};ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:${event.attendeeEmail}`)
+  }
+
+  lines.push(
+    options.method === 'CANCEL' ? 'STATUS:CANCELLED' : 'STATUS:CONFIRMED',
+    'TRANSP:OPAQUE',
+    'END:VEVENT',
+    'END:VCALENDAR'
+  )
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -5,23 +5,67 @@
 
 export * from './types'
 export { GoogleCalendarProvider } from './providers/google'
+export { OutlookCalendarProvider } from './providers/outlook'
+export { CalDavCalendarProvider, encodeCalDavCredentials } from './providers/caldav'
+export { IcsFeedCalendarProvider, normalizeIcsUrl } from './providers/ics'
+export { InMemoryCalendarProvider } from './providers/memory'
 export {
   getAvailableSlots,
+  getAvailableSlotsForCalendars,
+  isCalendarFree,
+  formatSlot,
   formatSlotsForConversation,
   parseTimeSelection,
+  getLocalTime,
 } from './availability'
+export { pickHost, encodeConnectState, parseConnectState } from './hosts'
+export type { HostAssignmentStrategy, HostCandidate } from './hosts'
+export {
+  HOLIDAY_REGION_LABELS,
+  isHolidayRegion,
+  getPublicHolidays,
+  getPublicHoliday,
+  getHoursForDate,
+  getScheduleExceptions,
+} from './holidays'
+export type { HolidayRegion, PublicHoliday, DayHours, ScheduleExceptions } from './holidays'
+export {
+  DEFAULT_APPOINTMENT_TYPE_ID,
+  DEFAULT_SLOT_INTERVAL_MINUTES,
+  DEFAULT_MIN_NOTICE_HOURS,
+  LOCATION_TYPE_LABELS,
+  normalizeAppointmentType,
+  getAppointmentTypes,
+  findAppointmentType,
+  matchAppointmentType,
+  getEventLocation,
+  getLocationNote,
+  describeAppointmentType,
+} from './appointment-types'
+export {
+  getLeadCalendarEvent,
+  buildLeadCalendarFile,
+  getAddToCalendarLinks,
+  getLeadCalendarLinks,
+} from './lead-calendar'
+export type { LeadCalendarAppointment, AddToCalendarLinks, LeadCalendarLinks } from './lead-calendar'
 
 import { CalendarProvider, CalendarProviderType, TokenSet } from './types'
 import { GoogleCalendarProvider } from './providers/google'
+import { OutlookCalendarProvider } from './providers/outlook'
+import { CalDavCalendarProvider } from './providers/caldav'
+import { IcsFeedCalendarProvider } from './providers/ics'
 import { createClient } from '@/lib/supabase/server'
-import type { CalendarConnection } from '@/types/database'
+import type { CalendarConnection, Host } from '@/types/database'
 
 /**
  * Get a calendar provider instance by type
+ * serverUrl is only used by CalDAV, which has no fixed API host
  */
 export function getCalendarProvider(
   providerType: CalendarProviderType,
-  tokens?: TokenSet
+  tokens?: TokenSet,
+  options: { serverUrl?: string | null } = {}
 ): CalendarProvider {
   let provider: CalendarProvider
 
@@ -30,7 +74,14 @@ export function getCalendarProvider(
       provider = new GoogleCalendarProvider()
       break
     case 'outlook':
-      throw new Error('Outlook calendar not yet implemented')
+      provider = new OutlookCalendarProvider()
+      break
+    case 'caldav':
+      provider = new CalDavCalendarProvider(options.serverUrl)
+      break
+    case 'ics':
+      provider = new IcsFeedCalendarProvider()
+      break
     default:
       throw new Error(`Unknown calendar provider: ${providerType}`)
   }
@@ -43,25 +94,42 @@ export function getCalendarProvider(
 }
 
 /**
- * Get calendar connection for a client, with automatic token refresh
+ * A stored calendar connection with a ready-to-use provider
  */
-export async function getCalendarConnectionForClient(
-  clientId: string
-): Promise<{ connection: CalendarConnection; provider: CalendarProvider } | null> {
-  const supabase = await createClient()
+export interface ResolvedCalendarConnection {
+  connection: CalendarConnection
+  provider: CalendarProvider
+}
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const { data: connection, error } = await (supabase as any)
-    .from('calendar_connections')
-    .select('*')
-    .eq('client_id', clientId)
-    .single() as { data: CalendarConnection | null; error: Error | null }
+/**
+ * A host's calendar, for clients that spread bookings across a team
+ */
+export interface HostCalendar extends ResolvedCalendarConnection {
+  host: Host
+}
 
-  if (error || !connection) {
-    return null
-  }
+type DbClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * Narrow a calendar_connections query to the client-level connection or one host's
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function forHost(query: any, hostId: string | null): any {
+  return hostId ? query.eq('host_id', hostId) : query.is('host_id', null)
+}
 
-  const provider = getCalendarProvider(connection.provider as CalendarProviderType)
+/**
+ * Build a provider for a stored connection, refreshing its tokens if needed
+ */
+async function resolveCalendarConnection(
+  supabase: DbClient,
+  connection: CalendarConnection
+): Promise<ResolvedCalendarConnection | null> {
+  const provider = getCalendarProvider(
+    connection.provider as CalendarProviderType,
+    undefined,
+    { serverUrl: connection.server_url }
+  )
 
   // Check if token needs refresh
   const expiresAt = connection.token_expires_at
@@ -77,7 +145,8 @@ export async function getCalendarConnectionForClient(
   // Refresh if expired or expiring in next 5 minutes
   if (expiresAt && expiresAt.getTime() < Date.now() + 5 * 60 * 1000) {
     console.log('Calendar token expired or expiring soon, refreshing...', {
-      clientId,
+      clientId: connection.client_id,
+      hostId: connection.host_id,
       expiresAt: expiresAt.toISOString(),
       now: new Date().toISOString(),
     })
@@ -97,11 +166,15 @@ export async function getCalendarConnectionForClient(
         })
         .eq('id', connection.id)
 
-      console.log('Calendar tokens refreshed successfully', { clientId })
+      console.log('Calendar tokens refreshed successfully', {
+        clientId: connection.client_id,
+        hostId: connection.host_id,
+      })
     } catch (err) {
       console.error('Failed to refresh calendar tokens:', {
         error: err instanceof Error ? err.message : err,
-        clientId,
+        clientId: connection.client_id,
+        hostId: connection.host_id,
       })
       // Token refresh failed - the calendar connection is invalid
       // Return null so callers know the calendar is unavailable
@@ -116,14 +189,233 @@ export async function getCalendarConnectionForClient(
 }
 
 /**
- * Delete calendar connection for a client
+ * Get calendar connection for a client, with automatic token refresh
+ * Pass a hostId for a team member's calendar; otherwise the client-level connection is used
  */
-export async function deleteCalendarConnection(clientId: string): Promise<void> {
+export async function getCalendarConnectionForClient(
+  clientId: string,
+  hostId: string | null = null
+): Promise<ResolvedCalendarConnection | null> {
+  const supabase = await createClient()
+
+  const { data: connection, error } = await forHost(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (supabase as any)
+      .from('calendar_connections')
+      .select('*')
+      .eq('client_id', clientId),
+    hostId
+  ).single() as { data: CalendarConnection | null; error: Error | null }
+
+  if (error || !connection) {
+    return null
+  }
+
+  return resolveCalendarConnection(supabase, connection)
+}
+
+/**
+ * Every connection bookings are written to, with automatic token refresh
+ * Read-only ICS feeds are left out (no events are written to them), as are
+ * connections whose tokens can no longer be refreshed
+ */
+export async function getWritableCalendarConnections(): Promise<ResolvedCalendarConnection[]> {
   const supabase = await createClient()
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  await (supabase as any)
+  const { data: connections } = await (supabase as any)
     .from('calendar_connections')
-    .delete()
+    .select('*')
+    .neq('provider', 'ics')
+    .not('calendar_id', 'is', null) as { data: CalendarConnection[] | null }
+
+  const resolved = await Promise.all(
+    (connections || []).map((connection) => resolveCalendarConnection(supabase, connection))
+  )
+  return resolved.filter((c): c is ResolvedCalendarConnection => c !== null)
+}
+
+/**
+ * The connection a push-notification channel or subscription belongs to
+ */
+export async function getCalendarConnectionByWatchId(watchId: string): Promise<ResolvedCalendarConnection | null> {
+  const supabase = await createClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: connection } = await (supabase as any)
+    .from('calendar_connections')
+    .select('*')
+    .eq('watch_id', watchId)
+    .maybeSingle() as { data: CalendarConnection | null }
+
+  return connection ? resolveCalendarConnection(supabase, connection) : null
+}
+
+/**
+ * Look up a host, making sure it belongs to the client
+ */
+export async function getHostForClient(clientId: string, hostId: string): Promise<Host | null> {
+  const supabase = await createClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: host } = await (supabase as any)
+    .from('hosts')
+    .select('*')
+    .eq('id', hostId)
+    .eq('client_id', clientId)
+    .maybeSingle() as { data: Host | null }
+
+  return host
+}
+
+/**
+ * Get the calendars of every active host for a client
+ * Hosts without a (working) calendar connection are left out; an empty list means
+ * the client books against its single client-level connection instead
+ */
+export async function getHostCalendarsForClient(clientId: string): Promise<HostCalendar[]> {
+  const supabase = await createClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: hosts } = await (supabase as any)
+    .from('hosts')
+    .select('*')
     .eq('client_id', clientId)
+    .eq('is_active', true) as { data: Host[] | null }
+
+  if (!hosts || hosts.length === 0) {
+    return []
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: connections } = await (supabase as any)
+    .from('calendar_connections')
+    .select('*')
+    .in('host_id', hosts.map((h) => h.id)) as { data: CalendarConnection[] | null }
+
+  const resolved = await Promise.all(
+    hosts.map(async (host): Promise<HostCalendar | null> => {
+      const connection = connections?.find((c) => c.host_id === host.id)
+      if (!connection) {
+        return null
+      }
+      const calendar = await resolveCalendarConnection(supabase, connection)
+      return calendar ? { ...calendar, host } : null
+    })
+  )
+
+  return resolved.filter((c): c is HostCalendar => c !== null)
+}
+
+/**
+ * Delete calendar connection for a client (or one of its hosts)
+ */
+export async function deleteCalendarConnection(
+  clientId: string,
+  hostId: string | null = null
+): Promise<void> {
+  const supabase = await createClient()
+
+  await forHost(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (supabase as any)
+      .from('calendar_connections')
+      .delete()
+      .eq('client_id', clientId),
+    hostId
+  )
+}
+
+/**
+ * Create or replace the calendar connection for a client (or one of its hosts)
+ * OAuth callbacks pass their refresh token and expiry; credential-based flows don't have them
+ */
+export async function saveCalendarConnection(
+  clientId: string,
+  connection: {
+    provider: CalendarProviderType
+    accessToken: string
+    refreshToken?: string
+    expiresAt?: Date | null
+    calendarId: string
+    serverUrl?: string | null
+    hostId?: string | null
+  }
+): Promise<void> {
+  const supabase = await createClient()
+  const hostId = connection.hostId || null
+
+  const fields = {
+    provider: connection.provider,
+    access_token: connection.accessToken,
+    refresh_token: connection.refreshToken || '',
+    token_expires_at: connection.expiresAt?.toISOString() || null,
+    calendar_id: connection.calendarId,
+    server_url: connection.serverUrl || null,
+    // Calendar IDs from a previous account won't exist on this one
+    busy_calendar_ids: [],
+  }
+
+  const { data: existingConnection } = await forHost(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (supabase as any)
+      .from('calendar_connections')
+      .select('id')
+      .eq('client_id', clientId),
+    hostId
+  ).single() as { data: { id: string } | null }
+
+  let error: { message: string } | null
+
+  if (existingConnection) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ({ error } = await (supabase as any)
+      .from('calendar_connections')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', existingConnection.id))
+  } else {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ({ error } = await (supabase as any)
+      .from('calendar_connections')
+      .insert({ client_id: clientId, host_id: hostId, ...fields }))
+  }
+
+  if (error) {
+    throw new Error(`Failed to save calendar connection: ${error.message}`)
+  }
+}
+
+/**
+ * Choose which calendars a connection checks for conflicts and which one bookings are written to
+ * The target calendar is always checked, so it doesn't need to be in busyCalendarIds
+ */
+export async function saveCalendarSelection(
+  clientId: string,
+  selection: {
+    calendarId: string
+    busyCalendarIds: string[]
+    hostId?: string | null
+  }
+): Promise<void> {
+  const supabase = await createClient()
+
+  const busyCalendarIds = Array.from(new Set(selection.busyCalendarIds))
+    .filter((id) => id !== selection.calendarId)
+
+  const { error } = await forHost(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (supabase as any)
+      .from('calendar_connections')
+      .update({
+        calendar_id: selection.calendarId,
+        busy_calendar_ids: busyCalendarIds,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('client_id', clientId),
+    selection.hostId || null
+  )
+
+  if (error) {
+    throw new Error(`Failed to save calendar selection: ${error.message}`)
+  }
 }
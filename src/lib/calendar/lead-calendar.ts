@@ -0,0 +1,123 @@
+/**
+ * Lead Calendar Files
+ * .ics files and "add to calendar" links for the lead's own calendar
+ *
+ * Calendar invites only reach leads whose email was captured, so confirmations also
+ * link to a public .ics file. Its UID stays the same for the life of the appointment
+ * and the database bumps its SEQUENCE on every change, so opening the link again
+ * after a reschedule updates the event and after a cancellation removes it.
+ */
+
+import { Appointment, Client, Workflow } from '@/types/database'
+import { getCalendarFileUrl, getManageLinkUrl } from '@/lib/booking-links'
+import { EventInput } from './types'
+import { buildICalEvent, formatICalDate } from './ical'
+import { DEFAULT_APPOINTMENT_TYPE_ID, findAppointmentType, getAppointmentTypes } from './appointment-types'
+
+export type LeadCalendarAppointment = Pick<
+  Appointment,
+  'id' | 'start_time' | 'end_time' | 'status' | 'location' | 'appointment_type_id' | 'calendar_sequence'
+>
+
+export interface AddToCalendarLinks {
+  google: string
+  outlook: string
+}
+
+export interface LeadCalendarLinks extends AddToCalendarLinks {
+  /** The signed .ics file URL, which follows later changes */
+  ics: string
+}
+
+/**
+ * The appointment as it appears in the lead's calendar
+ * Named from the lead's side ("Consultation with Acme"), unlike the host's event, and
+ * points back at the manage page while the appointment can still be changed
+ */
+export function getLeadCalendarEvent(
+  contactId: string,
+  appointment: LeadCalendarAppointment,
+  workflow: Pick<Workflow, 'appointment_types' | 'appointment_duration_minutes'>,
+  client: Pick<Client, 'name' | 'brand_name' | 'timezone'>,
+  now: Date = new Date()
+): EventInput {
+  const start = new Date(appointment.start_time)
+  const description = appointment.status === 'confirmed' && start > now
+    ? `Need to change or cancel? ${getManageLinkUrl(contactId, appointment.id, start)}`
+    : undefined
+
+  const displayName = client.brand_name || client.name
+  const appointmentType = findAppointmentType(getAppointmentTypes(workflow), appointment.appointment_type_id)
+  const summary = !appointmentType || appointmentType.id === DEFAULT_APPOINTMENT_TYPE_ID
+    ? `Call with ${displayName}`
+    : `${appointmentType.name} with ${displayName}`
+
+  return {
+    summary,
+    description,
+    start,
+    end: new Date(appointment.end_time),
+    location: appointment.location || undefined,
+    timeZone: client.timezone || 'Europe/London',
+  }
+}
+
+/**
+ * The .ics file for an appointment: PUBLISH while it's on, CANCEL once it's cancelled
+ */
+export function buildLeadCalendarFile(appointment: LeadCalendarAppointment, event: EventInput): string {
+  return buildICalEvent(`appointment-${appointment.id}@bookerbot`, event, {
+    sequence: appointment.calendar_sequence,
+    method: appointment.status === 'cancelled' ? 'CANCEL' : 'PUBLISH',
+  })
+}
+
+/**
+ * Links that open the event pre-filled in Google Calendar and Outlook.com
+ * Unlike the .ics file these add a copy, so they can't follow later changes
+ */
+export function getAddToCalendarLinks(event: EventInput): AddToCalendarLinks {
+  const google = new URLSearchParams({
+    action: 'TEMPLATE',
+    text: event.summary,
+    dates: `${formatICalDate(event.start)}/${formatICalDate(event.end)}`,
+  })
+  const outlook = new URLSearchParams({
+    path: '/calendar/action/compose',
+    rru: 'addevent',
+    subject: event.summary,
+    startdt: event.start.toISOString(),
+    enddt: event.end.toISOString(),
+  })
+
+  if (event.description) {
+    google.set('details', event.description)
+    outlook.set('body', event.description)
+  }
+  if (event.location) {
+    google.set('location', event.location)
+    outlook.set('location', event.location)
+  }
+  if (event.timeZone) {
+    google.set('ctz', event.timeZone)
+  }
+
+  return {
+    google: `https://calendar.google.com/calendar/render?${google.toString()}`,
+    outlook: `https://outlook.live.com/calendar/0/deeplink/compose?${outlook.toString()}`,
+  }
+}
+
+/**
+ * Everything the booking pages offer for adding an appointment to the lead's calendar
+ */
+export function getLeadCalendarLinks(
+  contactId: string,
+  appointment: LeadCalendarAppointment,
+  event: EventInput
+): LeadCalendarLinks {
+  return {
+    ics: getCalendarFileUrl(contactId, appointment.id, new Date(appointment.end_time)),
+    ...getAddToCalendarLinks(event),
+  }
+}
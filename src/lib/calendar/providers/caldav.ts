@@ -0,0 +1,411 @@
+/**
+ * CalDAV Calendar Provider
+ * Implements CalendarProvider interface for CalDAV servers (Fastmail, iCloud, Nextcloud, Radicale...)
+ *
+ * CalDAV has no OAuth: the connection stores Basic credentials (base64 "username:password",
+ * usually an app-specific password) as the access token, and the server URL on the connection.
+ * Calendars are identified by their collection URL. Any CalDAV server works, including a local
+ * stand-in such as Radicale (e.g. http://localhost:5232/) for development.
+ */
+
+import {
+  CalendarProvider,
+  CalendarProviderType,
+  TokenSet,
+  Calendar,
+  BusySlot,
+  EventInput,
+  CalendarEvent,
+  CalendarApiError,
+} from '../types'
+import { parseICalendar, getBusySlotsFromEvents, buildICalEvent, formatICalDate } from '../ical'
+
+type DavResponse = {
+  href: string
+  body: string
+}
+
+/**
+ * Encode username/password into the token stored on the calendar connection
+ */
+export function encodeCalDavCredentials(username: string, password: string): string {
+  return Buffer.from(`${username}:${password}`).toString('base64')
+}
+
+export class CalDavCalendarProvider implements CalendarProvider {
+  readonly providerType: CalendarProviderType = 'caldav'
+  private tokens: TokenSet | null = null
+
+  constructor(private readonly serverUrl: string | null = null) {}
+
+  getAuthUrl(): string {
+    throw new Error('CalDAV does not use OAuth. Connect with server URL and credentials instead.')
+  }
+
+  async exchangeCodeForTokens(): Promise<TokenSet> {
+    throw new Error('CalDAV does not use OAuth. Connect with server URL and credentials instead.')
+  }
+
+  /**
+   * CalDAV credentials don't expire - return them unchanged
+   */
+  async refreshTokens(refreshToken: string): Promise<TokenSet> {
+    return {
+      accessToken: this.tokens?.accessToken || '',
+      refreshToken,
+      expiresAt: null,
+    }
+  }
+
+  /**
+   * Set tokens for authenticated requests
+   */
+  setTokens(tokens: TokenSet): void {
+    this.tokens = tokens
+  }
+
+  /**
+   * Username part of the stored credentials, used as the event organizer
+   */
+  private get username(): string | null {
+    if (!this.tokens?.accessToken) return null
+    const decoded = Buffer.from(this.tokens.accessToken, 'base64').toString('utf8')
+    return decoded.split(':')[0] || null
+  }
+
+  /**
+   * Make authenticated WebDAV request
+   */
+  private async davRequest(
+    url: string,
+    method: string,
+    options: { body?: string; depth?: '0' | '1'; headers?: Record<string, string> } = {}
+  ): Promise<Response> {
+    if (!this.tokens) {
+      console.error('[CalDAV] Request failed: Tokens not set')
+      throw new Error('Tokens not set. Call setTokens() first.')
+    }
+
+    console.log('[CalDAV] Request:', { method, url })
+
+    const headers: Record<string, string> = {
+      Authorization: `Basic ${this.tokens.accessToken}`,
+      ...options.headers,
+    }
+    if (options.depth) headers.Depth = options.depth
+    if (options.body && !headers['Content-Type']) {
+      headers['Content-Type'] = 'application/xml; charset=utf-8'
+    }
+
+    const response = await fetch(url, { method, headers, body: options.body })
+
+    if (!response.ok && response.status !== 207) {
+      const error = await response.text()
+      console.error('[CalDAV] Error:', {
+        status: response.status,
+        statusText: response.statusText,
+        error: error.slice(0, 500),
+        method,
+        url,
+      })
+      throw new CalendarApiError(`CalDAV error: ${response.status} ${response.statusText}`, response.status)
+    }
+
+    return response
+  }
+
+  /**
+   * PROPFIND/REPORT helper returning each <response> in the multistatus body
+   */
+  private async multistatus(
+    url: string,
+    method: 'PROPFIND' | 'REPORT',
+    body: string,
+    depth: '0' | '1'
+  ): Promise<DavResponse[]> {
+    const response = await this.davRequest(url, method, { body, depth })
+    const xml = await response.text()
+
+    const responses: DavResponse[] = []
+    const pattern = /<(?:[\w-]+:)?response[\s>][\s\S]*?<\/(?:[\w-]+:)?response>/gi
+    for (const match of xml.match(pattern) || []) {
+      const href = extractTag(match, 'href')
+      if (href) {
+        responses.push({ href: new URL(href.trim(), url).toString(), body: match })
+      }
+    }
+    return responses
+  }
+
+  /**
+   * Follow current-user-principal -> calendar-home-set to find the user's calendar collections
+   */
+  private async discoverCalendarHome(): Promise<string> {
+    if (!this.serverUrl) {
+      throw new Error('CalDAV server URL not configured for this connection')
+    }
+
+    const [principalResponse] = await this.multistatus(
+      this.serverUrl,
+      'PROPFIND',
+      `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:">
+  <d:prop><d:current-user-principal/></d:prop>
+</d:propfind>`,
+      '0'
+    )
+
+    const principalHref = principalResponse
+      ? extractTag(extractTag(principalResponse.body, 'current-user-principal') || '', 'href')
+      : null
+    const principalUrl = principalHref
+      ? new URL(principalHref.trim(), this.serverUrl).toString()
+      : this.serverUrl
+
+    const [homeResponse] = await this.multistatus(
+      principalUrl,
+      'PROPFIND',
+      `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><c:calendar-home-set/></d:prop>
+</d:propfind>`,
+      '0'
+    )
+
+    const homeHref = homeResponse
+      ? extractTag(extractTag(homeResponse.body, 'calendar-home-set') || '', 'href')
+      : null
+
+    // Some servers (and simple stand-ins) expose calendars directly under the server URL
+    return homeHref ? new URL(homeHref.trim(), principalUrl).toString() : this.serverUrl
+  }
+
+  /**
+   * List all calendars in the user's calendar home
+   * The first event-capable calendar is treated as primary
+   */
+  async listCalendars(): Promise<Calendar[]> {
+    const homeUrl = await this.discoverCalendarHome()
+
+    const responses = await this.multistatus(
+      homeUrl,
+      'PROPFIND',
+      `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop>
+    <d:resourcetype/>
+    <d:displayname/>
+    <c:supported-calendar-component-set/>
+    <c:calendar-timezone/>
+  </d:prop>
+</d:propfind>`,
+      '1'
+    )
+
+    const calendars: Calendar[] = []
+    for (const response of responses) {
+      const resourceType = extractTag(response.body, 'resourcetype') || ''
+      if (!/<(?:[\w-]+:)?calendar[\s/>]/i.test(resourceType)) continue
+
+      // Skip task-only / journal-only collections
+      const components = extractTag(response.body, 'supported-calendar-component-set')
+      if (components && !/name=["']VEVENT["']/i.test(components)) continue
+
+      const timezoneData = extractTag(response.body, 'calendar-timezone')
+      const tzid = timezoneData ? decodeXml(timezoneData).match(/TZID:([^\r\n]+)/)?.[1] : undefined
+
+      calendars.push({
+        id: response.href,
+        name: decodeXml(extractTag(response.body, 'displayname') || '').trim() || response.href,
+        primary: calendars.length === 0,
+        timeZone: tzid?.trim(),
+      })
+    }
+
+    return calendars
+  }
+
+  /**
+   * Get busy times for a calendar in a date range
+   * Uses a calendar-query REPORT with a time-range filter, asking the server to expand recurrences.
+   * Servers that ignore <expand> return master events, which are expanded locally.
+   */
+  async getFreeBusy(
+    calendarId: string,
+    start: Date,
+    end: Date
+  ): Promise<BusySlot[]> {
+    const rangeStart = formatICalDate(start)
+    const rangeEnd = formatICalDate(end)
+
+    const responses = await this.multistatus(
+      calendarId,
+      'REPORT',
+      `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop>
+    <c:calendar-data>
+      <c:expand start="${rangeStart}" end="${rangeEnd}"/>
+    </c:calendar-data>
+  </d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT">
+        <c:time-range start="${rangeStart}" end="${rangeEnd}"/>
+      </c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`,
+      '1'
+    )
+
+    const events = responses.flatMap((response) => {
+      const calendarData = extractTag(response.body, 'calendar-data')
+      return calendarData ? parseICalendar(decodeXml(calendarData)) : []
+    })
+
+    return getBusySlotsFromEvents(events, start, end)
+  }
+
+  /**
+   * Create a calendar event by PUTting a new VEVENT resource
+   * The event id is the resource's UID (and file name) within the calendar collection
+   */
+  async createEvent(
+    calendarId: string,
+    event: EventInput
+  ): Promise<CalendarEvent> {
+    const uid = `bookerbot-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`
+
+    console.log('[CalDAV] createEvent called:', {
+      calendarId,
+      uid,
+      summary: event.summary,
+      attendeeEmail: event.attendeeEmail || 'NO ATTENDEE - NO INVITE WILL BE SENT',
+      start: event.start.toISOString(),
+      end: event.end.toISOString(),
+    })
+
+    await this.davRequest(this.eventUrl(calendarId, uid), 'PUT', {
+      body: buildICalEvent(uid, event, this.organizerOptions()),
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'If-None-Match': '*',
+      },
+    })
+
+    console.log('[CalDAV] Event created successfully:', { uid })
+
+    return this.toCalendarEvent(uid, event)
+  }
+
+  /**
+   * Update an existing calendar event by replacing its VEVENT resource
+   */
+  async updateEvent(
+    calendarId: string,
+    eventId: string,
+    event: EventInput
+  ): Promise<CalendarEvent> {
+    console.log('[CalDAV] updateEvent called:', {
+      calendarId,
+      eventId,
+      summary: event.summary,
+      start: event.start.toISOString(),
+      end: event.end.toISOString(),
+    })
+
+    // Bump SEQUENCE so attendees' clients treat this as an update to the original invite
+    await this.davRequest(this.eventUrl(calendarId, eventId), 'PUT', {
+      body: buildICalEvent(eventId, event, {
+        ...this.organizerOptions(),
+        sequence: Math.floor(Date.now() / 1000),
+      }),
+      headers: { 'Content-Type': 'text/calendar; charset=utf-8' },
+    })
+
+    console.log('[CalDAV] Event updated successfully:', { eventId })
+
+    return this.toCalendarEvent(eventId, event)
+  }
+
+  /**
+   * Delete a calendar event
+   */
+  async deleteEvent(calendarId: string, eventId: string): Promise<void> {
+    await this.davRequest(this.eventUrl(calendarId, eventId), 'DELETE')
+  }
+
+  /**
+   * Get a single event by fetching its VEVENT resource
+   * CalDAV has no push notifications, so the calendar sync job polls with this
+   */
+  async getEvent(calendarId: string, eventId: string): Promise<CalendarEvent | null> {
+    let text: string
+    try {
+      const response = await this.davRequest(this.eventUrl(calendarId, eventId), 'GET')
+      text = await response.text()
+    } catch (error) {
+      if (error instanceof CalendarApiError && (error.status === 404 || error.status === 410)) {
+        return null
+      }
+      throw error
+    }
+
+    const event = parseICalendar(text).find((e) => e.uid === eventId && !e.recurrenceId)
+    if (!event || event.cancelled) {
+      return null
+    }
+
+    return {
+      id: eventId,
+      summary: event.summary || '',
+      start: event.start,
+      end: event.end,
+    }
+  }
+
+  private eventUrl(calendarId: string, eventId: string): string {
+    const base = calendarId.endsWith('/') ? calendarId : `${calendarId}/`
+    return new URL(`${encodeURIComponent(eventId)}.ics`, base).toString()
+  }
+
+  private organizerOptions(): { organizerEmail?: string } {
+    // Servers with implicit scheduling (iCloud, Fastmail, Nextcloud) send invites when ORGANIZER is set
+    const username = this.username
+    return username && username.includes('@') ? { organizerEmail: username } : {}
+  }
+
+  private toCalendarEvent(id: string, event: EventInput): CalendarEvent {
+    return {
+      id,
+      summary: event.summary,
+      description: event.description,
+      start: event.start,
+      end: event.end,
+    }
+  }
+}
+
+/**
+ * Extract the inner content of the first element with the given local name (any namespace prefix)
+ */
+function extractTag(xml: string, localName: string): string | null {
+  const pattern = new RegExp(
+    `<(?:[\\w-]+:)?${localName}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${localName}>`,
+    'i'
+  )
+  return xml.match(pattern)?.[1] ?? null
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#13;/g, '\r')
+    .replace(/&#10;/g, '\n')
+    .replace(/&amp;/g, '&')
+}
@@ -11,6 +11,9 @@ import {
   BusySlot,
   EventInput,
   CalendarEvent,
+  CalendarApiError,
+  CalendarWatch,
+  CalendarWatchChannel,
 } from '../types'
 
 const GOOGLE_AUTH_URL = 'https://accounts.google.com/o/oauth2/v2/auth'
@@ -163,7 +166,7 @@ export class GoogleCalendarProvider implements CalendarProvider {
         error,
         endpoint,
       })
-      throw new Error(`Google Calendar API error: ${error}`)
+      throw new CalendarApiError(`Google Calendar API error: ${error}`, response.status)
     }
 
     // Handle 204 No Content
@@ -270,6 +273,7 @@ export class GoogleCalendarProvider implements CalendarProvider {
     const eventBody: Record<string, unknown> = {
       summary: event.summary,
       description: event.description,
+      location: event.location,
       start: { dateTime: event.start.toISOString(), timeZone },
       end: { dateTime: event.end.toISOString(), timeZone },
       attendees,
@@ -362,6 +366,7 @@ export class GoogleCalendarProvider implements CalendarProvider {
     const updateBody = {
       summary: event.summary,
       description: event.description,
+      location: event.location,
       start: { dateTime: event.start.toISOString(), timeZone },
       end: { dateTime: event.end.toISOString(), timeZone },
       attendees,
@@ -410,4 +415,88 @@ export class GoogleCalendarProvider implements CalendarProvider {
       { method: 'DELETE' }
     )
   }
+
+  /**
+   * Get a single event
+   * Deleted events are either gone (404/410) or kept with status "cancelled"
+   */
+  async getEvent(calendarId: string, eventId: string): Promise<CalendarEvent | null> {
+    let data: {
+      id: string
+      status?: string
+      summary: string
+      description?: string
+      start: { dateTime?: string; date?: string }
+      end: { dateTime?: string; date?: string }
+      htmlLink?: string
+    }
+
+    try {
+      data = await this.apiRequest(
+        `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`
+      )
+    } catch (error) {
+      if (error instanceof CalendarApiError && (error.status === 404 || error.status === 410)) {
+        return null
+      }
+      throw error
+    }
+
+    if (data.status === 'cancelled') {
+      return null
+    }
+
+    return {
+      id: data.id,
+      summary: data.summary,
+      description: data.description,
+      start: new Date(data.start.dateTime || data.start.date!),
+      end: new Date(data.end.dateTime || data.end.date!),
+      htmlLink: data.htmlLink,
+    }
+  }
+
+  /**
+   * Open a watch channel so Google posts to our webhook whenever an event in the calendar changes
+   * Channels last about a week and have to be replaced before they expire
+   */
+  async watchCalendar(calendarId: string, channel: CalendarWatchChannel): Promise<CalendarWatch> {
+    const data = await this.apiRequest<{
+      id: string
+      resourceId: string
+      expiration?: string
+    }>(`/calendars/${encodeURIComponent(calendarId)}/events/watch`, {
+      method: 'POST',
+      body: JSON.stringify({
+        id: channel.id,
+        type: 'web_hook',
+        address: channel.address,
+        token: channel.token,
+      }),
+    })
+
+    console.log('[GoogleCalendar] Watch channel opened:', {
+      channelId: data.id,
+      expiration: data.expiration,
+    })
+
+    return {
+      id: data.id,
+      resourceId: data.resourceId,
+      // Expiration is in milliseconds since the epoch
+      expiresAt: data.expiration
+        ? new Date(parseInt(data.expiration, 10))
+        : new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+    }
+  }
+
+  /**
+   * Close a watch channel
+   */
+  async stopWatch(watch: CalendarWatch): Promise<void> {
+    await this.apiRequest('/channels/stop', {
+      method: 'POST',
+      body: JSON.stringify({ id: watch.id, resourceId: watch.resourceId }),
+    })
+  }
 }
@@ -0,0 +1,135 @@
+/**
+ * ICS Feed Calendar Provider
+ * Read-only CalendarProvider backed by an iCalendar subscription URL
+ *
+ * Used for clients who can only share a published/secret ICS link. Busy times are read
+ * from the feed; bookings are stored in BookerBot only (no event is written back).
+ * The feed URL is stored as the connection's calendar_id.
+ */
+
+import {
+  CalendarProvider,
+  CalendarProviderType,
+  TokenSet,
+  Calendar,
+  BusySlot,
+  CalendarEvent,
+} from '../types'
+import { parseICalendar, getBusySlotsFromEvents } from '../ical'
+
+const READ_ONLY_ERROR = 'ICS subscription calendars are read-only'
+
+/**
+ * Normalize webcal:// links (what most calendar apps hand out) to https://
+ */
+export function normalizeIcsUrl(url: string): string {
+  return url.trim().replace(/^webcals?:\/\//i, 'https://')
+}
+
+export class IcsFeedCalendarProvider implements CalendarProvider {
+  readonly providerType: CalendarProviderType = 'ics'
+
+  getAuthUrl(): string {
+    throw new Error('ICS subscriptions do not use OAuth. Connect with a feed URL instead.')
+  }
+
+  async exchangeCodeForTokens(): Promise<TokenSet> {
+    throw new Error('ICS subscriptions do not use OAuth. Connect with a feed URL instead.')
+  }
+
+  /**
+   * Feed URLs don't expire - nothing to refresh
+   */
+  async refreshTokens(refreshToken: string): Promise<TokenSet> {
+    return { accessToken: '', refreshToken, expiresAt: null }
+  }
+
+  /**
+   * No credentials needed - the secret is part of the feed URL
+   */
+  setTokens(): void {}
+
+  /**
+   * Fetch and parse the feed
+   */
+  private async fetchFeed(feedUrl: string): Promise<string> {
+    const url = normalizeIcsUrl(feedUrl)
+    console.log('[IcsFeed] Fetching feed:', { host: new URL(url).host })
+
+    const response = await fetch(url, {
+      headers: { Accept: 'text/calendar' },
+      cache: 'no-store',
+    })
+
+    if (!response.ok) {
+      console.error('[IcsFeed] Fetch failed:', {
+        status: response.status,
+        statusText: response.statusText,
+      })
+      throw new Error(`ICS feed error: ${response.status} ${response.statusText}`)
+    }
+
+    const text = await response.text()
+    if (!text.includes('BEGIN:VCALENDAR')) {
+      throw new Error('ICS feed error: response is not an iCalendar document')
+    }
+
+    return text
+  }
+
+  /**
+   * A feed is a single calendar; without a feed URL there is nothing to list
+   */
+  async listCalendars(): Promise<Calendar[]> {
+    return []
+  }
+
+  /**
+   * Validate a feed URL and describe it as a calendar (used when connecting)
+   */
+  async describeFeed(feedUrl: string): Promise<Calendar> {
+    const text = await this.fetchFeed(feedUrl)
+    const name = text.match(/^X-WR-CALNAME:(.+)$/m)?.[1]?.trim()
+    const timeZone = text.match(/^X-WR-TIMEZONE:(.+)$/m)?.[1]?.trim()
+
+    return {
+      id: normalizeIcsUrl(feedUrl),
+      name: name || 'Calendar subscription',
+      primary: true,
+      timeZone,
+    }
+  }
+
+  /**
+   * Get busy times from the feed in a date range
+   */
+  async getFreeBusy(
+    calendarId: string,
+    start: Date,
+    end: Date
+  ): Promise<BusySlot[]> {
+    const text = await this.fetchFeed(calendarId)
+    const defaultTimeZone = text.match(/^X-WR-TIMEZONE:(.+)$/m)?.[1]?.trim() || 'UTC'
+    const events = parseICalendar(text, defaultTimeZone)
+    return getBusySlotsFromEvents(events, start, end)
+  }
+
+  async createEvent(): Promise<CalendarEvent> {
+    throw new Error(READ_ONLY_ERROR)
+  }
+
+  async updateEvent(): Promise<CalendarEvent> {
+    throw new Error(READ_ONLY_ERROR)
+  }
+
+  async deleteEvent(): Promise<void> {
+    throw new Error(READ_ONLY_ERROR)
+  }
+
+  /**
+   * Bookings are never written to a feed, so there are no events of ours to read back
+   */
+  async getEvent(): Promise<CalendarEvent | null> {
+    throw new Error(READ_ONLY_ERROR)
+  }
+}
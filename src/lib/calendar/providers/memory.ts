@@ -0,0 +1,174 @@
+/**
+ * In-Memory Calendar Provider
+ * Implements CalendarProvider interface against a local event store
+ *
+ * Used by the booking harness to drive the booking flow without a real calendar.
+ * Events live only for the lifetime of the provider instance.
+ */
+
+import {
+  CalendarProvider,
+  CalendarProviderType,
+  TokenSet,
+  Calendar,
+  BusySlot,
+  EventInput,
+  CalendarEvent,
+  EventAttendance,
+} from '../types'
+
+export interface InMemoryEvent extends CalendarEvent {
+  attendeeEmail?: string
+  location?: string
+  /** Free events ("show as available") don't block slots */
+  transparent?: boolean
+  /** Whether the attendee turned up, once known */
+  attendance?: EventAttendance
+}
+
+export class InMemoryCalendarProvider implements CalendarProvider {
+  readonly providerType: CalendarProviderType = 'memory'
+  private tokens: TokenSet | null = null
+  private calendars: Calendar[]
+  private events = new Map<string, InMemoryEvent[]>()
+  private nextEventId = 1
+
+  constructor(calendars: Calendar[] = [{ id: 'primary', name: 'Primary', primary: true }]) {
+    this.calendars = calendars
+    for (const calendar of calendars) {
+      this.events.set(calendar.id, [])
+    }
+  }
+
+  getAuthUrl(state: string): string {
+    return `memory://auth?state=${encodeURIComponent(state)}`
+  }
+
+  async exchangeCodeForTokens(code: string): Promise<TokenSet> {
+    return { accessToken: `memory-${code}`, refreshToken: `memory-refresh-${code}`, expiresAt: null }
+  }
+
+  async refreshTokens(refreshToken: string): Promise<TokenSet> {
+    return { accessToken: this.tokens?.accessToken || 'memory', refreshToken, expiresAt: null }
+  }
+
+  setTokens(tokens: TokenSet): void {
+    this.tokens = tokens
+  }
+
+  async listCalendars(): Promise<Calendar[]> {
+    return [...this.calendars]
+  }
+
+  async getFreeBusy(
+    calendarId: string,
+    start: Date,
+    end: Date
+  ): Promise<BusySlot[]> {
+    return this.getCalendarEvents(calendarId)
+      .filter((event) => !event.transparent && event.start < end && event.end > start)
+      .map((event) => ({ start: event.start, end: event.end }))
+      .sort((a, b) => a.start.getTime() - b.start.getTime())
+  }
+
+  async createEvent(
+    calendarId: string,
+    event: EventInput
+  ): Promise<CalendarEvent> {
+    const created: InMemoryEvent = {
+      id: `memory-event-${this.nextEventId++}`,
+      summary: event.summary,
+      description: event.description,
+      start: new Date(event.start),
+      end: new Date(event.end),
+      attendeeEmail: event.attendeeEmail,
+      location: event.location,
+    }
+    this.getCalendarEvents(calendarId).push(created)
+    return this.toCalendarEvent(created)
+  }
+
+  async updateEvent(
+    calendarId: string,
+    eventId: string,
+    event: EventInput
+  ): Promise<CalendarEvent> {
+    const existing = this.getCalendarEvents(calendarId).find((e) => e.id === eventId)
+    if (!existing) {
+      throw new Error(`In-memory calendar error: event ${eventId} not found`)
+    }
+
+    existing.summary = event.summary
+    existing.description = event.description
+    existing.start = new Date(event.start)
+    existing.end = new Date(event.end)
+    existing.attendeeEmail = event.attendeeEmail
+    existing.location = event.location
+    return this.toCalendarEvent(existing)
+  }
+
+  async deleteEvent(calendarId: string, eventId: string): Promise<void> {
+    const events = this.getCalendarEvents(calendarId)
+    const index = events.findIndex((e) => e.id === eventId)
+    if (index === -1) {
+      throw new Error(`In-memory calendar error: event ${eventId} not found`)
+    }
+    events.splice(index, 1)
+  }
+
+  async getEvent(calendarId: string, eventId: string): Promise<CalendarEvent | null> {
+    const event = this.getCalendarEvents(calendarId).find((e) => e.id === eventId)
+    return event ? this.toCalendarEvent(event) : null
+  }
+
+  async getAttendance(calendarId: string, eventId: string): Promise<EventAttendance | null> {
+    const event = this.getCalendarEvents(calendarId).find((e) => e.id === eventId)
+    return event?.attendance || null
+  }
+
+  /**
+   * Record whether the attendee turned up, as a meeting service would
+   */
+  setAttendance(calendarId: string, eventId: string, attendance: EventAttendance): void {
+    const event = this.getCalendarEvents(calendarId).find((e) => e.id === eventId)
+    if (!event) {
+      throw new Error(`In-memory calendar error: event ${eventId} not found`)
+    }
+    event.attendance = attendance
+  }
+
+  /**
+   * Seed a busy block (e.g. an existing meeting) directly into a calendar
+   */
+  addBusy(calendarId: string, start: Date, end: Date, summary: string = 'Busy'): InMemoryEvent {
+    const event: InMemoryEvent = {
+      id: `memory-event-${this.nextEventId++}`,
+      summary,
+      start,
+      end,
+    }
+    this.getCalendarEvents(calendarId).push(event)
+    return event
+  }
+
+  /**
+   * All events in a calendar, for inspecting what the booking flow wrote
+   */
+  getCalendarEvents(calendarId: string): InMemoryEvent[] {
+    const events = this.events.get(calendarId)
+    if (!events) {
+      throw new Error(`In-memory calendar error: calendar ${calendarId} not found`)
+    }
+    return events
+  }
+
+  private toCalendarEvent(event: InMemoryEvent): CalendarEvent {
+    return {
+      id: event.id,
+      summary: event.summary,
+      description: event.description,
+      start: event.start,
+      end: event.end,
+    }
+  }
+}
@@ -0,0 +1,477 @@
+/**
+ * Outlook Calendar Provider
+ * Implements CalendarProvider interface for Microsoft Graph (Outlook / Microsoft 365)
+ */
+
+import {
+  CalendarProvider,
+  CalendarProviderType,
+  TokenSet,
+  Calendar,
+  BusySlot,
+  EventInput,
+  CalendarEvent,
+  CalendarApiError,
+  CalendarWatch,
+  CalendarWatchChannel,
+} from '../types'
+
+const MICROSOFT_LOGIN_URL = 'https://login.microsoftonline.com'
+const GRAPH_API = 'https://graph.microsoft.com/v1.0'
+
+const SCOPES = [
+  'offline_access',
+  'User.Read',
+  'Calendars.ReadWrite',
+].join(' ')
+
+// Graph's limit for subscriptions to Outlook events is 4230 minutes; stay a little under it
+const MAX_SUBSCRIPTION_MINUTES = 4200
+
+type GraphDateTime = { dateTime: string; timeZone: string }
+
+type GraphEvent = {
+  id: string
+  subject: string
+  bodyPreview?: string
+  start: GraphDateTime
+  end: GraphDateTime
+  webLink?: string
+  showAs?: string
+  isCancelled?: boolean
+  onlineMeeting?: { joinUrl?: string } | null
+  attendees?: Array<{ emailAddress: { address: string }; status?: { response?: string } }>
+}
+
+export class OutlookCalendarProvider implements CalendarProvider {
+  readonly providerType: CalendarProviderType = 'outlook'
+  private tokens: TokenSet | null = null
+
+  private get clientId(): string {
+    const id = process.env.MICROSOFT_CLIENT_ID
+    if (!id) throw new Error('MICROSOFT_CLIENT_ID not configured')
+    return id
+  }
+
+  private get clientSecret(): string {
+    const secret = process.env.MICROSOFT_CLIENT_SECRET
+    if (!secret) throw new Error('MICROSOFT_CLIENT_SECRET not configured')
+    return secret
+  }
+
+  // 'common' accepts both work/school and personal Microsoft accounts
+  private get tenant(): string {
+    return process.env.MICROSOFT_TENANT_ID || 'common'
+  }
+
+  private get redirectUri(): string {
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL
+    if (!appUrl) throw new Error('NEXT_PUBLIC_APP_URL not configured')
+    return `${appUrl}/api/auth/outlook/callback`
+  }
+
+  private get tokenUrl(): string {
+    return `${MICROSOFT_LOGIN_URL}/${this.tenant}/oauth2/v2.0/token`
+  }
+
+  /**
+   * Generate Microsoft OAuth authorization URL
+   */
+  getAuthUrl(state: string): string {
+    const params = new URLSearchParams({
+      client_id: this.clientId,
+      redirect_uri: this.redirectUri,
+      response_type: 'code',
+      response_mode: 'query',
+      scope: SCOPES,
+      prompt: 'select_account',
+      state,
+    })
+    return `${MICROSOFT_LOGIN_URL}/${this.tenant}/oauth2/v2.0/authorize?${params.toString()}`
+  }
+
+  /**
+   * Exchange authorization code for tokens
+   */
+  async exchangeCodeForTokens(code: string): Promise<TokenSet> {
+    const response = await fetch(this.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        redirect_uri: this.redirectUri,
+        grant_type: 'authorization_code',
+        scope: SCOPES,
+        code,
+      }),
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(`Failed to exchange code: ${error}`)
+    }
+
+    const data = await response.json()
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: data.expires_in
+        ? new Date(Date.now() + data.expires_in * 1000)
+        : null,
+    }
+  }
+
+  /**
+   * Refresh expired access token
+   */
+  async refreshTokens(refreshToken: string): Promise<TokenSet> {
+    const response = await fetch(this.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        grant_type: 'refresh_token',
+        scope: SCOPES,
+        refresh_token: refreshToken,
+      }),
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(`Failed to refresh token: ${error}`)
+    }
+
+    const data = await response.json()
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token || refreshToken, // Microsoft rotates refresh tokens, but keep the old one if absent
+      expiresAt: data.expires_in
+        ? new Date(Date.now() + data.expires_in * 1000)
+        : null,
+    }
+  }
+
+  /**
+   * Set tokens for authenticated requests
+   */
+  setTokens(tokens: TokenSet): void {
+    this.tokens = tokens
+  }
+
+  /**
+   * Make authenticated request to Microsoft Graph API
+   * Accepts either a path relative to the Graph root or an absolute @odata.nextLink
+   */
+  private async apiRequest<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<T> {
+    if (!this.tokens) {
+      console.error('[OutlookCalendar] API request failed: Tokens not set')
+      throw new Error('Tokens not set. Call setTokens() first.')
+    }
+
+    const url = endpoint.startsWith('https://') ? endpoint : `${GRAPH_API}${endpoint}`
+    console.log('[OutlookCalendar] API request:', {
+      method: options.method || 'GET',
+      endpoint: endpoint.replace(GRAPH_API, ''),
+    })
+
+    const response = await fetch(url, {
+      ...options,
+      headers: {
+        Authorization: `Bearer ${this.tokens.accessToken}`,
+        'Content-Type': 'application/json',
+        // Return all event times in UTC so they can be parsed unambiguously
+        Prefer: 'outlook.timezone="UTC"',
+        ...options.headers,
+      },
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      console.error('[OutlookCalendar] API error:', {
+        status: response.status,
+        statusText: response.statusText,
+        error,
+        endpoint,
+      })
+      throw new CalendarApiError(`Outlook Calendar API error: ${error}`, response.status)
+    }
+
+    // Handle 204 No Content
+    if (response.status === 204) {
+      return {} as T
+    }
+
+    return response.json()
+  }
+
+  /**
+   * List all calendars the user has access to
+   */
+  async listCalendars(): Promise<Calendar[]> {
+    const data = await this.apiRequest<{
+      value: Array<{
+        id: string
+        name: string
+        isDefaultCalendar?: boolean
+      }>
+    }>('/me/calendars?$select=id,name,isDefaultCalendar')
+
+    // Graph doesn't expose a per-calendar timezone, use the mailbox setting
+    let timeZone: string | undefined
+    try {
+      const settings = await this.apiRequest<{ timeZone?: string }>('/me/mailboxSettings')
+      timeZone = settings.timeZone
+    } catch {
+      // mailboxSettings requires MailboxSettings.Read on some tenants - not critical
+    }
+
+    return data.value.map((cal) => ({
+      id: cal.id,
+      name: cal.name,
+      primary: cal.isDefaultCalendar || false,
+      timeZone,
+    }))
+  }
+
+  /**
+   * Get busy times for a calendar in a date range
+   * Uses calendarView (expands recurring events) and treats anything not marked free as busy
+   */
+  async getFreeBusy(
+    calendarId: string,
+    start: Date,
+    end: Date
+  ): Promise<BusySlot[]> {
+    const params = new URLSearchParams({
+      startDateTime: start.toISOString(),
+      endDateTime: end.toISOString(),
+      $select: 'start,end,showAs,isCancelled',
+      $top: '250',
+    })
+
+    const busySlots: BusySlot[] = []
+    let nextLink: string | undefined =
+      `/me/calendars/${encodeURIComponent(calendarId)}/calendarView?${params.toString()}`
+
+    while (nextLink) {
+      const data: { value: GraphEvent[]; '@odata.nextLink'?: string } =
+        await this.apiRequest(nextLink)
+
+      for (const event of data.value) {
+        if (event.isCancelled || event.showAs === 'free') continue
+        busySlots.push({
+          start: this.parseGraphDateTime(event.start),
+          end: this.parseGraphDateTime(event.end),
+        })
+      }
+
+      nextLink = data['@odata.nextLink']
+    }
+
+    return busySlots
+  }
+
+  /**
+   * Create a calendar event
+   */
+  async createEvent(
+    calendarId: string,
+    event: EventInput
+  ): Promise<CalendarEvent> {
+    console.log('[OutlookCalendar] createEvent called:', {
+      calendarId,
+      summary: event.summary,
+      attendeeEmail: event.attendeeEmail || 'NO ATTENDEE - NO INVITE WILL BE SENT',
+      addTeamsMeeting: event.addTeamsMeeting,
+      timeZone: event.timeZone,
+      start: event.start.toISOString(),
+      end: event.end.toISOString(),
+    })
+
+    if (!event.attendeeEmail) {
+      console.warn('[OutlookCalendar] WARNING: No attendee email provided - calendar invite will NOT be sent to contact')
+    }
+
+    const eventBody = this.buildEventBody(event)
+
+    // Graph sends invitations to attendees automatically on create
+    if (event.addTeamsMeeting) {
+      eventBody.isOnlineMeeting = true
+      eventBody.onlineMeetingProvider = 'teamsForBusiness'
+    }
+
+    const data = await this.apiRequest<GraphEvent>(
+      `/me/calendars/${encodeURIComponent(calendarId)}/events`,
+      {
+        method: 'POST',
+        body: JSON.stringify(eventBody),
+      }
+    )
+
+    console.log('[OutlookCalendar] Event created successfully:', {
+      eventId: data.id,
+      webLink: data.webLink,
+      hasTeamsLink: !!data.onlineMeeting?.joinUrl,
+    })
+
+    return this.toCalendarEvent(data)
+  }
+
+  /**
+   * Update an existing calendar event
+   */
+  async updateEvent(
+    calendarId: string,
+    eventId: string,
+    event: EventInput
+  ): Promise<CalendarEvent> {
+    console.log('[OutlookCalendar] updateEvent called:', {
+      calendarId,
+      eventId,
+      summary: event.summary,
+      attendeeEmail: event.attendeeEmail || 'NO ATTENDEE - NO INVITE WILL BE SENT',
+      timeZone: event.timeZone,
+      start: event.start.toISOString(),
+      end: event.end.toISOString(),
+    })
+
+    const updateBody = this.buildEventBody(event)
+
+    // PATCH keeps the existing Teams meeting; only add one if explicitly requested
+    if (event.addTeamsMeeting) {
+      updateBody.isOnlineMeeting = true
+      updateBody.onlineMeetingProvider = 'teamsForBusiness'
+    }
+
+    const data = await this.apiRequest<GraphEvent>(
+      `/me/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(updateBody),
+      }
+    )
+
+    console.log('[OutlookCalendar] Event updated successfully:', {
+      eventId: data.id,
+      webLink: data.webLink,
+    })
+
+    return this.toCalendarEvent(data)
+  }
+
+  /**
+   * Delete a calendar event
+   */
+  async deleteEvent(calendarId: string, eventId: string): Promise<void> {
+    await this.apiRequest(
+      `/me/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`,
+      { method: 'DELETE' }
+    )
+  }
+
+  /**
+   * Get a single event; deleted events 404, cancelled meetings are flagged isCancelled
+   */
+  async getEvent(calendarId: string, eventId: string): Promise<CalendarEvent | null> {
+    let data: GraphEvent
+
+    try {
+      data = await this.apiRequest<GraphEvent>(
+        `/me/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}?$select=subject,bodyPreview,start,end,webLink,isCancelled`
+      )
+    } catch (error) {
+      if (error instanceof CalendarApiError && error.status === 404) {
+        return null
+      }
+      throw error
+    }
+
+    return data.isCancelled ? null : this.toCalendarEvent(data)
+  }
+
+  /**
+   * Subscribe to changes to the calendar's events
+   * Graph caps event subscriptions at just under three days, so they're renewed often.
+   * Graph first calls the webhook with a validationToken it must echo back.
+   */
+  async watchCalendar(calendarId: string, channel: CalendarWatchChannel): Promise<CalendarWatch> {
+    const expiresAt = new Date(Date.now() + MAX_SUBSCRIPTION_MINUTES * 60 * 1000)
+
+    const data = await this.apiRequest<{ id: string; expirationDateTime: string }>('/subscriptions', {
+      method: 'POST',
+      body: JSON.stringify({
+        changeType: 'updated,deleted',
+        notificationUrl: channel.address,
+        resource: `/me/calendars/${calendarId}/events`,
+        expirationDateTime: expiresAt.toISOString(),
+        clientState: channel.token,
+      }),
+    })
+
+    console.log('[OutlookCalendar] Subscription created:', {
+      subscriptionId: data.id,
+      expiration: data.expirationDateTime,
+    })
+
+    return { id: data.id, expiresAt: new Date(data.expirationDateTime) }
+  }
+
+  /**
+   * Delete a subscription
+   */
+  async stopWatch(watch: CalendarWatch): Promise<void> {
+    await this.apiRequest(`/subscriptions/${encodeURIComponent(watch.id)}`, { method: 'DELETE' })
+  }
+
+  /**
+   * Build the Graph event payload shared by create and update
+   * Times are sent in UTC; Outlook renders them in each attendee's own timezone
+   */
+  private buildEventBody(event: EventInput): Record<string, unknown> {
+    const attendees = event.attendeeEmail
+      ? [{
+          emailAddress: { address: event.attendeeEmail, name: event.attendeeName },
+          type: 'required',
+        }]
+      : []
+
+    return {
+      subject: event.summary,
+      body: {
+        contentType: 'text',
+        content: event.description || '',
+      },
+      start: this.toGraphDateTime(event.start),
+      end: this.toGraphDateTime(event.end),
+      ...(event.location ? { location: { displayName: event.location } } : {}),
+      attendees,
+    }
+  }
+
+  private toGraphDateTime(date: Date): GraphDateTime {
+    // Graph expects a local date-time string plus a separate timeZone field
+    return { dateTime: date.toISOString().replace('Z', ''), timeZone: 'UTC' }
+  }
+
+  private parseGraphDateTime(value: GraphDateTime): Date {
+    // With the UTC Prefer header Graph returns e.g. "2026-01-20T14:00:00.0000000"
+    const hasOffset = /(?:Z|[+-]\d{2}:\d{2})$/.test(value.dateTime)
+    return new Date(hasOffset ? value.dateTime : `${value.dateTime}Z`)
+  }
+
+  private toCalendarEvent(data: GraphEvent): CalendarEvent {
+    return {
+      id: data.id,
+      summary: data.subject,
+      description: data.bodyPreview,
+      start: this.parseGraphDateTime(data.start),
+      end: this.parseGraphDateTime(data.end),
+      htmlLink: data.webLink,
+    }
+  }
+}
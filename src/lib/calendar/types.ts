@@ -3,7 +3,7 @@
  * Provider-agnostic interfaces for calendar operations
  */
 
-export type CalendarProviderType = 'google' | 'outlook'
+export type CalendarProviderType = 'google' | 'outlook' | 'caldav' | 'ics' | 'memory'
 
 export interface TokenSet {
   accessToken: string
@@ -37,7 +37,10 @@ export interface EventInput {
   attendeeEmail?: string
   attendeeName?: string
   timeZone?: string
+  /** Free-text location, e.g. an office address or dial-in number */
+  location?: string
   addGoogleMeet?: boolean
+  addTeamsMeeting?: boolean
 }
 
 export interface CalendarEvent {
@@ -49,6 +52,42 @@ export interface CalendarEvent {
   htmlLink?: string
 }
 
+/**
+ * A push-notification channel on a calendar (Google watch channel, Graph subscription)
+ */
+export interface CalendarWatch {
+  /** Channel or subscription ID, sent back with every notification */
+  id: string
+  /** Google's ID for the watched resource, needed to stop the channel */
+  resourceId?: string
+  expiresAt: Date
+}
+
+export interface CalendarWatchChannel {
+  /** Our ID for the new channel (Google); Graph assigns its own */
+  id: string
+  /** Public webhook URL notifications are posted to */
+  address: string
+  /** Secret sent back with every notification, to check it's genuine */
+  token: string
+}
+
+/**
+ * Whether the lead turned up to a meeting, for providers that record attendance
+ */
+export type EventAttendance = 'attended' | 'absent'
+
+/**
+ * Error from a provider's API, keeping the HTTP status so callers can tell
+ * "not found" apart from other failures
+ */
+export class CalendarApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message)
+    this.name = 'CalendarApiError'
+  }
+}
+
 /**
  * Abstract interface that all calendar providers must implement
  */
@@ -67,4 +106,13 @@ export interface CalendarProvider {
   createEvent(calendarId: string, event: EventInput): Promise<CalendarEvent>
   updateEvent(calendarId: string, eventId: string, event: EventInput): Promise<CalendarEvent>
   deleteEvent(calendarId: string, eventId: string): Promise<void>
+  /** Read one event; null once it has been deleted or cancelled */
+  getEvent(calendarId: string, eventId: string): Promise<CalendarEvent | null>
+
+  // Change notifications (only providers with push support)
+  watchCalendar?(calendarId: string, channel: CalendarWatchChannel): Promise<CalendarWatch>
+  stopWatch?(watch: CalendarWatch): Promise<void>
+
+  // Attendance (only providers that record who joined); null = not known yet
+  getAttendance?(calendarId: string, eventId: string): Promise<EventAttendance | null>
 }
@@ -0,0 +1,133 @@
+/**
+ * Calendar Change Notifications
+ * Opens, renews and closes push-notification channels on booking calendars
+ *
+ * Google (events.watch) and Outlook (Graph subscriptions) post to our webhooks when an
+ * event changes, so appointments moved or deleted in the calendar are picked up within
+ * seconds. Channels expire after days, so the calendar sync job renews them. CalDAV
+ * has no push; those connections rely on the sync job alone.
+ */
+
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import { createClient } from '@/lib/supabase/server'
+import { getCalendarConnectionForClient, ResolvedCalendarConnection } from './index'
+import { CalendarConnection } from '@/types/database'
+
+/** Channels expiring sooner than this are replaced by the sync job */
+export const WATCH_RENEWAL_HOURS = 24
+
+/**
+ * Public webhook URL for a provider's notifications
+ * Null without a public https app URL, since providers won't post to anything else
+ */
+export function getCalendarWebhookUrl(provider: string): string | null {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL
+  if (!appUrl || !appUrl.startsWith('https://')) {
+    return null
+  }
+  return `${appUrl}/api/webhooks/calendar/${provider}`
+}
+
+/**
+ * Check the secret a notification carries against the one its channel was opened with
+ */
+export function isCalendarWatchToken(connection: CalendarConnection, token: string | null | undefined): boolean {
+  if (!connection.watch_token || !token) {
+    return false
+  }
+  const expected = Buffer.from(connection.watch_token)
+  const actual = Buffer.from(token)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+/**
+ * Whether a connection can have a channel and doesn't have a current one
+ */
+export function needsCalendarWatch(calendar: ResolvedCalendarConnection, now: Date = new Date()): boolean {
+  const { connection, provider } = calendar
+  if (!provider.watchCalendar || !connection.calendar_id || !getCalendarWebhookUrl(connection.provider)) {
+    return false
+  }
+  if (!connection.watch_id || !connection.watch_expires_at) {
+    return true
+  }
+  return new Date(connection.watch_expires_at).getTime() < now.getTime() + WATCH_RENEWAL_HOURS * 60 * 60 * 1000
+}
+
+/**
+ * Open a new channel on the connection's booking calendar, closing the old one
+ * Returns false when the provider has no push support or the app has no public URL
+ */
+export async function watchCalendarConnection(calendar: ResolvedCalendarConnection): Promise<boolean> {
+  const { connection, provider } = calendar
+  const address = getCalendarWebhookUrl(connection.provider)
+
+  if (!provider.watchCalendar || !connection.calendar_id || !address) {
+    return false
+  }
+
+  const token = randomBytes(24).toString('base64url')
+  const watch = await provider.watchCalendar(connection.calendar_id, { id: randomUUID(), address, token })
+
+  // The new channel is live, so a failure to close the old one only means a few extra notifications
+  if (connection.watch_id && provider.stopWatch) {
+    try {
+      await provider.stopWatch({
+        id: connection.watch_id,
+        resourceId: connection.watch_resource_id || undefined,
+        expiresAt: new Date(connection.watch_expires_at || Date.now()),
+      })
+    } catch (error) {
+      console.warn('[CalendarWatch] Failed to close old channel:', {
+        connectionId: connection.id,
+        watchId: connection.watch_id,
+        error: error instanceof Error ? error.message : error,
+      })
+    }
+  }
+
+  const supabase = await createClient()
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('calendar_connections')
+    .update({
+      watch_id: watch.id,
+      watch_resource_id: watch.resourceId || null,
+      watch_token: token,
+      watch_expires_at: watch.expiresAt.toISOString(),
+    })
+    .eq('id', connection.id)
+
+  if (error) {
+    throw new Error(`Failed to save calendar watch: ${error.message}`)
+  }
+
+  console.log('[CalendarWatch] Watching calendar:', {
+    connectionId: connection.id,
+    provider: connection.provider,
+    watchId: watch.id,
+    expiresAt: watch.expiresAt.toISOString(),
+  })
+
+  return true
+}
+
+/**
+ * (Re)start change notifications for a client's or host's calendar after it's connected
+ * or a different booking calendar is chosen. Failures are logged, not thrown - the
+ * sync job still reconciles the calendar and retries the channel.
+ */
+export async function watchClientCalendar(clientId: string, hostId: string | null = null): Promise<void> {
+  try {
+    const calendar = await getCalendarConnectionForClient(clientId, hostId)
+    if (calendar) {
+      await watchCalendarConnection(calendar)
+    }
+  } catch (error) {
+    console.error('[CalendarWatch] Failed to watch calendar:', {
+      clientId,
+      hostId,
+      error: error instanceof Error ? error.message : error,
+    })
+  }
+}
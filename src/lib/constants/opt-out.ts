@@ -18,6 +18,13 @@ export const TWILIO_STANDARD_OPT_OUT = [
   'quit'
 ] as const
 
+/**
+ * Standard keywords that are also everyday words in a booking conversation
+ * ("I need to cancel", "end of the week", "quite busy"), so they only count as
+ * an opt-out when they are the whole message.
+ */
+const EXACT_MATCH_ONLY_KEYWORDS: readonly string[] = ['cancel', 'end', 'quit']
+
 /**
  * Extended opt-out phrases that indicate user wants to stop receiving messages.
  * These are more conversational variations that our AI system detects.
@@ -70,8 +77,14 @@ export function isOptOutMessage(message: string, strictMode = false): boolean {
     if (normalized === keyword) return true
   }
 
+  // Then the unambiguous standard keywords as whole words ("please stop")
+  for (const keyword of TWILIO_STANDARD_OPT_OUT) {
+    if (EXACT_MATCH_ONLY_KEYWORDS.includes(keyword)) continue
+    if (new RegExp(`\\b${keyword}\\b`).test(normalized)) return true
+  }
+
   // Then check for phrase matches
-  for (const phrase of ALL_OPT_OUT_KEYWORDS) {
+  for (const phrase of EXTENDED_OPT_OUT_PHRASES) {
     if (normalized.includes(phrase)) return true
   }
 
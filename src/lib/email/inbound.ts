@@ -0,0 +1,100 @@
+/**
+ * Inbound Email
+ * Normalizes inbound-parse webhook payloads into an InboundEmail
+ *
+ * Accepts the two common shapes: SendGrid Inbound Parse (from, to, subject,
+ * text, html and a raw headers block) and Mailgun routes (sender, recipient,
+ * body-plain, body-html and the threading headers as their own fields). Any
+ * other relay can post the SendGrid field names as form data or JSON.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto'
+import { InboundEmail } from './types'
+import { parseAddress, parseHeaders, parseMessageIds } from './mime'
+
+/**
+ * Build an InboundEmail from the webhook's fields
+ * Returns null when there is no usable sender
+ */
+export function parseInboundEmail(fields: Record<string, string>): InboundEmail | null {
+  const headers = fields.headers ? parseHeaders(fields.headers) : parseMailgunHeaders(fields['message-headers'])
+
+  const from = parseAddress(fields.from || fields.sender || headers.from || '')
+  if (!from) {
+    return null
+  }
+
+  const messageId = parseMessageIds(fields['Message-Id'] || headers['message-id'])[0] || null
+  const inReplyTo = parseMessageIds(fields['In-Reply-To'] || headers['in-reply-to'])[0] || null
+  const references = parseMessageIds(fields.References || headers.references)
+
+  return {
+    from,
+    to: fields.recipient || fields.to || headers.to || '',
+    subject: fields.subject || headers.subject || '',
+    text: fields.text || fields['body-plain'] || '',
+    html: fields.html || fields['body-html'] || undefined,
+    messageId,
+    inReplyTo,
+    references,
+    headers,
+  }
+}
+
+/**
+ * Mailgun sends headers as a JSON array of [name, value] pairs
+ */
+function parseMailgunHeaders(raw: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {}
+  if (!raw) return headers
+
+  try {
+    const pairs = JSON.parse(raw) as Array<[string, string]>
+    for (const [name, value] of pairs) {
+      const key = name.toLowerCase()
+      if (!(key in headers)) {
+        headers[key] = value
+      }
+    }
+  } catch {
+    // Malformed headers - fall back to the individual fields
+  }
+
+  return headers
+}
+
+/**
+ * Out-of-office and other automatic replies, which must never get an AI response
+ * (RFC 3834 Auto-Submitted, plus the headers Exchange and list servers use)
+ */
+export function isAutoReply(email: InboundEmail): boolean {
+  const autoSubmitted = email.headers['auto-submitted']?.toLowerCase()
+  if (autoSubmitted && autoSubmitted !== 'no') return true
+
+  const precedence = email.headers.precedence?.toLowerCase()
+  if (precedence && ['bulk', 'junk', 'list', 'auto_reply'].includes(precedence)) return true
+
+  return !!(
+    email.headers['x-autoreply'] ||
+    email.headers['x-autorespond'] ||
+    email.headers['x-auto-response-suppress']?.toLowerCase().includes('all')
+  )
+}
+
+/**
+ * Check the shared secret the inbound-parse relay is configured with
+ * (EMAIL_WEBHOOK_SECRET, sent as ?secret= or a Bearer token)
+ */
+export function isValidEmailWebhookSecret(provided: string | null): boolean {
+  const secret = process.env.EMAIL_WEBHOOK_SECRET
+  if (!secret) {
+    console.warn('Cannot validate email webhook: EMAIL_WEBHOOK_SECRET not configured')
+    return false
+  }
+  if (!provided) return false
+
+  // Compare digests so differing lengths don't short-circuit
+  const expected = createHash('sha256').update(secret).digest()
+  const actual = createHash('sha256').update(provided).digest()
+  return timingSafeEqual(expected, actual)
+}
@@ -0,0 +1,176 @@
+/**
+ * Email Channel Module
+ * Provider factory and sending for workflows on the email channel
+ */
+
+export * from './types'
+export { SmtpEmailProvider } from './providers/smtp'
+export type { SmtpConfig } from './providers/smtp'
+export { LocalEmailProvider } from './providers/local'
+export type { LocalSentEmail } from './providers/local'
+export { formatAddress, parseAddress, parseMessageIds, parseHeaders, buildMimeMessage } from './mime'
+export { extractReplyText, htmlToText } from './reply-parser'
+export { parseInboundEmail, isAutoReply, isValidEmailWebhookSecret } from './inbound'
+export {
+  DEFAULT_EMAIL_SUBJECT,
+  getThreadRootId,
+  getOutboundMessageId,
+  parseThreadContactId,
+  buildReferences,
+  getEmailSubject,
+} from './threading'
+
+import { EmailAddress, EmailProvider, EmailSendResult } from './types'
+import { SmtpEmailProvider } from './providers/smtp'
+import { LocalEmailProvider } from './providers/local'
+import { getAddressDomain } from './mime'
+import {
+  getThreadRootId,
+  getOutboundMessageId,
+  buildReferences,
+  getEmailSubject,
+} from './threading'
+import { createClient } from '@/lib/supabase/server'
+import type { Client, Contact, Workflow } from '@/types/database'
+
+// Lazy initialization so the local outbox survives between sends
+let emailProvider: EmailProvider | null = null
+
+/**
+ * Check if an SMTP server is configured
+ * Without one, emails go to the local provider and are only logged
+ */
+export function isEmailConfigured(): boolean {
+  return !!process.env.SMTP_HOST
+}
+
+/**
+ * Get the email provider for this deployment
+ */
+export function getEmailProvider(): EmailProvider {
+  if (!emailProvider) {
+    if (isEmailConfigured()) {
+      const port = parseInt(process.env.SMTP_PORT || '587', 10)
+      emailProvider = new SmtpEmailProvider({
+        host: process.env.SMTP_HOST!,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+      })
+    } else {
+      emailProvider = new LocalEmailProvider()
+    }
+  }
+  return emailProvider
+}
+
+/**
+ * The address emails are sent from, shown under the client's brand name
+ */
+export function getEmailFromAddress(brandName?: string | null): EmailAddress {
+  return {
+    address: process.env.EMAIL_FROM_ADDRESS || 'bookings@localhost',
+    ...(brandName ? { name: brandName } : {}),
+  }
+}
+
+/**
+ * Where replies should go, when it differs from the From address
+ * (e.g. the inbound parse address that posts to /api/webhooks/email/inbound)
+ */
+function getReplyToAddress(brandName?: string | null): EmailAddress | undefined {
+  const address = process.env.EMAIL_REPLY_TO
+  return address ? { address, ...(brandName ? { name: brandName } : {}) } : undefined
+}
+
+type ContactWithWorkflow = Contact & {
+  workflows: Workflow & {
+    clients: Client
+  }
+}
+
+interface SendContactEmailParams {
+  contactId: string
+  /** The outbound messages row being sent; its id becomes the Message-ID */
+  messageRecordId: string
+  text: string
+}
+
+/**
+ * Send a message to a contact by email, threaded onto their conversation
+ * Updates the messages row with the outcome
+ */
+export async function sendContactEmail(params: SendContactEmailParams): Promise<EmailSendResult> {
+  const supabase = createClient()
+
+  const { data: contactData } = await supabase
+    .from('contacts')
+    .select(`
+      *,
+      workflows (
+        *,
+        clients (*)
+      )
+    `)
+    .eq('id', params.contactId)
+    .single()
+
+  const contact = contactData as unknown as ContactWithWorkflow | null
+
+  let result: EmailSendResult
+
+  if (!contact) {
+    result = { success: false, error: `Contact not found: ${params.contactId}` }
+  } else if (!contact.email) {
+    result = { success: false, error: 'Contact has no email address' }
+  } else {
+    const brandName = contact.workflows.clients?.brand_name || contact.workflows.clients?.name || ''
+    const from = getEmailFromAddress(brandName)
+    const domain = getAddressDomain(from.address)
+
+    // Everything already in the thread, oldest first
+    const { data: threadData } = await supabase
+      .from('messages')
+      .select('direction, email_message_id')
+      .eq('contact_id', params.contactId)
+      .not('email_message_id', 'is', null)
+      .neq('id', params.messageRecordId)
+      .order('created_at', { ascending: true })
+
+    const thread = (threadData || []) as Array<{ direction: string; email_message_id: string }>
+    const lastInbound = [...thread].reverse().find((m) => m.direction === 'inbound')
+    const rootId = getThreadRootId(contact.id, domain)
+
+    const to: EmailAddress = {
+      address: contact.email,
+      ...(contact.first_name ? { name: [contact.first_name, contact.last_name].filter(Boolean).join(' ') } : {}),
+    }
+
+    result = await getEmailProvider().send({
+      from,
+      to,
+      replyTo: getReplyToAddress(brandName),
+      subject: getEmailSubject(
+        contact.workflows.email_subject,
+        { first_name: contact.first_name, brand_name: brandName },
+        thread.length > 0
+      ),
+      text: params.text,
+      messageId: getOutboundMessageId(params.messageRecordId, domain),
+      inReplyTo: lastInbound?.email_message_id,
+      references: buildReferences(rootId, thread.map((m) => m.email_message_id)),
+    })
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await (supabase as any)
+    .from('messages')
+    .update(result.success
+      ? { status: 'sent', email_message_id: result.messageId, error_message: null }
+      : { status: 'failed', error_message: result.error })
+    .eq('id', params.messageRecordId)
+
+  return result
+}
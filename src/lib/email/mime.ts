@@ -0,0 +1,117 @@
+/**
+ * MIME Helpers
+ * Builds outgoing RFC 5322 messages and reads the headers of incoming ones
+ *
+ * Outgoing mail is always a single text/plain part, base64-encoded so any
+ * characters the AI writes survive every relay.
+ */
+
+import { EmailAddress, OutboundEmail } from './types'
+
+/** Header values must not be able to start a new header */
+function sanitizeHeader(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim()
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded-word when it isn't plain ASCII
+ */
+export function encodeHeaderValue(value: string): string {
+  const clean = sanitizeHeader(value)
+  // eslint-disable-next-line no-control-regex
+  if (/^[\x20-\x7e]*$/.test(clean)) {
+    return clean
+  }
+  return `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`
+}
+
+/**
+ * Format an address for a header, e.g. "Acme Dental" <bookings@acme.com>
+ */
+export function formatAddress(address: EmailAddress): string {
+  const email = sanitizeHeader(address.address)
+  if (!address.name) {
+    return `<${email}>`
+  }
+  const encoded = encodeHeaderValue(address.name)
+  const name = encoded.startsWith('=?')
+    ? encoded
+    : `"${encoded.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+  return `${name} <${email}>`
+}
+
+/**
+ * Parse "Name <address>" or a bare address
+ */
+export function parseAddress(value: string): EmailAddress | null {
+  const trimmed = value.trim()
+  const angled = trimmed.match(/^(.*?)\s*<([^<>\s]+@[^<>\s]+)>\s*$/)
+  if (angled) {
+    const name = angled[1].trim().replace(/^"(.*)"$/, '$1').trim()
+    return { address: angled[2].toLowerCase(), ...(name ? { name } : {}) }
+  }
+  const bare = trimmed.match(/^[^\s<>@]+@[^\s<>@]+$/)
+  return bare ? { address: trimmed.toLowerCase() } : null
+}
+
+/**
+ * Pull the Message-IDs out of an In-Reply-To or References header
+ */
+export function parseMessageIds(value: string | null | undefined): string[] {
+  if (!value) return []
+  return Array.from(value.matchAll(/<[^<>\s]+>/g)).map((m) => m[0])
+}
+
+/**
+ * Parse a raw header block into a map of lowercased names to values
+ * Folded lines are unfolded; repeated headers keep the first value
+ */
+export function parseHeaders(raw: string): Record<string, string> {
+  const headers: Record<string, string> = {}
+  const unfolded = raw.replace(/\r\n/g, '\n').replace(/\n[ \t]+/g, ' ')
+
+  for (const line of unfolded.split('\n')) {
+    const colon = line.indexOf(':')
+    if (colon <= 0) continue
+    const name = line.slice(0, colon).trim().toLowerCase()
+    if (!(name in headers)) {
+      headers[name] = line.slice(colon + 1).trim()
+    }
+  }
+
+  return headers
+}
+
+/**
+ * Domain part of an address, used for Message-IDs
+ */
+export function getAddressDomain(address: string): string {
+  return address.split('@')[1]?.toLowerCase() || 'localhost'
+}
+
+/**
+ * Build the full message (headers and body) for sending
+ */
+export function buildMimeMessage(email: OutboundEmail, date: Date = new Date()): string {
+  const headers = [
+    `From: ${formatAddress(email.from)}`,
+    `To: ${formatAddress(email.to)}`,
+    ...(email.replyTo ? [`Reply-To: ${formatAddress(email.replyTo)}`] : []),
+    `Subject: ${encodeHeaderValue(email.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: ${sanitizeHeader(email.messageId)}`,
+    ...(email.inReplyTo ? [`In-Reply-To: ${sanitizeHeader(email.inReplyTo)}`] : []),
+    ...(email.references && email.references.length > 0
+      ? [`References: ${email.references.map(sanitizeHeader).join(' ')}`]
+      : []),
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+  ]
+
+  const body = Buffer.from(email.text.replace(/\r?\n/g, '\r\n'), 'utf8')
+    .toString('base64')
+    .replace(/.{76}/g, '$&\r\n')
+
+  return `${headers.join('\r\n')}\r\n\r\n${body}\r\n`
+}
@@ -0,0 +1,44 @@
+/**
+ * Local Email Provider
+ * Implements EmailProvider without sending anything
+ *
+ * Used when no SMTP server is configured (development, tests): emails are logged
+ * and kept in an in-memory outbox for the lifetime of the provider instance.
+ */
+
+import { EmailProvider, EmailProviderType, EmailSendResult, OutboundEmail } from '../types'
+import { buildMimeMessage } from '../mime'
+
+export interface LocalSentEmail extends OutboundEmail {
+  /** The full message as it would have gone out */
+  raw: string
+  sentAt: Date
+}
+
+export class LocalEmailProvider implements EmailProvider {
+  readonly providerType: EmailProviderType = 'local'
+  private outbox: LocalSentEmail[] = []
+
+  async send(email: OutboundEmail): Promise<EmailSendResult> {
+    const sentAt = new Date()
+    this.outbox.push({ ...email, raw: buildMimeMessage(email, sentAt), sentAt })
+
+    console.log(`[TEST MODE] Would send email to ${email.to.address}: ${email.subject}`, {
+      messageId: email.messageId,
+      inReplyTo: email.inReplyTo,
+    })
+
+    return { success: true, messageId: email.messageId }
+  }
+
+  /**
+   * Everything "sent" so far, oldest first
+   */
+  getOutbox(): LocalSentEmail[] {
+    return [...this.outbox]
+  }
+
+  clear(): void {
+    this.outbox = []
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * SMTP Email Provider
+ * Implements EmailProvider against any SMTP submission server
+ *
+ * Speaks just enough SMTP (RFC 5321) to submit a message: implicit TLS on port 465,
+ * STARTTLS elsewhere when the server offers it, and AUTH PLAIN or LOGIN. Credentials are
+ * never sent over an unencrypted connection unless allowInsecureAuth is set. One
+ * connection per message - volumes are conversational, not bulk.
+ */
+
+import net from 'net'
+import tls from 'tls'
+import { EmailProvider, EmailProviderType, EmailSendResult, OutboundEmail } from '../types'
+import { buildMimeMessage } from '../mime'
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  /** Implicit TLS from the start (port 465); otherwise STARTTLS is used when offered */
+  secure: boolean
+  user?: string
+  password?: string
+  /** Authenticate even when the connection isn't encrypted (local relays only) */
+  allowInsecureAuth?: boolean
+  /** Name sent in EHLO */
+  clientName?: string
+}
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+/** An unexpected reply from the server - 4xx codes are temporary, 5xx permanent */
+class SmtpReplyError extends Error {
+  constructor(message: string, readonly code: number) {
+    super(message)
+  }
+}
+
+/** A send that retrying won't fix - an unsafe connection or an unusable address */
+class SmtpPermanentError extends Error {}
+
+const SOCKET_TIMEOUT_MS = 30000
+
+/**
+ * A single SMTP conversation over one socket
+ */
+class SmtpSession {
+  private socket: net.Socket
+  private buffer = ''
+  private lines: string[] = []
+  private pending: {
+    resolve: (reply: SmtpReply) => void
+    reject: (error: Error) => void
+  } | null = null
+  private failure: Error | null = null
+
+  private constructor(socket: net.Socket) {
+    this.socket = socket
+    this.attach(socket)
+  }
+
+  static connect(config: SmtpConfig): Promise<SmtpSession> {
+    return new Promise((resolve, reject) => {
+      const socket = config.secure
+        ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+        : net.connect({ host: config.host, port: config.port })
+
+      const onError = (error: Error) => reject(error)
+      socket.once('error', onError)
+      socket.once(config.secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', onError)
+        resolve(new SmtpSession(socket))
+      })
+      socket.setTimeout(SOCKET_TIMEOUT_MS, () => {
+        socket.destroy(new Error('SMTP connection timed out'))
+      })
+    })
+  }
+
+  /**
+   * Switch the connection to TLS after STARTTLS
+   */
+  async upgrade(host: string): Promise<void> {
+    const plain = this.socket
+    plain.removeAllListeners('data')
+    plain.removeAllListeners('error')
+    plain.removeAllListeners('close')
+
+    this.socket = await new Promise<net.Socket>((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername: host })
+      secure.once('error', reject)
+      secure.once('secureConnect', () => {
+        secure.off('error', reject)
+        resolve(secure)
+      })
+    })
+    this.socket.setTimeout(SOCKET_TIMEOUT_MS, () => {
+      this.socket.destroy(new Error('SMTP connection timed out'))
+    })
+    this.attach(this.socket)
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.failure) {
+      return Promise.reject(this.failure)
+    }
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject }
+      this.flush()
+    })
+  }
+
+  /**
+   * Send a command and check the reply code
+   * Sensitive lines (the whole AUTH exchange) are never echoed back in the error.
+   */
+  async command(line: string, expected: number[], { sensitive = false } = {}): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`)
+    const reply = await this.read()
+    if (!expected.includes(reply.code)) {
+      const shown = sensitive ? 'AUTH' : line.split(' ')[0]
+      throw new SmtpReplyError(`SMTP ${shown} failed: ${reply.code} ${reply.lines.join(' ')}`, reply.code)
+    }
+    return reply
+  }
+
+  write(data: string): void {
+    this.socket.write(data)
+  }
+
+  close(): void {
+    this.socket.end()
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf8')
+      let index: number
+      while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+        this.lines.push(this.buffer.slice(0, index))
+        this.buffer = this.buffer.slice(index + 2)
+      }
+      this.flush()
+    })
+    socket.on('error', (error: Error) => this.fail(error))
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')))
+  }
+
+  /** Resolve the waiting read once a complete (possibly multi-line) reply has arrived */
+  private flush(): void {
+    if (!this.pending) return
+    const last = this.lines.findIndex((line) => /^\d{3}(?: |$)/.test(line))
+    if (last === -1) return
+
+    const replyLines = this.lines.splice(0, last + 1)
+    const { resolve } = this.pending
+    this.pending = null
+    resolve({
+      code: parseInt(replyLines[last].slice(0, 3), 10),
+      lines: replyLines.map((line) => line.slice(4)),
+    })
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error
+    if (this.pending) {
+      const { reject } = this.pending
+      this.pending = null
+      reject(error)
+    }
+  }
+}
+
+export class SmtpEmailProvider implements EmailProvider {
+  readonly providerType: EmailProviderType = 'smtp'
+
+  constructor(private config: SmtpConfig) {}
+
+  async send(email: OutboundEmail): Promise<EmailSendResult> {
+    let session: SmtpSession | null = null
+
+    try {
+      // Addresses go into the envelope commands as-is - a line break would inject commands
+      for (const address of [email.from.address, email.to.address]) {
+        if (!isSafeAddress(address)) {
+          throw new SmtpPermanentError(`Invalid email address: ${JSON.stringify(address)}`)
+        }
+      }
+
+      session = await SmtpSession.connect(this.config)
+      await this.expect(session, [220])
+
+      const clientName = this.config.clientName || 'localhost'
+      let extensions = (await session.command(`EHLO ${clientName}`, [250])).lines
+      let encrypted = this.config.secure
+
+      if (!encrypted && hasExtension(extensions, 'STARTTLS')) {
+        await session.command('STARTTLS', [220])
+        await session.upgrade(this.config.host)
+        extensions = (await session.command(`EHLO ${clientName}`, [250])).lines
+        encrypted = true
+      }
+
+      if (this.config.user) {
+        if (!encrypted && !this.config.allowInsecureAuth) {
+          throw new SmtpPermanentError(
+            'SMTP server does not offer STARTTLS - refusing to send credentials unencrypted (set SMTP_ALLOW_INSECURE_AUTH to allow it)'
+          )
+        }
+        await this.authenticate(session, extensions)
+      }
+
+      await session.command(`MAIL FROM:<${email.from.address}>`, [250])
+      await session.command(`RCPT TO:<${email.to.address}>`, [250, 251])
+      await session.command('DATA', [354])
+
+      // Dot-stuff lines starting with "." so they aren't read as the end of the message
+      const message = buildMimeMessage(email).replace(/^\./gm, '..')
+      session.write(`${message}.\r\n`)
+      await this.expect(session, [250])
+
+      await session.command('QUIT', [221]).catch(() => undefined)
+
+      return { success: true, messageId: email.messageId }
+    } catch (error) {
+      console.error('SMTP send error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error sending email',
+        retryable: error instanceof SmtpReplyError ? error.code < 500 : !(error instanceof SmtpPermanentError),
+      }
+    } finally {
+      session?.close()
+    }
+  }
+
+  private async authenticate(session: SmtpSession, extensions: string[]): Promise<void> {
+    const user = this.config.user || ''
+    const password = this.config.password || ''
+    const auth = extensions.find((line) => line.toUpperCase().startsWith('AUTH'))?.toUpperCase() || ''
+
+    if (auth.includes('PLAIN') || !auth.includes('LOGIN')) {
+      const token = Buffer.from(`\0${user}\0${password}`, 'utf8').toString('base64')
+      await session.command(`AUTH PLAIN ${token}`, [235], { sensitive: true })
+      return
+    }
+
+    await session.command('AUTH LOGIN', [334], { sensitive: true })
+    await session.command(Buffer.from(user, 'utf8').toString('base64'), [334], { sensitive: true })
+    await session.command(Buffer.from(password, 'utf8').toString('base64'), [235], { sensitive: true })
+  }
+
+  private async expect(session: SmtpSession, expected: number[]): Promise<void> {
+    const reply = await session.read()
+    if (!expected.includes(reply.code)) {
+      throw new SmtpReplyError(`SMTP error: ${reply.code} ${reply.lines.join(' ')}`, reply.code)
+    }
+  }
+}
+
+function hasExtension(extensions: string[], name: string): boolean {
+  return extensions.some((line) => line.toUpperCase().split(' ')[0] === name)
+}
+
+/**
+ * A plain local@domain address with no whitespace, line breaks or angle brackets
+ */
+function isSafeAddress(address: string): boolean {
+  return /^[^\s<>@]+@[^\s<>@]+$/.test(address)
+}
@@ -0,0 +1,99 @@
+/**
+ * Reply Parser
+ * Extracts just the new text from an email reply
+ *
+ * Mail clients append the quoted thread and the sender's signature to every reply.
+ * The AI only needs what the lead actually wrote, so everything from the first
+ * quote header or signature marker onwards is dropped.
+ */
+
+/** Lines that start the quoted history */
+const QUOTE_HEADER_PATTERNS: RegExp[] = [
+  /^-{2,}\s*Original Message\s*-{2,}$/i,
+  /^-{2,}\s*Forwarded message\s*-{2,}$/i,
+  /^_{10,}$/,
+  /^Begin forwarded message:?$/i,
+]
+
+/** "On Tue, 3 Mar 2026 at 10:00, Acme <bookings@acme.com> wrote:" - may be wrapped over several lines */
+const WROTE_LINE = /^On\b[\s\S]{0,300}\bwrote:$/i
+
+/** Lines that start a signature */
+const SIGNATURE_PATTERNS: RegExp[] = [
+  /^--\s?$/,
+  /^Sent from my \w+/i,
+  /^Sent from (Mail|Outlook|Yahoo Mail) for /i,
+  /^Get Outlook for /i,
+]
+
+/**
+ * Strip quoted history and signatures from a plain-text email body
+ */
+export function extractReplyText(text: string): string {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n')
+  const kept: string[] = []
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+
+    if (QUOTE_HEADER_PATTERNS.some((pattern) => pattern.test(line))) break
+    if (SIGNATURE_PATTERNS.some((pattern) => pattern.test(lines[i].trimEnd()))) break
+
+    // "On ... wrote:" joined with up to two following lines, for clients that wrap it
+    if (/^On\b/i.test(line)) {
+      const joined = lines.slice(i, i + 3).map((l) => l.trim())
+      if (joined.some((_, n) => WROTE_LINE.test(joined.slice(0, n + 1).join(' ')))) break
+    }
+
+    // Outlook's quoted header block: "From: ..." followed closely by "Sent:" or "Date:"
+    if (/^From:\s/i.test(line)) {
+      const following = lines.slice(i + 1, i + 4).map((l) => l.trim())
+      if (following.some((l) => /^(Sent|Date):\s/i.test(l))) break
+    }
+
+    if (line.startsWith('>')) continue
+
+    kept.push(lines[i])
+  }
+
+  return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim()
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: '\'',
+  nbsp: ' ',
+}
+
+/**
+ * Convert an HTML email body to plain text, cutting the quoted thread first
+ * Used when a reply arrives without a text/plain part
+ */
+export function htmlToText(html: string): string {
+  let body = html
+
+  // Gmail and most webmail clients wrap the quoted thread in one of these
+  const quoteStart = body.search(/<(div|blockquote)[^>]*class="[^"]*(gmail_quote|yahoo_quoted|moz-cite-prefix)[^"]*"|<blockquote\b|<div[^>]*id="(divRplyFwdMsg|appendonsend)"/i)
+  if (quoteStart !== -1) {
+    body = body.slice(0, quoteStart)
+  }
+
+  return body
+    .replace(/<(script|style|head)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, code: string) => {
+      if (code.startsWith('#')) {
+        const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+        return Number.isFinite(point) ? String.fromCodePoint(point) : entity
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity
+    })
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
@@ -0,0 +1,70 @@
+/**
+ * Email Threading
+ * Message-IDs and subjects that keep each contact's emails in one conversation
+ *
+ * Every outbound email lists a per-contact root id first in References, so mail
+ * clients group the whole exchange into one thread and any reply can be traced
+ * back to its contact even if the lead changes the subject.
+ *
+ * No server imports - the workflow editor uses the default subject.
+ */
+
+export const DEFAULT_EMAIL_SUBJECT = 'Your enquiry with {brand_name}'
+
+/** References are capped so long conversations don't grow the header forever */
+export const MAX_REFERENCES = 10
+
+const THREAD_ROOT_PATTERN = /^<contact-([0-9a-f-]{36})@[^<>\s]+>$/i
+
+/**
+ * The thread's root id: never sent as a Message-ID, only referenced
+ */
+export function getThreadRootId(contactId: string, domain: string): string {
+  return `<contact-${contactId}@${domain}>`
+}
+
+/**
+ * Message-ID for an outbound email, derived from its messages row
+ */
+export function getOutboundMessageId(messageRecordId: string, domain: string): string {
+  return `<${messageRecordId}@${domain}>`
+}
+
+/**
+ * Find a contact id in a reply's In-Reply-To/References, if our root id is there
+ */
+export function parseThreadContactId(messageIds: string[]): string | null {
+  for (const id of messageIds) {
+    const match = id.match(THREAD_ROOT_PATTERN)
+    if (match) {
+      return match[1].toLowerCase()
+    }
+  }
+  return null
+}
+
+/**
+ * Build the References header for an outbound email
+ * The root id always comes first; the rest are the latest ids in the thread
+ */
+export function buildReferences(rootId: string, threadIds: string[]): string[] {
+  const rest = threadIds.filter((id) => id !== rootId).slice(-(MAX_REFERENCES - 1))
+  return [rootId, ...rest]
+}
+
+/**
+ * Subject for a contact's emails: the workflow's template, prefixed with "Re:"
+ * after the first one so the thread reads as a single conversation
+ */
+export function getEmailSubject(
+  template: string | null | undefined,
+  variables: Record<string, string | null | undefined>,
+  isReply: boolean
+): string {
+  const subject = (template?.trim() || DEFAULT_EMAIL_SUBJECT)
+    .replace(/\{\{?(\w+)\}\}?/g, (match, key: string) => {
+      return key in variables ? variables[key] || '' : match
+    })
+    .trim()
+  return isReply && !/^re:/i.test(subject) ? `Re: ${subject}` : subject
+}
@@ -0,0 +1,57 @@
+/**
+ * Email Channel Types
+ * Provider-agnostic interfaces for sending and receiving email
+ */
+
+export type EmailProviderType = 'smtp' | 'local'
+
+export interface EmailAddress {
+  address: string
+  name?: string
+}
+
+export interface OutboundEmail {
+  from: EmailAddress
+  to: EmailAddress
+  replyTo?: EmailAddress
+  subject: string
+  text: string
+  /** Message-ID for this email, with angle brackets */
+  messageId: string
+  /** Message-ID of the email being replied to */
+  inReplyTo?: string
+  /** Message-IDs of the thread so far, oldest first */
+  references?: string[]
+}
+
+export interface EmailSendResult {
+  success: boolean
+  messageId?: string
+  error?: string
+  /** The failure is temporary (connection problem, 4xx reply) and the send can be retried */
+  retryable?: boolean
+}
+
+/**
+ * An email received on the inbound webhook, normalized from the provider's payload
+ */
+export interface InboundEmail {
+  from: EmailAddress
+  to: string
+  subject: string
+  text: string
+  html?: string
+  messageId: string | null
+  inReplyTo: string | null
+  references: string[]
+  /** Header names lowercased */
+  headers: Record<string, string>
+}
+
+/**
+ * Abstract interface that all email providers must implement
+ */
+export interface EmailProvider {
+  readonly providerType: EmailProviderType
+  send(email: OutboundEmail): Promise<EmailSendResult>
+}
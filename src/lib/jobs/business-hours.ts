@@ -1,9 +1,11 @@
 /**
  * Business Hours Checker
- * Determines if current time is within a client's business hours
+ * Determines if current time is within a client's business hours,
+ * including public holidays and per-date overrides
  */
 
 import { BusinessHours } from '@/types/database'
+import { getHoursForDate, ScheduleExceptions } from '@/lib/calendar/holidays'
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 const DAYS_OF_WEEK = [
@@ -22,31 +24,38 @@ type DayOfWeek = (typeof DAYS_OF_WEEK)[number]
  * Check if the current time is within a client's business hours
  * @param businessHours The client's business hours configuration
  * @param timezone The client's timezone (e.g., 'Europe/London', 'America/New_York')
+ * @param exceptions The client's public holiday set and date overrides
  * @returns true if current time is within business hours
  */
 export function isWithinBusinessHours(
   businessHours: BusinessHours,
-  timezone: string
+  timezone: string,
+  exceptions: ScheduleExceptions = {}
 ): boolean {
   try {
     const now = new Date()
 
-    // Get current time in client's timezone
+    // Get current date and time in client's timezone
     const formatter = new Intl.DateTimeFormat('en-US', {
       timeZone: timezone,
       weekday: 'long',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
       hour: '2-digit',
       minute: '2-digit',
-      hour12: false,
+      hourCycle: 'h23',
     })
 
     const parts = formatter.formatToParts(now)
-    const weekday = parts.find(p => p.type === 'weekday')?.value?.toLowerCase() as DayOfWeek
-    const hour = parseInt(parts.find(p => p.type === 'hour')?.value || '0', 10)
-    const minute = parseInt(parts.find(p => p.type === 'minute')?.value || '0', 10)
+    const getPart = (type: string) => parts.find(p => p.type === type)?.value || ''
+    const weekday = getPart('weekday').toLowerCase() as DayOfWeek
+    const dateKey = `${getPart('year')}-${getPart('month')}-${getPart('day')}`
+    const hour = parseInt(getPart('hour') || '0', 10)
+    const minute = parseInt(getPart('minute') || '0', 10)
 
-    // Get business hours for this day
-    const dayHours = businessHours[weekday]
+    // Get business hours for this date (holidays and overrides first)
+    const dayHours = getHoursForDate(businessHours, dateKey, weekday, exceptions)
 
     if (!dayHours) {
       // No business hours defined for this day (closed)
@@ -76,13 +85,14 @@ export function isWithinBusinessHours(
  */
 export function getNextBusinessHoursStart(
   businessHours: BusinessHours,
-  timezone: string
+  timezone: string,
+  exceptions: ScheduleExceptions = {}
 ): Date | null {
   try {
     const now = new Date()
 
-    // Check today and the next 7 days
-    for (let dayOffset = 0; dayOffset < 7; dayOffset++) {
+    // Check today and the next two weeks (holiday closures can span a whole week)
+    for (let dayOffset = 0; dayOffset < 15; dayOffset++) {
       const checkDate = new Date(now.getTime() + dayOffset * 24 * 60 * 60 * 1000)
 
       // Get day of week in client's timezone
@@ -91,8 +101,14 @@ export function getNextBusinessHoursStart(
         weekday: 'long',
       })
       const weekday = formatter.format(checkDate).toLowerCase() as DayOfWeek
+      const dateKey = new Intl.DateTimeFormat('en-CA', {
+        timeZone: timezone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+      }).format(checkDate)
 
-      const dayHours = businessHours[weekday]
+      const dayHours = getHoursForDate(businessHours, dateKey, weekday, exceptions)
       if (!dayHours) continue
 
       // Parse start time
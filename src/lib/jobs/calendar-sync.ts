@@ -0,0 +1,352 @@
+/**
+ * Calendar Sync Job
+ * Brings appointments back in line with events moved or deleted directly in the calendar
+ *
+ * Appointments are matched to calendar events by calendar_event_id. A deleted event
+ * cancels the appointment; a moved one moves it (reminders start over for the new
+ * time). Either way a system message is left in the contact's thread, and if the
+ * client has opted in the lead is texted about the change.
+ *
+ * Push notifications reconcile a connection as soon as it changes; this job runs via
+ * Vercel Cron as the fallback (CalDAV has no push, and notifications can be missed)
+ * and renews notification channels before they expire.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { sendOutboundMessage } from '@/lib/messaging/message-sender'
+import { formatSlot } from '@/lib/calendar/availability'
+import { getWritableCalendarConnections, ResolvedCalendarConnection } from '@/lib/calendar'
+import { needsCalendarWatch, watchCalendarConnection } from '@/lib/calendar/watch'
+import { getCalendarFileUrl, isBookingLinkConfigured } from '@/lib/booking-links'
+import { getReminderTemplates, countPassedReminders } from './reminder-templates'
+import { JobResult, JobError } from './types'
+import { Appointment, Contact, Workflow, Client } from '@/types/database'
+
+type SyncAppointment = Appointment & {
+  contacts: Contact
+  workflows: Workflow & {
+    clients: Client
+  }
+}
+
+export interface ReconcileResult {
+  checked: number
+  moved: number
+  cancelled: number
+  failed: number
+  errors: JobError[]
+}
+
+interface ReconcileOptions {
+  /** Only check appointments for these events (when the notification says which changed) */
+  eventIds?: string[]
+  /** Dry run - report changes without applying them */
+  dryRun?: boolean
+}
+
+interface ProcessCalendarSyncOptions {
+  /** Only sync this client's calendars */
+  clientId?: string
+  /** Dry run - don't change appointments, message leads or renew channels */
+  dryRun?: boolean
+}
+
+/**
+ * The booking flow updates the calendar before the appointment row, so a row touched
+ * this recently may just not have caught up yet; the next sync picks it up if not
+ */
+const SETTLE_MS = 2 * 60 * 1000
+
+/**
+ * Check a connection's upcoming appointments against its calendar and apply any changes
+ */
+export async function reconcileCalendarConnection(
+  calendar: ResolvedCalendarConnection,
+  options: ReconcileOptions = {}
+): Promise<ReconcileResult> {
+  const { connection, provider } = calendar
+  const result: ReconcileResult = { checked: 0, moved: 0, cancelled: 0, failed: 0, errors: [] }
+
+  if (!connection.calendar_id) {
+    return result
+  }
+
+  const supabase = createClient()
+  const now = new Date()
+
+  let query = supabase
+    .from('appointments')
+    .select(`
+      *,
+      contacts!inner (*),
+      workflows!inner (
+        *,
+        clients!inner (*)
+      )
+    `)
+    .eq('client_id', connection.client_id)
+    .eq('status', 'confirmed')
+    .not('calendar_event_id', 'is', null)
+    .gt('start_time', now.toISOString())
+    .lt('updated_at', new Date(now.getTime() - SETTLE_MS).toISOString())
+
+  query = connection.host_id ? query.eq('host_id', connection.host_id) : query.is('host_id', null)
+
+  if (options.eventIds) {
+    if (options.eventIds.length === 0) {
+      return result
+    }
+    query = query.in('calendar_event_id', options.eventIds)
+  }
+
+  const { data, error: queryError } = await query
+
+  if (queryError) {
+    console.error('[CalendarSync] Failed to query appointments:', queryError)
+    result.failed++
+    result.errors.push({ contactId: 'query', error: queryError.message, timestamp: new Date() })
+    return result
+  }
+
+  for (const appointment of (data || []) as unknown as SyncAppointment[]) {
+    result.checked++
+
+    try {
+      // Only a definite "gone" counts as deleted - API errors throw and leave the row alone
+      const event = await provider.getEvent(connection.calendar_id, appointment.calendar_event_id!)
+
+      if (!event) {
+        console.log('[CalendarSync] Event deleted from calendar:', {
+          appointmentId: appointment.id,
+          eventId: appointment.calendar_event_id,
+        })
+        if (!options.dryRun) {
+          await cancelFromCalendar(appointment)
+        }
+        result.cancelled++
+        continue
+      }
+
+      const moved =
+        event.start.getTime() !== new Date(appointment.start_time).getTime() ||
+        event.end.getTime() !== new Date(appointment.end_time).getTime()
+
+      if (moved) {
+        console.log('[CalendarSync] Event moved in calendar:', {
+          appointmentId: appointment.id,
+          eventId: appointment.calendar_event_id,
+          from: appointment.start_time,
+          to: event.start.toISOString(),
+        })
+        if (!options.dryRun) {
+          await moveFromCalendar(appointment, event.start, event.end)
+        }
+        result.moved++
+      }
+    } catch (error) {
+      result.failed++
+      result.errors.push({
+        contactId: appointment.contact_id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date(),
+      })
+      console.error(`[CalendarSync] Failed to check ${appointment.id}:`, error)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Renew expiring notification channels and reconcile every booking calendar
+ */
+export async function processCalendarSync(
+  options: ProcessCalendarSyncOptions = {}
+): Promise<JobResult> {
+  const startTime = Date.now()
+  const errors: JobError[] = []
+  let processed = 0
+  let failed = 0
+
+  try {
+    const calendars = (await getWritableCalendarConnections())
+      .filter((c) => !options.clientId || c.connection.client_id === options.clientId)
+
+    console.log(`[CalendarSync] Syncing ${calendars.length} calendars`)
+
+    for (const calendar of calendars) {
+      if (!options.dryRun && needsCalendarWatch(calendar)) {
+        try {
+          await watchCalendarConnection(calendar)
+        } catch (error) {
+          // Not fatal - this run still reconciles the calendar, and the next one retries
+          failed++
+          errors.push({
+            contactId: `connection:${calendar.connection.id}`,
+            error: error instanceof Error ? error.message : 'Failed to watch calendar',
+            timestamp: new Date(),
+          })
+          console.error(`[CalendarSync] Failed to renew channel for ${calendar.connection.id}:`, error)
+        }
+      }
+
+      const result = await reconcileCalendarConnection(calendar, { dryRun: options.dryRun })
+      processed += result.moved + result.cancelled
+      failed += result.failed
+      errors.push(...result.errors)
+    }
+
+    const duration = Date.now() - startTime
+    console.log(`[CalendarSync] Complete: ${processed} appointments updated, ${failed} failed in ${duration}ms`)
+
+    return {
+      success: failed === 0,
+      processed,
+      failed,
+      skipped: 0,
+      errors,
+      duration,
+    }
+  } catch (error) {
+    console.error('[CalendarSync] Fatal error:', error)
+    return {
+      success: false,
+      processed,
+      failed,
+      skipped: 0,
+      errors: [
+        ...errors,
+        {
+          contactId: 'fatal',
+          error: error instanceof Error ? error.message : 'Unknown fatal error',
+          timestamp: new Date(),
+        },
+      ],
+      duration: Date.now() - startTime,
+    }
+  }
+}
+
+/**
+ * The event was deleted: cancel the appointment and reopen the conversation
+ */
+async function cancelFromCalendar(appointment: SyncAppointment): Promise<void> {
+  const supabase = createClient()
+  const contact = appointment.contacts
+  const client = appointment.workflows.clients
+  const when = formatSlot(new Date(appointment.start_time), client.timezone)
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('appointments')
+    .update({
+      status: 'cancelled',
+      cancelled_at: new Date().toISOString(),
+      cancelled_by: 'team',
+      cancellation_reason: 'Deleted from the calendar',
+    })
+    .eq('id', appointment.id)
+    .eq('status', 'confirmed')
+
+  if (error) {
+    throw new Error(`Failed to cancel appointment: ${error.message}`)
+  }
+
+  if (contact.status === 'booked') {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (supabase as any)
+      .from('contacts')
+      .update({ status: 'in_conversation' })
+      .eq('id', contact.id)
+  }
+
+  await recordSystemMessage(appointment, `Appointment on ${when} was deleted from the calendar, so it has been cancelled`)
+
+  const calendarNote = isBookingLinkConfigured()
+    ? ` If it's in your calendar, this removes it: ${getCalendarFileUrl(contact.id, appointment.id, new Date(appointment.end_time))}`
+    : ''
+  await notifyLead(
+    appointment,
+    `Hi ${contact.first_name || 'there'}, unfortunately your appointment with ${client.brand_name || client.name} on ${when} has been cancelled.${calendarNote} Reply here and we'll find another time that works.`
+  )
+}
+
+/**
+ * The event was moved: move the appointment to match
+ */
+async function moveFromCalendar(appointment: SyncAppointment, start: Date, end: Date): Promise<void> {
+  const supabase = createClient()
+  const contact = appointment.contacts
+  const workflow = appointment.workflows
+  const client = workflow.clients
+  const from = formatSlot(new Date(appointment.start_time), client.timezone)
+  const to = formatSlot(start, client.timezone)
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('appointments')
+    .update({
+      start_time: start.toISOString(),
+      end_time: end.toISOString(),
+      // Reminders start over for the new time
+      reminders_sent: countPassedReminders(getReminderTemplates(workflow), start, new Date()),
+      last_reminder_at: null,
+    })
+    .eq('id', appointment.id)
+
+  if (error) {
+    throw new Error(`Failed to move appointment: ${error.message}`)
+  }
+
+  await recordSystemMessage(appointment, `Appointment moved in the calendar: ${from} → ${to}`)
+
+  const calendarNote = isBookingLinkConfigured()
+    ? ` Updated calendar file: ${getCalendarFileUrl(contact.id, appointment.id, end)}`
+    : ''
+  await notifyLead(
+    appointment,
+    `Hi ${contact.first_name || 'there'}, a heads-up that your appointment with ${client.brand_name || client.name} has moved to ${to}.${calendarNote} Reply here if that doesn't work for you.`
+  )
+}
+
+/**
+ * Note the change in the contact's thread (shown to the team, never sent)
+ */
+async function recordSystemMessage(appointment: SyncAppointment, content: string): Promise<void> {
+  const supabase = createClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await (supabase as any).from('messages').insert({
+    contact_id: appointment.contact_id,
+    direction: 'system',
+    channel: appointment.workflows.channel,
+    content,
+    status: 'sent',
+    ai_generated: false,
+  })
+}
+
+/**
+ * Text the lead about the change, if the client wants leads told
+ * sendOutboundMessage refuses contacts who have opted out
+ */
+async function notifyLead(appointment: SyncAppointment, message: string): Promise<void> {
+  if (!appointment.workflows.clients.notify_leads_of_calendar_changes) {
+    return
+  }
+
+  const result = await sendOutboundMessage({
+    contactId: appointment.contact_id,
+    message,
+    channel: appointment.workflows.channel,
+    aiGenerated: false,
+    templatePurpose: 'appointment_update',
+  })
+
+  if (!result.success) {
+    console.error('[CalendarSync] Failed to text lead about calendar change:', {
+      appointmentId: appointment.id,
+      error: result.error,
+    })
+  }
+}
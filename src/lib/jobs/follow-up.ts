@@ -7,11 +7,12 @@
  */
 
 import { createClient } from '@/lib/supabase/server'
-import { sendOutboundMessage } from '@/lib/twilio/message-sender'
+import { sendOutboundMessage } from '@/lib/messaging/message-sender'
 import { generateResponse } from '@/lib/ai/client'
 import { contextManager } from '@/lib/ai/context-manager'
 import { promptBuilder } from '@/lib/ai/prompt-builder'
 import { isWithinBusinessHours } from './business-hours'
+import { getScheduleExceptions } from '@/lib/calendar/holidays'
 import { JobResult, JobError, BatchConfig, DEFAULT_BATCH_CONFIG, ProcessingStats } from './types'
 import { Contact, Workflow, Client, Message, BusinessHours, Json, FollowUpTemplate } from '@/types/database'
 import { WorkflowKnowledge } from '@/types/ai'
@@ -123,7 +124,7 @@ export async function processFollowUps(
       const businessHours = client.business_hours as BusinessHours
       const timezone = client.timezone
 
-      if (isWithinBusinessHours(businessHours, timezone)) {
+      if (isWithinBusinessHours(businessHours, timezone, getScheduleExceptions(client))) {
         eligibleContacts.push(...clientContacts)
         stats.withinBusinessHours += clientContacts.length
       } else {
@@ -297,7 +298,7 @@ export async function sendFollowUpMessage(contact: FollowUpContact): Promise<{
       followUpNumber,
       maxFollowUps,
       lastMessageDays: calculateDaysSinceLastMessage(contact.last_message_at),
-      channel: workflow.channel as 'sms' | 'whatsapp',
+      channel: workflow.channel,
     })
 
     try {
@@ -338,9 +339,10 @@ export async function sendFollowUpMessage(contact: FollowUpContact): Promise<{
     const sendResult = await sendOutboundMessage({
       contactId: contact.id,
       message: messageContent,
-      channel: workflow.channel as 'sms' | 'whatsapp',
+      channel: workflow.channel,
       aiGenerated,
       tokensUsed,
+      templatePurpose: 'follow_up',
     })
 
     if (!sendResult.success) {
@@ -390,7 +392,7 @@ export async function sendFollowUpMessage(contact: FollowUpContact): Promise<{
 /**
  * Substitute variables in a template string
  */
-function substituteVariables(
+export function substituteVariables(
   template: string,
   variables: Record<string, string | null | undefined>
 ): string {
@@ -429,6 +431,7 @@ function calculateDaysSinceLastMessage(lastMessageAt: string | null): number {
  */
 function formatConversationHistory(messages: Message[]): { role: 'user' | 'assistant'; content: string }[] {
   return messages
+    .filter((m) => m.direction !== 'system') // Notes for the team, not part of what was said
     .reverse() // Oldest first
     .map((m) => ({
       role: m.direction === 'inbound' ? 'user' as const : 'assistant' as const,
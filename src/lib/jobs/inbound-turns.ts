@@ -0,0 +1,199 @@
+/**
+ * Inbound Turns Job
+ * Answers buffered inbound messages once the contact has gone quiet
+ *
+ * The inbound webhook only saves each message and pushes the contact's
+ * inbound_turn_due_at back; this job (every minute via Vercel Cron, just before
+ * the outbound queue is drained) runs one AI turn per contact for the whole burst.
+ * The cron run keeps watching for turns coming due until its deadline, so a turn
+ * starts within a few seconds of its quiet window closing rather than at the next
+ * cron tick. No turn starts after the deadline - contacts still due wait for the
+ * next run rather than risk the run being cut off mid-turn.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { runInboundTurn } from '@/lib/messaging/inbound-buffer'
+import { JobResult, JobError, BatchConfig, DEFAULT_BATCH_CONFIG } from './types'
+
+/** Inbound message receipts are kept this long - far beyond any provider's retry window */
+const RECEIPT_RETENTION_DAYS = 7
+
+/** How often to look for turns coming due while watching */
+const TURN_POLL_INTERVAL_MS = 3 * 1000
+
+interface ProcessInboundTurnsOptions {
+  /** Override batch config */
+  config?: Partial<BatchConfig>
+  /** Only answer contacts in a specific workflow */
+  workflowId?: string
+  /** Only answer contacts of a specific client */
+  clientId?: string
+  /** Dry run - don't run the AI */
+  dryRun?: boolean
+  /** Keep checking for turns coming due until this long into the run, and start none after (default: one pass) */
+  deadlineMs?: number
+}
+
+/**
+ * Run the AI turn for every contact whose quiet window has passed
+ */
+export async function processInboundTurns(
+  options: ProcessInboundTurnsOptions = {}
+): Promise<JobResult> {
+  const startTime = Date.now()
+  const config = { ...DEFAULT_BATCH_CONFIG, ...options.config }
+  const errors: JobError[] = []
+  let processed = 0
+  let failed = 0
+  let skipped = 0
+
+  const supabase = createClient()
+
+  try {
+    const deadline = options.deadlineMs !== undefined ? startTime + options.deadlineMs : null
+    const pastDeadline = (): boolean => deadline !== null && Date.now() >= deadline
+
+    // One pass, then more until the deadline - a burst's window usually closes mid-minute
+    for (;;) {
+      const now = new Date().toISOString()
+
+      let query = supabase
+        .from('contacts')
+        .select('id, workflows!inner (client_id)')
+        .not('inbound_turn_due_at', 'is', null)
+        .lte('inbound_turn_due_at', now)
+        .order('inbound_turn_due_at', { ascending: true }) // Longest waiting first
+        .limit(config.maxPerRun)
+
+      if (options.workflowId) {
+        query = query.eq('workflow_id', options.workflowId)
+      }
+
+      if (options.clientId) {
+        query = query.eq('workflows.client_id', options.clientId)
+      }
+
+      const { data: contacts, error: queryError } = await query
+
+      if (queryError) {
+        console.error('Failed to query inbound turns:', queryError)
+        return {
+          success: false,
+          processed,
+          failed,
+          skipped,
+          errors: [...errors, { contactId: 'query', error: queryError.message, timestamp: new Date() }],
+          duration: Date.now() - startTime,
+        }
+      }
+
+      const due = (contacts || []) as unknown as Array<{ id: string }>
+
+      if (due.length > 0 || deadline === null) {
+        console.log(`[Inbound] ${due.length} contacts with turns due`)
+      }
+
+      if (options.dryRun) {
+        console.log('[Inbound] Dry run - not running turns')
+        return {
+          success: true,
+          processed: due.length,
+          failed: 0,
+          skipped: 0,
+          errors: [],
+          duration: Date.now() - startTime,
+        }
+      }
+
+      for (const contact of due) {
+        if (pastDeadline()) {
+          console.log('[Inbound] Deadline reached - leaving turns for the next run')
+          break
+        }
+
+        try {
+          const result = await runInboundTurn(contact.id)
+
+          if (result.skipped) {
+            skipped++
+          } else if (result.success) {
+            processed++
+            console.log(`[Inbound] Answered ${result.merged} messages from ${contact.id}`)
+          } else {
+            failed++
+            errors.push({
+              contactId: contact.id,
+              error: result.error || 'Unknown error',
+              timestamp: new Date(),
+            })
+          }
+        } catch (error) {
+          failed++
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+          errors.push({
+            contactId: contact.id,
+            error: errorMessage,
+            timestamp: new Date(),
+          })
+          console.error(`[Inbound] Exception for ${contact.id}:`, error)
+        }
+      }
+
+      if (deadline === null || Date.now() + TURN_POLL_INTERVAL_MS >= deadline) break
+      await sleep(TURN_POLL_INTERVAL_MS)
+    }
+
+    await pruneInboundReceipts()
+
+    const duration = Date.now() - startTime
+    console.log(`[Inbound] Complete: ${processed} answered, ${failed} failed, ${skipped} skipped in ${duration}ms`)
+
+    return {
+      success: failed === 0,
+      processed,
+      failed,
+      skipped,
+      errors,
+      duration,
+    }
+  } catch (error) {
+    console.error('[Inbound] Fatal error:', error)
+    return {
+      success: false,
+      processed,
+      failed,
+      skipped,
+      errors: [
+        ...errors,
+        {
+          contactId: 'fatal',
+          error: error instanceof Error ? error.message : 'Unknown fatal error',
+          timestamp: new Date(),
+        },
+      ],
+      duration: Date.now() - startTime,
+    }
+  }
+}
+
+/**
+ * Delete inbound message receipts older than the retention period
+ */
+async function pruneInboundReceipts(): Promise<void> {
+  const supabase = createClient()
+  const cutoff = new Date(Date.now() - RECEIPT_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('inbound_message_receipts')
+    .delete()
+    .lt('received_at', cutoff.toISOString())
+
+  if (error) {
+    console.warn('[Inbound] Failed to prune inbound message receipts:', error.message)
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
@@ -5,5 +5,12 @@
 
 export * from './types'
 export * from './business-hours'
+export * from './reminder-templates'
+export * from './post-meeting-templates'
 export { processInitialOutreach } from './initial-outreach'
 export { processFollowUps } from './follow-up'
+export { processReminders } from './reminders'
+export { processCalendarSync, reconcileCalendarConnection } from './calendar-sync'
+export { processPostMeeting, recordAppointmentOutcome } from './post-meeting'
+export { processOutboundQueue } from './outbound-queue'
+export { processInboundTurns } from './inbound-turns'
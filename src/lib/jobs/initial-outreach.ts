@@ -7,8 +7,9 @@
  */
 
 import { createClient } from '@/lib/supabase/server'
-import { sendInitialOutreach } from '@/lib/twilio/message-sender'
+import { sendInitialOutreach } from '@/lib/messaging/message-sender'
 import { isWithinBusinessHours } from './business-hours'
+import { getScheduleExceptions } from '@/lib/calendar/holidays'
 import { JobResult, JobError, BatchConfig, DEFAULT_BATCH_CONFIG, ProcessingStats } from './types'
 import { Contact, Workflow, Client, BusinessHours } from '@/types/database'
 
@@ -111,7 +112,7 @@ export async function processInitialOutreach(
       const businessHours = client.business_hours as BusinessHours
       const timezone = client.timezone
 
-      if (isWithinBusinessHours(businessHours, timezone)) {
+      if (isWithinBusinessHours(businessHours, timezone, getScheduleExceptions(client))) {
         eligibleContacts.push(...clientContacts)
         stats.withinBusinessHours += clientContacts.length
       } else {
@@ -0,0 +1,165 @@
+/**
+ * Outbound Queue Job
+ * Drains the outbound queue: scheduled AI replies and retries that are now due
+ *
+ * Runs every minute via Vercel Cron, right after the inbound turns job so the
+ * replies it just queued usually go out in the same run. Items a crashed sender
+ * left claimed are picked up again once their lock expires.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { processQueueItem } from '@/lib/messaging/outbound-queue'
+import { JobResult, JobError, BatchConfig, DEFAULT_BATCH_CONFIG } from './types'
+import { OutboundQueueItem } from '@/types/database'
+
+interface ProcessOutboundQueueOptions {
+  /** Override batch config */
+  config?: Partial<BatchConfig>
+  /** Only send messages for contacts in a specific workflow */
+  workflowId?: string
+  /** Only send messages for contacts of a specific client */
+  clientId?: string
+  /** Dry run - don't actually send messages */
+  dryRun?: boolean
+}
+
+/**
+ * Send every queued message whose send time has come
+ */
+export async function processOutboundQueue(
+  options: ProcessOutboundQueueOptions = {}
+): Promise<JobResult> {
+  const startTime = Date.now()
+  const config = { ...DEFAULT_BATCH_CONFIG, ...options.config }
+  const errors: JobError[] = []
+  let sent = 0
+  let failed = 0
+  let skipped = 0
+
+  const supabase = createClient()
+
+  try {
+    const now = new Date().toISOString()
+
+    let query = supabase
+      .from('outbound_queue')
+      .select(`
+        *,
+        contacts!inner (
+          workflow_id,
+          workflows!inner (client_id)
+        )
+      `)
+      .or(`and(status.eq.queued,send_at.lte."${now}"),and(status.eq.sending,locked_until.lt."${now}")`)
+      .order('send_at', { ascending: true }) // Oldest first
+      .limit(config.maxPerRun)
+
+    if (options.workflowId) {
+      query = query.eq('contacts.workflow_id', options.workflowId)
+    }
+
+    if (options.clientId) {
+      query = query.eq('contacts.workflows.client_id', options.clientId)
+    }
+
+    const { data: items, error: queryError } = await query
+
+    if (queryError) {
+      console.error('Failed to query outbound queue:', queryError)
+      return {
+        success: false,
+        processed: 0,
+        failed: 0,
+        skipped: 0,
+        errors: [{ contactId: 'query', error: queryError.message, timestamp: new Date() }],
+        duration: Date.now() - startTime,
+      }
+    }
+
+    const due = (items || []) as unknown as OutboundQueueItem[]
+
+    console.log(`[Queue] ${due.length} queued messages due`)
+
+    if (options.dryRun) {
+      console.log('[Queue] Dry run - not sending messages')
+      return {
+        success: true,
+        processed: due.length,
+        failed: 0,
+        skipped: 0,
+        errors: [],
+        duration: Date.now() - startTime,
+      }
+    }
+
+    for (let i = 0; i < due.length; i++) {
+      const item = due[i]
+
+      try {
+        const result = await processQueueItem(item)
+
+        if (result.status === 'sent') {
+          sent++
+          console.log(`[Queue] Sent ${item.message_id} to ${item.contact_id}`)
+        } else if (result.status === 'dead') {
+          failed++
+          errors.push({
+            contactId: item.contact_id,
+            error: result.error || 'Unknown error',
+            timestamp: new Date(),
+          })
+        } else {
+          // Claimed by another sender, or waiting for its next retry
+          skipped++
+        }
+      } catch (error) {
+        failed++
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        errors.push({
+          contactId: item.contact_id,
+          error: errorMessage,
+          timestamp: new Date(),
+        })
+        console.error(`[Queue] Exception for ${item.message_id}:`, error)
+      }
+
+      // Rate limiting - delay between messages
+      if (i < due.length - 1) {
+        await sleep(config.delayBetweenMessages)
+      }
+    }
+
+    const duration = Date.now() - startTime
+    console.log(`[Queue] Complete: ${sent} sent, ${failed} dead-lettered, ${skipped} skipped in ${duration}ms`)
+
+    return {
+      success: failed === 0,
+      processed: sent,
+      failed,
+      skipped,
+      errors,
+      duration,
+    }
+  } catch (error) {
+    console.error('[Queue] Fatal error:', error)
+    return {
+      success: false,
+      processed: sent,
+      failed,
+      skipped,
+      errors: [
+        ...errors,
+        {
+          contactId: 'fatal',
+          error: error instanceof Error ? error.message : 'Unknown fatal error',
+          timestamp: new Date(),
+        },
+      ],
+      duration: Date.now() - startTime,
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
@@ -0,0 +1,65 @@
+/**
+ * Post-Meeting Templates
+ * Helpers for a workflow's no-show and completed-meeting message sequences
+ *
+ * Kept free of server imports so the workflow editor can use them.
+ */
+
+import { Workflow, PostMeetingTemplate } from '@/types/database'
+
+export type AppointmentOutcome = 'completed' | 'no_show'
+
+/** Wording used when a no-show message is left blank */
+export const DEFAULT_NO_SHOW_MESSAGE =
+  "Hi {first_name}, sorry we missed you for your appointment with {brand_name} on {time}. Want to find another time? Just reply here."
+
+/** Wording used when a completed-meeting message is left blank and the client has a review link */
+export const DEFAULT_REVIEW_MESSAGE =
+  "Hi {first_name}, thanks for meeting with {brand_name}! If you have a minute, we'd really appreciate a review: {review_link}"
+
+/** Wording used when a completed-meeting message is left blank and there's no review link */
+export const DEFAULT_THANK_YOU_MESSAGE =
+  "Hi {first_name}, thanks for meeting with {brand_name}! If anything comes up, just reply here."
+
+/** Latest a post-meeting message can be sent after the outcome is recorded (two weeks) */
+export const MAX_POST_MEETING_DELAY_HOURS = 336
+
+/**
+ * Get a workflow's sequence for an outcome, soonest first
+ * Entries without a usable delay are dropped
+ */
+export function getPostMeetingTemplates(
+  workflow: Pick<Workflow, 'no_show_templates' | 'completed_templates'>,
+  outcome: AppointmentOutcome
+): PostMeetingTemplate[] {
+  const stored = outcome === 'no_show' ? workflow.no_show_templates : workflow.completed_templates
+  const raw = Array.isArray(stored)
+    ? (stored as unknown as Partial<PostMeetingTemplate>[])
+    : []
+
+  return raw
+    .filter((t): t is PostMeetingTemplate =>
+      typeof t?.delay_hours === 'number' &&
+      t.delay_hours >= 0 &&
+      t.delay_hours <= MAX_POST_MEETING_DELAY_HOURS
+    )
+    .map((t) => ({ delay_hours: t.delay_hours, message: t.message || '' }))
+    .sort((a, b) => a.delay_hours - b.delay_hours)
+}
+
+/**
+ * The built-in wording for a blank message
+ */
+export function getDefaultPostMeetingMessage(outcome: AppointmentOutcome, hasReviewLink: boolean): string {
+  if (outcome === 'no_show') {
+    return DEFAULT_NO_SHOW_MESSAGE
+  }
+  return hasReviewLink ? DEFAULT_REVIEW_MESSAGE : DEFAULT_THANK_YOU_MESSAGE
+}
+
+/**
+ * When a message in the sequence is due, counted from when the outcome was recorded
+ */
+export function getPostMeetingDueAt(template: PostMeetingTemplate, outcomeRecordedAt: Date): Date {
+  return new Date(outcomeRecordedAt.getTime() + template.delay_hours * 60 * 60 * 1000)
+}
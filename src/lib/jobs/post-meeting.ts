@@ -0,0 +1,496 @@
+/**
+ * Post-Meeting Job
+ * Records appointment outcomes and sends the follow-up sequence for each
+ *
+ * Once an appointment has ended it needs an outcome: the team marks it completed or
+ * no-show from the dashboard, or, where the calendar provider records attendance, this
+ * job fills it in (Google, Outlook and CalDAV calendars don't, so those wait for the
+ * team). Each outcome starts the workflow's sequence - a "sorry we missed you" rebook
+ * message for no-shows, a thank-you/review request for completed meetings. They go out
+ * as normal messages, so replies come back through the orchestrator like any other; a
+ * no-show contact is back in conversation, so "yes, let's rebook" gets times offered.
+ *
+ * This job runs via Vercel Cron. A sequence stops once the lead replies (the
+ * conversation has taken over) or, for no-shows, rebooks.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { sendOutboundMessage } from '@/lib/messaging/message-sender'
+import { formatSlot } from '@/lib/calendar/availability'
+import { getCalendarConnectionForClient, getScheduleExceptions, ResolvedCalendarConnection } from '@/lib/calendar'
+import { substituteVariables } from './follow-up'
+import { isWithinBusinessHours } from './business-hours'
+import {
+  AppointmentOutcome,
+  MAX_POST_MEETING_DELAY_HOURS,
+  getPostMeetingTemplates,
+  getPostMeetingDueAt,
+  getDefaultPostMeetingMessage,
+} from './post-meeting-templates'
+import { JobResult, JobError, BatchConfig, DEFAULT_BATCH_CONFIG } from './types'
+import { Appointment, BusinessHours, Contact, Workflow, Client } from '@/types/database'
+
+type PostMeetingAppointment = Appointment & {
+  contacts: Contact
+  workflows: Workflow & {
+    clients: Client
+  }
+}
+
+interface ProcessPostMeetingOptions {
+  /** Override batch config */
+  config?: Partial<BatchConfig>
+  /** Only process appointments for specific workflow */
+  workflowId?: string
+  /** Only process appointments for specific client */
+  clientId?: string
+  /** Dry run - don't record outcomes or send messages */
+  dryRun?: boolean
+}
+
+/** How long after an appointment ends before attendance is checked */
+const ATTENDANCE_GRACE_MINUTES = 15
+
+/** How far back attendance is checked for appointments still without an outcome */
+const ATTENDANCE_LOOKBACK_DAYS = 7
+
+const OUTCOME_LABELS: Record<AppointmentOutcome, string> = {
+  completed: 'completed',
+  no_show: 'a no-show',
+}
+
+/**
+ * Mark an appointment completed or no-show and start its post-meeting sequence
+ * Marking it with the outcome it already has changes nothing
+ */
+export async function recordAppointmentOutcome(
+  appointmentId: string,
+  outcome: AppointmentOutcome,
+  source: 'team' | 'calendar'
+): Promise<Appointment | null> {
+  const supabase = createClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: appointment } = await (supabase as any)
+    .from('appointments')
+    .select(`
+      *,
+      contacts (*),
+      workflows (
+        *,
+        clients (*)
+      )
+    `)
+    .eq('id', appointmentId)
+    .maybeSingle() as { data: PostMeetingAppointment | null }
+
+  if (!appointment) {
+    return null
+  }
+
+  const { contacts: contact, workflows: workflow, ...row } = appointment
+  if (row.status === outcome) {
+    return row
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: updated, error } = await (supabase as any)
+    .from('appointments')
+    .update({
+      status: outcome,
+      outcome_recorded_at: new Date().toISOString(),
+      outcome_source: source,
+      post_meeting_sent: 0,
+      last_post_meeting_at: null,
+    })
+    .eq('id', appointmentId)
+    .select()
+    .single() as { data: Appointment | null; error: { message: string } | null }
+
+  if (error || !updated) {
+    throw new Error(`Failed to record outcome: ${error?.message || 'appointment not updated'}`)
+  }
+
+  // A no-show is back in conversation, so a reply to the rebook message gets times offered.
+  // Correcting a no-show to completed puts them back to booked.
+  let contactStatus: Contact['status'] | null = null
+  if (outcome === 'no_show' && contact.status === 'booked' && !(await hasUpcomingAppointment(contact.id))) {
+    contactStatus = 'in_conversation'
+  } else if (outcome === 'completed' && row.status === 'no_show' && contact.status === 'in_conversation') {
+    contactStatus = 'booked'
+  }
+
+  if (contactStatus) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (supabase as any)
+      .from('contacts')
+      .update({ status: contactStatus })
+      .eq('id', contact.id)
+  }
+
+  const when = formatSlot(new Date(row.start_time), workflow.clients.timezone)
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await (supabase as any).from('messages').insert({
+    contact_id: contact.id,
+    direction: 'system',
+    channel: workflow.channel,
+    content: `Appointment on ${when} marked as ${OUTCOME_LABELS[outcome]}${source === 'calendar' ? ' from calendar attendance' : ''}`,
+    status: 'sent',
+    ai_generated: false,
+  })
+
+  console.log('[PostMeeting] Outcome recorded:', { appointmentId, outcome, source })
+
+  return updated
+}
+
+/**
+ * Fill in outcomes from calendar attendance, then send any post-meeting messages that are due
+ */
+export async function processPostMeeting(
+  options: ProcessPostMeetingOptions = {}
+): Promise<JobResult> {
+  const startTime = Date.now()
+  const config = { ...DEFAULT_BATCH_CONFIG, ...options.config }
+  const errors: JobError[] = []
+  let sent = 0
+  let failed = 0
+  let skipped = 0
+
+  try {
+    const attendance = await recordOutcomesFromAttendance(options)
+    failed += attendance.failed
+    errors.push(...attendance.errors)
+
+    const due = await getDuePostMeetingMessages(options)
+    const batch = due.slice(0, config.maxPerRun)
+
+    console.log(`[PostMeeting] ${due.length} post-meeting messages due`)
+
+    if (options.dryRun) {
+      console.log('[PostMeeting] Dry run - not sending messages')
+      return {
+        success: failed === 0,
+        processed: batch.length,
+        failed,
+        skipped: 0,
+        errors,
+        duration: Date.now() - startTime,
+      }
+    }
+
+    for (let i = 0; i < batch.length; i++) {
+      const appointment = batch[i]
+
+      try {
+        const result = await sendPostMeetingMessage(appointment)
+
+        if (result.skipped) {
+          skipped++
+          console.log(`[PostMeeting] Sequence stopped for ${appointment.id}: ${result.skipped}`)
+          continue
+        }
+
+        if (result.success) {
+          sent++
+          console.log(`[PostMeeting] Sent message #${appointment.post_meeting_sent + 1} for ${appointment.id}`)
+        } else {
+          failed++
+          errors.push({
+            contactId: appointment.contact_id,
+            error: result.error || 'Unknown error',
+            timestamp: new Date(),
+          })
+          console.error(`[PostMeeting] Failed for ${appointment.id}: ${result.error}`)
+        }
+      } catch (error) {
+        failed++
+        errors.push({
+          contactId: appointment.contact_id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date(),
+        })
+        console.error(`[PostMeeting] Exception for ${appointment.id}:`, error)
+      }
+
+      // Rate limiting - delay between messages
+      if (i < batch.length - 1) {
+        await sleep(config.delayBetweenMessages)
+      }
+    }
+
+    const duration = Date.now() - startTime
+    console.log(`[PostMeeting] Complete: ${attendance.recorded} outcomes from attendance, ${sent} sent, ${skipped} stopped, ${failed} failed in ${duration}ms`)
+
+    return {
+      success: failed === 0,
+      processed: sent,
+      failed,
+      skipped,
+      errors,
+      duration,
+    }
+  } catch (error) {
+    console.error('[PostMeeting] Fatal error:', error)
+    return {
+      success: false,
+      processed: sent,
+      failed,
+      skipped,
+      errors: [
+        ...errors,
+        {
+          contactId: 'fatal',
+          error: error instanceof Error ? error.message : 'Unknown fatal error',
+          timestamp: new Date(),
+        },
+      ],
+      duration: Date.now() - startTime,
+    }
+  }
+}
+
+/**
+ * Record outcomes for ended appointments whose calendar knows whether the lead turned up
+ */
+async function recordOutcomesFromAttendance(
+  options: ProcessPostMeetingOptions
+): Promise<{ recorded: number; failed: number; errors: JobError[] }> {
+  const supabase = createClient()
+  const now = Date.now()
+  const errors: JobError[] = []
+  let recorded = 0
+
+  let query = supabase
+    .from('appointments')
+    .select('*')
+    .eq('status', 'confirmed')
+    .not('calendar_event_id', 'is', null)
+    .lte('end_time', new Date(now - ATTENDANCE_GRACE_MINUTES * 60 * 1000).toISOString())
+    .gte('end_time', new Date(now - ATTENDANCE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString())
+
+  if (options.workflowId) {
+    query = query.eq('workflow_id', options.workflowId)
+  }
+
+  if (options.clientId) {
+    query = query.eq('client_id', options.clientId)
+  }
+
+  const { data, error: queryError } = await query
+
+  if (queryError) {
+    console.error('[PostMeeting] Failed to query ended appointments:', queryError)
+    return { recorded: 0, failed: 1, errors: [{ contactId: 'query', error: queryError.message, timestamp: new Date() }] }
+  }
+
+  // One connection lookup per calendar, not per appointment
+  const calendars = new Map<string, ResolvedCalendarConnection | null>()
+
+  for (const appointment of (data || []) as Appointment[]) {
+    try {
+      const key = `${appointment.client_id}:${appointment.host_id || ''}`
+      if (!calendars.has(key)) {
+        calendars.set(key, await getCalendarConnectionForClient(appointment.client_id, appointment.host_id))
+      }
+
+      const calendar = calendars.get(key)
+      if (!calendar?.provider.getAttendance || !calendar.connection.calendar_id) {
+        continue
+      }
+
+      const attendance = await calendar.provider.getAttendance(
+        calendar.connection.calendar_id,
+        appointment.calendar_event_id!
+      )
+      if (!attendance) {
+        continue
+      }
+
+      const outcome: AppointmentOutcome = attendance === 'attended' ? 'completed' : 'no_show'
+      if (!options.dryRun) {
+        await recordAppointmentOutcome(appointment.id, outcome, 'calendar')
+      }
+      recorded++
+    } catch (error) {
+      errors.push({
+        contactId: appointment.contact_id,
+        error: error instanceof Error ? error.message : 'Failed to check attendance',
+        timestamp: new Date(),
+      })
+      console.error(`[PostMeeting] Failed to check attendance for ${appointment.id}:`, error)
+    }
+  }
+
+  return { recorded, failed: errors.length, errors }
+}
+
+/**
+ * Appointments with a post-meeting message due now, for contacts who can be messaged
+ * during their client's business hours
+ */
+async function getDuePostMeetingMessages(
+  options: ProcessPostMeetingOptions
+): Promise<PostMeetingAppointment[]> {
+  const supabase = createClient()
+  const now = new Date()
+  // A day's slack so a message due at the very end of the window still goes out
+  const since = new Date(now.getTime() - (MAX_POST_MEETING_DELAY_HOURS + 24) * 60 * 60 * 1000)
+
+  let query = supabase
+    .from('appointments')
+    .select(`
+      *,
+      contacts!inner (*),
+      workflows!inner (
+        *,
+        clients!inner (*)
+      )
+    `)
+    .in('status', ['completed', 'no_show'])
+    .gte('outcome_recorded_at', since.toISOString())
+    .eq('contacts.opted_out', false)
+    .neq('contacts.status', 'handed_off')
+    .order('outcome_recorded_at', { ascending: true }) // Longest waiting first
+
+  if (options.workflowId) {
+    query = query.eq('workflow_id', options.workflowId)
+  }
+
+  if (options.clientId) {
+    query = query.eq('client_id', options.clientId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to query post-meeting appointments: ${error.message}`)
+  }
+
+  return ((data || []) as unknown as PostMeetingAppointment[]).filter((appointment) => {
+    const template = getPostMeetingTemplates(
+      appointment.workflows,
+      appointment.status as AppointmentOutcome
+    )[appointment.post_meeting_sent]
+
+    if (!template || getPostMeetingDueAt(template, new Date(appointment.outcome_recorded_at!)) > now) {
+      return false
+    }
+
+    const client = appointment.workflows.clients
+    return isWithinBusinessHours(client.business_hours as BusinessHours, client.timezone, getScheduleExceptions(client))
+  })
+}
+
+/**
+ * Send the next message in an appointment's sequence and record it
+ * Stops the sequence instead if the lead has replied or (after a no-show) rebooked
+ */
+async function sendPostMeetingMessage(
+  appointment: PostMeetingAppointment
+): Promise<{ success: boolean; error?: string; skipped?: string }> {
+  const supabase = createClient()
+
+  const contact = appointment.contacts
+  const workflow = appointment.workflows
+  const client = workflow.clients
+  const outcome = appointment.status as AppointmentOutcome
+  const templates = getPostMeetingTemplates(workflow, outcome)
+
+  const stopReason = await getStopReason(appointment, outcome)
+  if (stopReason) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (supabase as any)
+      .from('appointments')
+      .update({ post_meeting_sent: templates.length })
+      .eq('id', appointment.id)
+    return { success: true, skipped: stopReason }
+  }
+
+  const template = templates[appointment.post_meeting_sent]
+  const appointmentVariables = {
+    time: formatSlot(new Date(appointment.start_time), client.timezone),
+    location: appointment.location,
+    review_link: client.review_url,
+  }
+  const messageContent = substituteVariables(
+    template.message || getDefaultPostMeetingMessage(outcome, !!client.review_url),
+    {
+      first_name: contact.first_name || 'there',
+      last_name: contact.last_name,
+      brand_name: client.brand_name || client.name,
+      company_name: client.name,
+      ...appointmentVariables,
+    }
+  )
+
+  const sendResult = await sendOutboundMessage({
+    contactId: contact.id,
+    message: messageContent,
+    channel: workflow.channel,
+    aiGenerated: false,
+    templatePurpose: 'post_meeting',
+    templateVariables: appointmentVariables,
+  })
+
+  if (!sendResult.success) {
+    return { success: false, error: sendResult.error }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await (supabase as any)
+    .from('appointments')
+    .update({
+      post_meeting_sent: appointment.post_meeting_sent + 1,
+      last_post_meeting_at: new Date().toISOString(),
+    })
+    .eq('id', appointment.id)
+
+  return { success: true }
+}
+
+/**
+ * Why the rest of a sequence shouldn't be sent, if there's a reason
+ */
+async function getStopReason(
+  appointment: PostMeetingAppointment,
+  outcome: AppointmentOutcome
+): Promise<string | null> {
+  const supabase = createClient()
+
+  const { data: replies } = await supabase
+    .from('messages')
+    .select('id')
+    .eq('contact_id', appointment.contact_id)
+    .eq('direction', 'inbound')
+    .gt('created_at', appointment.outcome_recorded_at!)
+    .limit(1)
+
+  if (replies && replies.length > 0) {
+    return 'lead has replied'
+  }
+
+  if (outcome === 'no_show' && await hasUpcomingAppointment(appointment.contact_id)) {
+    return 'lead has rebooked'
+  }
+
+  return null
+}
+
+async function hasUpcomingAppointment(contactId: string): Promise<boolean> {
+  const supabase = createClient()
+
+  const { data } = await supabase
+    .from('appointments')
+    .select('id')
+    .eq('contact_id', contactId)
+    .eq('status', 'confirmed')
+    .gt('start_time', new Date().toISOString())
+    .limit(1)
+
+  return !!data && data.length > 0
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
@@ -0,0 +1,72 @@
+/**
+ * Reminder Templates
+ * Helpers for a workflow's appointment reminder schedule
+ *
+ * Kept free of server imports so the booking flow and the workflow editor can use them.
+ */
+
+import { Workflow, ReminderTemplate } from '@/types/database'
+
+/** Wording used when a reminder's message is left blank */
+export const DEFAULT_REMINDER_MESSAGE =
+  "Hi {first_name}, just a reminder of your appointment with {brand_name} on {time}. Can't make it? Reply here and we'll find another time."
+
+/** Furthest ahead of an appointment a reminder can be sent (one week) */
+export const MAX_REMINDER_OFFSET_HOURS = 168
+
+/**
+ * Get a workflow's reminders, furthest-out first
+ * Entries without a usable offset are dropped
+ */
+export function getReminderTemplates(workflow: Pick<Workflow, 'reminder_templates'>): ReminderTemplate[] {
+  const raw = Array.isArray(workflow.reminder_templates)
+    ? (workflow.reminder_templates as unknown as Partial<ReminderTemplate>[])
+    : []
+
+  return raw
+    .filter((t): t is ReminderTemplate =>
+      typeof t?.offset_hours === 'number' &&
+      t.offset_hours > 0 &&
+      t.offset_hours <= MAX_REMINDER_OFFSET_HOURS
+    )
+    .map((t) => ({ offset_hours: t.offset_hours, message: t.message || '' }))
+    .sort((a, b) => b.offset_hours - a.offset_hours)
+}
+
+/**
+ * When a reminder is due for an appointment
+ */
+export function getReminderDueAt(template: ReminderTemplate, startTime: Date): Date {
+  return new Date(startTime.getTime() - template.offset_hours * 60 * 60 * 1000)
+}
+
+/**
+ * How many reminders are already past for an appointment starting at startTime
+ * Used when booking, so a lead booked at short notice isn't sent a "24 hours to go" reminder
+ */
+export function countPassedReminders(
+  templates: ReminderTemplate[],
+  startTime: Date,
+  now: Date = new Date()
+): number {
+  return templates.filter((t) => getReminderDueAt(t, startTime) <= now).length
+}
+
+/**
+ * Pick the reminder to send now, if any
+ * Returns the index of the latest due reminder not yet sent; earlier ones that were
+ * missed are skipped rather than sent back to back
+ */
+export function getDueReminderIndex(
+  templates: ReminderTemplate[],
+  remindersSent: number,
+  startTime: Date,
+  now: Date = new Date()
+): number | null {
+  for (let i = templates.length - 1; i >= remindersSent; i--) {
+    if (getReminderDueAt(templates[i], startTime) <= now) {
+      return i
+    }
+  }
+  return null
+}
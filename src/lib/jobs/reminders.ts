@@ -0,0 +1,250 @@
+/**
+ * Reminder Job
+ * Sends appointment reminders ahead of confirmed appointments
+ *
+ * This job runs via Vercel Cron and sends each workflow's reminder templates
+ * (e.g. 24 hours and 1 hour before) to the booked contact. Replies go through
+ * the normal inbound flow, so "can't make it" starts a reschedule.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { sendOutboundMessage } from '@/lib/messaging/message-sender'
+import { formatSlot } from '@/lib/calendar/availability'
+import { substituteVariables } from './follow-up'
+import {
+  DEFAULT_REMINDER_MESSAGE,
+  MAX_REMINDER_OFFSET_HOURS,
+  getReminderTemplates,
+  getDueReminderIndex,
+} from './reminder-templates'
+import { JobResult, JobError, BatchConfig, DEFAULT_BATCH_CONFIG } from './types'
+import { Appointment, Contact, Workflow, Client } from '@/types/database'
+
+export type ReminderAppointment = Appointment & {
+  contacts: Contact
+  workflows: Workflow & {
+    clients: Client
+  }
+}
+
+interface ProcessRemindersOptions {
+  /** Override batch config */
+  config?: Partial<BatchConfig>
+  /** Only process appointments for specific workflow */
+  workflowId?: string
+  /** Only process appointments for specific client */
+  clientId?: string
+  /** Dry run - don't actually send messages */
+  dryRun?: boolean
+}
+
+/**
+ * Send any reminders that are due for upcoming appointments
+ * Reminders aren't held back for business hours - a 1-hour reminder is only useful on time
+ */
+export async function processReminders(
+  options: ProcessRemindersOptions = {}
+): Promise<JobResult> {
+  const startTime = Date.now()
+  const config = { ...DEFAULT_BATCH_CONFIG, ...options.config }
+  const errors: JobError[] = []
+  let sent = 0
+  let failed = 0
+
+  const supabase = createClient()
+
+  try {
+    const now = new Date()
+    const horizon = new Date(now.getTime() + MAX_REMINDER_OFFSET_HOURS * 60 * 60 * 1000)
+
+    // Confirmed appointments still to come, for contacts who haven't opted out
+    let query = supabase
+      .from('appointments')
+      .select(`
+        *,
+        contacts!inner (*),
+        workflows!inner (
+          *,
+          clients!inner (*)
+        )
+      `)
+      .eq('status', 'confirmed')
+      .eq('contacts.opted_out', false)
+      .gt('start_time', now.toISOString())
+      .lte('start_time', horizon.toISOString())
+      .order('start_time', { ascending: true }) // Soonest first
+
+    if (options.workflowId) {
+      query = query.eq('workflow_id', options.workflowId)
+    }
+
+    if (options.clientId) {
+      query = query.eq('client_id', options.clientId)
+    }
+
+    const { data: appointments, error: queryError } = await query
+
+    if (queryError) {
+      console.error('Failed to query reminder appointments:', queryError)
+      return {
+        success: false,
+        processed: 0,
+        failed: 0,
+        skipped: 0,
+        errors: [{ contactId: 'query', error: queryError.message, timestamp: new Date() }],
+        duration: Date.now() - startTime,
+      }
+    }
+
+    // Work out which reminder (if any) is due for each appointment
+    const due = ((appointments || []) as unknown as ReminderAppointment[])
+      .map((appointment) => {
+        const templates = getReminderTemplates(appointment.workflows)
+        const index = getDueReminderIndex(
+          templates,
+          appointment.reminders_sent,
+          new Date(appointment.start_time),
+          now
+        )
+        return index === null ? null : { appointment, templateIndex: index, message: templates[index].message }
+      })
+      .filter((d): d is NonNullable<typeof d> => d !== null)
+      .slice(0, config.maxPerRun)
+
+    console.log(`[Reminders] ${due.length} reminders due across ${appointments?.length || 0} upcoming appointments`)
+
+    if (options.dryRun) {
+      console.log('[Reminders] Dry run - not sending messages')
+      return {
+        success: true,
+        processed: due.length,
+        failed: 0,
+        skipped: 0,
+        errors: [],
+        duration: Date.now() - startTime,
+      }
+    }
+
+    for (let i = 0; i < due.length; i++) {
+      const { appointment, templateIndex, message } = due[i]
+
+      try {
+        console.log(`[Reminders] Processing appointment ${i + 1}/${due.length}: ${appointment.id}`)
+
+        const result = await sendReminder(appointment, templateIndex, message)
+
+        if (result.success) {
+          sent++
+          console.log(`[Reminders] Sent reminder #${templateIndex + 1} for ${appointment.id}`)
+        } else {
+          failed++
+          errors.push({
+            contactId: appointment.contact_id,
+            error: result.error || 'Unknown error',
+            timestamp: new Date(),
+          })
+          console.error(`[Reminders] Failed for ${appointment.id}: ${result.error}`)
+        }
+      } catch (error) {
+        failed++
+        errors.push({
+          contactId: appointment.contact_id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date(),
+        })
+        console.error(`[Reminders] Exception for ${appointment.id}:`, error)
+      }
+
+      // Rate limiting - delay between messages
+      if (i < due.length - 1) {
+        await sleep(config.delayBetweenMessages)
+      }
+    }
+
+    const duration = Date.now() - startTime
+    console.log(`[Reminders] Complete: ${sent} sent, ${failed} failed in ${duration}ms`)
+
+    return {
+      success: failed === 0,
+      processed: sent,
+      failed,
+      skipped: 0,
+      errors,
+      duration,
+    }
+  } catch (error) {
+    console.error('[Reminders] Fatal error:', error)
+    return {
+      success: false,
+      processed: sent,
+      failed,
+      skipped: 0,
+      errors: [
+        ...errors,
+        {
+          contactId: 'fatal',
+          error: error instanceof Error ? error.message : 'Unknown fatal error',
+          timestamp: new Date(),
+        },
+      ],
+      duration: Date.now() - startTime,
+    }
+  }
+}
+
+/**
+ * Send one reminder and record it on the appointment
+ * sendOutboundMessage refuses contacts who have opted out since the query ran
+ */
+async function sendReminder(
+  appointment: ReminderAppointment,
+  templateIndex: number,
+  template: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = createClient()
+
+  const contact = appointment.contacts
+  const workflow = appointment.workflows
+  const client = workflow.clients
+
+  const appointmentVariables = {
+    time: formatSlot(new Date(appointment.start_time), client.timezone),
+    location: appointment.location,
+  }
+
+  const messageContent = substituteVariables(template || DEFAULT_REMINDER_MESSAGE, {
+    first_name: contact.first_name || 'there',
+    last_name: contact.last_name,
+    brand_name: client.brand_name || client.name,
+    company_name: client.name,
+    ...appointmentVariables,
+  })
+
+  const sendResult = await sendOutboundMessage({
+    contactId: contact.id,
+    message: messageContent,
+    channel: workflow.channel,
+    aiGenerated: false,
+    templatePurpose: 'reminder',
+    templateVariables: appointmentVariables,
+  })
+
+  if (!sendResult.success) {
+    return { success: false, error: sendResult.error }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await (supabase as any)
+    .from('appointments')
+    .update({
+      reminders_sent: templateIndex + 1,
+      last_reminder_at: new Date().toISOString(),
+    })
+    .eq('id', appointment.id)
+
+  return { success: true }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
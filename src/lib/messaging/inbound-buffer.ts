@@ -0,0 +1,220 @@
+/**
+ * Inbound Buffer
+ * Merges a burst of inbound messages into one AI turn per contact
+ *
+ * The webhook saves each message as awaiting a reply and pushes the contact's turn
+ * back by a quiet window. Once nothing has arrived for that long, the inbound turns
+ * job answers everything buffered in one orchestrator call, under a per-contact lock
+ * so two turns never run at the same time.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { orchestrator } from '@/lib/ai/orchestrator'
+import { getMessageMedia } from './media'
+import { enqueueOutboundMessage } from './outbound-queue'
+import { Message, MessageMedia } from '@/types/database'
+import { ProcessMessageResult } from '@/types/ai'
+
+/** How long a contact must go quiet before their buffered messages are answered */
+export const INBOUND_QUIET_WINDOW_MS = 10 * 1000
+
+/** How long a turn may hold the contact's lock before another run can take it over */
+const TURN_LOCK_MS = 2 * 60 * 1000
+
+export interface InboundTurnResult {
+  success: boolean
+  /** Messages answered in this turn */
+  merged: number
+  /** Not answered: the lock was held by another turn, nothing was buffered, or the contact can't be replied to */
+  skipped?: boolean
+  /** The saved reply, queued for sending */
+  responseMessageId?: string
+  error?: string
+}
+
+/**
+ * Calculate a realistic "typing" delay based on message length.
+ * Makes the AI feel more human by not responding instantly.
+ */
+export function calculateTypingDelay(messageLength: number): number {
+  // Base: ~40ms per character (faster than real typing but feels natural)
+  const baseDelay = messageLength * 40
+
+  // Add "reading time" - 800ms to read their message
+  const readingTime = 800
+
+  // Add randomness (±25%) to feel more natural
+  const randomFactor = 0.75 + Math.random() * 0.5
+
+  // Calculate total with randomness
+  let delay = (baseDelay + readingTime) * randomFactor
+
+  // Clamp between 1.5 and 8 seconds
+  delay = Math.max(1500, Math.min(8000, delay))
+
+  return Math.round(delay)
+}
+
+/**
+ * Hold the contact's AI turn until the quiet window has passed
+ * (the inbound message itself is saved by the caller with awaiting_reply set)
+ */
+export async function bufferInboundMessage(contactId: string): Promise<void> {
+  const supabase = createClient()
+  const dueAt = new Date(Date.now() + INBOUND_QUIET_WINDOW_MS)
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await (supabase as any)
+    .from('contacts')
+    .update({ inbound_turn_due_at: dueAt.toISOString() })
+    .eq('id', contactId)
+}
+
+/**
+ * Combine buffered messages into the text and attachments of a single turn
+ */
+export function mergeInboundMessages(messages: Pick<Message, 'content' | 'media'>[]): {
+  message: string
+  media: MessageMedia[]
+} {
+  return {
+    message: messages
+      .map((m) => m.content.trim())
+      .filter(Boolean)
+      .join('\n'),
+    media: messages.flatMap((m) => getMessageMedia(m))
+  }
+}
+
+/**
+ * Answer everything the contact has sent since their last turn
+ */
+export async function runInboundTurn(contactId: string): Promise<InboundTurnResult> {
+  if (!(await acquireTurnLock(contactId))) {
+    console.log('[Inbound] Turn already running for contact:', { contactId })
+    return { success: true, merged: 0, skipped: true }
+  }
+
+  const supabase = createClient()
+
+  try {
+    const { data: contactData } = await supabase
+      .from('contacts')
+      .select('inbound_turn_due_at')
+      .eq('id', contactId)
+      .single()
+
+    const dueAt = (contactData as { inbound_turn_due_at: string | null } | null)?.inbound_turn_due_at ?? null
+
+    const { data: bufferedData } = await supabase
+      .from('messages')
+      .select('id, content, media, created_at')
+      .eq('contact_id', contactId)
+      .eq('direction', 'inbound')
+      .eq('awaiting_reply', true)
+      .order('created_at', { ascending: true })
+
+    const buffered = (bufferedData || []) as Pick<Message, 'id' | 'content' | 'media' | 'created_at'>[]
+
+    if (buffered.length === 0) {
+      await clearTurnDue(contactId, dueAt)
+      return { success: true, merged: 0, skipped: true }
+    }
+
+    const { message, media } = mergeInboundMessages(buffered)
+
+    if (buffered.length > 1) {
+      console.log('[Inbound] Merging burst into one turn:', { contactId, messages: buffered.length })
+    }
+
+    let result: ProcessMessageResult | null = null
+    let error: string | undefined
+
+    try {
+      result = await orchestrator.processMessageSafe({ contactId, message, media })
+    } catch (err) {
+      // Opted out, handed off or workflow paused since the messages arrived - no reply
+      error = err instanceof Error ? err.message : 'Unknown error'
+      console.log('[Inbound] Turn not answered:', { contactId, error })
+    }
+
+    // Anything that arrived during the turn is left for the next one
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (supabase as any)
+      .from('messages')
+      .update({ awaiting_reply: false })
+      .in('id', buffered.map((m) => m.id))
+
+    await clearTurnDue(contactId, dueAt)
+
+    // The reply is queued for a realistic "typing" delay after their last message
+    if (result?.responseMessageId) {
+      const lastReceivedAt = new Date(buffered[buffered.length - 1].created_at).getTime()
+      const typingDelay = calculateTypingDelay(result.response.length)
+
+      await enqueueOutboundMessage({
+        messageId: result.responseMessageId,
+        contactId,
+        sendAt: new Date(lastReceivedAt + typingDelay)
+      })
+    }
+
+    return {
+      success: true,
+      merged: buffered.length,
+      skipped: !result,
+      responseMessageId: result?.responseMessageId,
+      error
+    }
+  } finally {
+    await releaseTurnLock(contactId)
+  }
+}
+
+/**
+ * Take the contact's turn lock if it is free (or its holder's lease ran out)
+ */
+async function acquireTurnLock(contactId: string): Promise<boolean> {
+  const supabase = createClient()
+  const now = new Date()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any)
+    .from('contacts')
+    .update({ ai_turn_locked_until: new Date(now.getTime() + TURN_LOCK_MS).toISOString() })
+    .eq('id', contactId)
+    .or(`ai_turn_locked_until.is.null,ai_turn_locked_until.lt."${now.toISOString()}"`)
+    .select('id')
+
+  if (error) {
+    console.error('[Inbound] Failed to take turn lock:', { contactId, error: error.message })
+    return false
+  }
+
+  return Array.isArray(data) && data.length > 0
+}
+
+async function releaseTurnLock(contactId: string): Promise<void> {
+  const supabase = createClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await (supabase as any)
+    .from('contacts')
+    .update({ ai_turn_locked_until: null })
+    .eq('id', contactId)
+}
+
+/**
+ * Clear the contact's due time unless a new message has pushed it back meanwhile
+ */
+async function clearTurnDue(contactId: string, dueAt: string | null): Promise<void> {
+  if (!dueAt) return
+  const supabase = createClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await (supabase as any)
+    .from('contacts')
+    .update({ inbound_turn_due_at: null })
+    .eq('id', contactId)
+    .eq('inbound_turn_due_at', dueAt)
+}
@@ -0,0 +1,238 @@
+/**
+ * Inbound Routing
+ * Decides which contact an inbound SMS/WhatsApp message belongs to
+ *
+ * Contacts are unique per workflow, so the same lead can be a contact in several
+ * workflows or clients. The rules, in order:
+ *   1. Receiving number - only contacts of the client that owns the number texted
+ *      (those pinned to it first). A number no client owns is the provider's default,
+ *      shared by clients without numbers of their own.
+ *   2. Most recent outbound - the conversation we last messaged the lead in.
+ *   3. Active conversation - the one the team pointed the lead's replies at.
+ *   4. Newest contact - only when every candidate belongs to the same client; across
+ *      clients the message is left unrouted rather than risk the wrong client's thread.
+ * Whenever rule 1 leaves more than one candidate, the decision is logged; a message that
+ * isn't routed at all is logged with its text so the team can see it.
+ * A STOP opts the lead out of every conversation with the client(s) behind the number
+ * it was sent to, and no others.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { getPoolNumbers } from './number-pool'
+import { Client, Contact, InboundRoutingEvent, MessageMedia, Workflow } from '@/types/database'
+
+export type RoutableContact = Pick<
+  Contact,
+  'id' | 'phone' | 'workflow_id' | 'status' | 'opted_out' | 'sender_number' | 'created_at'
+> & {
+  workflows: Pick<Workflow, 'client_id'> & {
+    clients: Pick<Client, 'twilio_phone_number' | 'pool_phone_numbers'>
+  }
+}
+
+export type InboundRouteReason = 'receiving_number' | InboundRoutingEvent['reason']
+
+export interface InboundRoute {
+  /** Null when the message couldn't be routed (unresolved or unmatched) */
+  contact: RoutableContact | null
+  reason: InboundRouteReason
+  /** Every contact still in the running after the receiving number was checked */
+  candidates: RoutableContact[]
+}
+
+interface RouteInboundParams {
+  from: string
+  to: string
+  messageSid: string
+  /** Kept on the routing event when the message isn't routed */
+  body: string
+  media: MessageMedia[]
+}
+
+/**
+ * Find the contact an inbound message is for
+ * Unmatched if the lead isn't an active contact of any client reachable on that number.
+ */
+export async function routeInboundMessage(params: RouteInboundParams): Promise<InboundRoute> {
+  const contacts = await findLeadContacts(params.from)
+  const owners = await findNumberOwners(params.to)
+  const candidates = matchReceivingNumber(contacts, params.to, owners)
+
+  if (candidates.length === 1) {
+    return { contact: candidates[0], reason: 'receiving_number', candidates }
+  }
+
+  const route: InboundRoute = candidates.length === 0
+    ? { contact: null, reason: 'unmatched', candidates }
+    : await chooseCandidate(params.from, candidates)
+  await recordRoutingEvent(params, route)
+
+  return route
+}
+
+/**
+ * The contacts a STOP sent to this number opts out: all of the lead's contacts at the
+ * client(s) the receiving number reaches, not just the one a reply would be routed to
+ */
+export async function findOptOutContacts(from: string, to: string): Promise<RoutableContact[]> {
+  const contacts = await findLeadContacts(from)
+  const owners = await findNumberOwners(to)
+  const clientIds = new Set(matchReceivingNumber(contacts, to, owners).map((c) => c.workflows.client_id))
+
+  return contacts.filter((c) => !c.opted_out && clientIds.has(c.workflows.client_id))
+}
+
+/**
+ * Every active contact with the lead's number, across workflows and clients
+ */
+async function findLeadContacts(phone: string): Promise<RoutableContact[]> {
+  const supabase = createClient()
+
+  const { data: contactsData, error } = await supabase
+    .from('contacts')
+    .select(`
+      id, phone, workflow_id, status, opted_out, sender_number, created_at,
+      workflows!inner (
+        client_id,
+        clients!inner (twilio_phone_number, pool_phone_numbers)
+      )
+    `)
+    .eq('phone', phone)
+    .neq('status', 'opted_out')
+
+  if (error) {
+    throw new Error(`Error finding contact: ${error.message}`)
+  }
+
+  return (contactsData || []) as unknown as RoutableContact[]
+}
+
+/**
+ * Rule 1: narrow the lead's contacts to those reachable on the receiving number
+ */
+function matchReceivingNumber(
+  contacts: RoutableContact[],
+  to: string,
+  owners: Set<string>
+): RoutableContact[] {
+  // Providers that don't report the receiving number can't be narrowed down
+  if (!to) return contacts
+
+  if (owners.size > 0) {
+    const owned = contacts.filter((c) => owners.has(c.workflows.client_id))
+    const pinned = owned.filter((c) => c.sender_number === to)
+    return pinned.length > 0 ? pinned : owned
+  }
+
+  // A pool number that has since been removed still belongs to the contacts pinned to it
+  const pinned = contacts.filter((c) => c.sender_number === to)
+  if (pinned.length > 0) return pinned
+
+  // Otherwise it's the provider's default number
+  return contacts.filter((c) => getPoolNumbers(c.workflows.clients).length === 0)
+}
+
+/**
+ * Clients whose primary or pool numbers include this one
+ */
+async function findNumberOwners(to: string): Promise<Set<string>> {
+  if (!to) return new Set()
+  const supabase = createClient()
+
+  const [{ data: primary }, { data: pooled }] = await Promise.all([
+    supabase.from('clients').select('id').eq('twilio_phone_number', to),
+    supabase.from('clients').select('id').contains('pool_phone_numbers', [to])
+  ])
+
+  const rows = [...(primary || []), ...(pooled || [])] as Array<{ id: string }>
+  return new Set(rows.map((c) => c.id))
+}
+
+/**
+ * Rules 2-4, for when the receiving number matched several contacts
+ */
+async function chooseCandidate(phone: string, candidates: RoutableContact[]): Promise<InboundRoute> {
+  const supabase = createClient()
+  const ids = candidates.map((c) => c.id)
+
+  // 2. The conversation we last messaged them in (messages that actually went out)
+  const { data: lastOutbound } = await supabase
+    .from('messages')
+    .select('contact_id')
+    .in('contact_id', ids)
+    .eq('direction', 'outbound')
+    .in('status', ['queued', 'sent', 'delivered'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const recentId = (lastOutbound as { contact_id: string } | null)?.contact_id
+  const recent = candidates.find((c) => c.id === recentId)
+  if (recent) {
+    return { contact: recent, reason: 'recent_outbound', candidates }
+  }
+
+  // 3. The conversation the team marked as active for this number
+  const { data: pointer } = await supabase
+    .from('active_conversations')
+    .select('contact_id')
+    .eq('phone', phone)
+    .maybeSingle()
+
+  const pointerId = (pointer as { contact_id: string } | null)?.contact_id
+  const active = candidates.find((c) => c.id === pointerId)
+  if (active) {
+    return { contact: active, reason: 'active_conversation', candidates }
+  }
+
+  // 4. Nothing to go on - only guess within a single client
+  const clientIds = new Set(candidates.map((c) => c.workflows.client_id))
+  if (clientIds.size > 1) {
+    return { contact: null, reason: 'unresolved', candidates }
+  }
+
+  const newest = [...candidates].sort((a, b) =>
+    b.created_at.localeCompare(a.created_at) || a.id.localeCompare(b.id)
+  )[0]
+
+  return { contact: newest, reason: 'newest_contact', candidates }
+}
+
+/**
+ * Log a routing decision that needed more than the receiving number
+ * (with the message itself when it wasn't routed, since it is stored nowhere else)
+ */
+async function recordRoutingEvent(params: RouteInboundParams, route: InboundRoute): Promise<void> {
+  if (route.reason === 'receiving_number') return
+
+  const routed = !!route.contact
+
+  console.warn(routed ? '[Routing] Ambiguous inbound message:' : '[Routing] Inbound message not routed:', {
+    from: params.from,
+    to: params.to,
+    messageSid: params.messageSid,
+    reason: route.reason,
+    contactId: route.contact?.id ?? null,
+    candidates: route.candidates.map((c) => c.id)
+  })
+
+  const supabase = createClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('inbound_routing_events')
+    .insert({
+      phone: params.from,
+      receiving_number: params.to || null,
+      message_sid: params.messageSid,
+      contact_id: route.contact?.id ?? null,
+      reason: route.reason,
+      candidate_contact_ids: route.candidates.map((c) => c.id),
+      body: routed ? null : params.body,
+      media: routed ? [] : params.media
+    })
+
+  if (error) {
+    console.warn('[Routing] Failed to record routing event:', error.message)
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Messaging Module
+ * Factory and utilities for SMS/WhatsApp providers
+ */
+
+export * from './types'
+export { TwilioMessagingProvider } from './providers/twilio'
+export { VonageMessagingProvider } from './providers/vonage'
+export { LoopbackMessagingProvider } from './providers/loopback'
+export type { LoopbackSentMessage } from './providers/loopback'
+export { formatPhoneNumber } from './phone'
+export {
+  MESSAGING_PROVIDER_TYPES,
+  MESSAGING_PROVIDER_LABELS,
+  isMessagingProviderType,
+} from './provider-options'
+
+import { MessagingProvider, MessagingProviderType } from './types'
+import { TwilioMessagingProvider } from './providers/twilio'
+import { VonageMessagingProvider } from './providers/vonage'
+import { LoopbackMessagingProvider } from './providers/loopback'
+import { isMessagingProviderType } from './provider-options'
+
+// One instance per provider, so the loopback outbox is shared between requests
+const providers: Partial<Record<MessagingProviderType, MessagingProvider>> = {}
+
+/**
+ * Get a messaging provider instance by type
+ * Without a type, the deployment default (MESSAGING_PROVIDER, else Twilio) is used -
+ * e.g. for admin notifications, which aren't sent from a client's number
+ */
+export function getMessagingProvider(
+  providerType: MessagingProviderType | null = null
+): MessagingProvider {
+  const type = providerType || getDefaultMessagingProviderType()
+
+  if (!providers[type]) {
+    switch (type) {
+      case 'twilio':
+        providers[type] = new TwilioMessagingProvider()
+        break
+      case 'vonage':
+        providers[type] = new VonageMessagingProvider()
+        break
+      case 'loopback':
+        providers[type] = new LoopbackMessagingProvider()
+        break
+      default:
+        throw new Error(`Unknown messaging provider: ${type}`)
+    }
+  }
+
+  return providers[type]!
+}
+
+function getDefaultMessagingProviderType(): MessagingProviderType {
+  const configured = process.env.MESSAGING_PROVIDER
+  return isMessagingProviderType(configured) ? configured : 'twilio'
+}
+
+/**
+ * The status callback URL for a provider, if the app URL is known
+ */
+export function getStatusCallbackUrl(providerType: MessagingProviderType): string | undefined {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || ''
+  return baseUrl ? `${baseUrl}/api/webhooks/${providerType}/status` : undefined
+}
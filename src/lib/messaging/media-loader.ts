@@ -0,0 +1,63 @@
+/**
+ * Media Loader
+ * Downloads photos a lead sent so they can be shown to the model as vision input
+ */
+
+import { MessageMedia } from '@/types/database'
+import { PromptImage } from '@/types/ai'
+import { MessagingProvider } from './types'
+import { getMediaKind, MAX_VISION_IMAGE_BYTES, MAX_VISION_IMAGES, VISION_IMAGE_TYPES } from './media'
+
+export interface LoadedImages {
+  images: PromptImage[]
+  /** URLs of the media that made it into images */
+  viewableUrls: string[]
+}
+
+/**
+ * Fetch the message's images through the provider
+ * Anything that fails, is too big or is a type the model can't read is skipped
+ * (and described to the AI as a photo it can't see)
+ */
+export async function loadVisionImages(
+  media: MessageMedia[],
+  provider: MessagingProvider
+): Promise<LoadedImages> {
+  const result: LoadedImages = { images: [], viewableUrls: [] }
+
+  for (const item of media) {
+    if (result.images.length >= MAX_VISION_IMAGES) break
+    if (getMediaKind(item.content_type) !== 'image') continue
+
+    try {
+      const response = await provider.fetchMedia(item.url)
+      if (!response.ok) {
+        console.warn('[Media] Failed to fetch image:', { url: item.url, status: response.status })
+        continue
+      }
+
+      // Vonage only says "image", so trust the response's own type
+      const mediaType = (response.headers.get('content-type') || item.content_type).split(';')[0].trim().toLowerCase()
+      if (!VISION_IMAGE_TYPES.includes(mediaType)) {
+        console.log('[Media] Image type not supported for vision:', { url: item.url, mediaType })
+        continue
+      }
+
+      const data = Buffer.from(await response.arrayBuffer())
+      if (data.length > MAX_VISION_IMAGE_BYTES) {
+        console.log('[Media] Image too large for vision:', { url: item.url, bytes: data.length })
+        continue
+      }
+
+      result.images.push({ mediaType, data: data.toString('base64') })
+      result.viewableUrls.push(item.url)
+    } catch (error) {
+      console.warn('[Media] Error fetching image:', {
+        url: item.url,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,91 @@
+/**
+ * Inbound Media
+ * What kind of attachment a lead sent, and how to describe it to the AI
+ *
+ * Client-safe (no server imports) so the conversation view can use it.
+ */
+
+import { Json, MessageMedia } from '@/types/database'
+
+export type MediaKind = 'image' | 'audio' | 'video' | 'contact' | 'file'
+
+/** Image types the model accepts as vision input */
+export const VISION_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp']
+
+/** Larger images are described rather than sent to the model */
+export const MAX_VISION_IMAGE_BYTES = 5 * 1024 * 1024
+
+/** At most this many images from one message are passed to the model */
+export const MAX_VISION_IMAGES = 4
+
+const MEDIA_KIND_LABELS: Record<MediaKind, string> = {
+  image: 'a photo',
+  audio: 'a voice note',
+  video: 'a video',
+  contact: 'a contact card',
+  file: 'a file',
+}
+
+export function getMediaKind(contentType: string): MediaKind {
+  const type = contentType.toLowerCase()
+  if (type.startsWith('image/')) return 'image'
+  if (type.startsWith('audio/')) return 'audio'
+  if (type.startsWith('video/')) return 'video'
+  if (type === 'text/vcard' || type === 'text/x-vcard') return 'contact'
+  return 'file'
+}
+
+export function getMessageMedia(message: { media?: Json }): MessageMedia[] {
+  return Array.isArray(message.media) ? (message.media as MessageMedia[]) : []
+}
+
+/**
+ * A note for the AI about what was attached, added to the message text
+ * viewableUrls: the images the model is shown alongside the text
+ */
+export function describeMediaForPrompt(media: MessageMedia[], viewableUrls: string[] = []): string {
+  if (media.length === 0) return ''
+
+  const notes: string[] = []
+
+  for (const item of media) {
+    const kind = getMediaKind(item.content_type)
+    if (viewableUrls.includes(item.url)) {
+      notes.push('[They sent a photo - it is attached, so refer to what it shows]')
+    } else if (kind === 'image') {
+      notes.push("[They sent a photo you can't see - say you couldn't open it and ask them to describe it]")
+    } else {
+      const label = MEDIA_KIND_LABELS[kind]
+      notes.push(`[They sent ${label}, which you can't open - say so briefly and ask them to type it out instead]`)
+    }
+  }
+
+  return notes.join('\n')
+}
+
+/**
+ * The message text with media notes, as the AI reads it
+ */
+export function withMediaNotes(text: string, media: MessageMedia[], viewableUrls: string[] = []): string {
+  const notes = describeMediaForPrompt(media, viewableUrls)
+  if (!notes) return text
+  return text.trim() ? `${text}\n${notes}` : notes
+}
+
+/**
+ * What an earlier message had attached, for the conversation history
+ * (only the message being answered gets its images and instructions)
+ */
+export function summarizeMedia(media: MessageMedia[]): string {
+  if (media.length === 0) return ''
+  const labels = media.map((item) => MEDIA_KIND_LABELS[getMediaKind(item.content_type)])
+  return `[Attached: ${labels.join(', ')}]`
+}
+
+/**
+ * Short label for the conversation view, e.g. "Voice note"
+ */
+export function getMediaLabel(contentType: string): string {
+  const label = MEDIA_KIND_LABELS[getMediaKind(contentType)].replace(/^an? /, '')
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
@@ -1,6 +1,15 @@
 import { createClient } from '@/lib/supabase/server'
-import { sendMessage, isTwilioConfigured } from './client'
-import { Contact, Workflow, Client, FollowUpTemplate } from '@/types/database'
+import { TemplateMessage } from './index'
+import {
+  buildTemplateVariables,
+  getWhatsAppTemplates,
+  isSessionOpen,
+  renderTemplatePreview,
+  selectTemplate,
+  WHATSAPP_TEMPLATE_PURPOSE_LABELS,
+} from './whatsapp'
+import { enqueueOutboundMessage, requeueMessage, QueueSendResult } from './outbound-queue'
+import { Contact, Workflow, Client, FollowUpTemplate, WhatsAppTemplatePurpose } from '@/types/database'
 
 type ContactWithWorkflow = Contact & {
   workflows: Workflow & {
@@ -11,20 +20,28 @@ type ContactWithWorkflow = Contact & {
 interface SendOutboundParams {
   contactId: string
   message: string
-  channel: 'sms' | 'whatsapp'
+  channel: 'sms' | 'whatsapp' | 'email'
   aiGenerated?: boolean
   tokensUsed?: number
+  /** Which WhatsApp template to use if the session window is closed (default 'general') */
+  templatePurpose?: WhatsAppTemplatePurpose
+  /** Values for template placeholders beyond the contact's own (time, location, ...) */
+  templateVariables?: Record<string, string | null | undefined>
 }
 
 interface SendOutboundResult {
   success: boolean
   messageId?: string
-  twilioSid?: string
+  /** The messaging provider's id for the sent message */
+  providerMessageId?: string
   error?: string
+  /** Set when the send failed temporarily and the queue will try again */
+  retryAt?: string
 }
 
 /**
  * Send an outbound message to a contact and save to database
+ * The message goes through the outbound queue, which retries temporary failures
  */
 export async function sendOutboundMessage(params: SendOutboundParams): Promise<SendOutboundResult> {
   const supabase = createClient()
@@ -59,14 +76,26 @@ export async function sendOutboundMessage(params: SendOutboundParams): Promise<S
     }
   }
 
-  if (!typedContact.phone) {
+  if (params.channel === 'email' && !typedContact.email) {
+    return {
+      success: false,
+      error: 'Contact has no email address'
+    }
+  }
+
+  if (params.channel !== 'email' && !typedContact.phone) {
     return {
       success: false,
       error: 'Contact has no phone number'
     }
   }
 
-  // 3. Save message to database first (with pending status)
+  // 3. Outside the WhatsApp session window, send an approved template instead
+  const whatsApp = params.channel === 'whatsapp'
+    ? resolveWhatsAppMessage(typedContact, params)
+    : null
+
+  // 4. Save message to database first (with pending status)
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const { data: messageRecord, error: insertError } = await (supabase as any)
     .from('messages')
@@ -74,8 +103,11 @@ export async function sendOutboundMessage(params: SendOutboundParams): Promise<S
       contact_id: params.contactId,
       direction: 'outbound',
       channel: params.channel,
-      content: params.message,
-      status: 'pending',
+      content: whatsApp?.content ?? params.message,
+      status: whatsApp?.error ? 'failed' : 'pending',
+      error_message: whatsApp?.error ?? null,
+      whatsapp_template_id: whatsApp?.template?.id ?? null,
+      whatsapp_template_variables: whatsApp?.template?.variables ?? null,
       ai_generated: params.aiGenerated ?? true,
       tokens_used: params.tokensUsed ?? null
     })
@@ -89,75 +121,76 @@ export async function sendOutboundMessage(params: SendOutboundParams): Promise<S
     }
   }
 
-  // 4. If Twilio is not configured, mark as sent (for testing)
-  if (!isTwilioConfigured()) {
-    console.log(`[TEST MODE] Would send ${params.channel} to ${typedContact.phone}: ${params.message}`)
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    await (supabase as any)
-      .from('messages')
-      .update({ status: 'sent' })
-      .eq('id', messageRecord.id)
-
+  if (whatsApp?.error) {
+    console.warn('[WhatsApp] Session window closed and no template to send:', {
+      contactId: params.contactId,
+      purpose: params.templatePurpose ?? 'general'
+    })
     return {
-      success: true,
-      messageId: messageRecord.id
+      success: false,
+      messageId: messageRecord.id,
+      error: whatsApp.error
     }
   }
 
-  // 5. Get the client's Twilio number
-  const clientPhone = typedContact.workflows.clients?.twilio_phone_number
-
-  // 6. Construct status callback URL
-  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || ''
-  const statusCallback = baseUrl ? `${baseUrl}/api/webhooks/twilio/status` : undefined
+  // 5. Queue it and send straight away (temporary failures are retried by the queue worker)
+  return toSendResult(await enqueueOutboundMessage({
+    messageId: messageRecord.id,
+    contactId: params.contactId
+  }))
+}
 
-  // 7. Send via Twilio
-  const sendResult = await sendMessage({
-    to: typedContact.phone,
-    body: params.message,
-    channel: params.channel,
-    fromNumber: clientPhone || undefined,
-    statusCallback
-  })
+/**
+ * A message still queued for a retry counts as sent - only dead-lettered ones fail
+ */
+function toSendResult(result: QueueSendResult): SendOutboundResult {
+  return {
+    success: result.status !== 'dead',
+    messageId: result.messageId,
+    providerMessageId: result.providerMessageId,
+    error: result.error,
+    retryAt: result.retryAt
+  }
+}
 
-  // 8. Update message record with result
-  if (sendResult.success && sendResult.sid) {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    await (supabase as any)
-      .from('messages')
-      .update({
-        twilio_sid: sendResult.sid,
-        status: 'queued'
-      })
-      .eq('id', messageRecord.id)
+/**
+ * What to send on WhatsApp: free-form inside the session window, otherwise the
+ * workflow's template for this kind of message (or an error if it has none)
+ */
+function resolveWhatsAppMessage(
+  contact: ContactWithWorkflow,
+  params: SendOutboundParams
+): { content?: string; template?: TemplateMessage; error?: string } {
+  if (isSessionOpen(contact.whatsapp_session_expires_at)) {
+    return {}
+  }
 
-    // Update contact last_message_at
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    await (supabase as any)
-      .from('contacts')
-      .update({ last_message_at: new Date().toISOString() })
-      .eq('id', params.contactId)
+  const purpose = params.templatePurpose ?? 'general'
+  const template = selectTemplate(getWhatsAppTemplates(contact.workflows), purpose)
 
+  if (!template) {
     return {
-      success: true,
-      messageId: messageRecord.id,
-      twilioSid: sendResult.sid
+      error: `WhatsApp session window is closed and the workflow has no approved template for ${WHATSAPP_TEMPLATE_PURPOSE_LABELS[purpose].toLowerCase()} messages`
     }
-  } else {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    await (supabase as any)
-      .from('messages')
-      .update({
-        status: 'failed',
-        error_message: sendResult.error
-      })
-      .eq('id', messageRecord.id)
+  }
 
-    return {
-      success: false,
-      messageId: messageRecord.id,
-      error: sendResult.error
+  const brandName = contact.workflows.clients?.brand_name || contact.workflows.clients?.name || ''
+  const variables = buildTemplateVariables(template, {
+    first_name: contact.first_name || 'there',
+    last_name: contact.last_name,
+    full_name: [contact.first_name, contact.last_name].filter(Boolean).join(' ') || 'there',
+    brand_name: brandName,
+    company_name: contact.workflows.clients?.name,
+    message: params.message,
+    ...params.templateVariables
+  })
+
+  return {
+    content: renderTemplatePreview(template, variables),
+    template: {
+      id: template.template_id,
+      language: template.language,
+      variables
     }
   }
 }
@@ -225,21 +258,13 @@ export async function sendInitialOutreach(contactId: string): Promise<SendOutbou
     }
   )
 
-  // Verify channel is supported for Twilio
-  const channel = typedContact.workflows.channel
-  if (channel === 'email') {
-    return {
-      success: false,
-      error: 'Email channel not supported for Twilio - use email provider instead'
-    }
-  }
-
   // Send the message
   const result = await sendOutboundMessage({
     contactId,
     message: initialMessage,
-    channel,
-    aiGenerated: false // Initial template is not AI-generated
+    channel: typedContact.workflows.channel,
+    aiGenerated: false, // Initial template is not AI-generated
+    templatePurpose: 'initial_outreach'
   })
 
   // Update contact status to 'contacted' if successful
@@ -281,6 +306,7 @@ function parseTemplate(template: string, variables: Record<string, string>): str
 
 /**
  * Retry sending a failed message
+ * It goes back in the queue with a fresh set of attempts and is tried straight away
  */
 export async function retryFailedMessage(messageId: string): Promise<SendOutboundResult> {
   const supabase = createClient()
@@ -288,14 +314,13 @@ export async function retryFailedMessage(messageId: string): Promise<SendOutboun
   // Get the failed message
   const { data: messageData, error: messageError } = await supabase
     .from('messages')
-    .select('*')
+    .select('id, contact_id')
     .eq('id', messageId)
     .eq('status', 'failed')
     .eq('direction', 'outbound')
     .single()
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const message = messageData as any
+  const message = messageData as { id: string; contact_id: string } | null
 
   if (messageError || !message) {
     return {
@@ -304,82 +329,16 @@ export async function retryFailedMessage(messageId: string): Promise<SendOutboun
     }
   }
 
-  // Get the contact
-  const { data: contact, error: contactError } = await supabase
-    .from('contacts')
-    .select(`
-      *,
-      workflows (
-        *,
-        clients (*)
-      )
-    `)
-    .eq('id', message.contact_id)
-    .single()
-
-  if (contactError || !contact) {
-    return {
-      success: false,
-      error: 'Contact not found'
-    }
-  }
-
-  const typedContact = contact as unknown as ContactWithWorkflow
-
-  // Check if Twilio is configured
-  if (!isTwilioConfigured()) {
-    return {
-      success: false,
-      error: 'Twilio not configured'
-    }
-  }
-
-  // Get client phone
-  const clientPhone = typedContact.workflows.clients?.twilio_phone_number
-
-  // Construct status callback
-  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || ''
-  const statusCallback = baseUrl ? `${baseUrl}/api/webhooks/twilio/status` : undefined
-
-  // Retry sending
-  const sendResult = await sendMessage({
-    to: typedContact.phone!,
-    body: message.content,
-    channel: message.channel,
-    fromNumber: clientPhone || undefined,
-    statusCallback
-  })
-
-  // Update message record
-  if (sendResult.success && sendResult.sid) {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    await (supabase as any)
-      .from('messages')
-      .update({
-        twilio_sid: sendResult.sid,
-        status: 'queued',
-        error_message: null
-      })
-      .eq('id', messageId)
-
-    return {
-      success: true,
-      messageId,
-      twilioSid: sendResult.sid
-    }
-  } else {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    await (supabase as any)
-      .from('messages')
-      .update({
-        error_message: `Retry failed: ${sendResult.error}`
-      })
-      .eq('id', messageId)
-
-    return {
-      success: false,
-      messageId,
-      error: sendResult.error
-    }
+  const result = await requeueMessage(message.id, message.contact_id)
+
+  // Only a send that went through counts here - the team is waiting on the outcome
+  return {
+    success: result.status === 'sent',
+    messageId,
+    providerMessageId: result.providerMessageId,
+    error: result.status === 'queued'
+      ? `Retry failed, trying again at ${new Date(result.retryAt!).toLocaleTimeString()}: ${result.error}`
+      : result.error,
+    retryAt: result.retryAt
   }
 }
@@ -0,0 +1,132 @@
+/**
+ * Number Pools
+ * A client can send from several numbers: the primary twilio_phone_number plus any
+ * pool numbers. Each contact gets one of them - matching the lead's area code when
+ * local presence is on - and keeps it for the whole conversation. A pool number can
+ * be hosted on a different provider than the client's default (number_providers).
+ *
+ * Client-safe (no server imports) so the client settings and simulator can use it.
+ */
+
+import { Client, Contact } from '@/types/database'
+import { formatPhoneNumber } from './phone'
+import { isMessagingProviderType } from './provider-options'
+import type { MessagingProviderType } from './types'
+
+type PoolClient = Pick<Client, 'twilio_phone_number' | 'pool_phone_numbers'>
+
+export interface PoolEntries {
+  numbers: string[]
+  /** Numbers on a different provider than the client's default */
+  providers: Record<string, MessagingProviderType>
+}
+
+/**
+ * Every number the client sends from, primary first
+ */
+export function getPoolNumbers(client: PoolClient | null | undefined): string[] {
+  if (!client) return []
+
+  const numbers = [client.twilio_phone_number, ...(client.pool_phone_numbers || [])]
+    .filter((n): n is string => !!n)
+
+  return Array.from(new Set(numbers))
+}
+
+export function isPoolNumber(client: PoolClient | null | undefined, phone: string | null | undefined): boolean {
+  return !!phone && getPoolNumbers(client).includes(phone)
+}
+
+/**
+ * The provider a number is hosted on: its pool entry's, else the client's default
+ * Null without a client (the deployment default is used).
+ */
+export function getNumberProviderType(
+  client: Pick<Client, 'messaging_provider' | 'number_providers'> | null | undefined,
+  phone: string | null | undefined
+): MessagingProviderType | null {
+  if (!client) return null
+
+  const own = phone ? client.number_providers?.[phone] : undefined
+  return isMessagingProviderType(own) ? own : client.messaging_provider
+}
+
+/**
+ * Area code of a North American (+1) number, or null for anything else
+ */
+export function getAreaCode(phone: string | null | undefined): string | null {
+  const match = phone?.match(/^\+1(\d{3})\d{7}$/)
+  return match ? match[1] : null
+}
+
+/**
+ * The number a contact should be messaged from
+ * Their pinned number while it is still in the pool; otherwise a local number if
+ * local presence is on and one matches, spread evenly across contacts. Null when the
+ * client has no numbers (the provider's default number is used).
+ */
+export function pickSenderNumber(
+  client: (PoolClient & Pick<Client, 'local_presence'>) | null | undefined,
+  contact: Pick<Contact, 'id' | 'phone' | 'sender_number'>
+): string | null {
+  const numbers = getPoolNumbers(client)
+
+  if (contact.sender_number && numbers.includes(contact.sender_number)) {
+    return contact.sender_number
+  }
+
+  if (numbers.length === 0) return null
+
+  let candidates = numbers
+  const areaCode = client?.local_presence ? getAreaCode(contact.phone) : null
+  if (areaCode) {
+    const local = numbers.filter((n) => getAreaCode(n) === areaCode)
+    if (local.length > 0) candidates = local
+  }
+
+  // Same contact, same pick - so a retry before the pin is saved doesn't switch numbers
+  return candidates[hashString(contact.id) % candidates.length]
+}
+
+/**
+ * Clean up pool entries from a settings form: a number, optionally followed by the
+ * provider it is on when that isn't the client's default ("+12125550100 vonage")
+ * Returns null if any entry isn't a phone number or names an unknown provider.
+ */
+export function normalizePoolEntries(values: unknown): PoolEntries | null {
+  if (!Array.isArray(values)) return null
+
+  const entries: PoolEntries = { numbers: [], providers: {} }
+  for (const value of values) {
+    if (typeof value !== 'string') return null
+    if (!value.trim()) continue
+
+    const match = value.trim().match(/^(.*?)(?:\s+([a-z]+))?$/i)
+    const providerName = match?.[2]?.toLowerCase()
+    if (providerName && !isMessagingProviderType(providerName)) return null
+
+    const formatted = formatPhoneNumber(match?.[1] || '')
+    if (!/^\+\d{8,15}$/.test(formatted)) return null
+    if (!entries.numbers.includes(formatted)) entries.numbers.push(formatted)
+    if (providerName) entries.providers[formatted] = providerName as MessagingProviderType
+  }
+
+  return entries
+}
+
+/**
+ * Pool entries as the settings form shows them, one per line
+ */
+export function formatPoolEntries(client: Pick<Client, 'pool_phone_numbers' | 'number_providers'>): string {
+  return (client.pool_phone_numbers || [])
+    .map((n) => (client.number_providers?.[n] ? `${n} ${client.number_providers[n]}` : n))
+    .join('\n')
+}
+
+function hashString(value: string): number {
+  let hash = 0
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) >>> 0
+  }
+  return hash
+}
@@ -0,0 +1,420 @@
+/**
+ * Outbound Queue
+ * Every outbound message is queued, then sent by whoever gets to it first:
+ * the sender itself for messages due now, or the queue worker for scheduled
+ * ones (AI replies after their typing delay) and retries.
+ *
+ * Temporary failures (rate limits, provider outages, network errors) are retried
+ * with exponential backoff; permanent ones, or a message that runs out of attempts,
+ * are dead-lettered and the message is marked failed.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { getMessagingProvider, getStatusCallbackUrl, TemplateMessage } from './index'
+import { getWhatsAppTemplates, isSessionOpen } from './whatsapp'
+import { getNumberProviderType, pickSenderNumber } from './number-pool'
+import { sendContactEmail } from '@/lib/email'
+import { Contact, Workflow, Client, Message, OutboundQueueItem } from '@/types/database'
+
+type ContactWithWorkflow = Contact & {
+  workflows: Workflow & {
+    clients: Client
+  }
+}
+
+type DbClient = ReturnType<typeof createClient>
+
+/** Attempts before a message is dead-lettered */
+export const MAX_SEND_ATTEMPTS = 5
+
+/** First retry after a minute, doubling each time */
+const RETRY_BASE_DELAY_MS = 60 * 1000
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000
+
+/** How long a send may hold an item before the worker takes it back */
+const SEND_LOCK_MS = 5 * 60 * 1000
+
+export interface QueueSendResult {
+  /** Where the item ended up */
+  status: OutboundQueueItem['status']
+  messageId: string
+  /** The messaging provider's id for the sent message */
+  providerMessageId?: string
+  error?: string
+  /** When the next attempt is due, if one was scheduled */
+  retryAt?: string
+  /** Another sender had already claimed the item */
+  skipped?: boolean
+}
+
+interface DeliveryResult {
+  success: boolean
+  providerMessageId?: string
+  error?: string
+  retryable?: boolean
+}
+
+/** What sending a queued message talks to, swappable for the in-memory harness */
+export interface OutboundQueueDependencies {
+  createDbClient: () => DbClient
+  getMessagingProvider: typeof getMessagingProvider
+}
+
+interface EnqueueParams {
+  messageId: string
+  contactId: string
+  /** Send later instead of right away */
+  sendAt?: Date
+}
+
+/**
+ * Delay before the next attempt, after this many attempts have failed
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1))
+}
+
+/**
+ * Whether a message may still go to the contact
+ * Nothing goes to a lead who has opted out, except the reply confirming it.
+ */
+export function canDeliverToContact(
+  contact: Pick<Contact, 'opted_out' | 'status'>,
+  message: Pick<Message, 'opt_out_confirmation'>
+): boolean {
+  if (message.opt_out_confirmation) return true
+  return !contact.opted_out && contact.status !== 'opted_out'
+}
+
+/**
+ * Queue a saved pending message, and try sending it now unless it is scheduled for later
+ */
+export async function enqueueOutboundMessage(params: EnqueueParams): Promise<QueueSendResult> {
+  const supabase = createClient()
+  const sendLater = !!params.sendAt && params.sendAt.getTime() > Date.now()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: item, error } = await (supabase as any)
+    .from('outbound_queue')
+    .insert({
+      message_id: params.messageId,
+      contact_id: params.contactId,
+      send_at: (params.sendAt ?? new Date()).toISOString(),
+      max_attempts: MAX_SEND_ATTEMPTS
+    })
+    .select('*')
+    .single()
+
+  if (error || !item) {
+    console.error('[Queue] Failed to queue message:', { messageId: params.messageId, error: error?.message })
+    return {
+      status: 'dead',
+      messageId: params.messageId,
+      error: `Failed to queue message: ${error?.message}`
+    }
+  }
+
+  if (sendLater) {
+    return { status: 'queued', messageId: params.messageId }
+  }
+
+  return processQueueItem(item as OutboundQueueItem)
+}
+
+/**
+ * Put a failed message back in the queue with a fresh set of attempts
+ */
+export async function requeueMessage(messageId: string, contactId: string): Promise<QueueSendResult> {
+  const supabase = createClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await (supabase as any)
+    .from('messages')
+    .update({ status: 'pending', error_message: null })
+    .eq('id', messageId)
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: item } = await (supabase as any)
+    .from('outbound_queue')
+    .update({
+      status: 'queued',
+      attempts: 0,
+      send_at: new Date().toISOString(),
+      last_error: null,
+      locked_until: null
+    })
+    .eq('message_id', messageId)
+    .neq('status', 'sending')
+    .select('*')
+    .maybeSingle()
+
+  // Messages sent before the queue existed have no item yet
+  if (!item) {
+    return enqueueOutboundMessage({ messageId, contactId })
+  }
+
+  return processQueueItem(item as OutboundQueueItem)
+}
+
+/**
+ * Claim a due item and try to send it, then record the outcome
+ */
+export async function processQueueItem(
+  item: OutboundQueueItem,
+  deps: Partial<OutboundQueueDependencies> = {}
+): Promise<QueueSendResult> {
+  const dependencies: OutboundQueueDependencies = {
+    createDbClient: createClient,
+    getMessagingProvider,
+    ...deps,
+  }
+  const supabase = dependencies.createDbClient()
+  const attempts = item.attempts + 1
+
+  // Claim it - the attempt count changes on every claim, so only one sender wins
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: claimed } = await (supabase as any)
+    .from('outbound_queue')
+    .update({
+      status: 'sending',
+      attempts,
+      locked_until: new Date(Date.now() + SEND_LOCK_MS).toISOString()
+    })
+    .eq('id', item.id)
+    .eq('status', item.status)
+    .eq('attempts', item.attempts)
+    .select('id')
+
+  if (!claimed || claimed.length === 0) {
+    return { status: 'sending', messageId: item.message_id, skipped: true }
+  }
+
+  let result: DeliveryResult
+  try {
+    result = await deliverMessage(item.message_id, dependencies)
+  } catch (error) {
+    result = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error sending message',
+      retryable: true
+    }
+  }
+
+  if (result.success) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (supabase as any)
+      .from('outbound_queue')
+      .update({ status: 'sent', last_error: null, locked_until: null })
+      .eq('id', item.id)
+
+    return {
+      status: 'sent',
+      messageId: item.message_id,
+      providerMessageId: result.providerMessageId
+    }
+  }
+
+  const error = result.error || 'Unknown error sending message'
+
+  if (result.retryable && attempts < item.max_attempts) {
+    const retryAt = new Date(Date.now() + getRetryDelay(attempts)).toISOString()
+
+    console.warn('[Queue] Send failed, retrying:', {
+      messageId: item.message_id,
+      attempt: attempts,
+      retryAt,
+      error
+    })
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (supabase as any)
+      .from('outbound_queue')
+      .update({ status: 'queued', send_at: retryAt, last_error: error, locked_until: null })
+      .eq('id', item.id)
+
+    // Still on its way - the error is kept for the conversation view
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (supabase as any)
+      .from('messages')
+      .update({ status: 'pending', error_message: error })
+      .eq('id', item.message_id)
+
+    return { status: 'queued', messageId: item.message_id, error, retryAt }
+  }
+
+  console.error('[Queue] Send failed, dead-lettering:', {
+    messageId: item.message_id,
+    attempts,
+    retryable: !!result.retryable,
+    error
+  })
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await (supabase as any)
+    .from('outbound_queue')
+    .update({ status: 'dead', last_error: error, locked_until: null })
+    .eq('id', item.id)
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await (supabase as any)
+    .from('messages')
+    .update({ status: 'failed', error_message: error })
+    .eq('id', item.message_id)
+
+  return { status: 'dead', messageId: item.message_id, error }
+}
+
+/**
+ * Send a saved outbound message through the contact's channel
+ * Success is recorded on the message here; failures are left to the queue
+ */
+async function deliverMessage(
+  messageId: string,
+  deps: OutboundQueueDependencies
+): Promise<DeliveryResult> {
+  const supabase = deps.createDbClient()
+
+  const { data: messageData } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('id', messageId)
+    .single()
+
+  const message = messageData as Message | null
+
+  if (!message) {
+    return { success: false, error: 'Message not found' }
+  }
+
+  const { data: contactData } = await supabase
+    .from('contacts')
+    .select(`
+      *,
+      workflows (
+        *,
+        clients (*)
+      )
+    `)
+    .eq('id', message.contact_id)
+    .single()
+
+  const contact = contactData as unknown as ContactWithWorkflow | null
+
+  if (!contact) {
+    return { success: false, error: 'Contact not found' }
+  }
+
+  // The lead may have opted out while the message was waiting
+  if (!canDeliverToContact(contact, message)) {
+    return { success: false, error: 'Contact has opted out' }
+  }
+
+  // Email goes through the email provider, which records the outcome itself
+  if (message.channel === 'email') {
+    const emailResult = await sendContactEmail({
+      contactId: contact.id,
+      messageRecordId: messageId,
+      text: message.content
+    })
+
+    if (emailResult.success) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (supabase as any)
+        .from('contacts')
+        .update({ last_message_at: new Date().toISOString() })
+        .eq('id', contact.id)
+    }
+
+    return {
+      success: emailResult.success,
+      error: emailResult.error,
+      retryable: emailResult.retryable
+    }
+  }
+
+  if (!contact.phone) {
+    return { success: false, error: 'Contact has no phone number' }
+  }
+
+  // Template messages go out as the same template; free-form ones need an open window
+  let template: TemplateMessage | undefined
+  if (message.whatsapp_template_id) {
+    const registered = getWhatsAppTemplates(contact.workflows)
+      .find((t) => t.template_id === message.whatsapp_template_id)
+    template = {
+      id: message.whatsapp_template_id,
+      language: registered?.language || 'en',
+      variables: (message.whatsapp_template_variables as Record<string, string> | null) || {}
+    }
+  } else if (message.channel === 'whatsapp' && !isSessionOpen(contact.whatsapp_session_expires_at)) {
+    return {
+      success: false,
+      error: 'WhatsApp session window is closed - only template messages can be sent until the contact replies'
+    }
+  }
+
+  // Send from the contact's own number, through the provider that number is on
+  const client = contact.workflows.clients
+  const fromNumber = pickSenderNumber(client, contact)
+  const provider = deps.getMessagingProvider(getNumberProviderType(client, fromNumber))
+
+  // If the provider is not configured, mark as sent (for testing)
+  if (!provider.isConfigured()) {
+    console.log(`[TEST MODE] Would send ${message.channel} to ${contact.phone}: ${message.content}`)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (supabase as any)
+      .from('messages')
+      .update({ status: 'sent', error_message: null })
+      .eq('id', messageId)
+
+    if (fromNumber && fromNumber !== contact.sender_number) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (supabase as any)
+        .from('contacts')
+        .update({ sender_number: fromNumber })
+        .eq('id', contact.id)
+    }
+
+    return { success: true }
+  }
+
+  const sendResult = await provider.send({
+    to: contact.phone,
+    body: message.content,
+    channel: message.channel,
+    fromNumber: fromNumber || undefined,
+    statusCallback: getStatusCallbackUrl(provider.providerType),
+    template
+  })
+
+  if (!sendResult.success || !sendResult.sid) {
+    return {
+      success: false,
+      error: sendResult.error,
+      retryable: sendResult.retryable
+    }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await (supabase as any)
+    .from('messages')
+    .update({
+      twilio_sid: sendResult.sid,
+      status: 'queued',
+      error_message: null
+    })
+    .eq('id', messageId)
+
+  // Update contact last_message_at, and pin the number they were messaged from
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await (supabase as any)
+    .from('contacts')
+    .update({
+      last_message_at: new Date().toISOString(),
+      ...(fromNumber && fromNumber !== contact.sender_number ? { sender_number: fromNumber } : {})
+    })
+    .eq('id', contact.id)
+
+  return { success: true, providerMessageId: sendResult.sid }
+}
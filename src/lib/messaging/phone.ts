@@ -0,0 +1,27 @@
+/**
+ * Phone Number Helpers
+ */
+
+/**
+ * Format a phone number for E.164 format
+ */
+export function formatPhoneNumber(phone: string): string {
+  // Remove all non-numeric characters
+  const cleaned = phone.replace(/\D/g, '')
+
+  // If it doesn't start with a country code, assume US/UK based on length
+  if (cleaned.length === 10) {
+    return `+1${cleaned}` // Assume US
+  }
+  if (cleaned.length === 11 && cleaned.startsWith('1')) {
+    return `+${cleaned}`
+  }
+  if (cleaned.length === 11 && cleaned.startsWith('44')) {
+    return `+${cleaned}` // UK
+  }
+  if (!cleaned.startsWith('+')) {
+    return `+${cleaned}`
+  }
+
+  return cleaned
+}
@@ -0,0 +1,18 @@
+/**
+ * Messaging Provider Options
+ * Client-safe list of providers for settings forms and API validation
+ */
+
+import type { MessagingProviderType } from './types'
+
+export const MESSAGING_PROVIDER_TYPES: MessagingProviderType[] = ['twilio', 'vonage', 'loopback']
+
+export const MESSAGING_PROVIDER_LABELS: Record<MessagingProviderType, string> = {
+  twilio: 'Twilio',
+  vonage: 'Vonage',
+  loopback: 'Loopback (development)',
+}
+
+export function isMessagingProviderType(value: unknown): value is MessagingProviderType {
+  return typeof value === 'string' && (MESSAGING_PROVIDER_TYPES as string[]).includes(value)
+}
@@ -0,0 +1,116 @@
+/**
+ * Loopback Messaging Provider
+ * Implements MessagingProvider without a carrier, for development
+ *
+ * Sends are logged and kept in an in-memory outbox instead of leaving the
+ * machine. Inbound messages and status updates are posted to
+ * /api/webhooks/loopback/inbound and /status using Twilio's field names
+ * (From, To, Body, MessageSid, MessageStatus, MediaUrl0...). Disabled in production.
+ */
+
+import { randomUUID } from 'crypto'
+import {
+  DeliveryStatus,
+  InboundMessage,
+  MessagingProvider,
+  MessagingProviderType,
+  MessagingWebhookRequest,
+  SendMessageParams,
+  SendMessageResult,
+  StatusUpdate,
+} from '../types'
+import { formatPhoneNumber } from '../phone'
+import { parseTwilioMedia } from './twilio'
+
+export interface LoopbackSentMessage extends SendMessageParams {
+  sid: string
+  sentAt: Date
+}
+
+const STATUSES: DeliveryStatus[] = ['queued', 'sent', 'delivered', 'failed']
+
+export class LoopbackMessagingProvider implements MessagingProvider {
+  readonly providerType: MessagingProviderType = 'loopback'
+  private outbox: LoopbackSentMessage[] = []
+
+  isConfigured(): boolean {
+    return process.env.NODE_ENV !== 'production'
+  }
+
+  async send(params: SendMessageParams): Promise<SendMessageResult> {
+    if (!this.isConfigured()) {
+      return { success: false, error: 'Loopback messaging is disabled in production' }
+    }
+
+    const sid = `LB${randomUUID().replace(/-/g, '')}`
+    this.outbox.push({ ...params, sid, sentAt: new Date() })
+
+    console.log(`[LOOPBACK] ${params.channel} to ${params.to}${params.template ? ` (template ${params.template.id})` : ''}: ${params.body}`)
+
+    return { success: true, sid, status: 'sent' }
+  }
+
+  /**
+   * Nothing to verify against - only accepted outside production
+   */
+  validateRequest(): boolean {
+    return this.isConfigured()
+  }
+
+  parseInbound(request: MessagingWebhookRequest): InboundMessage | null {
+    const { params } = request
+    if (!params.From) {
+      return null
+    }
+
+    const isWhatsApp = params.From.startsWith('whatsapp:')
+
+    return {
+      messageSid: params.MessageSid || `LB${randomUUID().replace(/-/g, '')}`,
+      from: formatPhoneNumber(params.From.replace('whatsapp:', '')),
+      to: params.To ? formatPhoneNumber(params.To.replace('whatsapp:', '')) : '',
+      body: params.Body || '',
+      channel: isWhatsApp ? 'whatsapp' : 'sms',
+      media: parseTwilioMedia(params),
+      providerOptOut: false,
+    }
+  }
+
+  parseStatus(request: MessagingWebhookRequest): StatusUpdate | null {
+    const { params } = request
+    const status = params.MessageStatus as DeliveryStatus
+    if (!params.MessageSid || !STATUSES.includes(status)) {
+      return null
+    }
+
+    return {
+      messageSid: params.MessageSid,
+      status,
+      providerStatus: status,
+      errorCode: params.ErrorCode || undefined,
+      errorMessage: params.ErrorMessage || undefined,
+    }
+  }
+
+  /**
+   * Simulated media is plain URLs (or data: URLs) - nothing to authenticate
+   */
+  async fetchMedia(url: string): Promise<Response> {
+    return fetch(url)
+  }
+
+  inboundResponse(message?: string): Response {
+    return Response.json({ received: true, ...(message ? { message } : {}) })
+  }
+
+  /**
+   * Everything "sent" so far, oldest first
+   */
+  getOutbox(): LoopbackSentMessage[] {
+    return [...this.outbox]
+  }
+
+  clear(): void {
+    this.outbox = []
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Twilio Messaging Provider
+ * Implements MessagingProvider for Twilio Programmable Messaging (SMS and WhatsApp)
+ */
+
+import twilio from 'twilio'
+import {
+  DeliveryStatus,
+  InboundMedia,
+  InboundMessage,
+  MessagingProvider,
+  MessagingProviderType,
+  MessagingWebhookRequest,
+  SendMessageParams,
+  SendMessageResult,
+  StatusUpdate,
+} from '../types'
+import { formatPhoneNumber } from '../phone'
+
+// Twilio errors worth retrying: rate limits, Twilio-side failures, queue overflow and
+// transient carrier errors (https://www.twilio.com/docs/api/errors)
+const RETRYABLE_ERROR_CODES = [20429, 20500, 20503, 30001, 30008, 30009]
+
+// Map Twilio status to our status
+const STATUS_MAP: Record<string, DeliveryStatus> = {
+  accepted: 'queued',
+  scheduled: 'queued',
+  queued: 'queued',
+  sending: 'queued',
+  sent: 'sent',
+  delivered: 'delivered',
+  undelivered: 'failed',
+  failed: 'failed',
+  read: 'delivered', // WhatsApp read receipt
+}
+
+export class TwilioMessagingProvider implements MessagingProvider {
+  readonly providerType: MessagingProviderType = 'twilio'
+
+  private accountSid = process.env.TWILIO_ACCOUNT_SID
+  private authToken = process.env.TWILIO_AUTH_TOKEN
+  private defaultFromNumber = process.env.TWILIO_PHONE_NUMBER
+  private whatsappFromNumber = process.env.TWILIO_WHATSAPP_NUMBER
+
+  // Lazy initialization to avoid errors when env vars aren't set
+  private client: twilio.Twilio | null = null
+
+  private getClient(): twilio.Twilio {
+    if (!this.client) {
+      if (!this.accountSid || !this.authToken) {
+        throw new Error('Twilio credentials not configured. Set TWILIO_ACCOUNT_SID and TWILIO_AUTH_TOKEN environment variables.')
+      }
+      this.client = twilio(this.accountSid, this.authToken)
+    }
+    return this.client
+  }
+
+  isConfigured(): boolean {
+    return !!(this.accountSid && this.authToken && (this.defaultFromNumber || this.whatsappFromNumber))
+  }
+
+  async send(params: SendMessageParams): Promise<SendMessageResult> {
+    try {
+      const client = this.getClient()
+
+      // Determine the from number based on channel
+      let from: string
+      if (params.channel === 'whatsapp') {
+        const number = params.fromNumber || this.whatsappFromNumber
+        if (!number) {
+          throw new Error('WhatsApp number not configured')
+        }
+        from = `whatsapp:${number}`
+      } else {
+        from = params.fromNumber || this.defaultFromNumber || ''
+        if (!from) {
+          throw new Error('SMS number not configured')
+        }
+      }
+
+      // Format the to number for WhatsApp
+      const to = params.channel === 'whatsapp'
+        ? `whatsapp:${params.to}`
+        : params.to
+
+      const messageOptions: {
+        body?: string
+        contentSid?: string
+        contentVariables?: string
+        from: string
+        to: string
+        statusCallback?: string
+      } = {
+        from,
+        to
+      }
+
+      // Templates are Content API items; the approved body replaces ours
+      if (params.template && params.channel === 'whatsapp') {
+        messageOptions.contentSid = params.template.id
+        messageOptions.contentVariables = JSON.stringify(params.template.variables)
+      } else {
+        messageOptions.body = params.body
+      }
+
+      // Add status callback URL if provided
+      if (params.statusCallback) {
+        messageOptions.statusCallback = params.statusCallback
+      }
+
+      const message = await client.messages.create(messageOptions)
+
+      return {
+        success: true,
+        sid: message.sid,
+        status: message.status
+      }
+    } catch (error) {
+      console.error('Twilio send error:', error)
+
+      // Check for specific Twilio error codes
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error sending message'
+
+      // Detect opt-out/unsubscribed error (Twilio error code 21610)
+      if (errorMessage.includes('unsubscribed') ||
+          errorMessage.includes('21610') ||
+          errorMessage.includes('blacklist')) {
+        return {
+          success: false,
+          error: 'Recipient has opted out via Twilio. To re-enable messaging, remove them from the opt-out list in Twilio Console → Messaging → Opt-Out Management.'
+        }
+      }
+
+      return {
+        success: false,
+        error: errorMessage,
+        retryable: isRetryableTwilioError(error)
+      }
+    }
+  }
+
+  /**
+   * Validate the X-Twilio-Signature header
+   */
+  validateRequest(request: MessagingWebhookRequest): boolean {
+    if (!this.authToken) {
+      console.warn('Cannot validate Twilio request: auth token not configured')
+      return false
+    }
+
+    const signature = request.headers.get('x-twilio-signature') || ''
+    return twilio.validateRequest(this.authToken, signature, request.url, request.params)
+  }
+
+  parseInbound(request: MessagingWebhookRequest): InboundMessage | null {
+    const { params } = request
+    if (!params.MessageSid || !params.From) {
+      return null
+    }
+
+    // e.g., "+1234567890" or "whatsapp:+1234567890"
+    const isWhatsApp = params.From.startsWith('whatsapp:')
+
+    return {
+      messageSid: params.MessageSid,
+      from: formatPhoneNumber(params.From.replace('whatsapp:', '')),
+      to: params.To ? formatPhoneNumber(params.To.replace('whatsapp:', '')) : '',
+      body: params.Body || '',
+      channel: isWhatsApp ? 'whatsapp' : 'sms',
+      media: parseTwilioMedia(params),
+      // Set if Twilio detected opt-out
+      providerOptOut: params.OptOutType === 'STOP',
+    }
+  }
+
+  parseStatus(request: MessagingWebhookRequest): StatusUpdate | null {
+    const { params } = request
+    if (!params.MessageSid || !params.MessageStatus) {
+      return null
+    }
+
+    return {
+      messageSid: params.MessageSid,
+      status: STATUS_MAP[params.MessageStatus] || 'sent',
+      providerStatus: params.MessageStatus,
+      errorCode: params.ErrorCode || undefined,
+      errorMessage: params.ErrorMessage || undefined,
+    }
+  }
+
+  /**
+   * Media URLs need the account's credentials when HTTP auth is enforced on media
+   */
+  async fetchMedia(url: string): Promise<Response> {
+    const headers: Record<string, string> = {}
+    if (this.accountSid && this.authToken) {
+      headers.Authorization = `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64')}`
+    }
+    return fetch(url, { headers })
+  }
+
+  /**
+   * Reply with TwiML; a message here is sent back to the sender by Twilio
+   */
+  inboundResponse(message?: string): Response {
+    const twiml = message
+      ? `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escapeXml(message)}</Message></Response>`
+      : '<?xml version="1.0" encoding="UTF-8"?><Response></Response>'
+
+    return new Response(twiml, {
+      headers: {
+        'Content-Type': 'text/xml'
+      }
+    })
+  }
+}
+
+/**
+ * Twilio sends attachments as MediaUrl0..n with MediaContentType0..n
+ * Shared with the loopback provider, which takes the same fields
+ */
+export function parseTwilioMedia(params: Record<string, string>): InboundMedia[] {
+  const count = parseInt(params.NumMedia || '0', 10) || 0
+  const media: InboundMedia[] = []
+  for (let i = 0; i < count; i++) {
+    if (params[`MediaUrl${i}`]) {
+      media.push({
+        url: params[`MediaUrl${i}`],
+        contentType: params[`MediaContentType${i}`] || 'application/octet-stream',
+      })
+    }
+  }
+  return media
+}
+
+// Escape XML special characters
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Whether a failed send is worth trying again
+ * REST errors carry the HTTP status and Twilio error code; network failures
+ * (ECONNRESET, ETIMEDOUT, ...) only a string code
+ */
+export function isRetryableTwilioError(error: unknown): boolean {
+  const { status, code } = (error ?? {}) as { status?: number; code?: number | string }
+
+  if (typeof code === 'number' && RETRYABLE_ERROR_CODES.includes(code)) return true
+  if (typeof status === 'number') return status === 429 || status >= 500
+  return typeof code === 'string'
+}
@@ -0,0 +1,254 @@
+/**
+ * Vonage Messaging Provider
+ * Implements MessagingProvider for the Vonage Messages API (SMS and WhatsApp)
+ *
+ * Set VONAGE_API_KEY/VONAGE_API_SECRET, a default VONAGE_PHONE_NUMBER (and
+ * VONAGE_WHATSAPP_NUMBER), and VONAGE_SIGNATURE_SECRET with signed webhooks
+ * enabled on the Vonage application. Point its inbound and status URLs at
+ * /api/webhooks/vonage/inbound and /api/webhooks/vonage/status.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto'
+import {
+  DeliveryStatus,
+  InboundMedia,
+  InboundMessage,
+  MessagingProvider,
+  MessagingProviderType,
+  MessagingWebhookRequest,
+  SendMessageParams,
+  SendMessageResult,
+  StatusUpdate,
+  TemplateMessage,
+} from '../types'
+import { formatPhoneNumber } from '../phone'
+
+const MESSAGES_API_URL = 'https://api.nexmo.com/v1/messages'
+
+/** How far a signed webhook's issued-at time may be from now before it's treated as a replay */
+const SIGNATURE_MAX_AGE_SECONDS = 5 * 60
+
+// Map Vonage status to our status
+const STATUS_MAP: Record<string, DeliveryStatus> = {
+  submitted: 'sent',
+  delivered: 'delivered',
+  read: 'delivered', // WhatsApp read receipt
+  rejected: 'failed',
+  undeliverable: 'failed',
+}
+
+/**
+ * Message types that carry an attachment rather than text, with the MIME type to
+ * assume - Vonage gives the kind of file but not its exact type
+ */
+const MEDIA_TYPES: Record<string, string> = {
+  image: 'image/*',
+  audio: 'audio/*',
+  video: 'video/*',
+  file: 'application/octet-stream',
+  vcard: 'text/vcard',
+}
+
+export class VonageMessagingProvider implements MessagingProvider {
+  readonly providerType: MessagingProviderType = 'vonage'
+
+  private apiKey = process.env.VONAGE_API_KEY
+  private apiSecret = process.env.VONAGE_API_SECRET
+  private signatureSecret = process.env.VONAGE_SIGNATURE_SECRET
+  private defaultFromNumber = process.env.VONAGE_PHONE_NUMBER
+  private whatsappFromNumber = process.env.VONAGE_WHATSAPP_NUMBER
+
+  isConfigured(): boolean {
+    return !!(this.apiKey && this.apiSecret && (this.defaultFromNumber || this.whatsappFromNumber))
+  }
+
+  async send(params: SendMessageParams): Promise<SendMessageResult> {
+    try {
+      if (!this.apiKey || !this.apiSecret) {
+        throw new Error('Vonage credentials not configured. Set VONAGE_API_KEY and VONAGE_API_SECRET environment variables.')
+      }
+
+      const from = params.fromNumber ||
+        (params.channel === 'whatsapp' ? this.whatsappFromNumber : this.defaultFromNumber)
+      if (!from) {
+        throw new Error(`${params.channel === 'whatsapp' ? 'WhatsApp' : 'SMS'} number not configured`)
+      }
+
+      const response = await fetch(MESSAGES_API_URL, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${this.apiKey}:${this.apiSecret}`).toString('base64')}`,
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+        body: JSON.stringify({
+          channel: params.channel,
+          // Vonage takes numbers without the leading +
+          to: toVonageNumber(params.to),
+          from: toVonageNumber(from),
+          ...(params.template && params.channel === 'whatsapp'
+            ? toVonageTemplate(params.template)
+            : { message_type: 'text', text: params.body }),
+          ...(params.statusCallback ? { webhook_url: params.statusCallback } : {}),
+        }),
+      })
+
+      const data = await response.json().catch(() => ({})) as {
+        message_uuid?: string
+        title?: string
+        detail?: string
+      }
+
+      if (!response.ok || !data.message_uuid) {
+        const error = data.detail || data.title || `Vonage API error: ${response.status}`
+        console.error('Vonage send error:', { status: response.status, error })
+        return {
+          success: false,
+          error,
+          // Throttled or a Vonage-side failure - worth trying again later
+          retryable: response.status === 429 || response.status >= 500
+        }
+      }
+
+      return {
+        success: true,
+        sid: data.message_uuid,
+        status: 'submitted'
+      }
+    } catch (error) {
+      console.error('Vonage send error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error sending message',
+        // fetch throws TypeError when the request never reached Vonage
+        retryable: error instanceof TypeError
+      }
+    }
+  }
+
+  /**
+   * Verify a signed webhook: an HS256 JWT in the Authorization header whose
+   * payload_hash claim is the SHA-256 of the body, issued within the last few minutes
+   */
+  validateRequest(request: MessagingWebhookRequest): boolean {
+    if (!this.signatureSecret) {
+      console.warn('Cannot validate Vonage request: signature secret not configured')
+      return false
+    }
+
+    const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') || ''
+    const [header, payload, signature] = token.split('.')
+    if (!header || !payload || !signature) {
+      return false
+    }
+
+    const expected = createHmac('sha256', this.signatureSecret).update(`${header}.${payload}`).digest()
+    const actual = Buffer.from(signature, 'base64url')
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return false
+    }
+
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as {
+        payload_hash?: string
+        iat?: number
+      }
+      if (!claims.payload_hash || typeof claims.iat !== 'number') {
+        return false
+      }
+      if (Math.abs(Date.now() / 1000 - claims.iat) > SIGNATURE_MAX_AGE_SECONDS) {
+        return false
+      }
+      const bodyHash = createHash('sha256').update(request.rawBody).digest('hex')
+      return claims.payload_hash === bodyHash
+    } catch {
+      return false
+    }
+  }
+
+  parseInbound(request: MessagingWebhookRequest): InboundMessage | null {
+    const { params } = request
+    if (!params.message_uuid || !params.from || params.status) {
+      return null
+    }
+
+    return {
+      messageSid: params.message_uuid,
+      from: formatPhoneNumber(params.from),
+      to: params.to ? formatPhoneNumber(params.to) : '',
+      body: params.text || parseJson<{ caption?: string }>(params[params.message_type])?.caption || '',
+      channel: params.channel === 'whatsapp' ? 'whatsapp' : 'sms',
+      media: parseVonageMedia(params),
+      providerOptOut: false,
+    }
+  }
+
+  parseStatus(request: MessagingWebhookRequest): StatusUpdate | null {
+    const { params } = request
+    if (!params.message_uuid || !params.status) {
+      return null
+    }
+
+    const error = parseJson<{ type?: string; title?: string; detail?: string }>(params.error)
+
+    return {
+      messageSid: params.message_uuid,
+      status: STATUS_MAP[params.status] || 'sent',
+      providerStatus: params.status,
+      errorCode: error?.type?.split(/[/#]/).pop(),
+      errorMessage: error?.detail || error?.title,
+    }
+  }
+
+  /**
+   * Inbound media URLs are fetched with the account's credentials
+   */
+  async fetchMedia(url: string): Promise<Response> {
+    const headers: Record<string, string> = {}
+    if (this.apiKey && this.apiSecret) {
+      headers.Authorization = `Basic ${Buffer.from(`${this.apiKey}:${this.apiSecret}`).toString('base64')}`
+    }
+    return fetch(url, { headers })
+  }
+
+  /**
+   * Vonage only needs a 2xx - replies are always sent through the API
+   */
+  inboundResponse(): Response {
+    return new Response(null, { status: 200 })
+  }
+}
+
+function toVonageNumber(number: string): string {
+  return number.replace(/^\+/, '')
+}
+
+/** Vonage takes template parameters as a list, in placeholder order */
+function toVonageTemplate(template: TemplateMessage) {
+  const parameters = Object.keys(template.variables)
+    .sort((a, b) => parseInt(a, 10) - parseInt(b, 10))
+    .map((position) => template.variables[position])
+
+  return {
+    message_type: 'template',
+    template: { name: template.id, parameters },
+    whatsapp: { policy: 'deterministic', locale: template.language },
+  }
+}
+
+/** Nested objects (error, image, audio, ...) arrive JSON-encoded in the flattened params */
+function parseJson<T extends object>(value: string | undefined): T | null {
+  if (!value) return null
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return { detail: value } as T
+  }
+}
+
+/** The attachment is an object named after the message type: {"image": {"url": ...}} */
+function parseVonageMedia(params: Record<string, string>): InboundMedia[] {
+  const contentType = MEDIA_TYPES[params.message_type]
+  const url = contentType ? parseJson<{ url?: string }>(params[params.message_type])?.url : undefined
+  return contentType && url ? [{ url, contentType }] : []
+}
@@ -0,0 +1,66 @@
+/**
+ * Outbound Queue State
+ * How a queued message is shown in the conversation view
+ *
+ * Client-safe (no server imports) so the contact page and simulator can use it.
+ */
+
+import { OutboundQueueItem } from '@/types/database'
+
+export type QueueStateItem = Pick<
+  OutboundQueueItem,
+  'message_id' | 'status' | 'send_at' | 'attempts' | 'max_attempts' | 'last_error'
+>
+
+export interface QueueState {
+  label: string
+  variant: 'secondary' | 'warning' | 'destructive'
+  /** Longer explanation, shown on hover */
+  detail: string
+}
+
+/**
+ * Returns null once the message has been handed to the provider
+ * (its delivery status takes over from there)
+ */
+export function describeQueueState(item: QueueStateItem): QueueState | null {
+  const at = new Date(item.send_at).toLocaleTimeString()
+
+  switch (item.status) {
+    case 'sent':
+      return null
+    case 'sending':
+      return { label: 'Sending', variant: 'secondary', detail: `Attempt ${item.attempts} of ${item.max_attempts}` }
+    case 'dead':
+      return {
+        label: 'Dead letter',
+        variant: 'destructive',
+        detail: `Gave up after ${item.attempts} ${item.attempts === 1 ? 'attempt' : 'attempts'}: ${item.last_error || 'Unknown error'}`,
+      }
+    case 'queued':
+      return item.attempts > 0
+        ? {
+            label: `Retry ${item.attempts + 1}/${item.max_attempts}`,
+            variant: 'warning',
+            detail: `Next attempt at ${at} - last error: ${item.last_error || 'Unknown error'}`,
+          }
+        : { label: 'Scheduled', variant: 'secondary', detail: `Sends at ${at}` }
+  }
+}
+
+/**
+ * One-line summary of a contact's queue, e.g. "1 scheduled, 1 retrying"
+ */
+export function summarizeQueue(items: QueueStateItem[]): string {
+  const scheduled = items.filter((i) => (i.status === 'queued' && i.attempts === 0) || i.status === 'sending').length
+  const retrying = items.filter((i) => i.status === 'queued' && i.attempts > 0).length
+  const dead = items.filter((i) => i.status === 'dead').length
+
+  const parts = [
+    scheduled > 0 ? `${scheduled} scheduled` : null,
+    retrying > 0 ? `${retrying} retrying` : null,
+    dead > 0 ? `${dead} dead-lettered` : null,
+  ].filter(Boolean)
+
+  return parts.length > 0 ? parts.join(', ') : 'Empty'
+}
@@ -0,0 +1,80 @@
+/**
+ * Phone Simulator Payloads
+ * Twilio-shaped webhook bodies for the development phone simulator
+ *
+ * The simulator posts these to the loopback provider's webhooks, so inbound
+ * messages and status callbacks go through the same parsing, opt-out, AI and
+ * delivery tracking code as real carrier traffic. Client-safe (no server imports).
+ */
+
+import type { MessagingChannel } from './types'
+
+const SIMULATOR_ACCOUNT_SID = 'ACsimulator'
+
+/** Twilio-style 34 character id, e.g. SM followed by 32 hex characters */
+function simulatedSid(prefix: string): string {
+  const bytes = new Uint8Array(16)
+  crypto.getRandomValues(bytes)
+  return prefix + Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+function withChannel(number: string, channel: MessagingChannel): string {
+  return channel === 'whatsapp' ? `whatsapp:${number}` : number
+}
+
+/**
+ * Body of an inbound message webhook, as the carrier would send it
+ */
+export function buildInboundPayload(params: {
+  from: string
+  to: string
+  body: string
+  channel: MessagingChannel
+}): URLSearchParams {
+  const messageSid = simulatedSid('SM')
+
+  return new URLSearchParams({
+    ToCountry: '',
+    SmsMessageSid: messageSid,
+    NumMedia: '0',
+    SmsSid: messageSid,
+    SmsStatus: 'received',
+    Body: params.body,
+    To: withChannel(params.to, params.channel),
+    NumSegments: String(Math.max(1, Math.ceil(params.body.length / 160))),
+    MessageSid: messageSid,
+    AccountSid: SIMULATOR_ACCOUNT_SID,
+    From: withChannel(params.from, params.channel),
+    ApiVersion: '2010-04-01',
+  })
+}
+
+export const SIMULATED_FAILURE = {
+  code: '30003',
+  message: 'Unreachable destination handset',
+}
+
+/**
+ * Body of a status callback for a message the simulated phone "received"
+ */
+export function buildStatusPayload(params: {
+  messageSid: string
+  status: 'delivered' | 'failed'
+  from: string
+  to: string
+  channel: MessagingChannel
+}): URLSearchParams {
+  return new URLSearchParams({
+    MessageSid: params.messageSid,
+    SmsSid: params.messageSid,
+    MessageStatus: params.status,
+    SmsStatus: params.status,
+    To: withChannel(params.to, params.channel),
+    From: withChannel(params.from, params.channel),
+    AccountSid: SIMULATOR_ACCOUNT_SID,
+    ApiVersion: '2010-04-01',
+    ...(params.status === 'failed'
+      ? { ErrorCode: SIMULATED_FAILURE.code, ErrorMessage: SIMULATED_FAILURE.message }
+      : {}),
+  })
+}
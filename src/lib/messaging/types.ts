@@ -0,0 +1,122 @@
+/**
+ * Messaging Types
+ * Provider-agnostic interfaces for SMS and WhatsApp
+ */
+
+export type MessagingProviderType = 'twilio' | 'vonage' | 'loopback'
+
+export type MessagingChannel = 'sms' | 'whatsapp'
+
+/** Delivery states we track, whatever the provider calls them */
+export type DeliveryStatus = 'queued' | 'sent' | 'delivered' | 'failed'
+
+/**
+ * An approved WhatsApp template, sent instead of free-form text outside the session window
+ */
+export interface TemplateMessage {
+  /** Twilio Content SID or Vonage template name */
+  id: string
+  language: string
+  /** Placeholder values by position: {"1": "Sam"} */
+  variables: Record<string, string>
+}
+
+export interface SendMessageParams {
+  /** E.164, without any channel prefix */
+  to: string
+  /** The text sent, or the rendered template for template messages */
+  body: string
+  channel: MessagingChannel
+  /** Sending number (E.164); falls back to the provider's default for the channel */
+  fromNumber?: string
+  statusCallback?: string
+  /** WhatsApp only: send this template instead of the body */
+  template?: TemplateMessage
+}
+
+export interface SendMessageResult {
+  success: boolean
+  /** The provider's id for the message (Twilio MessageSid, Vonage message_uuid) */
+  sid?: string
+  status?: string
+  error?: string
+  /** The failure is temporary (rate limit, provider outage) and the send can be retried */
+  retryable?: boolean
+}
+
+/**
+ * A webhook request, read once so providers can both validate and parse it
+ */
+export interface MessagingWebhookRequest {
+  url: string
+  headers: Headers
+  /** The raw body, for signatures computed over it */
+  rawBody: string
+  /** Form fields, JSON fields or query parameters, whichever the provider sent */
+  params: Record<string, string>
+}
+
+/**
+ * An attachment on an inbound message
+ */
+export interface InboundMedia {
+  /** Where the provider hosts the file; fetch it with fetchMedia */
+  url: string
+  /** MIME type, or a family like "audio/*" when the provider only gives the kind */
+  contentType: string
+}
+
+/**
+ * An inbound message, normalized from the provider's payload
+ */
+export interface InboundMessage {
+  messageSid: string
+  /** E.164 sender, without any channel prefix */
+  from: string
+  /** E.164 number the message was sent to */
+  to: string
+  body: string
+  channel: MessagingChannel
+  media: InboundMedia[]
+  /** The provider itself recognised an opt-out keyword */
+  providerOptOut: boolean
+}
+
+export interface StatusUpdate {
+  messageSid: string
+  status: DeliveryStatus
+  /** The provider's own status name, for logs */
+  providerStatus: string
+  errorCode?: string
+  errorMessage?: string
+}
+
+/**
+ * Abstract interface that all messaging providers must implement
+ */
+export interface MessagingProvider {
+  readonly providerType: MessagingProviderType
+
+  /** Credentials and a default number are set */
+  isConfigured(): boolean
+
+  send(params: SendMessageParams): Promise<SendMessageResult>
+
+  /** Check the request came from the provider */
+  validateRequest(request: MessagingWebhookRequest): boolean
+
+  /** Returns null for payloads that aren't an inbound message */
+  parseInbound(request: MessagingWebhookRequest): InboundMessage | null
+
+  /** Returns null for payloads that aren't a status update */
+  parseStatus(request: MessagingWebhookRequest): StatusUpdate | null
+
+  /** Download an inbound attachment, with whatever credentials the provider needs */
+  fetchMedia(url: string): Promise<Response>
+
+  /**
+   * The HTTP response the provider expects from the inbound webhook
+   * An optional message is sent straight back to the sender where the provider supports it
+   */
+  inboundResponse(message?: string): Response
+}
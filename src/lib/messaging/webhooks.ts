@@ -0,0 +1,392 @@
+/**
+ * Messaging Webhooks
+ * Inbound message and status callback handling shared by every provider's routes
+ *
+ * Each provider has its own /api/webhooks/[provider]/inbound and /status routes;
+ * the provider validates and parses the request, and everything after that -
+ * opt-outs, the AI reply, delivery tracking - is the same for all of them.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { isOptOutMessage } from '@/lib/constants/opt-out'
+import { checkRateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+import { getMessagingProvider } from './index'
+import { MessagingProviderType, MessagingWebhookRequest } from './types'
+import { getSessionExpiry } from './whatsapp'
+import { bufferInboundMessage } from './inbound-buffer'
+import { isPoolNumber } from './number-pool'
+import { InboundRoute, findOptOutContacts, routeInboundMessage } from './inbound-routing'
+import { MessageMedia } from '@/types/database'
+
+/**
+ * Record an inbound message id before processing it
+ * Returns false if it was already recorded - the provider is retrying a webhook we
+ * accepted (usually after a timeout), so it must not be stored or answered again.
+ * If the receipt can't be written we carry on rather than drop the message.
+ */
+async function claimInboundMessage(
+  providerType: MessagingProviderType,
+  messageSid: string
+): Promise<boolean> {
+  const supabase = createClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('inbound_message_receipts')
+    .insert({ provider: providerType, message_sid: messageSid })
+
+  if (!error) return true
+
+  // Unique violation: seen before
+  if (error.code === '23505') return false
+
+  console.warn('[Webhook] Could not record inbound message receipt:', {
+    provider: providerType,
+    messageSid,
+    error: error.message
+  })
+  return true
+}
+
+/**
+ * Forget an inbound message id so the provider's retry is processed
+ * (used when handling it failed before anything was saved)
+ */
+async function releaseInboundMessage(
+  providerType: MessagingProviderType,
+  messageSid: string
+): Promise<void> {
+  const supabase = createClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await (supabase as any)
+    .from('inbound_message_receipts')
+    .delete()
+    .eq('provider', providerType)
+    .eq('message_sid', messageSid)
+}
+
+/**
+ * Read a webhook request once: raw body plus its fields
+ * Form posts (Twilio), JSON (Vonage) and query strings are all flattened to strings
+ */
+export async function readWebhookRequest(request: Request): Promise<MessagingWebhookRequest> {
+  const rawBody = await request.text()
+  const contentType = request.headers.get('content-type') || ''
+  const params: Record<string, string> = {}
+
+  if (contentType.includes('application/json')) {
+    try {
+      const json = JSON.parse(rawBody) as Record<string, unknown>
+      for (const [key, value] of Object.entries(json)) {
+        if (value !== null && value !== undefined) {
+          params[key] = typeof value === 'string' ? value : JSON.stringify(value)
+        }
+      }
+    } catch {
+      // Not JSON after all - leave params empty
+    }
+  } else {
+    new URLSearchParams(rawBody).forEach((value, key) => {
+      params[key] = value
+    })
+  }
+
+  // Some providers can be set to send GET-style query parameters instead of a body
+  // (only then - Twilio signs the URL and body separately)
+  if (Object.keys(params).length === 0) {
+    new URL(request.url).searchParams.forEach((value, key) => {
+      params[key] = value
+    })
+  }
+
+  return { url: request.url, headers: request.headers, rawBody, params }
+}
+
+/**
+ * Handle an inbound SMS/WhatsApp message from a provider's webhook
+ */
+export async function handleInboundWebhook(
+  providerType: MessagingProviderType,
+  request: Request
+): Promise<Response> {
+  const provider = getMessagingProvider(providerType)
+
+  // Rate limiting for webhook endpoints (using higher limit)
+  // Use a fixed key since providers send from their own servers
+  const rateLimit = checkRateLimit(`webhook:${providerType}`, RATE_LIMITS.webhook)
+
+  if (!rateLimit.success) {
+    console.warn(`${providerType} webhook rate limit exceeded`)
+    return Response.json(
+      { error: 'Rate limit exceeded' },
+      { status: 429 }
+    )
+  }
+
+  // Set once the message id is recorded, so a failure can release it for the retry
+  let claimedSid: string | null = null
+  let inboundSaved = false
+
+  try {
+    const webhookRequest = await readWebhookRequest(request)
+
+    // Validate the request came from the provider (in production)
+    if (process.env.NODE_ENV === 'production' && !provider.validateRequest(webhookRequest)) {
+      console.error(`Invalid ${providerType} signature`)
+      return new Response('Unauthorized', { status: 401 })
+    }
+
+    const inbound = provider.parseInbound(webhookRequest)
+
+    if (!inbound) {
+      console.log(`Ignoring ${providerType} webhook without an inbound message`)
+      return provider.inboundResponse()
+    }
+
+    const { messageSid, body, channel } = inbound
+    const formattedPhone = inbound.from
+    const media: MessageMedia[] = inbound.media.map((m) => ({ url: m.url, content_type: m.contentType }))
+
+    // Providers retry webhooks that time out - acknowledge repeats without reprocessing
+    if (!(await claimInboundMessage(providerType, messageSid))) {
+      console.log('[Webhook] Duplicate inbound message, already processed:', { provider: providerType, messageSid })
+      return provider.inboundResponse()
+    }
+    claimedSid = messageSid
+
+    console.log(`Inbound ${channel} from ${formattedPhone}: ${body}`)
+
+    const supabase = createClient()
+
+    // Check for the provider's own opt-out detection or our keywords
+    // Using centralized opt-out detection from @/lib/constants/opt-out
+    const isOptOut = inbound.providerOptOut || isOptOutMessage(body, true)
+
+    if (isOptOut) {
+      console.log(`Opt-out detected from ${formattedPhone}`)
+
+      // Opt out the lead's contacts at the client(s) behind the number they texted -
+      // not their conversations with other clients
+      const optOutContacts = await findOptOutContacts(formattedPhone, inbound.to)
+
+      if (optOutContacts.length > 0) {
+        // Save the opt-out message and update contacts
+        for (const contact of optOutContacts) {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          await (supabase as any).from('messages').insert({
+            contact_id: contact.id,
+            direction: 'inbound',
+            channel,
+            content: body,
+            status: 'received',
+            twilio_sid: messageSid,
+            ai_generated: false
+          })
+
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          await (supabase as any)
+            .from('contacts')
+            .update({
+              status: 'opted_out',
+              opted_out: true,
+              opted_out_at: new Date().toISOString()
+            })
+            .eq('id', contact.id)
+        }
+      }
+
+      // Return empty response - carriers handle STOP themselves
+      return provider.inboundResponse()
+    }
+
+    if (media.length > 0) {
+      console.log(`Message includes ${media.length} media attachments:`, media.map((m) => m.content_type))
+    }
+
+    // Work out which contact (workflow and client) the message is for
+    let route: InboundRoute
+    try {
+      route = await routeInboundMessage({ from: formattedPhone, to: inbound.to, messageSid, body, media })
+    } catch (routeError) {
+      console.error('Error finding contact:', routeError)
+      return provider.inboundResponse("We couldn't process your message. Please try again later.")
+    }
+
+    const contact = route.contact
+
+    if (!contact) {
+      // No active contact found - a new lead, an unknown number, or too ambiguous to route
+      // (the message is kept on its routing event for the team)
+      console.log(`No active contact found for ${formattedPhone} on ${inbound.to}`)
+      return provider.inboundResponse() // Empty response - don't reply to unknown numbers
+    }
+
+    // Check if contact has opted out
+    if (contact.opted_out || contact.status === 'opted_out') {
+      console.log(`Contact ${formattedPhone} has opted out`)
+      return provider.inboundResponse() // Don't reply to opted out contacts
+    }
+
+    // Verify workflow is active
+    const { data: workflowData } = await supabase
+      .from('workflows')
+      .select('id, channel, status')
+      .eq('id', contact.workflow_id)
+      .single()
+
+    const workflow = workflowData as { id: string; channel: string; status: string } | null
+
+    if (!workflow || workflow.status !== 'active' || workflow.channel !== channel) {
+      console.log(`Workflow not active or channel mismatch for contact ${contact.id}`)
+      return provider.inboundResponse()
+    }
+
+    // Save inbound message first (for tracking)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (supabase as any).from('messages').insert({
+      contact_id: contact.id,
+      direction: 'inbound',
+      channel,
+      content: body,
+      status: 'received',
+      twilio_sid: messageSid,
+      media,
+      ai_generated: false,
+      awaiting_reply: true
+    })
+    inboundSaved = true
+
+    const contactUpdate: Record<string, string> = {}
+
+    // A WhatsApp message opens (or extends) the window for free-form replies
+    if (channel === 'whatsapp') {
+      contactUpdate.whatsapp_session_expires_at = getSessionExpiry().toISOString()
+    }
+
+    // A lead who texts us first is answered from the number they texted
+    if (!contact.sender_number && isPoolNumber(contact.workflows.clients, inbound.to)) {
+      contactUpdate.sender_number = inbound.to
+    }
+
+    if (Object.keys(contactUpdate).length > 0) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (supabase as any)
+        .from('contacts')
+        .update(contactUpdate)
+        .eq('id', contact.id)
+    }
+
+    // Leads often text in bursts - wait for a quiet moment and answer them all in one
+    // AI turn (run by the inbound turns job, which schedules the reply)
+    await bufferInboundMessage(contact.id)
+
+    return provider.inboundResponse()
+
+  } catch (error) {
+    console.error('Webhook error:', error)
+    if (claimedSid && !inboundSaved) {
+      await releaseInboundMessage(providerType, claimedSid).catch(() => {})
+    }
+    return provider.inboundResponse("We're experiencing technical difficulties. Please try again later.")
+  }
+}
+
+/**
+ * Handle a delivery status callback from a provider's webhook
+ * Called when message status changes (queued → sent → delivered/failed)
+ */
+export async function handleStatusWebhook(
+  providerType: MessagingProviderType,
+  request: Request
+): Promise<Response> {
+  const provider = getMessagingProvider(providerType)
+
+  try {
+    const webhookRequest = await readWebhookRequest(request)
+
+    // Validate the request came from the provider (in production)
+    if (process.env.NODE_ENV === 'production' && !provider.validateRequest(webhookRequest)) {
+      console.error(`Invalid ${providerType} signature on status callback`)
+      return new Response('Unauthorized', { status: 401 })
+    }
+
+    const update = provider.parseStatus(webhookRequest)
+
+    if (!update) {
+      return Response.json({ error: 'Missing message id or status' }, { status: 400 })
+    }
+
+    const { messageSid, status: dbStatus, errorCode, errorMessage } = update
+
+    console.log(`Status update for ${messageSid}: ${update.providerStatus}`)
+
+    const supabase = createClient()
+
+    // Update the message in our database
+    const updateData: {
+      status: string
+      error_message?: string
+    } = {
+      status: dbStatus
+    }
+
+    // Add error details if the message failed
+    if (dbStatus === 'failed' && (errorCode || errorMessage)) {
+      updateData.error_message = errorMessage
+        ? `${errorCode}: ${errorMessage}`
+        : `Error code: ${errorCode}`
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabase as any)
+      .from('messages')
+      .update(updateData)
+      .eq('twilio_sid', messageSid)
+
+    if (error) {
+      console.error('Error updating message status:', error)
+      // Don't return error to the provider - it will retry
+    }
+
+    // If the message failed, we might want to take action
+    if (dbStatus === 'failed') {
+      console.error(`Message ${messageSid} failed: ${errorCode} - ${errorMessage}`)
+
+      // Get the message to find the contact
+      const { data: messageData } = await supabase
+        .from('messages')
+        .select('contact_id')
+        .eq('twilio_sid', messageSid)
+        .single()
+
+      const message = messageData as { contact_id: string } | null
+
+      if (message) {
+        // Update contact status if multiple failures (could trigger manual review)
+        const { data: failedMessagesData } = await supabase
+          .from('messages')
+          .select('id')
+          .eq('contact_id', message.contact_id)
+          .eq('status', 'failed')
+          .eq('direction', 'outbound')
+
+        const failedMessages = failedMessagesData as Array<{ id: string }> | null
+        const failureCount = failedMessages?.length || 0
+
+        // If 3+ failures, mark contact for review
+        if (failureCount >= 3) {
+          console.log(`Contact ${message.contact_id} has ${failureCount} failed messages - marking for review`)
+          // Could update contact status or add a flag here
+        }
+      }
+    }
+
+    return Response.json({ success: true })
+
+  } catch (error) {
+    console.error('Status webhook error:', error)
+    // Return 200 to prevent provider retries on our errors
+    return Response.json({ success: false })
+  }
+}
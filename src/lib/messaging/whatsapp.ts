@@ -0,0 +1,106 @@
+/**
+ * WhatsApp Session Window
+ * Free-form WhatsApp messages are only allowed within 24 hours of the lead's last
+ * message; outside that window only approved templates can be sent
+ *
+ * Client-safe (no server imports) so the workflow editor and contact view can use it.
+ */
+
+import { Workflow, WhatsAppTemplate, WhatsAppTemplatePurpose } from '@/types/database'
+
+export const WHATSAPP_SESSION_HOURS = 24
+
+export const WHATSAPP_TEMPLATE_PURPOSES: WhatsAppTemplatePurpose[] = [
+  'initial_outreach',
+  'follow_up',
+  'reminder',
+  'post_meeting',
+  'appointment_update',
+  'general',
+]
+
+export const WHATSAPP_TEMPLATE_PURPOSE_LABELS: Record<WhatsAppTemplatePurpose, string> = {
+  initial_outreach: 'Initial outreach',
+  follow_up: 'Follow-up',
+  reminder: 'Appointment reminder',
+  post_meeting: 'Post-meeting',
+  appointment_update: 'Appointment update',
+  general: 'General (anything else)',
+}
+
+/** Variables a template placeholder can be filled with */
+export const WHATSAPP_TEMPLATE_VARIABLES: Record<string, string> = {
+  first_name: 'First name',
+  last_name: 'Last name',
+  full_name: 'Full name',
+  brand_name: 'Brand name',
+  company_name: 'Company name',
+  time: 'Appointment time',
+  location: 'Appointment location',
+  review_link: 'Review link',
+  message: 'Message text',
+}
+
+/**
+ * When the window closes, given when the lead's message arrived
+ */
+export function getSessionExpiry(receivedAt: Date = new Date()): Date {
+  return new Date(receivedAt.getTime() + WHATSAPP_SESSION_HOURS * 60 * 60 * 1000)
+}
+
+export function isSessionOpen(expiresAt: string | null, now: Date = new Date()): boolean {
+  return !!expiresAt && new Date(expiresAt).getTime() > now.getTime()
+}
+
+export function getWhatsAppTemplates(workflow: Pick<Workflow, 'whatsapp_templates'>): WhatsAppTemplate[] {
+  const templates = workflow.whatsapp_templates as WhatsAppTemplate[] | null
+  return Array.isArray(templates) ? templates.filter((t) => t.template_id) : []
+}
+
+/**
+ * The template for a purpose, falling back to the general one
+ */
+export function selectTemplate(
+  templates: WhatsAppTemplate[],
+  purpose: WhatsAppTemplatePurpose
+): WhatsAppTemplate | null {
+  return templates.find((t) => t.purpose === purpose) ||
+    templates.find((t) => t.purpose === 'general') ||
+    null
+}
+
+/**
+ * Placeholder values keyed by position ({"1": "Sam", "2": "Acme"})
+ * Templates reject empty parameters, so missing values become a dash
+ */
+export function buildTemplateVariables(
+  template: WhatsAppTemplate,
+  values: Record<string, string | null | undefined>
+): Record<string, string> {
+  const variables: Record<string, string> = {}
+  template.variables.forEach((key, index) => {
+    variables[String(index + 1)] = values[key]?.trim() || '-'
+  })
+  return variables
+}
+
+/**
+ * The template body as the lead sees it, for the message record
+ */
+export function renderTemplatePreview(template: WhatsAppTemplate, variables: Record<string, string>): string {
+  if (!template.preview) {
+    return `[WhatsApp template ${template.template_id}]`
+  }
+  return template.preview.replace(/\{\{(\d+)\}\}/g, (match, position) => variables[position] ?? match)
+}
+
+/**
+ * Highest {{n}} placeholder in a template body
+ */
+export function countPlaceholders(preview: string): number {
+  let highest = 0
+  for (const match of Array.from(preview.matchAll(/\{\{(\d+)\}\}/g))) {
+    highest = Math.max(highest, parseInt(match[1], 10))
+  }
+  return highest
+}
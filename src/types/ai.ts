@@ -1,6 +1,6 @@
 // AI Conversation Engine Types
 
-import { Contact } from './database'
+import { Contact, MessageMedia } from './database'
 
 // ============================================
 // Brand Research & Knowledge Types
@@ -144,6 +144,7 @@ export type ConversationGoal =
 export type Intent =
   | 'booking_interest'
   | 'reschedule'
+  | 'cancel'
   | 'question'
   | 'objection'
   | 'positive_response'
@@ -212,6 +213,15 @@ export interface MessageForPrompt {
   role: 'assistant' | 'user'
   content: string
   timestamp?: string
+  /** Images shown to the model with this message (user messages only) */
+  images?: PromptImage[]
+}
+
+export interface PromptImage {
+  /** image/jpeg, image/png, image/gif or image/webp */
+  mediaType: string
+  /** Base64-encoded image data */
+  data: string
 }
 
 export interface ContactForPrompt {
@@ -235,6 +245,8 @@ export interface WorkflowForPrompt {
 export interface ProcessMessageInput {
   contactId: string
   message: string
+  /** Attachments on the inbound message */
+  media?: MessageMedia[]
 }
 
 export interface ProcessMessageResult {
@@ -243,6 +255,8 @@ export interface ProcessMessageResult {
   contextUpdate: ConversationContext
   statusUpdate?: ContactStatusUpdate
   tokensUsed: TokenUsage
+  /** The saved outbound message carrying the response, still to be sent */
+  responseMessageId?: string
   shouldEscalate: boolean
   escalationReason?: string
 }
@@ -299,8 +313,14 @@ export interface BookingToolInput {
   day_preference?: 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday'
   time_24h?: string // HH:mm format
 
-  // For request_different_times
+  // For request_different_times and cancel_booking
   reason?: string
+
+  // For cancel_booking: whether to offer another time afterwards
+  offer_rebook?: boolean
+
+  // For select_appointment_type (type name as listed in the tool description)
+  appointment_type?: string
 }
 
 export type BookingToolName =
@@ -308,6 +328,8 @@ export type BookingToolName =
   | 'confirm_booking'
   | 'request_different_times'
   | 'request_human_help'
+  | 'select_appointment_type'
+  | 'cancel_booking'
 
 export interface ToolCall {
   name: BookingToolName
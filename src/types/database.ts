@@ -38,6 +38,16 @@ export type Database = {
           timezone: string
           business_hours: Json
           twilio_phone_number: string | null
+          pool_phone_numbers: string[]
+          local_presence: boolean
+          messaging_provider: 'twilio' | 'vonage' | 'loopback'
+          number_providers: Record<string, 'twilio' | 'vonage' | 'loopback'>
+          host_assignment: 'round_robin' | 'least_loaded'
+          holiday_region: string | null
+          date_overrides: Json
+          slot_hold_minutes: number
+          notify_leads_of_calendar_changes: boolean
+          review_url: string | null
           // Brand research fields
           brand_url: string | null
           brand_summary: string | null
@@ -60,6 +70,16 @@ export type Database = {
           timezone?: string
           business_hours?: Json
           twilio_phone_number?: string | null
+          pool_phone_numbers?: string[]
+          local_presence?: boolean
+          messaging_provider?: 'twilio' | 'vonage' | 'loopback'
+          number_providers?: Record<string, 'twilio' | 'vonage' | 'loopback'>
+          host_assignment?: 'round_robin' | 'least_loaded'
+          holiday_region?: string | null
+          date_overrides?: Json
+          slot_hold_minutes?: number
+          notify_leads_of_calendar_changes?: boolean
+          review_url?: string | null
           // Brand research fields
           brand_url?: string | null
           brand_summary?: string | null
@@ -82,6 +102,16 @@ export type Database = {
           timezone?: string
           business_hours?: Json
           twilio_phone_number?: string | null
+          pool_phone_numbers?: string[]
+          local_presence?: boolean
+          messaging_provider?: 'twilio' | 'vonage' | 'loopback'
+          number_providers?: Record<string, 'twilio' | 'vonage' | 'loopback'>
+          host_assignment?: 'round_robin' | 'least_loaded'
+          holiday_region?: string | null
+          date_overrides?: Json
+          slot_hold_minutes?: number
+          notify_leads_of_calendar_changes?: boolean
+          review_url?: string | null
           // Brand research fields
           brand_url?: string | null
           brand_summary?: string | null
@@ -101,33 +131,54 @@ export type Database = {
         Row: {
           id: string
           client_id: string
+          host_id: string | null
           provider: string
           access_token: string
           refresh_token: string
           token_expires_at: string | null
           calendar_id: string | null
+          server_url: string | null
+          busy_calendar_ids: string[]
+          watch_id: string | null
+          watch_resource_id: string | null
+          watch_token: string | null
+          watch_expires_at: string | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
           client_id: string
+          host_id?: string | null
           provider?: string
           access_token: string
           refresh_token: string
           token_expires_at?: string | null
           calendar_id?: string | null
+          server_url?: string | null
+          busy_calendar_ids?: string[]
+          watch_id?: string | null
+          watch_resource_id?: string | null
+          watch_token?: string | null
+          watch_expires_at?: string | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
           client_id?: string
+          host_id?: string | null
           provider?: string
           access_token?: string
           refresh_token?: string
           token_expires_at?: string | null
           calendar_id?: string | null
+          server_url?: string | null
+          busy_calendar_ids?: string[]
+          watch_id?: string | null
+          watch_resource_id?: string | null
+          watch_token?: string | null
+          watch_expires_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -147,6 +198,12 @@ export type Database = {
           follow_up_delay_hours: number
           follow_up_templates: Json
           appointment_duration_minutes: number
+          appointment_types: Json
+          reminder_templates: Json
+          no_show_templates: Json
+          completed_templates: Json
+          email_subject: string | null
+          whatsapp_templates: Json
           qualification_criteria: string | null
           created_at: string
           updated_at: string
@@ -165,6 +222,12 @@ export type Database = {
           follow_up_delay_hours?: number
           follow_up_templates?: Json
           appointment_duration_minutes?: number
+          appointment_types?: Json
+          reminder_templates?: Json
+          no_show_templates?: Json
+          completed_templates?: Json
+          email_subject?: string | null
+          whatsapp_templates?: Json
           qualification_criteria?: string | null
           created_at?: string
           updated_at?: string
@@ -183,6 +246,12 @@ export type Database = {
           follow_up_delay_hours?: number
           follow_up_templates?: Json
           appointment_duration_minutes?: number
+          appointment_types?: Json
+          reminder_templates?: Json
+          no_show_templates?: Json
+          completed_templates?: Json
+          email_subject?: string | null
+          whatsapp_templates?: Json
           qualification_criteria?: string | null
           created_at?: string
           updated_at?: string
@@ -205,6 +274,10 @@ export type Database = {
           conversation_context: Json
           created_at: string
           last_message_at: string | null
+          whatsapp_session_expires_at: string | null
+          inbound_turn_due_at: string | null
+          ai_turn_locked_until: string | null
+          sender_number: string | null
         }
         Insert: {
           id?: string
@@ -222,6 +295,10 @@ export type Database = {
           conversation_context?: Json
           created_at?: string
           last_message_at?: string | null
+          whatsapp_session_expires_at?: string | null
+          inbound_turn_due_at?: string | null
+          ai_turn_locked_until?: string | null
+          sender_number?: string | null
         }
         Update: {
           id?: string
@@ -239,17 +316,27 @@ export type Database = {
           conversation_context?: Json
           created_at?: string
           last_message_at?: string | null
+          whatsapp_session_expires_at?: string | null
+          inbound_turn_due_at?: string | null
+          ai_turn_locked_until?: string | null
+          sender_number?: string | null
         }
       }
       messages: {
         Row: {
           id: string
           contact_id: string
-          direction: 'inbound' | 'outbound'
+          direction: 'inbound' | 'outbound' | 'system'
           channel: 'sms' | 'whatsapp' | 'email'
           content: string
           status: 'pending' | 'queued' | 'sent' | 'delivered' | 'failed' | 'received'
           twilio_sid: string | null
+          email_message_id: string | null
+          whatsapp_template_id: string | null
+          whatsapp_template_variables: Json | null
+          media: Json
+          awaiting_reply: boolean
+          opt_out_confirmation: boolean
           error_message: string | null
           ai_generated: boolean
           tokens_used: number | null
@@ -262,11 +349,17 @@ export type Database = {
         Insert: {
           id?: string
           contact_id: string
-          direction: 'inbound' | 'outbound'
+          direction: 'inbound' | 'outbound' | 'system'
           channel: 'sms' | 'whatsapp' | 'email'
           content: string
           status?: 'pending' | 'queued' | 'sent' | 'delivered' | 'failed' | 'received'
           twilio_sid?: string | null
+          email_message_id?: string | null
+          whatsapp_template_id?: string | null
+          whatsapp_template_variables?: Json | null
+          media?: Json
+          awaiting_reply?: boolean
+          opt_out_confirmation?: boolean
           error_message?: string | null
           ai_generated?: boolean
           tokens_used?: number | null
@@ -279,11 +372,17 @@ export type Database = {
         Update: {
           id?: string
           contact_id?: string
-          direction?: 'inbound' | 'outbound'
+          direction?: 'inbound' | 'outbound' | 'system'
           channel?: 'sms' | 'whatsapp' | 'email'
           content?: string
           status?: 'pending' | 'queued' | 'sent' | 'delivered' | 'failed' | 'received'
           twilio_sid?: string | null
+          email_message_id?: string | null
+          whatsapp_template_id?: string | null
+          whatsapp_template_variables?: Json | null
+          media?: Json
+          awaiting_reply?: boolean
+          opt_out_confirmation?: boolean
           error_message?: string | null
           ai_generated?: boolean
           tokens_used?: number | null
@@ -300,35 +399,251 @@ export type Database = {
           contact_id: string
           workflow_id: string
           client_id: string
+          host_id: string | null
+          appointment_type_id: string | null
+          location: string | null
           calendar_event_id: string | null
           start_time: string
           end_time: string
           status: 'confirmed' | 'cancelled' | 'completed' | 'no_show'
           notes: string | null
+          reminders_sent: number
+          last_reminder_at: string | null
+          outcome_recorded_at: string | null
+          outcome_source: 'team' | 'calendar' | null
+          post_meeting_sent: number
+          last_post_meeting_at: string | null
+          cancelled_at: string | null
+          cancelled_by: 'contact' | 'team' | null
+          cancellation_reason: string | null
+          calendar_sequence: number
           created_at: string
+          updated_at: string
         }
         Insert: {
           id?: string
           contact_id: string
           workflow_id: string
           client_id: string
+          host_id?: string | null
+          appointment_type_id?: string | null
+          location?: string | null
           calendar_event_id?: string | null
           start_time: string
           end_time: string
           status?: 'confirmed' | 'cancelled' | 'completed' | 'no_show'
           notes?: string | null
+          reminders_sent?: number
+          last_reminder_at?: string | null
+          outcome_recorded_at?: string | null
+          outcome_source?: 'team' | 'calendar' | null
+          post_meeting_sent?: number
+          last_post_meeting_at?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: 'contact' | 'team' | null
+          cancellation_reason?: string | null
+          calendar_sequence?: number
           created_at?: string
+          updated_at?: string
         }
         Update: {
           id?: string
           contact_id?: string
           workflow_id?: string
           client_id?: string
+          host_id?: string | null
+          appointment_type_id?: string | null
+          location?: string | null
           calendar_event_id?: string | null
           start_time?: string
           end_time?: string
           status?: 'confirmed' | 'cancelled' | 'completed' | 'no_show'
           notes?: string | null
+          reminders_sent?: number
+          last_reminder_at?: string | null
+          outcome_recorded_at?: string | null
+          outcome_source?: 'team' | 'calendar' | null
+          post_meeting_sent?: number
+          last_post_meeting_at?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: 'contact' | 'team' | null
+          cancellation_reason?: string | null
+          calendar_sequence?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      hosts: {
+        Row: {
+          id: string
+          client_id: string
+          name: string
+          email: string | null
+          is_active: boolean
+          last_assigned_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          client_id: string
+          name: string
+          email?: string | null
+          is_active?: boolean
+          last_assigned_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          client_id?: string
+          name?: string
+          email?: string | null
+          is_active?: boolean
+          last_assigned_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      slot_holds: {
+        Row: {
+          id: string
+          client_id: string
+          contact_id: string
+          start_time: string
+          end_time: string
+          expires_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          client_id: string
+          contact_id: string
+          start_time: string
+          end_time: string
+          expires_at: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          client_id?: string
+          contact_id?: string
+          start_time?: string
+          end_time?: string
+          expires_at?: string
+          created_at?: string
+        }
+      }
+      outbound_queue: {
+        Row: {
+          id: string
+          message_id: string
+          contact_id: string
+          status: 'queued' | 'sending' | 'sent' | 'dead'
+          send_at: string
+          attempts: number
+          max_attempts: number
+          last_error: string | null
+          locked_until: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          message_id: string
+          contact_id: string
+          status?: 'queued' | 'sending' | 'sent' | 'dead'
+          send_at?: string
+          attempts?: number
+          max_attempts?: number
+          last_error?: string | null
+          locked_until?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          message_id?: string
+          contact_id?: string
+          status?: 'queued' | 'sending' | 'sent' | 'dead'
+          send_at?: string
+          attempts?: number
+          max_attempts?: number
+          last_error?: string | null
+          locked_until?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      inbound_message_receipts: {
+        Row: {
+          provider: string
+          message_sid: string
+          received_at: string
+        }
+        Insert: {
+          provider: string
+          message_sid: string
+          received_at?: string
+        }
+        Update: {
+          provider?: string
+          message_sid?: string
+          received_at?: string
+        }
+      }
+      active_conversations: {
+        Row: {
+          phone: string
+          contact_id: string
+          updated_at: string
+        }
+        Insert: {
+          phone: string
+          contact_id: string
+          updated_at?: string
+        }
+        Update: {
+          phone?: string
+          contact_id?: string
+          updated_at?: string
+        }
+      }
+      inbound_routing_events: {
+        Row: {
+          id: string
+          phone: string
+          receiving_number: string | null
+          message_sid: string | null
+          contact_id: string | null
+          reason: 'recent_outbound' | 'active_conversation' | 'newest_contact' | 'unresolved' | 'unmatched'
+          candidate_contact_ids: string[]
+          body: string | null
+          media: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          phone: string
+          receiving_number?: string | null
+          message_sid?: string | null
+          contact_id?: string | null
+          reason: 'recent_outbound' | 'active_conversation' | 'newest_contact' | 'unresolved' | 'unmatched'
+          candidate_contact_ids?: string[]
+          body?: string | null
+          media?: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          phone?: string
+          receiving_number?: string | null
+          message_sid?: string | null
+          contact_id?: string | null
+          reason?: 'recent_outbound' | 'active_conversation' | 'newest_contact' | 'unresolved' | 'unmatched'
+          candidate_contact_ids?: string[]
+          body?: string | null
+          media?: Json
           created_at?: string
         }
       }
@@ -368,6 +683,17 @@ export type AppointmentUpdate = Database['public']['Tables']['appointments']['Up
 
 export type CalendarConnection = Database['public']['Tables']['calendar_connections']['Row']
 
+export type Host = Database['public']['Tables']['hosts']['Row']
+export type HostInsert = Database['public']['Tables']['hosts']['Insert']
+export type HostUpdate = Database['public']['Tables']['hosts']['Update']
+
+export type SlotHold = Database['public']['Tables']['slot_holds']['Row']
+export type SlotHoldInsert = Database['public']['Tables']['slot_holds']['Insert']
+
+export type OutboundQueueItem = Database['public']['Tables']['outbound_queue']['Row']
+
+export type InboundRoutingEvent = Database['public']['Tables']['inbound_routing_events']['Row']
+
 // Business hours type
 export type BusinessHours = {
   monday: { start: string; end: string } | null
@@ -379,8 +705,72 @@ export type BusinessHours = {
   sunday: { start: string; end: string } | null
 }
 
+// One-off change to business hours on a date (stored in clients.date_overrides)
+export type DateOverride = {
+  date: string // YYYY-MM-DD in the client's timezone
+  hours: { start: string; end: string } | null // null = closed all day
+  label?: string
+}
+
+// Appointment type (stored in workflows.appointment_types)
+export type AppointmentLocationType = 'video' | 'phone' | 'google_meet' | 'teams' | 'in_person'
+
+export type AppointmentType = {
+  id: string
+  name: string
+  description?: string
+  duration_minutes: number
+  buffer_before_minutes: number
+  buffer_after_minutes: number
+  slot_interval_minutes: number
+  min_notice_hours: number
+  max_per_day: number | null
+  // 'video' uses the calendar's own meeting link (Google Meet or Teams)
+  location_type: AppointmentLocationType
+  // Address for in_person, dial-in number for phone (empty = we call the lead)
+  location_details?: string
+}
+
 // Follow-up template type
 export type FollowUpTemplate = {
   message: string
   delay_hours: number
 }
+
+// Approved WhatsApp template sent outside the 24-hour session window
+// variables[i] names the variable filling placeholder {{i+1}}
+export type WhatsAppTemplatePurpose =
+  | 'initial_outreach'
+  | 'follow_up'
+  | 'reminder'
+  | 'post_meeting'
+  | 'appointment_update'
+  | 'general'
+
+export type WhatsAppTemplate = {
+  purpose: WhatsAppTemplatePurpose
+  // Twilio Content SID (HX...) or Vonage template name
+  template_id: string
+  language: string
+  // Approved body with {{1}}-style placeholders, stored as the sent message's content
+  preview: string
+  variables: string[]
+}
+
+// Attachment on an inbound message; the file itself stays with the messaging provider
+export type MessageMedia = {
+  url: string
+  content_type: string
+}
+
+// Reminder sent offset_hours before a confirmed appointment; empty message = default wording
+export type ReminderTemplate = {
+  offset_hours: number
+  message: string
+}
+
+// Sent delay_hours after an appointment is marked completed or no-show; empty message = default wording
+export type PostMeetingTemplate = {
+  delay_hours: number
+  message: string
+}
@@ -0,0 +1,12 @@
+-- Add CalDAV / ICS subscription support to calendar_connections
+-- provider can now be 'google', 'outlook', 'caldav' or 'ics'
+
+ALTER TABLE calendar_connections
+ADD COLUMN IF NOT EXISTS server_url TEXT;
+
+-- Add comments explaining how non-OAuth providers use the existing columns
+COMMENT ON COLUMN calendar_connections.server_url IS
+'CalDAV server URL used for calendar discovery. NULL for OAuth providers and ICS subscriptions.';
+
+COMMENT ON COLUMN calendar_connections.calendar_id IS
+'Provider calendar ID. For CalDAV this is the calendar collection URL, for ICS subscriptions the feed URL.';
@@ -0,0 +1,11 @@
+-- Check several calendars for conflicts per connection
+-- calendar_id stays the single target calendar that bookings are written to
+
+ALTER TABLE calendar_connections
+ADD COLUMN IF NOT EXISTS busy_calendar_ids TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN calendar_connections.busy_calendar_ids IS
+'Additional calendars (e.g. shared team or holiday calendars) whose events block booking slots. The target calendar_id is always checked as well.';
+
+COMMENT ON COLUMN calendar_connections.calendar_id IS
+'Target calendar that booked appointments are written to. For CalDAV this is the calendar collection URL, for ICS subscriptions the feed URL.';
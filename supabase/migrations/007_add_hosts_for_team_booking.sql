@@ -0,0 +1,63 @@
+-- Team booking: several hosts per client, each with their own calendar connection
+-- Clients without hosts keep using their single client-level calendar connection
+
+-- ============================================
+-- HOSTS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS hosts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  email TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  last_assigned_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_hosts_client_id ON hosts(client_id);
+
+CREATE TRIGGER update_hosts_updated_at
+  BEFORE UPDATE ON hosts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE hosts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated full access to hosts" ON hosts
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role bypass for hosts" ON hosts
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+COMMENT ON COLUMN hosts.last_assigned_at IS
+'When this host was last given a booking. Round-robin assigns the free host with the oldest value.';
+
+-- ============================================
+-- HOST CALENDAR CONNECTIONS
+-- ============================================
+ALTER TABLE calendar_connections
+ADD COLUMN IF NOT EXISTS host_id UUID REFERENCES hosts(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_calendar_connections_host_id ON calendar_connections(host_id) WHERE host_id IS NOT NULL;
+
+COMMENT ON COLUMN calendar_connections.host_id IS
+'Host this calendar belongs to. NULL for the client-level connection used when a client has no hosts.';
+
+-- ============================================
+-- ASSIGNMENT
+-- ============================================
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS host_assignment TEXT NOT NULL DEFAULT 'round_robin'
+CHECK (host_assignment IN ('round_robin', 'least_loaded'));
+
+COMMENT ON COLUMN clients.host_assignment IS
+'How bookings are spread across hosts: round_robin (longest since last booking) or least_loaded (fewest upcoming appointments).';
+
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS host_id UUID REFERENCES hosts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_host_id ON appointments(host_id) WHERE host_id IS NOT NULL;
+
+COMMENT ON COLUMN appointments.host_id IS
+'Host who took the meeting. NULL for clients without hosts.';
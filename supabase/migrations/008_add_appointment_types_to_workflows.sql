@@ -0,0 +1,23 @@
+-- Appointment types per workflow (e.g. "15-min intro call", "60-min consultation")
+-- Stored as a JSON array like follow_up_templates; an empty array means a single
+-- call of appointment_duration_minutes with the default slot settings
+
+ALTER TABLE workflows
+ADD COLUMN IF NOT EXISTS appointment_types JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+COMMENT ON COLUMN workflows.appointment_types IS
+'JSON array of appointment types. Each item has: {id: string, name: string, description?: string, duration_minutes: number, buffer_before_minutes: number, buffer_after_minutes: number, slot_interval_minutes: number, min_notice_hours: number, max_per_day: number | null, location_type: "video" | "phone" | "google_meet" | "teams" | "in_person", location_details?: string}. The first item is the default.';
+
+-- Which type each appointment was booked as, and where it takes place
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS appointment_type_id TEXT,
+ADD COLUMN IF NOT EXISTS location TEXT;
+
+COMMENT ON COLUMN appointments.appointment_type_id IS
+'ID of the workflow appointment type this was booked as (null for workflows without appointment types)';
+
+COMMENT ON COLUMN appointments.location IS
+'Where the appointment takes place, e.g. an address or dial-in number. Video links live on the calendar event.';
+
+CREATE INDEX IF NOT EXISTS idx_appointments_type_start
+ON appointments(workflow_id, appointment_type_id, start_time);
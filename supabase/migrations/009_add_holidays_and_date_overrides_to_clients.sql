@@ -0,0 +1,12 @@
+-- Public holidays and one-off date overrides on top of the weekly business_hours template
+-- Both outreach scheduling and slot offering use them
+
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS holiday_region TEXT,
+ADD COLUMN IF NOT EXISTS date_overrides JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+COMMENT ON COLUMN clients.holiday_region IS
+'Built-in public holiday set the client closes for (e.g. "GB-ENG", "US"); null = no public holidays';
+
+COMMENT ON COLUMN clients.date_overrides IS
+'JSON array of per-date exceptions. Each item has: {date: "YYYY-MM-DD", hours: {start: "HH:mm", end: "HH:mm"} | null, label?: string}. null hours = closed that day. Overrides win over both business_hours and public holidays.';
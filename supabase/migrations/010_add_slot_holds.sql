@@ -0,0 +1,39 @@
+-- Slot holds: offered slots are reserved for the lead they were sent to for a short window,
+-- so another lead can't be offered (and book) the same time before the first one answers
+
+-- ============================================
+-- SLOT HOLDS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS slot_holds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_slot_holds_client_expires ON slot_holds(client_id, expires_at);
+CREATE INDEX IF NOT EXISTS idx_slot_holds_contact_id ON slot_holds(contact_id);
+
+ALTER TABLE slot_holds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated full access to slot_holds" ON slot_holds
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role bypass for slot_holds" ON slot_holds
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+COMMENT ON TABLE slot_holds IS
+'Slots currently on offer to a contact. Released when the contact books, declines or is sent new times; ignored once expires_at has passed.';
+
+-- ============================================
+-- HOLD WINDOW
+-- ============================================
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS slot_hold_minutes INTEGER NOT NULL DEFAULT 15
+CHECK (slot_hold_minutes >= 0);
+
+COMMENT ON COLUMN clients.slot_hold_minutes IS
+'How long offered slots stay reserved for the lead they were sent to. 0 = no holds.';
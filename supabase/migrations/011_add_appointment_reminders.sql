@@ -0,0 +1,20 @@
+-- Appointment reminders: workflow-level reminder templates sent ahead of each confirmed appointment
+-- New and existing workflows start with a 24-hour and a 1-hour reminder using the built-in wording
+
+ALTER TABLE workflows
+ADD COLUMN IF NOT EXISTS reminder_templates JSONB NOT NULL
+DEFAULT '[{"offset_hours": 24, "message": ""}, {"offset_hours": 1, "message": ""}]'::JSONB;
+
+COMMENT ON COLUMN workflows.reminder_templates IS
+'JSON array of appointment reminders. Each item has: {offset_hours: number, message: string}. offset_hours is how long before the start time it is sent; an empty message uses the built-in wording. Empty array = no reminders.';
+
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS reminders_sent INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_reminder_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN appointments.reminders_sent IS
+'How many of the workflow''s reminders (furthest-out first) are done. Reset to 0 when the appointment is rescheduled.';
+
+-- The reminder job scans upcoming confirmed appointments
+CREATE INDEX IF NOT EXISTS idx_appointments_confirmed_start_time ON appointments(start_time)
+WHERE status = 'confirmed';
@@ -0,0 +1,13 @@
+-- Appointment cancellations: record who cancelled and when, so analytics can separate
+-- leads cancelling in conversation from the team cancelling in the dashboard
+
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS cancelled_by TEXT CHECK (cancelled_by IN ('contact', 'team')),
+ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+
+COMMENT ON COLUMN appointments.cancelled_by IS
+'Who cancelled: contact (in conversation) or team (from the dashboard). NULL unless status is cancelled.';
+
+COMMENT ON COLUMN appointments.cancellation_reason IS
+'Reason the lead gave for cancelling, if any.';
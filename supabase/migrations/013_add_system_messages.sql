@@ -0,0 +1,11 @@
+-- System messages: notes in a contact's thread about things that happened outside the
+-- conversation (e.g. the lead rescheduling or cancelling from their booking link).
+-- They are shown to the team but never sent, and are left out of the AI's transcript.
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_direction_check;
+
+ALTER TABLE messages
+ADD CONSTRAINT messages_direction_check CHECK (direction IN ('inbound', 'outbound', 'system'));
+
+COMMENT ON COLUMN messages.direction IS
+'inbound (from the lead), outbound (to the lead) or system (a note in the thread that is never sent).';
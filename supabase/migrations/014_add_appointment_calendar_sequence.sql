@@ -0,0 +1,27 @@
+-- Calendar files for leads: each appointment has a public .ics file the lead can add to
+-- their own calendar. Its SEQUENCE must go up whenever the event changes so calendar
+-- apps replace the copy they imported rather than keeping a stale one.
+
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS calendar_sequence INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN appointments.calendar_sequence IS
+'RFC 5545 SEQUENCE of the lead''s .ics file. Bumped automatically when the time, location or status changes.';
+
+CREATE OR REPLACE FUNCTION bump_appointment_calendar_sequence()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.start_time IS DISTINCT FROM OLD.start_time
+    OR NEW.end_time IS DISTINCT FROM OLD.end_time
+    OR NEW.location IS DISTINCT FROM OLD.location
+    OR NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.calendar_sequence = OLD.calendar_sequence + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER bump_appointments_calendar_sequence
+  BEFORE UPDATE ON appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_appointment_calendar_sequence();
@@ -0,0 +1,31 @@
+-- Calendar sync: keep appointments in line with events moved or deleted directly in the
+-- calendar. Google and Outlook connections hold a push-notification channel; a periodic
+-- job reconciles everything as a fallback.
+
+ALTER TABLE calendar_connections
+ADD COLUMN IF NOT EXISTS watch_id TEXT,
+ADD COLUMN IF NOT EXISTS watch_resource_id TEXT,
+ADD COLUMN IF NOT EXISTS watch_token TEXT,
+ADD COLUMN IF NOT EXISTS watch_expires_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_calendar_connections_watch_id ON calendar_connections(watch_id);
+
+COMMENT ON COLUMN calendar_connections.watch_id IS
+'Google watch channel or Microsoft Graph subscription ID for change notifications. NULL for providers without push (CalDAV, ICS).';
+
+COMMENT ON COLUMN calendar_connections.watch_token IS
+'Secret the provider sends back with each notification, to check it is genuine.';
+
+-- Whether leads are texted when the team moves or deletes their appointment in the calendar
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS notify_leads_of_calendar_changes BOOLEAN NOT NULL DEFAULT false;
+
+-- When an appointment row last changed, so sync can leave alone appointments the booking
+-- flow is in the middle of updating (it changes the calendar before the row)
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+CREATE TRIGGER update_appointments_updated_at
+  BEFORE UPDATE ON appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,35 @@
+-- Appointment outcomes: once an appointment is marked completed or no-show (by the team, or
+-- from calendar attendance where the provider records it), the workflow's post-meeting
+-- sequence is sent - a "sorry we missed you" rebook message or a thank-you/review request
+
+ALTER TABLE workflows
+ADD COLUMN IF NOT EXISTS no_show_templates JSONB NOT NULL
+DEFAULT '[{"delay_hours": 1, "message": ""}]'::JSONB,
+ADD COLUMN IF NOT EXISTS completed_templates JSONB NOT NULL
+DEFAULT '[{"delay_hours": 2, "message": ""}]'::JSONB;
+
+COMMENT ON COLUMN workflows.no_show_templates IS
+'JSON array of messages sent after an appointment is marked no-show. Each item has: {delay_hours: number, message: string}. delay_hours is counted from when the outcome was recorded; an empty message uses the built-in wording. Empty array = nothing is sent.';
+
+COMMENT ON COLUMN workflows.completed_templates IS
+'JSON array of messages sent after an appointment is marked completed, in the same format as no_show_templates.';
+
+-- Where completed-meeting messages point leads to leave a review ({review_link})
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS review_url TEXT;
+
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS outcome_recorded_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS outcome_source TEXT CHECK (outcome_source IN ('team', 'calendar')),
+ADD COLUMN IF NOT EXISTS post_meeting_sent INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_post_meeting_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN appointments.outcome_recorded_at IS
+'When the appointment was marked completed or no-show. The post-meeting sequence is timed from here; NULL (e.g. outcomes set before this column existed) means no sequence is sent.';
+
+COMMENT ON COLUMN appointments.post_meeting_sent IS
+'How many messages of the post-meeting sequence for the current outcome are done. Reset to 0 when the outcome changes.';
+
+-- The post-meeting job scans recently recorded outcomes
+CREATE INDEX IF NOT EXISTS idx_appointments_outcome_recorded_at ON appointments(outcome_recorded_at)
+WHERE status IN ('completed', 'no_show');
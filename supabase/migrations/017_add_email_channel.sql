@@ -0,0 +1,18 @@
+-- Email channel: workflows on the 'email' channel send through the configured email
+-- provider and receive replies on an inbound webhook. Message-IDs are kept so replies
+-- thread onto one conversation per contact.
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS email_message_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_messages_email_message_id ON messages(email_message_id)
+WHERE email_message_id IS NOT NULL;
+
+COMMENT ON COLUMN messages.email_message_id IS
+'RFC 5322 Message-ID (with angle brackets) of an email message. Used to thread replies and to ignore redelivered inbound emails.';
+
+ALTER TABLE workflows
+ADD COLUMN IF NOT EXISTS email_subject TEXT;
+
+COMMENT ON COLUMN workflows.email_subject IS
+'Subject line of the email conversation (later messages use "Re: " + this). NULL = "Your enquiry with {brand_name}".';
@@ -0,0 +1,13 @@
+-- Messaging providers: each client's number is hosted on a provider chosen per number
+-- (Twilio, Vonage, or the loopback provider for development). Sends go out through that
+-- provider and its webhooks deliver replies and status updates.
+
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS messaging_provider TEXT NOT NULL DEFAULT 'twilio'
+CHECK (messaging_provider IN ('twilio', 'vonage', 'loopback'));
+
+COMMENT ON COLUMN clients.messaging_provider IS
+'Provider hosting twilio_phone_number (the column keeps its name for any provider): twilio, vonage or loopback (development only).';
+
+COMMENT ON COLUMN messages.twilio_sid IS
+'Provider message id (Twilio MessageSid, Vonage message_uuid, loopback id). Status callbacks are matched on it.';
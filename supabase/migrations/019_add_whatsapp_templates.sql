@@ -0,0 +1,37 @@
+-- WhatsApp session window: free-form WhatsApp messages are only allowed within 24 hours of
+-- the lead's last message. Outside that window the workflow's approved templates are sent
+-- instead, and free-form messages resume once the lead replies.
+
+ALTER TABLE contacts
+ADD COLUMN IF NOT EXISTS whatsapp_session_expires_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN contacts.whatsapp_session_expires_at IS
+'When the WhatsApp customer service window closes: 24 hours after the contact''s last inbound WhatsApp message. NULL = never opened (only templates can be sent).';
+
+-- Open windows for conversations already in progress
+UPDATE contacts
+SET whatsapp_session_expires_at = latest.received_at + INTERVAL '24 hours'
+FROM (
+  SELECT contact_id, MAX(created_at) AS received_at
+  FROM messages
+  WHERE direction = 'inbound' AND channel = 'whatsapp'
+  GROUP BY contact_id
+) AS latest
+WHERE contacts.id = latest.contact_id
+AND contacts.whatsapp_session_expires_at IS NULL;
+
+ALTER TABLE workflows
+ADD COLUMN IF NOT EXISTS whatsapp_templates JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+COMMENT ON COLUMN workflows.whatsapp_templates IS
+'JSON array of approved WhatsApp templates used outside the session window. Each item has: {purpose: string, template_id: string, language: string, preview: string, variables: string[]}. purpose is initial_outreach, follow_up, reminder, post_meeting, appointment_update or general (used when no template matches); template_id is the Twilio Content SID or the Vonage template name; variables[i] is the variable filling placeholder {{i+1}}.';
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS whatsapp_template_id TEXT,
+ADD COLUMN IF NOT EXISTS whatsapp_template_variables JSONB;
+
+COMMENT ON COLUMN messages.whatsapp_template_id IS
+'Template the message was sent as, because the WhatsApp session window was closed. NULL = free-form. content holds the rendered preview.';
+
+COMMENT ON COLUMN messages.whatsapp_template_variables IS
+'Placeholder values the template was sent with ({"1": "...", "2": "..."}), kept so a failed message can be retried as the same template.';
@@ -0,0 +1,9 @@
+-- Inbound media: photos, screenshots, voice notes and files sent by leads over MMS or
+-- WhatsApp. Only references are stored - the files stay with the messaging provider and
+-- are fetched through it when shown in the dashboard or passed to the AI.
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS media JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+COMMENT ON COLUMN messages.media IS
+'JSON array of attachments on an inbound message. Each item has: {url: string, content_type: string}. url is the provider''s media URL (which may need the provider''s credentials to fetch); content_type is the MIME type the provider reported, or a family like "audio/*" when it only gives the kind.';
@@ -0,0 +1,34 @@
+-- Inbound webhook idempotency: providers retry a webhook when it times out, so each inbound
+-- message id is recorded before any processing and a retry of one already seen is just
+-- acknowledged. AI replies are no longer sent inside the webhook request - they are saved
+-- as pending with a send_at (the "typing" delay) and sent by the scheduled replies job.
+
+CREATE TABLE IF NOT EXISTS inbound_message_receipts (
+  provider TEXT NOT NULL,
+  message_sid TEXT NOT NULL,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (provider, message_sid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbound_message_receipts_received_at
+ON inbound_message_receipts(received_at);
+
+COMMENT ON TABLE inbound_message_receipts IS
+'One row per inbound message id (Twilio MessageSid, Vonage message_uuid, loopback id) a webhook has accepted. Inserting a duplicate fails on the primary key, which marks the webhook as a retry. Rows older than 7 days are pruned by the scheduled replies job.';
+
+ALTER TABLE inbound_message_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated full access to inbound_message_receipts" ON inbound_message_receipts
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role bypass for inbound_message_receipts" ON inbound_message_receipts
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS send_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_messages_send_at
+ON messages(send_at) WHERE send_at IS NOT NULL AND status = 'pending';
+
+COMMENT ON COLUMN messages.send_at IS
+'For a scheduled outbound reply: when the scheduled replies job should send it. Cleared when the job claims the message.';
@@ -0,0 +1,26 @@
+-- Inbound buffering: leads often text in bursts ("hi", "yes interested", "what's the price?").
+-- Each inbound SMS/WhatsApp message is now buffered and the contact's AI turn is pushed back
+-- by a short quiet window; when it passes, the buffered messages are answered as one turn.
+-- A per-contact lock keeps two turns from running at once.
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS awaiting_reply BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_messages_awaiting_reply
+ON messages(contact_id, created_at) WHERE awaiting_reply = TRUE;
+
+COMMENT ON COLUMN messages.awaiting_reply IS
+'Inbound message buffered for the contact''s next AI turn. Cleared once the turn that answers it has run.';
+
+ALTER TABLE contacts
+ADD COLUMN IF NOT EXISTS inbound_turn_due_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS ai_turn_locked_until TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_inbound_turn_due_at
+ON contacts(inbound_turn_due_at) WHERE inbound_turn_due_at IS NOT NULL;
+
+COMMENT ON COLUMN contacts.inbound_turn_due_at IS
+'When the buffered inbound messages should be answered. Each new message pushes it back by the quiet window; cleared when the turn runs.';
+
+COMMENT ON COLUMN contacts.ai_turn_locked_until IS
+'Lock held while an AI turn runs for the contact, as a lease so a crashed run can''t hold it forever. Free when NULL or in the past.';
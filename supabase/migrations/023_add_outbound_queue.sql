@@ -0,0 +1,59 @@
+-- Outbound queue: every outbound message (initial outreach, follow-ups, AI replies,
+-- reminders, ...) is queued and sent by a worker. Temporary provider failures are retried
+-- with exponential backoff; messages that keep failing, or fail permanently, are
+-- dead-lettered and marked failed on the message.
+
+CREATE TABLE IF NOT EXISTS outbound_queue (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  message_id UUID NOT NULL UNIQUE REFERENCES messages(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sending', 'sent', 'dead')),
+  send_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  attempts INT NOT NULL DEFAULT 0,
+  max_attempts INT NOT NULL DEFAULT 5,
+  last_error TEXT,
+  locked_until TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbound_queue_due
+ON outbound_queue(send_at) WHERE status IN ('queued', 'sending');
+
+CREATE INDEX IF NOT EXISTS idx_outbound_queue_contact_id ON outbound_queue(contact_id);
+
+CREATE TRIGGER update_outbound_queue_updated_at
+  BEFORE UPDATE ON outbound_queue
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE outbound_queue IS
+'One row per outbound message. queued: waiting for send_at (first try or a retry); sending: claimed by a worker until locked_until; sent: handed to the provider; dead: failed permanently or ran out of attempts.';
+
+COMMENT ON COLUMN outbound_queue.send_at IS
+'When the message is next due: now for immediate sends, after the typing delay for AI replies, or the backoff time for a retry.';
+
+ALTER TABLE outbound_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated full access to outbound_queue" ON outbound_queue
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role bypass for outbound_queue" ON outbound_queue
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- Scheduled AI replies move into the queue, which replaces messages.send_at
+INSERT INTO outbound_queue (message_id, contact_id, send_at)
+SELECT id, contact_id, send_at
+FROM messages
+WHERE direction = 'outbound' AND status = 'pending' AND send_at IS NOT NULL
+ON CONFLICT (message_id) DO NOTHING;
+
+DROP INDEX IF EXISTS idx_messages_send_at;
+
+ALTER TABLE messages
+DROP COLUMN IF EXISTS send_at;
+
+COMMENT ON TABLE inbound_message_receipts IS
+'One row per inbound message id (Twilio MessageSid, Vonage message_uuid, loopback id) a webhook has accepted. Inserting a duplicate fails on the primary key, which marks the webhook as a retry. Rows older than 7 days are pruned by the inbound turns job.';
@@ -0,0 +1,23 @@
+-- Number pools: high-volume clients send from several numbers instead of one, to stay
+-- under carrier throughput limits and spam filtering. twilio_phone_number stays the
+-- primary number; each contact is pinned to the number that first messaged them so
+-- the whole conversation comes from (and is routed back through) the same number.
+
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS pool_phone_numbers TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS local_presence BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN clients.pool_phone_numbers IS
+'Additional numbers new contacts are spread across, on the same messaging provider. The primary twilio_phone_number is always part of the pool as well.';
+
+COMMENT ON COLUMN clients.local_presence IS
+'Prefer a pool number with the same area code as the lead when picking their number (North American numbers only).';
+
+ALTER TABLE contacts
+ADD COLUMN IF NOT EXISTS sender_number TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_phone_sender_number
+ON contacts(phone, sender_number);
+
+COMMENT ON COLUMN contacts.sender_number IS
+'Number the contact was first messaged from (or first messaged us on). Every later message uses it while it stays in the client''s pool, and inbound messages are matched to the contact by it.';
@@ -0,0 +1,54 @@
+-- Inbound routing: contacts are unique per (workflow_id, phone), so one person can be a
+-- contact in several workflows or clients. A reply is routed by the number it was sent to,
+-- then to the conversation we last messaged, then to an explicit active conversation set
+-- by the team. Every reply that needed one of those guesses is logged.
+
+CREATE TABLE IF NOT EXISTS active_conversations (
+  phone TEXT PRIMARY KEY,
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_active_conversations_contact_id ON active_conversations(contact_id);
+
+CREATE TRIGGER update_active_conversations_updated_at
+  BEFORE UPDATE ON active_conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE active_conversations IS
+'The conversation a lead''s replies go to when their number belongs to several contacts and neither the receiving number nor our last outbound message decides it. Set from the contact page.';
+
+ALTER TABLE active_conversations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated full access to active_conversations" ON active_conversations
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role bypass for active_conversations" ON active_conversations
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS inbound_routing_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  phone TEXT NOT NULL,
+  receiving_number TEXT,
+  message_sid TEXT,
+  -- NULL when the message was dropped rather than guessed across clients
+  contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('recent_outbound', 'active_conversation', 'newest_contact', 'unresolved')),
+  candidate_contact_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbound_routing_events_contact_id ON inbound_routing_events(contact_id);
+CREATE INDEX IF NOT EXISTS idx_inbound_routing_events_phone ON inbound_routing_events(phone);
+
+COMMENT ON TABLE inbound_routing_events IS
+'One row per inbound message that matched more than one contact after the receiving number was checked, with the rule that picked the contact (or unresolved when the candidates belonged to different clients and the message was not routed).';
+
+ALTER TABLE inbound_routing_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated full access to inbound_routing_events" ON inbound_routing_events
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role bypass for inbound_routing_events" ON inbound_routing_events
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
@@ -0,0 +1,6 @@
+-- Inbound email idempotency: mail relays retry on timeouts too, so an inbound email's
+-- Message-ID is recorded in inbound_message_receipts (provider 'email') before the
+-- reply is stored, the same way the SMS and WhatsApp webhooks claim their message ids.
+
+COMMENT ON TABLE inbound_message_receipts IS
+'One row per inbound message id (Twilio MessageSid, Vonage message_uuid, loopback id, email Message-ID) a webhook has accepted. Inserting a duplicate fails on the primary key, which marks the webhook as a retry. Rows older than 7 days are pruned by the inbound turns job.';
@@ -0,0 +1,9 @@
+-- Opt-out confirmations: the reply confirming an opt-out is saved after the contact is
+-- marked opted out, and the outbound queue refuses to message opted-out contacts. The
+-- confirmation is flagged so it is the one message that still goes out.
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS opt_out_confirmation BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN messages.opt_out_confirmation IS
+'The reply confirming the contact''s opt-out. Sent even though the contact is already opted out; every other outbound message to them is refused.';
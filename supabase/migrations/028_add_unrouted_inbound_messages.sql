@@ -0,0 +1,23 @@
+-- Unrouted inbound messages: a reply left unresolved across clients, or from a number no
+-- active contact reachable on the receiving number has, used to be dropped. Its text and
+-- attachments are now kept on its routing event and shown on the lead's contact pages.
+
+ALTER TABLE inbound_routing_events
+ADD COLUMN IF NOT EXISTS body TEXT,
+ADD COLUMN IF NOT EXISTS media JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+ALTER TABLE inbound_routing_events
+DROP CONSTRAINT IF EXISTS inbound_routing_events_reason_check;
+
+ALTER TABLE inbound_routing_events
+ADD CONSTRAINT inbound_routing_events_reason_check
+CHECK (reason IN ('recent_outbound', 'active_conversation', 'newest_contact', 'unresolved', 'unmatched'));
+
+COMMENT ON TABLE inbound_routing_events IS
+'One row per inbound message that matched more than one contact after the receiving number was checked, with the rule that picked the contact (or unresolved when the candidates belonged to different clients and the message was not routed), and one per message that matched no contact at all (unmatched).';
+
+COMMENT ON COLUMN inbound_routing_events.body IS
+'Text of a message that was not routed (unresolved or unmatched); NULL when it was saved to a contact''s thread.';
+
+COMMENT ON COLUMN inbound_routing_events.media IS
+'Attachment references of a message that was not routed, in the same shape as messages.media.';
@@ -0,0 +1,12 @@
+-- Per-number providers: a client's pool numbers don't all have to be on the same
+-- messaging provider. A number listed here is sent from (and its media fetched) through
+-- its own provider; every other number uses the client's messaging_provider.
+
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS number_providers JSONB NOT NULL DEFAULT '{}'::JSONB;
+
+COMMENT ON COLUMN clients.number_providers IS
+'Map of pool number (E.164) to the provider hosting it (twilio, vonage, loopback), for numbers that are not on the client''s messaging_provider.';
+
+COMMENT ON COLUMN clients.pool_phone_numbers IS
+'Additional numbers new contacts are spread across, on the client''s messaging provider unless number_providers names another. The primary twilio_phone_number is always part of the pool as well.';